@@ -11,6 +11,16 @@ function isPublicPath(pathname: string): boolean {
     return true;
   }
 
+  // Share links are opened by parents and classmates without an account; the page checks the token itself.
+  if (pathname.startsWith("/share/")) {
+    return true;
+  }
+
+  // Calendar apps fetch the subscription feed without cookies; the token in the path is the credential.
+  if (/^\/api\/calendar\/[^/]+$/.test(pathname)) {
+    return true;
+  }
+
   return false;
 }
 
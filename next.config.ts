@@ -1,8 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  serverExternalPackages: ["pdfkit"],
   outputFileTracingIncludes: {
     "/*": ["./data/catalog/**/*", "./data/resources/**/*"],
+    "/api/schedule/pdf": ["./node_modules/@fontsource/be-vietnam-pro/files/*.woff"],
   },
 };
 
@@ -0,0 +1,54 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import { diffCatalog, importCatalog, parseCatalogCsv, resolveDefaultCatalogPath } from "../src/lib/catalog";
+import { prisma } from "../src/lib/prisma";
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes("--dry-run");
+  const detachMissing = args.includes("--detach-missing");
+  const fileArg = args.find((arg) => !arg.startsWith("--"));
+  const input = fileArg ? path.resolve(process.cwd(), fileArg) : resolveDefaultCatalogPath();
+
+  const rows = parseCatalogCsv(fs.readFileSync(input));
+  const diff = await diffCatalog(rows, path.basename(input));
+
+  console.log(`Catalog ${input}: ${diff.total} courses`);
+  console.log(
+    `Diff: ${diff.added.length} new, ${diff.changed.length} changed, ${diff.unchanged} unchanged, ${diff.missing.length} missing from file`,
+  );
+  for (const program of diff.newPrograms) {
+    console.log(`  [program] ${program}`);
+  }
+  for (const section of diff.newSections) {
+    console.log(`  [section] ${section}`);
+  }
+  for (const item of diff.changed) {
+    console.log(
+      `  [changed] ${item.code}: ${item.changes.map((change) => `${change.field} ${change.before ?? "∅"} → ${change.after}`).join("; ")}`,
+    );
+  }
+  if (diff.missing.length > 0) {
+    console.log(`  [missing] ${diff.missing.join(", ")}${detachMissing ? " (will be detached from their sections)" : ""}`);
+  }
+
+  if (dryRun) {
+    console.log("Dry run, nothing written.");
+    return;
+  }
+
+  const summary = await importCatalog(rows, { detachMissing });
+  console.log(
+    `Imported: ${summary.added} added, ${summary.updated} updated, ${summary.unchanged} unchanged, ${summary.detached} detached (${summary.programs} programs, ${summary.sections} sections)`,
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error("Catalog import failed:", error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
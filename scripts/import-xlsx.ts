@@ -1,6 +1,7 @@
 import path from "node:path";
 
-import { importWorkbookFromPath, resolveDefaultWorkbookPath } from "../src/lib/importers/springSchedule";
+import { importScheduleFromPath } from "../src/lib/importers/registry";
+import { resolveDefaultWorkbookPath } from "../src/lib/importers/springSchedule";
 import { prisma } from "../src/lib/prisma";
 
 async function main() {
@@ -8,14 +9,42 @@ async function main() {
     ? path.resolve(process.cwd(), process.argv[2])
     : resolveDefaultWorkbookPath();
 
-  const summary = await importWorkbookFromPath(prisma, input);
+  const summary = await importScheduleFromPath(prisma, input);
 
-  console.log("Import completed");
-  console.log(`Semester: ${summary.semesterLabel} (${summary.semesterKey})`);
-  console.log(`Cohorts: ${summary.cohorts.join(", ")}`);
+  console.log(`Import completed (${summary.format})`);
+  for (const semester of summary.semesters) {
+    console.log(`Semester: ${semester.semesterLabel} (${semester.semesterKey}) - cohorts ${semester.cohorts.join(", ")}`);
+  }
   console.log(`Class groups: ${summary.classGroups}`);
   console.log(`Courses: ${summary.courses}`);
   console.log(`Schedule entries: ${summary.entries}`);
+  console.log(
+    `Changes: ${summary.changes.added} added, ${summary.changes.updated} updated, ${summary.changes.removed} removed, ${summary.changes.unchanged} unchanged`,
+  );
+
+  const errors = summary.diagnostics.filter((item) => item.severity === "error").length;
+  console.log(`Diagnostics: ${errors} errors, ${summary.diagnostics.length - errors} warnings`);
+  for (const item of summary.diagnostics) {
+    console.log(
+      `  [${item.severity}] ${item.sheet} row ${item.row}${item.column ? ` col ${item.column}` : ""}: ${item.reason} (${item.raw.replace(/\s+/g, " ")})`,
+    );
+  }
+
+  for (const conflicts of summary.bookingConflicts) {
+    console.log(
+      `Booking conflicts in ${conflicts.semesterLabel}: ${conflicts.rooms.length} room, ${conflicts.lecturers.length} lecturer`,
+    );
+    for (const item of conflicts.rooms) {
+      console.log(
+        `  [room] ${item.room} ${item.dayOfWeek} ${item.startTime}: ${item.slots.map((slot) => `${slot.cohortCode} ${slot.classGroupName} ${slot.courseCode}`).join(" / ")}`,
+      );
+    }
+    for (const item of conflicts.lecturers) {
+      console.log(
+        `  [lecturer] ${item.lecturerName} ${item.dayOfWeek} ${item.startTime}: ${item.slots.map((slot) => `${slot.cohortCode} ${slot.classGroupName} ${slot.courseCode}${slot.room ? ` @ ${slot.room}` : ""}`).join(" / ")}`,
+      );
+    }
+  }
 }
 
 main()
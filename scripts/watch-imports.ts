@@ -0,0 +1,42 @@
+import path from "node:path";
+
+import { startImportWatcher } from "../src/lib/importers/importWatcher";
+import { prisma } from "../src/lib/prisma";
+
+const DEFAULT_INTERVAL_MS = 60_000;
+
+function main() {
+  const configured = process.argv[2] ?? process.env.IMPORT_WATCH_DIR;
+  if (!configured) {
+    console.error("IMPORT_WATCH_DIR is not set; the import watcher is disabled.");
+    process.exitCode = 1;
+    return;
+  }
+
+  const directory = path.resolve(process.cwd(), configured);
+  const intervalValue = Number.parseInt(process.env.IMPORT_WATCH_INTERVAL_MS ?? "", 10);
+  const intervalMs = Number.isFinite(intervalValue) && intervalValue >= 1000 ? intervalValue : DEFAULT_INTERVAL_MS;
+
+  console.log(`Watching ${directory} every ${Math.round(intervalMs / 1000)}s`);
+
+  const watcher = startImportWatcher(prisma, {
+    directory,
+    intervalMs,
+    onResult: (result) => {
+      console.log(`[${result.status}] ${path.basename(result.filePath)}: ${result.message}`);
+    },
+    onError: (error) => {
+      console.error("Import watcher scan failed:", error instanceof Error ? error.message : error);
+    },
+  });
+
+  const shutdown = () => {
+    watcher.stop();
+    void prisma.$disconnect().finally(() => process.exit(0));
+  };
+
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main();
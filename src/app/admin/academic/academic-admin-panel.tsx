@@ -38,8 +38,12 @@ type ScheduleEntryItem = {
   dayOfWeek: DayOfWeek;
   session: SessionPeriod;
   startTime: string | null;
+  endTime: string | null;
   room: string | null;
   rawTime: string | null;
+  weekPattern: string | null;
+  startDate: string | null;
+  endDate: string | null;
   sourceSheet: string;
   sourceRow: number;
 };
@@ -91,6 +95,7 @@ function buildEntrySearchText(entry: ScheduleEntryItem): string {
     entry.room,
     entry.rawTime,
     entry.startTime,
+    entry.weekPattern,
     entry.dayOfWeek,
     entry.session,
     entry.sourceSheet,
@@ -133,6 +138,10 @@ export function AcademicAdminPanel({
   const [addStartTime, setAddStartTime] = useState("");
   const [addRoom, setAddRoom] = useState("");
   const [addRawTime, setAddRawTime] = useState("");
+  const [addEndTime, setAddEndTime] = useState("");
+  const [addWeekPattern, setAddWeekPattern] = useState("");
+  const [addStartDate, setAddStartDate] = useState("");
+  const [addEndDate, setAddEndDate] = useState("");
   const [entryFilterDay, setEntryFilterDay] = useState<DayOfWeek | "ALL">("ALL");
   const [entrySearch, setEntrySearch] = useState("");
 
@@ -746,8 +755,12 @@ export function AcademicAdminPanel({
                     dayOfWeek: addDayOfWeek,
                     session: addSession,
                     startTime: addStartTime || null,
+                    endTime: addEndTime || null,
                     room: addRoom || null,
                     rawTime: addRawTime || null,
+                    weekPattern: addWeekPattern || null,
+                    startDate: addStartDate || null,
+                    endDate: addEndDate || null,
                     sourceSheet: "ADMIN_MANUAL",
                   },
                   "Đã thêm slot thời khóa biểu.",
@@ -760,6 +773,10 @@ export function AcademicAdminPanel({
                   setAddStartTime("");
                   setAddRoom("");
                   setAddRawTime("");
+                  setAddEndTime("");
+                  setAddWeekPattern("");
+                  setAddStartDate("");
+                  setAddEndDate("");
                 }
               }}
             >
@@ -812,6 +829,10 @@ export function AcademicAdminPanel({
                 Start time (HH:MM)
                 <input value={addStartTime} onChange={(event) => setAddStartTime(event.target.value)} placeholder="13:00" />
               </label>
+              <label>
+                End time (HH:MM)
+                <input value={addEndTime} onChange={(event) => setAddEndTime(event.target.value)} placeholder="16:00" />
+              </label>
               <label>
                 Room
                 <input value={addRoom} onChange={(event) => setAddRoom(event.target.value)} placeholder="B1-204 / IHAA" />
@@ -820,6 +841,22 @@ export function AcademicAdminPanel({
                 Raw time note
                 <input value={addRawTime} onChange={(event) => setAddRawTime(event.target.value)} placeholder="Period 7-9" />
               </label>
+              <label>
+                Tuần học (để trống = mọi tuần)
+                <input
+                  value={addWeekPattern}
+                  onChange={(event) => setAddWeekPattern(event.target.value)}
+                  placeholder="1-8,!5"
+                />
+              </label>
+              <label>
+                Từ ngày
+                <input type="date" value={addStartDate} onChange={(event) => setAddStartDate(event.target.value)} />
+              </label>
+              <label>
+                Đến ngày
+                <input type="date" value={addEndDate} onChange={(event) => setAddEndDate(event.target.value)} />
+              </label>
               <div className="admin-form-actions">
                 <button type="submit" className="button-primary" disabled={Boolean(busy) || !hasScope}>
                   Add Schedule Entry
@@ -892,8 +929,12 @@ export function AcademicAdminPanel({
                               dayOfWeek: String(formData.get("dayOfWeek") ?? entry.dayOfWeek),
                               session: String(formData.get("session") ?? entry.session),
                               startTime: String(formData.get("startTime") ?? entry.startTime ?? ""),
+                              endTime: String(formData.get("endTime") ?? entry.endTime ?? ""),
                               room: String(formData.get("room") ?? entry.room ?? ""),
                               rawTime: String(formData.get("rawTime") ?? entry.rawTime ?? ""),
+                              weekPattern: String(formData.get("weekPattern") ?? entry.weekPattern ?? ""),
+                              startDate: String(formData.get("startDate") ?? entry.startDate ?? ""),
+                              endDate: String(formData.get("endDate") ?? entry.endDate ?? ""),
                             },
                             "Đã cập nhật slot.",
                           );
@@ -904,7 +945,10 @@ export function AcademicAdminPanel({
                             <strong>{entry.courseCode}</strong>
                             <p className="muted-small">{entry.courseNameVi ?? entry.courseNameEn ?? "No title"}</p>
                           </div>
-                          <span className="chip">{entry.startTime ?? "TBA"}</span>
+                          <span className="chip">
+                            {entry.startTime ?? "TBA"}
+                            {entry.endTime ? `–${entry.endTime}` : ""}
+                          </span>
                         </div>
 
                         <div className="admin-entry-grid">
@@ -946,6 +990,10 @@ export function AcademicAdminPanel({
                             Start time
                             <input name="startTime" defaultValue={entry.startTime ?? ""} placeholder="13:00" />
                           </label>
+                          <label>
+                            End time
+                            <input name="endTime" defaultValue={entry.endTime ?? ""} placeholder="16:00" />
+                          </label>
                           <label>
                             Room
                             <input name="room" defaultValue={entry.room ?? ""} placeholder="IHAA" />
@@ -954,6 +1002,18 @@ export function AcademicAdminPanel({
                             Raw time note
                             <input name="rawTime" defaultValue={entry.rawTime ?? ""} placeholder="Period 7-9" />
                           </label>
+                          <label>
+                            Tuần học
+                            <input name="weekPattern" defaultValue={entry.weekPattern ?? ""} placeholder="1-8,!5" />
+                          </label>
+                          <label>
+                            Từ ngày
+                            <input type="date" name="startDate" defaultValue={entry.startDate ?? ""} />
+                          </label>
+                          <label>
+                            Đến ngày
+                            <input type="date" name="endDate" defaultValue={entry.endDate ?? ""} />
+                          </label>
                         </div>
 
                         <div className="admin-entry-actions">
@@ -288,8 +288,12 @@ export default async function AcademicAdminPage({ searchParams }: AcademicAdminP
           dayOfWeek: entry.dayOfWeek,
           session: entry.session,
           startTime: entry.startTime,
+          endTime: entry.endTime,
           room: entry.room,
           rawTime: entry.rawTime,
+          weekPattern: entry.weekPattern,
+          startDate: entry.startDate?.toISOString().slice(0, 10) ?? null,
+          endDate: entry.endDate?.toISOString().slice(0, 10) ?? null,
           sourceSheet: entry.sourceSheet,
           sourceRow: entry.sourceRow,
         }))}
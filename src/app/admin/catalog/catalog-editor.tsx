@@ -0,0 +1,514 @@
+"use client";
+
+import { useState } from "react";
+
+import type { CatalogCourseView, CatalogProgramView, CatalogSectionView } from "@/lib/catalog";
+
+type CatalogEditorProps = {
+  initialPrograms: CatalogProgramView[];
+  initialCourses: CatalogCourseView[];
+};
+
+type CatalogResponse = {
+  ok?: boolean;
+  error?: string;
+  programs?: CatalogProgramView[];
+  courses?: CatalogCourseView[];
+};
+
+type CourseDraft = {
+  code: string;
+  nameEn: string;
+  nameVi: string;
+  credits: string;
+  prerequisite: string;
+  note: string;
+  sectionId: string;
+};
+
+const EMPTY_COURSE: CourseDraft = {
+  code: "",
+  nameEn: "",
+  nameVi: "",
+  credits: "",
+  prerequisite: "",
+  note: "",
+  sectionId: "",
+};
+
+function toDraft(course: CatalogCourseView): CourseDraft {
+  return {
+    code: course.code,
+    nameEn: course.nameEn ?? "",
+    nameVi: course.nameVi ?? "",
+    credits: course.credits === null ? "" : String(course.credits),
+    prerequisite: course.prerequisite ?? "",
+    note: course.note ?? "",
+    sectionId: course.sectionId ?? "",
+  };
+}
+
+function creditsOrNull(value: string): number | null {
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export function CatalogEditor({ initialPrograms, initialCourses }: CatalogEditorProps) {
+  const [programs, setPrograms] = useState(initialPrograms);
+  const [courses, setCourses] = useState(initialCourses);
+  const [query, setQuery] = useState("");
+  const [sectionFilter, setSectionFilter] = useState("ALL");
+  const [draft, setDraft] = useState<CourseDraft>(EMPTY_COURSE);
+  const [editingCode, setEditingCode] = useState<string | null>(null);
+  const [newProgram, setNewProgram] = useState("");
+  const [newSections, setNewSections] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function send(method: "POST" | "PATCH" | "DELETE", body: Record<string, unknown>, success: string) {
+    setBusy(true);
+    setMessage(null);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/admin/catalog", {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      });
+
+      const payload = (await response.json()) as CatalogResponse;
+      if (!response.ok || !payload.ok) {
+        setError(payload.error ?? "Không thể cập nhật danh mục.");
+        return false;
+      }
+
+      setPrograms(payload.programs ?? []);
+      setCourses(payload.courses ?? []);
+      setMessage(success);
+      return true;
+    } catch {
+      setError("Không kết nối được dịch vụ danh mục.");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function patchProgram(id: string, patch: Partial<CatalogProgramView>) {
+    setPrograms((current) => current.map((program) => (program.id === id ? { ...program, ...patch } : program)));
+  }
+
+  function patchSection(programId: string, sectionId: string, patch: Partial<CatalogSectionView>) {
+    setPrograms((current) =>
+      current.map((program) =>
+        program.id === programId
+          ? {
+              ...program,
+              sections: program.sections.map((section) => (section.id === sectionId ? { ...section, ...patch } : section)),
+            }
+          : program,
+      ),
+    );
+  }
+
+  async function onSaveCourse(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const saved = await send(
+      editingCode ? "PATCH" : "POST",
+      { type: "course", ...draft, code: editingCode ?? draft.code },
+      editingCode ? `Đã lưu ${editingCode}.` : "Đã thêm học phần.",
+    );
+    if (saved) {
+      setDraft(EMPTY_COURSE);
+      setEditingCode(null);
+    }
+  }
+
+  async function onDeleteCourse(code: string) {
+    if (!window.confirm(`Xóa học phần ${code} khỏi danh mục?`)) {
+      return;
+    }
+
+    if (await send("DELETE", { type: "course", code }, `Đã xóa ${code}.`)) {
+      setDraft(EMPTY_COURSE);
+      setEditingCode(null);
+    }
+  }
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const visibleCourses = courses.filter((course) => {
+    if (sectionFilter === "NONE" ? course.sectionId !== null : sectionFilter !== "ALL" && course.sectionId !== sectionFilter) {
+      return false;
+    }
+    if (!normalizedQuery) {
+      return true;
+    }
+    return [course.code, course.nameEn, course.nameVi].some((value) => value?.toLowerCase().includes(normalizedQuery));
+  });
+
+  const sectionOptions = programs.flatMap((program) =>
+    program.sections.map((section) => ({ id: section.id, label: `${program.name} › ${section.name}` })),
+  );
+
+  return (
+    <div>
+      {message ? <p className="status-ok">{message}</p> : null}
+      {error ? <p className="status-error">{error}</p> : null}
+
+      <h3 className="admin-section-heading">Chương trình và nhóm học phần</h3>
+      <p className="hint-text">
+        Yêu cầu tốt nghiệp cho trang kiểm tra tiến độ: nhóm bắt buộc cần qua mọi học phần trong nhóm (hoặc đủ số tín chỉ tối
+        thiểu nếu có nhập), nhóm tự chọn cần đủ số tín chỉ tối thiểu.
+      </p>
+      {programs.length === 0 ? <p className="muted-small">Chưa có chương trình nào. Import Catalog.csv hoặc tạo mới.</p> : null}
+      {programs.map((program) => (
+        <div key={program.id} className="admin-table-wrap mt-card">
+          <table className="admin-table">
+            <thead>
+              <tr>
+                <th>
+                  <input
+                    value={program.name}
+                    aria-label="Tên chương trình"
+                    onChange={(event) => patchProgram(program.id, { name: event.target.value })}
+                  />
+                </th>
+                <th>Loại</th>
+                <th>
+                  <input
+                    type="number"
+                    min={0}
+                    max={500}
+                    value={program.totalCredits ?? ""}
+                    placeholder="TC tốt nghiệp"
+                    aria-label="Tổng tín chỉ tốt nghiệp"
+                    onChange={(event) => patchProgram(program.id, { totalCredits: creditsOrNull(event.target.value) })}
+                  />
+                </th>
+                <th>Học phần</th>
+                <th>
+                  <button
+                    type="button"
+                    className="button-secondary"
+                    disabled={busy}
+                    onClick={() =>
+                      void send(
+                        "PATCH",
+                        {
+                          type: "program",
+                          id: program.id,
+                          name: program.name,
+                          sortOrder: program.sortOrder,
+                          totalCredits: program.totalCredits,
+                        },
+                        "Đã lưu chương trình.",
+                      )
+                    }
+                  >
+                    Lưu
+                  </button>{" "}
+                  <button
+                    type="button"
+                    className="button-secondary"
+                    disabled={busy}
+                    onClick={() => {
+                      if (window.confirm(`Xóa chương trình ${program.name}? Các nhóm bị xóa, học phần được giữ lại.`)) {
+                        void send("DELETE", { type: "program", id: program.id }, "Đã xóa chương trình.");
+                      }
+                    }}
+                  >
+                    Xóa
+                  </button>
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {program.sections.map((section) => (
+                <tr key={section.id}>
+                  <td>
+                    <input
+                      value={section.name}
+                      aria-label="Tên nhóm"
+                      onChange={(event) => patchSection(program.id, section.id, { name: event.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <select
+                      value={section.kind}
+                      aria-label="Loại nhóm"
+                      onChange={(event) =>
+                        patchSection(program.id, section.id, { kind: event.target.value as CatalogSectionView["kind"] })
+                      }
+                    >
+                      <option value="CORE">Bắt buộc</option>
+                      <option value="ELECTIVE">Tự chọn</option>
+                    </select>
+                  </td>
+                  <td>
+                    <input
+                      type="number"
+                      min={0}
+                      max={500}
+                      value={section.minCredits ?? ""}
+                      placeholder={section.kind === "CORE" ? "Tất cả" : "TC tối thiểu"}
+                      aria-label="Số tín chỉ tối thiểu"
+                      onChange={(event) =>
+                        patchSection(program.id, section.id, { minCredits: creditsOrNull(event.target.value) })
+                      }
+                    />
+                  </td>
+                  <td>{section.courseCount}</td>
+                  <td>
+                    <button
+                      type="button"
+                      className="button-secondary"
+                      disabled={busy}
+                      onClick={() =>
+                        void send(
+                          "PATCH",
+                          {
+                            type: "section",
+                            id: section.id,
+                            programId: program.id,
+                            name: section.name,
+                            sortOrder: section.sortOrder,
+                            kind: section.kind,
+                            minCredits: section.minCredits,
+                          },
+                          "Đã lưu nhóm.",
+                        )
+                      }
+                    >
+                      Lưu
+                    </button>{" "}
+                    <button
+                      type="button"
+                      className="button-secondary"
+                      disabled={busy}
+                      onClick={() => {
+                        if (window.confirm(`Xóa nhóm ${section.name}? Học phần trong nhóm được giữ lại.`)) {
+                          void send("DELETE", { type: "section", id: section.id }, "Đã xóa nhóm.");
+                        }
+                      }}
+                    >
+                      Xóa
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              <tr>
+                <td>
+                  <input
+                    value={newSections[program.id] ?? ""}
+                    placeholder="Nhóm mới, ví dụ Major Electives"
+                    onChange={(event) => setNewSections((current) => ({ ...current, [program.id]: event.target.value }))}
+                  />
+                </td>
+                <td colSpan={3} />
+                <td>
+                  <button
+                    type="button"
+                    className="button-primary"
+                    disabled={busy || !newSections[program.id]?.trim()}
+                    onClick={async () => {
+                      const saved = await send(
+                        "POST",
+                        {
+                          type: "section",
+                          programId: program.id,
+                          name: newSections[program.id],
+                          sortOrder: program.sections.length,
+                        },
+                        "Đã thêm nhóm.",
+                      );
+                      if (saved) {
+                        setNewSections((current) => ({ ...current, [program.id]: "" }));
+                      }
+                    }}
+                  >
+                    Thêm nhóm
+                  </button>
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      ))}
+
+      <div className="admin-form-grid mt-card">
+        <label>
+          Chương trình mới
+          <input value={newProgram} onChange={(event) => setNewProgram(event.target.value)} />
+        </label>
+        <div className="admin-form-actions">
+          <button
+            type="button"
+            className="button-primary"
+            disabled={busy || !newProgram.trim()}
+            onClick={async () => {
+              if (await send("POST", { type: "program", name: newProgram, sortOrder: programs.length }, "Đã thêm chương trình.")) {
+                setNewProgram("");
+              }
+            }}
+          >
+            Thêm chương trình
+          </button>
+        </div>
+      </div>
+
+      <h3 className="admin-section-heading mt-card">{editingCode ? `Sửa học phần ${editingCode}` : "Thêm học phần"}</h3>
+      <form className="admin-form-grid" onSubmit={onSaveCourse}>
+        <label>
+          Mã HP
+          <input
+            value={editingCode ?? draft.code}
+            disabled={Boolean(editingCode)}
+            placeholder="CS 2255"
+            onChange={(event) => setDraft({ ...draft, code: event.target.value })}
+          />
+        </label>
+        <label>
+          Tín chỉ
+          <input
+            type="number"
+            min={0}
+            max={30}
+            value={draft.credits}
+            onChange={(event) => setDraft({ ...draft, credits: event.target.value })}
+          />
+        </label>
+        <label>
+          Tên tiếng Anh
+          <input value={draft.nameEn} onChange={(event) => setDraft({ ...draft, nameEn: event.target.value })} />
+        </label>
+        <label>
+          Tên tiếng Việt
+          <input value={draft.nameVi} onChange={(event) => setDraft({ ...draft, nameVi: event.target.value })} />
+        </label>
+        <label>
+          Điều kiện tiên quyết
+          <input
+            value={draft.prerequisite}
+            onChange={(event) => setDraft({ ...draft, prerequisite: event.target.value })}
+          />
+        </label>
+        <label>
+          Nhóm học phần
+          <select value={draft.sectionId} onChange={(event) => setDraft({ ...draft, sectionId: event.target.value })}>
+            <option value="">Chưa phân nhóm</option>
+            {sectionOptions.map((section) => (
+              <option key={section.id} value={section.id}>
+                {section.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="admin-form-full">
+          Ghi chú
+          <textarea rows={2} value={draft.note} onChange={(event) => setDraft({ ...draft, note: event.target.value })} />
+        </label>
+        <div className="admin-form-actions">
+          <button type="submit" className="button-primary" disabled={busy}>
+            {editingCode ? "Lưu học phần" : "Thêm học phần"}
+          </button>
+          {editingCode ? (
+            <>
+              <button
+                type="button"
+                className="button-secondary"
+                disabled={busy}
+                onClick={() => void onDeleteCourse(editingCode)}
+              >
+                Xóa
+              </button>
+              <button
+                type="button"
+                className="button-secondary"
+                onClick={() => {
+                  setDraft(EMPTY_COURSE);
+                  setEditingCode(null);
+                }}
+              >
+                Hủy
+              </button>
+            </>
+          ) : null}
+        </div>
+      </form>
+
+      <div className="admin-form-grid mt-card">
+        <label>
+          Tìm học phần
+          <input value={query} placeholder="Mã hoặc tên" onChange={(event) => setQuery(event.target.value)} />
+        </label>
+        <label>
+          Nhóm
+          <select value={sectionFilter} onChange={(event) => setSectionFilter(event.target.value)}>
+            <option value="ALL">Tất cả</option>
+            <option value="NONE">Chưa phân nhóm</option>
+            {sectionOptions.map((section) => (
+              <option key={section.id} value={section.id}>
+                {section.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <p className="muted-small">
+        {visibleCourses.length}/{courses.length} học phần
+      </p>
+      <div className="admin-table-wrap">
+        <table className="admin-table">
+          <thead>
+            <tr>
+              <th>Mã HP</th>
+              <th>Tên</th>
+              <th>TC</th>
+              <th>Tiên quyết</th>
+              <th>Nhóm</th>
+              <th>Buổi học</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {visibleCourses.map((course) => (
+              <tr key={course.code}>
+                <td>{course.code}</td>
+                <td>
+                  {course.nameEn ?? "—"}
+                  {course.nameVi ? (
+                    <>
+                      <br />
+                      <span className="muted-small">{course.nameVi}</span>
+                    </>
+                  ) : null}
+                </td>
+                <td>{course.credits ?? "—"}</td>
+                <td>{course.prerequisite ?? "—"}</td>
+                <td>{course.section ? `${course.program} › ${course.section}` : "—"}</td>
+                <td>{course.scheduledEntries}</td>
+                <td>
+                  <button
+                    type="button"
+                    className="button-secondary"
+                    onClick={() => {
+                      setDraft(toDraft(course));
+                      setEditingCode(course.code);
+                    }}
+                  >
+                    Sửa
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
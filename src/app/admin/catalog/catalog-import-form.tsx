@@ -0,0 +1,188 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+import type { CatalogDiff, CatalogField, CatalogImportSummary } from "@/lib/catalog";
+
+type CatalogImportResponse = {
+  ok?: boolean;
+  error?: string;
+  diff?: CatalogDiff;
+  summary?: CatalogImportSummary;
+};
+
+const FIELD_LABEL: Record<CatalogField, string> = {
+  nameEn: "Tên EN",
+  nameVi: "Tên VI",
+  credits: "Tín chỉ",
+  prerequisite: "Tiên quyết",
+  note: "Ghi chú",
+  program: "Chương trình",
+  section: "Nhóm",
+};
+
+export function CatalogImportForm() {
+  const router = useRouter();
+  const [pending, setPending] = useState<{ formData: FormData; diff: CatalogDiff } | null>(null);
+  const [detachMissing, setDetachMissing] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function send(formData: FormData): Promise<CatalogImportResponse | null> {
+    setBusy(true);
+    setMessage(null);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/admin/catalog/import", { method: "POST", body: formData });
+      const payload = (await response.json()) as CatalogImportResponse;
+      if (!response.ok || !payload.ok) {
+        setError(payload.error ?? "Không thể import danh mục.");
+        return null;
+      }
+      return payload;
+    } catch {
+      setError("Không kết nối được dịch vụ import.");
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function onPreview(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const formData = new FormData(event.currentTarget);
+    const previewData = new FormData();
+    for (const [key, value] of formData.entries()) {
+      previewData.append(key, value);
+    }
+    previewData.set("mode", "preview");
+
+    const payload = await send(previewData);
+    setPending(payload?.diff ? { formData, diff: payload.diff } : null);
+  }
+
+  async function onCommit() {
+    if (!pending) {
+      return;
+    }
+
+    const formData = new FormData();
+    for (const [key, value] of pending.formData.entries()) {
+      formData.append(key, value);
+    }
+    formData.set("detachMissing", detachMissing ? "1" : "0");
+
+    const payload = await send(formData);
+    if (payload?.summary) {
+      const { summary } = payload;
+      setPending(null);
+      setMessage(
+        `Đã import: ${summary.added} thêm mới, ${summary.updated} cập nhật, ${summary.unchanged} giữ nguyên, ${summary.detached} gỡ khỏi nhóm.`,
+      );
+      router.refresh();
+    }
+  }
+
+  const diff = pending?.diff ?? null;
+
+  return (
+    <div>
+      <form className="admin-form-grid" onSubmit={onPreview}>
+        <label className="admin-form-full">
+          File CSV (để trống = dùng Catalog.csv mặc định trên server)
+          <input type="file" name="file" accept=".csv,text/csv" onChange={() => setPending(null)} />
+        </label>
+        <div className="admin-form-actions">
+          <button type="submit" className="button-primary" disabled={busy}>
+            Xem trước thay đổi
+          </button>
+          <a href="/api/admin/catalog/export" className="button-secondary">
+            Tải danh mục (CSV)
+          </a>
+        </div>
+      </form>
+
+      {message ? <p className="status-ok">{message}</p> : null}
+      {error ? <p className="status-error">{error}</p> : null}
+
+      {diff ? (
+        <div className="mt-card">
+          <p className="muted-small">
+            {diff.sourceFile} · {diff.total} học phần. Ô trống trong file không xóa dữ liệu đang có.
+          </p>
+          <div className="chip-row">
+            <span className="chip diff-added">+{diff.added.length} học phần mới</span>
+            <span className="chip diff-changed">~{diff.changed.length} thay đổi</span>
+            <span className="chip chip-muted">{diff.unchanged} giữ nguyên</span>
+            <span className="chip diff-removed">{diff.missing.length} không có trong file</span>
+          </div>
+
+          {diff.newPrograms.length > 0 ? (
+            <p className="muted-small">
+              Chương trình mới: <strong>{diff.newPrograms.join(", ")}</strong>
+            </p>
+          ) : null}
+          {diff.newSections.length > 0 ? (
+            <p className="muted-small">
+              Nhóm mới: <strong>{diff.newSections.join(", ")}</strong>
+            </p>
+          ) : null}
+          {diff.added.length > 0 ? (
+            <p className="muted-small">
+              Học phần mới: <strong>{diff.added.map((row) => row.code).join(", ")}</strong>
+            </p>
+          ) : null}
+
+          {diff.changed.length > 0 ? (
+            <div className="admin-table-wrap mt-card">
+              <table className="admin-table">
+                <thead>
+                  <tr>
+                    <th>Mã HP</th>
+                    <th>Thay đổi</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.changed.map((item) => (
+                    <tr key={item.code}>
+                      <td>{item.code}</td>
+                      <td>
+                        <ul className="simple-list">
+                          {item.changes.map((change) => (
+                            <li key={change.field} className="diff-changed">
+                              {FIELD_LABEL[change.field]}: {change.before ?? "—"} → {change.after}
+                            </li>
+                          ))}
+                        </ul>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : null}
+
+          {diff.missing.length > 0 ? (
+            <label className="mt-card">
+              <input
+                type="checkbox"
+                checked={detachMissing}
+                onChange={(event) => setDetachMissing(event.target.checked)}
+              />{" "}
+              Gỡ {diff.missing.length} học phần không có trong file khỏi nhóm học phần ({diff.missing.join(", ")})
+            </label>
+          ) : null}
+
+          <div className="admin-form-actions mt-card">
+            <button type="button" className="button-primary" disabled={busy} onClick={() => void onCommit()}>
+              Xác nhận import
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+import { getServerSession } from "@/lib/auth/session";
+import { listCatalogCourses, listCatalogPrograms } from "@/lib/catalog";
+
+import { CatalogEditor } from "./catalog-editor";
+import { CatalogImportForm } from "./catalog-import-form";
+
+export default async function CatalogAdminPage() {
+  const session = await getServerSession();
+  if (!session || session.role !== "ADMIN") {
+    redirect("/?denied=admin");
+  }
+
+  const [programs, courses] = await Promise.all([listCatalogPrograms(), listCatalogCourses()]);
+  const loadedAt = new Date().toISOString();
+
+  return (
+    <main className="page-shell">
+      <section className="hero-block">
+        <p className="eyebrow">Administration Console</p>
+        <h1>Course Catalog</h1>
+        <p>
+          Danh mục học phần (tên, tín chỉ, tiên quyết, chương trình và nhóm) được lưu trong database và dùng cho mọi trang{" "}
+          <Link href="/courses">Courses</Link>. File Catalog.csv chỉ còn là định dạng import/export; import thời khóa biểu
+          chỉ điền các trường còn trống, không ghi đè chỉnh sửa ở đây.
+        </p>
+      </section>
+
+      <section className="details-card">
+        <h2>Import / export CSV</h2>
+        <CatalogImportForm />
+      </section>
+
+      <section className="details-card mt-card">
+        <h2>Chỉnh sửa danh mục</h2>
+        <CatalogEditor key={loadedAt} initialPrograms={programs} initialCourses={courses} />
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,87 @@
+import type { BookingConflictReport, BookingSlot } from "@/lib/booking-conflicts";
+
+type BookingConflictTablesProps = {
+  report: BookingConflictReport;
+};
+
+function describeSlot(slot: BookingSlot): string {
+  return `${slot.cohortCode} · ${slot.classGroupName} · ${slot.courseCode}${slot.room ? ` · ${slot.room}` : ""}`;
+}
+
+export function BookingConflictTables({ report }: BookingConflictTablesProps) {
+  if (report.rooms.length === 0 && report.lecturers.length === 0) {
+    return <p className="status-ok">Không phát hiện trùng phòng hay trùng giảng viên trong {report.semesterLabel}.</p>;
+  }
+
+  return (
+    <>
+      <h3 className="admin-section-heading mt-card">Trùng phòng ({report.rooms.length})</h3>
+      {report.rooms.length === 0 ? (
+        <p className="muted-small">Không có phòng nào bị xếp hai lớp cùng lúc.</p>
+      ) : (
+        <div className="admin-table-wrap">
+          <table className="admin-table">
+            <thead>
+              <tr>
+                <th>Phòng</th>
+                <th>Thứ</th>
+                <th>Giờ</th>
+                <th>Các lớp bị trùng</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.rooms.map((conflict) => (
+                <tr key={`${conflict.room}-${conflict.dayOfWeek}-${conflict.startTime}`}>
+                  <td>{conflict.room}</td>
+                  <td>{conflict.dayOfWeek}</td>
+                  <td>{conflict.startTime}</td>
+                  <td>
+                    <ul className="simple-list">
+                      {conflict.slots.map((slot) => (
+                        <li key={slot.entryId}>{describeSlot(slot)}</li>
+                      ))}
+                    </ul>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <h3 className="admin-section-heading mt-card">Trùng giảng viên ({report.lecturers.length})</h3>
+      {report.lecturers.length === 0 ? (
+        <p className="muted-small">Không có giảng viên nào được phân công hai nơi cùng lúc.</p>
+      ) : (
+        <div className="admin-table-wrap">
+          <table className="admin-table">
+            <thead>
+              <tr>
+                <th>Giảng viên</th>
+                <th>Thứ</th>
+                <th>Giờ</th>
+                <th>Các lớp bị trùng</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.lecturers.map((conflict) => (
+                <tr key={`${conflict.lecturerId}-${conflict.dayOfWeek}-${conflict.startTime}`}>
+                  <td>{conflict.lecturerName}</td>
+                  <td>{conflict.dayOfWeek}</td>
+                  <td>{conflict.startTime}</td>
+                  <td>
+                    <ul className="simple-list">
+                      {conflict.slots.map((slot) => (
+                        <li key={slot.entryId}>{describeSlot(slot)}</li>
+                      ))}
+                    </ul>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,81 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+import { BookingConflictTables } from "@/app/admin/conflicts/booking-conflict-tables";
+import { getServerSession } from "@/lib/auth/session";
+import { findBookingConflicts } from "@/lib/booking-conflicts";
+import { prisma } from "@/lib/prisma";
+
+type BookingConflictsPageProps = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+function pickSingle(value: string | string[] | undefined): string | undefined {
+  if (Array.isArray(value)) {
+    return value[0];
+  }
+
+  return value;
+}
+
+export default async function BookingConflictsPage({ searchParams }: BookingConflictsPageProps) {
+  const session = await getServerSession();
+  if (!session || session.role !== "ADMIN") {
+    redirect("/?denied=admin");
+  }
+
+  const query = await searchParams;
+  const requestedSemesterKey = pickSingle(query.semester);
+
+  const semesters = await prisma.semester.findMany({
+    orderBy: [{ startDate: "desc" }, { updatedAt: "desc" }],
+    select: {
+      key: true,
+      label: true,
+    },
+  });
+
+  const selectedSemester = semesters.find((semester) => semester.key === requestedSemesterKey) ?? semesters[0] ?? null;
+  const report = selectedSemester ? await findBookingConflicts(prisma, selectedSemester.key) : null;
+
+  return (
+    <main className="page-shell">
+      <section className="hero-block">
+        <p className="eyebrow">Administration</p>
+        <h1>Booking Conflicts</h1>
+        <p>
+          Kiểm tra chéo giữa các khóa: phòng học bị xếp cho hai lớp khác môn cùng thứ và giờ bắt đầu, hoặc giảng viên
+          (theo phân công giảng dạy) phải dạy hai nơi cùng lúc.
+        </p>
+      </section>
+
+      <section className="mt-card">
+        <form method="GET" className="admin-form-grid admin-scope-form">
+          <label>
+            Semester
+            <select name="semester" defaultValue={selectedSemester?.key ?? ""}>
+              {semesters.map((semester) => (
+                <option key={semester.key} value={semester.key}>
+                  {semester.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <div className="admin-form-actions">
+            <button type="submit" className="button-primary">
+              Kiểm tra
+            </button>
+          </div>
+        </form>
+
+        {report ? <BookingConflictTables report={report} /> : <p className="muted-small">Chưa có học kỳ nào.</p>}
+      </section>
+
+      <p className="hint-text">
+        Sửa lịch trong <Link href="/admin/academic">Academic Management</Link> hoặc import lại file tại{" "}
+        <Link href="/admin/import">Data Import</Link>.
+      </p>
+    </main>
+  );
+}
@@ -0,0 +1,132 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+import { RollbackButton } from "@/app/admin/import/history/rollback-button";
+import { getServerSession } from "@/lib/auth/session";
+import { prisma } from "@/lib/prisma";
+
+const HISTORY_LIMIT = 50;
+
+function formatDuration(startedAt: Date, finishedAt: Date | null): string {
+  if (!finishedAt) {
+    return "—";
+  }
+
+  const seconds = Math.max(0, (finishedAt.getTime() - startedAt.getTime()) / 1000);
+  return seconds < 60 ? `${seconds.toFixed(1)}s` : `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+}
+
+function formatCount(value: number | null): string {
+  return value === null ? "—" : String(value);
+}
+
+export default async function ImportHistoryPage() {
+  const session = await getServerSession();
+  if (!session || session.role !== "ADMIN") {
+    redirect("/?denied=admin");
+  }
+
+  const runs = await prisma.importRun.findMany({
+    orderBy: {
+      startedAt: "desc",
+    },
+    take: HISTORY_LIMIT,
+    include: {
+      semester: {
+        select: {
+          key: true,
+          label: true,
+        },
+      },
+      snapshots: {
+        select: {
+          id: true,
+          semesterKey: true,
+        },
+      },
+    },
+  });
+
+  return (
+    <main className="page-shell">
+      <section className="hero-block">
+        <p className="eyebrow">Administration</p>
+        <h1>Import History</h1>
+        <p>
+          Lịch sử các lần import thời khóa biểu. Mỗi lần import thành công đều lưu snapshot dữ liệu trước đó, có thể
+          khôi phục lại bằng một thao tác.
+        </p>
+      </section>
+
+      <div className="admin-table-wrap">
+        <table className="admin-table">
+          <thead>
+            <tr>
+              <th>Bắt đầu</th>
+              <th>File nguồn</th>
+              <th>Trạng thái</th>
+              <th>Học kỳ</th>
+              <th>Khóa</th>
+              <th>Lớp</th>
+              <th>Học phần</th>
+              <th>Slot</th>
+              <th>Thời gian</th>
+              <th>Rollback</th>
+            </tr>
+          </thead>
+          <tbody>
+            {runs.length === 0 ? (
+              <tr>
+                <td colSpan={10}>Chưa có lần import nào.</td>
+              </tr>
+            ) : null}
+            {runs.map((run) => (
+              <tr key={run.id}>
+                <td>{run.startedAt.toLocaleString("vi-VN")}</td>
+                <td>
+                  <strong>{run.sourceFile}</strong>
+                  {run.note ? <p className="muted-small">{run.note}</p> : null}
+                </td>
+                <td>
+                  <span className={run.status === "FAILED" ? "status-error" : "status-ok"}>{run.status}</span>
+                  {run.status === "QUEUED" || run.status === "RUNNING" ? (
+                    <p className="muted-small">
+                      {run.processedSheets}/{run.totalSheets ?? "?"} sheet · {run.processedRows}/{run.totalRows ?? "?"}{" "}
+                      dòng
+                    </p>
+                  ) : null}
+                  {run.requestedBy ? <p className="muted-small">{run.requestedBy}</p> : null}
+                </td>
+                <td>
+                  {run.snapshots.length > 1
+                    ? run.snapshots.map((snapshot) => snapshot.semesterKey).join(", ")
+                    : (run.semester?.label ?? run.snapshots[0]?.semesterKey ?? "—")}
+                </td>
+                <td>{run.cohortCodes ? run.cohortCodes.split(",").join(", ") : "—"}</td>
+                <td>{formatCount(run.classGroupCount)}</td>
+                <td>{formatCount(run.courseCount)}</td>
+                <td>{formatCount(run.entryCount)}</td>
+                <td>{formatDuration(run.startedAt, run.finishedAt)}</td>
+                <td>
+                  {run.rolledBackAt ? (
+                    <span className="muted-small">
+                      {run.rolledBackAt.toLocaleString("vi-VN")} · {run.rolledBackBy ?? "unknown"}
+                    </span>
+                  ) : run.status === "SUCCEEDED" && run.snapshots.length > 0 ? (
+                    <RollbackButton importRunId={run.id} sourceFile={run.sourceFile} />
+                  ) : (
+                    <span className="muted-small">—</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="hint-text">
+        Back to <Link href="/admin/import">Data Import Command</Link>.
+      </p>
+    </main>
+  );
+}
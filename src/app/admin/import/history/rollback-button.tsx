@@ -0,0 +1,51 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+type RollbackButtonProps = {
+  importRunId: string;
+  sourceFile: string;
+};
+
+export function RollbackButton({ importRunId, sourceFile }: RollbackButtonProps) {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function rollback() {
+    if (!window.confirm(`Khôi phục dữ liệu về trạng thái trước lần import ${sourceFile}?`)) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/import/runs/${encodeURIComponent(importRunId)}/rollback`, {
+        method: "POST",
+      });
+      const payload = (await response.json()) as { ok?: boolean; error?: string };
+
+      if (!response.ok || !payload.ok) {
+        setError(payload.error ?? "Rollback failed.");
+        return;
+      }
+
+      router.refresh();
+    } catch (rollbackError) {
+      setError(rollbackError instanceof Error ? rollbackError.message : "Rollback failed.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <>
+      <button type="button" className="button-secondary" onClick={rollback} disabled={loading}>
+        {loading ? "Rolling back..." : "Rollback"}
+      </button>
+      {error ? <p className="status-error">{error}</p> : null}
+    </>
+  );
+}
@@ -0,0 +1,46 @@
+import type { ImportDiagnostic } from "@/lib/importers/types";
+
+type ImportDiagnosticsTableProps = {
+  diagnostics: ImportDiagnostic[];
+};
+
+export function ImportDiagnosticsTable({ diagnostics }: ImportDiagnosticsTableProps) {
+  if (diagnostics.length === 0) {
+    return <p className="muted-small">Không có cảnh báo hay lỗi nào khi đọc file.</p>;
+  }
+
+  return (
+    <div className="admin-table-wrap mt-card">
+      <table className="admin-table import-diagnostics">
+        <thead>
+          <tr>
+            <th>Mức</th>
+            <th>Sheet</th>
+            <th>Dòng</th>
+            <th>Cột</th>
+            <th>Nội dung gốc</th>
+            <th>Lý do</th>
+          </tr>
+        </thead>
+        <tbody>
+          {diagnostics.map((item, index) => (
+            <tr key={`${item.sheet}-${item.row}-${item.column ?? ""}-${index}`}>
+              <td>
+                <span className={item.severity === "error" ? "chip diff-removed" : "chip diff-changed"}>
+                  {item.severity === "error" ? "Lỗi" : "Cảnh báo"}
+                </span>
+              </td>
+              <td>{item.sheet}</td>
+              <td>{item.row}</td>
+              <td>{item.column ?? "—"}</td>
+              <td>
+                <code>{item.raw}</code>
+              </td>
+              <td>{item.reason}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -2,38 +2,186 @@
 
 import { useState } from "react";
 
+import { BookingConflictTables } from "@/app/admin/conflicts/booking-conflict-tables";
+import { ImportDiagnosticsTable } from "@/app/admin/import/import-diagnostics";
+import type { BookingConflictReport } from "@/lib/booking-conflicts";
+import type { ImportJob } from "@/lib/importers/importJobs";
+import type { ImportDiffEntry, ImportPreview, ImportSummary } from "@/lib/importers/scheduleWriter";
+import type { ImportDiagnostic, ImportFormat, SemesterMapping } from "@/lib/importers/types";
+import { formatWeekNote } from "@/lib/schedule-weeks";
+
 type ImportState = {
   ok: boolean;
   message: string;
+  diagnostics?: ImportDiagnostic[];
+  bookingConflicts?: BookingConflictReport[];
+} | null;
+
+type PendingImport = {
+  formData: FormData;
+  preview: ImportPreview;
 } | null;
 
-export function ImportForm() {
+type MappingDraft = {
+  sheets: Record<string, string>;
+  semesters: Record<string, { label: string; startDate: string; endDate: string }>;
+};
+
+const JOB_POLL_INTERVAL_MS = 1000;
+
+const CLASS_GROUP_STATUS_LABEL: Record<string, string> = {
+  new: "Lớp mới",
+  existing: "Cập nhật",
+  removed: "Sẽ bị xóa",
+};
+
+const EXAM_KIND_LABEL: Record<string, string> = {
+  MIDTERM: "Giữa kỳ",
+  FINAL: "Cuối kỳ",
+};
+
+function describeEntry(entry: ImportDiffEntry): string {
+  const time = entry.startTime ? `${entry.startTime}${entry.endTime ? `–${entry.endTime}` : ""}` : "TBA";
+  const weekNote = formatWeekNote(entry);
+  return `${entry.dayOfWeek} ${time} · ${entry.courseCode} · ${entry.room ?? "Phòng TBA"}${weekNote ? ` · ${weekNote}` : ""}`;
+}
+
+function describeSummary(summary: ImportSummary): string {
+  const semesters = summary.semesters.map((semester) => semester.semesterLabel).join(", ");
+  const exams = summary.exams ? `, ${summary.exams} exam slots` : "";
+  return `Imported ${summary.entries} schedule rows${exams}, ${summary.courses} courses, ${summary.classGroups} class groups (${summary.cohorts.join(", ")}) for ${semesters}: ${summary.changes.added} added, ${summary.changes.updated} updated, ${summary.changes.removed} removed, ${summary.changes.unchanged} unchanged.`;
+}
+
+function createMappingDraft(preview: ImportPreview): MappingDraft {
+  return {
+    sheets: Object.fromEntries(
+      [...preview.sheets, ...preview.examSheets].map((sheet) => [sheet.sheetName, sheet.semesterKey]),
+    ),
+    semesters: Object.fromEntries(
+      preview.semesters.map((semester) => [
+        semester.semesterKey,
+        {
+          label: semester.semesterLabel,
+          startDate: semester.startDate ?? "",
+          endDate: semester.endDate ?? "",
+        },
+      ]),
+    ),
+  };
+}
+
+function toSemesterMapping(draft: MappingDraft): SemesterMapping {
+  const usedKeys = new Set(Object.values(draft.sheets));
+  return {
+    sheets: draft.sheets,
+    semesters: Object.fromEntries(Object.entries(draft.semesters).filter(([key]) => usedKeys.has(key))),
+  };
+}
+
+function normalizeDraftKey(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]+/g, "_");
+}
+
+function describeProgress(job: ImportJob): string {
+  const { sheets, totalSheets, rows, totalRows } = job.progress;
+  if (job.status === "QUEUED") {
+    return "Đang chờ trong hàng đợi...";
+  }
+  if (totalSheets === null) {
+    return job.note ?? "Đang xử lý...";
+  }
+
+  return `${sheets}/${totalSheets} sheet · ${rows}/${totalRows ?? 0} dòng`;
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function cloneFormData(source: FormData, mode: "preview" | "commit"): FormData {
+  const next = new FormData();
+  for (const [key, value] of source.entries()) {
+    if (key !== "mode") {
+      next.append(key, value);
+    }
+  }
+  next.set("mode", mode);
+  return next;
+}
+
+type ImportFormProps = {
+  formats: Array<{ format: ImportFormat; label: string; extensions: string[] }>;
+};
+
+export function ImportForm({ formats }: ImportFormProps) {
   const [importState, setImportState] = useState<ImportState>(null);
+  const [pending, setPending] = useState<PendingImport>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [maxErrors, setMaxErrors] = useState("");
+  const [force, setForce] = useState(false);
+  const [job, setJob] = useState<ImportJob | null>(null);
+  const [mappingDraft, setMappingDraft] = useState<MappingDraft | null>(null);
+  const [mappingDirty, setMappingDirty] = useState(false);
 
-  async function runImport(formData: FormData) {
+  async function requestPreview(formData: FormData) {
     setIsLoading(true);
     setImportState(null);
+    setPending(null);
 
     try {
       const response = await fetch("/api/admin/import", {
         method: "POST",
-        body: formData,
+        body: cloneFormData(formData, "preview"),
       });
 
       const payload = (await response.json()) as {
         ok?: boolean;
         error?: string;
-        summary?: {
-          semesterLabel: string;
-          cohorts: string[];
-          entries: number;
-          courses: number;
-          classGroups: number;
-        };
+        preview?: ImportPreview;
       };
 
-      if (!response.ok || !payload.ok) {
+      if (!response.ok || !payload.ok || !payload.preview) {
+        setImportState({
+          ok: false,
+          message: payload.error ?? "Preview failed.",
+        });
+        return;
+      }
+
+      setPending({ formData, preview: payload.preview });
+      setMappingDraft(createMappingDraft(payload.preview));
+      setMappingDirty(false);
+    } catch (error) {
+      setImportState({
+        ok: false,
+        message: error instanceof Error ? error.message : "Unknown import error",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function confirmImport() {
+    if (!pending) {
+      return;
+    }
+
+    setIsLoading(true);
+    setImportState(null);
+
+    try {
+      const response = await fetch("/api/admin/import", {
+        method: "POST",
+        body: cloneFormData(pending.formData, "commit"),
+      });
+
+      const payload = (await response.json()) as {
+        ok?: boolean;
+        error?: string;
+        job?: ImportJob;
+      };
+
+      if (!response.ok || !payload.ok || !payload.job) {
         setImportState({
           ok: false,
           message: payload.error ?? "Import failed.",
@@ -41,14 +189,49 @@ export function ImportForm() {
         return;
       }
 
-      const summary = payload.summary;
+      setPending(null);
+      let current = payload.job;
+      setJob(current);
+
+      while (current.status === "QUEUED" || current.status === "RUNNING") {
+        await wait(JOB_POLL_INTERVAL_MS);
+        const pollResponse = await fetch(`/api/admin/import/runs/${encodeURIComponent(current.id)}`, {
+          cache: "no-store",
+        });
+        const pollPayload = (await pollResponse.json()) as { ok?: boolean; error?: string; job?: ImportJob };
+        if (!pollResponse.ok || !pollPayload.ok || !pollPayload.job) {
+          throw new Error(pollPayload.error ?? "Could not read import progress.");
+        }
+
+        current = pollPayload.job;
+        setJob(current);
+      }
+
+      setJob(null);
+      if (current.status === "SKIPPED") {
+        setImportState({
+          ok: true,
+          message: `Bỏ qua: ${current.note ?? "file đã được import trước đó."}`,
+        });
+        return;
+      }
+
+      if (current.status !== "SUCCEEDED") {
+        setImportState({
+          ok: false,
+          message: current.note ?? "Import failed.",
+        });
+        return;
+      }
+
       setImportState({
         ok: true,
-        message: summary
-          ? `Imported ${summary.entries} schedule rows, ${summary.courses} courses, ${summary.classGroups} class groups (${summary.cohorts.join(", ")}) for ${summary.semesterLabel}.`
-          : "Import completed.",
+        message: current.summary ? describeSummary(current.summary) : "Import completed.",
+        diagnostics: current.summary?.diagnostics,
+        bookingConflicts: current.summary?.bookingConflicts,
       });
     } catch (error) {
+      setJob(null);
       setImportState({
         ok: false,
         message: error instanceof Error ? error.message : "Unknown import error",
@@ -58,26 +241,119 @@ export function ImportForm() {
     }
   }
 
+  function updateSheetSemester(sheetName: string, value: string) {
+    setMappingDraft((current) =>
+      current ? { ...current, sheets: { ...current.sheets, [sheetName]: normalizeDraftKey(value) } } : current,
+    );
+    setMappingDirty(true);
+  }
+
+  function updateSemesterField(semesterKey: string, field: "label" | "startDate" | "endDate", value: string) {
+    setMappingDraft((current) => {
+      if (!current) {
+        return current;
+      }
+
+      const existing = current.semesters[semesterKey] ?? { label: "", startDate: "", endDate: "" };
+      return {
+        ...current,
+        semesters: { ...current.semesters, [semesterKey]: { ...existing, [field]: value } },
+      };
+    });
+    setMappingDirty(true);
+  }
+
+  async function applyMapping() {
+    if (!pending || !mappingDraft) {
+      return;
+    }
+
+    if (Object.values(mappingDraft.sheets).some((key) => !key)) {
+      setImportState({ ok: false, message: "Mỗi sheet phải được gán một mã học kỳ." });
+      return;
+    }
+
+    const formData = cloneFormData(pending.formData, "preview");
+    formData.set("semesterMapping", JSON.stringify(toSemesterMapping(mappingDraft)));
+    await requestPreview(formData);
+  }
+
   async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
     event.preventDefault();
     const formData = new FormData(event.currentTarget);
-    await runImport(formData);
+    await requestPreview(formData);
   }
 
   async function handleDefaultImport() {
-    await runImport(new FormData());
+    const formData = new FormData();
+    if (maxErrors.trim()) {
+      formData.set("maxErrors", maxErrors.trim());
+    }
+    if (force) {
+      formData.set("force", "1");
+    }
+    await requestPreview(formData);
   }
 
+  const preview = pending?.preview ?? null;
+  const previewErrorCount = preview ? preview.diagnostics.filter((item) => item.severity === "error").length : 0;
+  const exceedsErrorLimit = preview !== null && preview.maxErrors !== null && previewErrorCount > preview.maxErrors;
+  const draftSemesterKeys = mappingDraft ? [...new Set(Object.values(mappingDraft.sheets))].filter(Boolean) : [];
+  const knownSemesterKeys = preview
+    ? [
+        ...new Set([
+          ...preview.sheets.map((sheet) => sheet.detectedSemesterKey),
+          ...preview.examSheets.map((sheet) => sheet.semesterKey),
+          ...draftSemesterKeys,
+        ]),
+      ]
+    : [];
+
   return (
     <div className="import-card">
       <form onSubmit={handleSubmit} className="import-form">
         <label htmlFor="file" className="field-label">
-          Upload .xlsx file
+          Upload schedule file ({formats.flatMap((item) => item.extensions).join(", ")})
+        </label>
+        <input id="file" name="file" type="file" accept={formats.flatMap((item) => item.extensions).join(",")} />
+
+        <label htmlFor="format" className="field-label">
+          Định dạng
+        </label>
+        <select id="format" name="format" defaultValue="auto">
+          <option value="auto">Tự động nhận diện</option>
+          {formats.map((item) => (
+            <option key={item.format} value={item.format}>
+              {item.label}
+            </option>
+          ))}
+        </select>
+
+        <label htmlFor="maxErrors" className="field-label">
+          Max parse errors (để trống = không giới hạn)
+        </label>
+        <input
+          id="maxErrors"
+          name="maxErrors"
+          type="number"
+          min={0}
+          value={maxErrors}
+          onChange={(event) => setMaxErrors(event.target.value)}
+        />
+
+        <label className="field-label">
+          <input
+            name="force"
+            type="checkbox"
+            value="1"
+            checked={force}
+            onChange={(event) => setForce(event.target.checked)}
+          />{" "}
+          Import lại kể cả khi file giống hệt lần import trước
         </label>
-        <input id="file" name="file" type="file" accept=".xlsx,.xls" />
 
         <button type="submit" disabled={isLoading} className="button-primary">
-          {isLoading ? "Importing..." : "Import Uploaded File"}
+          {isLoading && !pending ? "Analyzing..." : "Preview Uploaded File"}
         </button>
 
         <button
@@ -86,13 +362,323 @@ export function ImportForm() {
           className="button-secondary"
           onClick={handleDefaultImport}
         >
-          Use Default File in data/raw
+          Preview Default File in data/raw
         </button>
       </form>
 
+      {preview ? (
+        <section className="import-preview mt-card">
+          <header className="admin-section-heading">
+            <h2>Xem trước thay đổi · {preview.semesters.map((semester) => semester.semesterLabel).join(", ")}</h2>
+            <p className="muted-small">
+              Nguồn: {preview.sourceFile} ({preview.format.toUpperCase()}) · {preview.sheets.length} sheet
+              {preview.examSheets.length > 0 ? ` + ${preview.examSheets.length} sheet lịch thi` : ""} ·{" "}
+              {preview.semesters.length} học kỳ. Chưa có dữ liệu nào được ghi.
+            </p>
+          </header>
+
+          {mappingDraft ? (
+            <details className="import-diff-details mt-card" open={preview.semesters.length > 1 || preview.mappingProblems.length > 0 || mappingDirty}>
+              <summary>Phân bổ sheet → học kỳ</summary>
+              <datalist id="import-semester-keys">
+                {knownSemesterKeys.map((key) => (
+                  <option key={key} value={key} />
+                ))}
+              </datalist>
+              <div className="admin-table-wrap mt-card">
+                <table className="admin-table">
+                  <thead>
+                    <tr>
+                      <th>Sheet</th>
+                      <th>Khóa</th>
+                      <th>Slot</th>
+                      <th>Nhận diện</th>
+                      <th>Học kỳ đích</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.sheets.map((sheet) => (
+                      <tr key={sheet.sheetName}>
+                        <td>{sheet.sheetName}</td>
+                        <td>{sheet.cohortCode}</td>
+                        <td>{sheet.rows}</td>
+                        <td>
+                          {sheet.detectedSemesterLabel}
+                          <p className="muted-small">{sheet.detectedSemesterKey}</p>
+                        </td>
+                        <td>
+                          <input
+                            list="import-semester-keys"
+                            value={mappingDraft.sheets[sheet.sheetName] ?? ""}
+                            onChange={(event) => updateSheetSemester(sheet.sheetName, event.target.value)}
+                          />
+                        </td>
+                      </tr>
+                    ))}
+                    {preview.examSheets.map((sheet) => (
+                      <tr key={sheet.sheetName}>
+                        <td>{sheet.sheetName}</td>
+                        <td>{sheet.cohortCode}</td>
+                        <td>{sheet.incoming} lịch thi</td>
+                        <td>{sheet.kinds.map((kind) => EXAM_KIND_LABEL[kind] ?? kind).join(", ")}</td>
+                        <td>
+                          <input
+                            list="import-semester-keys"
+                            value={mappingDraft.sheets[sheet.sheetName] ?? ""}
+                            onChange={(event) => updateSheetSemester(sheet.sheetName, event.target.value)}
+                          />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="admin-table-wrap mt-card">
+                <table className="admin-table">
+                  <thead>
+                    <tr>
+                      <th>Mã học kỳ</th>
+                      <th>Tên hiển thị</th>
+                      <th>Bắt đầu</th>
+                      <th>Kết thúc</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {draftSemesterKeys.map((key) => {
+                      const semester = mappingDraft.semesters[key] ?? { label: "", startDate: "", endDate: "" };
+                      const existing = preview.semesters.find((item) => item.semesterKey === key);
+
+                      return (
+                        <tr key={key}>
+                          <td>
+                            <strong>{key}</strong>
+                            <p className="muted-small">
+                              {!existing ? "Chưa xem trước" : existing.exists ? "Đã có trong hệ thống" : "Sẽ được tạo mới"}
+                            </p>
+                          </td>
+                          <td>
+                            <input
+                              value={semester.label}
+                              placeholder={key.replace(/_/g, " ")}
+                              onChange={(event) => updateSemesterField(key, "label", event.target.value)}
+                            />
+                          </td>
+                          <td>
+                            <input
+                              type="date"
+                              value={semester.startDate}
+                              onChange={(event) => updateSemesterField(key, "startDate", event.target.value)}
+                            />
+                          </td>
+                          <td>
+                            <input
+                              type="date"
+                              value={semester.endDate}
+                              onChange={(event) => updateSemesterField(key, "endDate", event.target.value)}
+                            />
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="admin-form-actions mt-card">
+                <button type="button" className="button-secondary" disabled={isLoading} onClick={applyMapping}>
+                  Áp dụng và xem trước lại
+                </button>
+                {mappingDirty ? (
+                  <span className="muted-small">Đã sửa phân bổ, cần xem trước lại trước khi import.</span>
+                ) : null}
+              </div>
+            </details>
+          ) : null}
+
+          <div className="chip-row">
+            <span className="chip diff-added">+{preview.totals.added} slot mới</span>
+            <span className="chip diff-removed">-{preview.totals.removed} slot bị xóa</span>
+            <span className="chip diff-changed">~{preview.totals.changed} slot thay đổi</span>
+            <span className="chip chip-muted">{preview.totals.unchanged} giữ nguyên</span>
+            <span className="chip chip-muted">
+              {previewErrorCount} lỗi · {preview.diagnostics.length - previewErrorCount} cảnh báo
+            </span>
+          </div>
+
+          {preview.newCourses.length > 0 ? (
+            <p className="muted-small">
+              Học phần mới: <strong>{preview.newCourses.join(", ")}</strong>
+            </p>
+          ) : null}
+          {preview.newClassGroups.length > 0 ? (
+            <p className="muted-small">
+              Lớp mới: <strong>{preview.newClassGroups.join(", ")}</strong>
+            </p>
+          ) : null}
+
+          {preview.semesters.map((semester) => (
+            <div key={semester.semesterKey} className="mt-card">
+              <h3 className="admin-section-heading">
+                {semester.semesterLabel} ({semester.semesterKey}) · {semester.startDate ?? "?"} → {semester.endDate ?? "?"}
+                {semester.exists ? "" : " · mới"}
+              </h3>
+              {semester.cohorts.map((cohort) => (
+                <div key={cohort.cohortCode} className="admin-table-wrap mt-card">
+                  <table className="admin-table">
+                    <thead>
+                      <tr>
+                        <th>
+                          {cohort.cohortCode}
+                          {cohort.isNew ? " (mới)" : ""}
+                        </th>
+                        <th>Trạng thái</th>
+                        <th>Thêm</th>
+                        <th>Xóa</th>
+                        <th>Thay đổi</th>
+                        <th>Giữ nguyên</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {cohort.classGroups.map((classGroup) => {
+                        const hasDetails =
+                          classGroup.added.length + classGroup.removed.length + classGroup.changed.length > 0;
+
+                        return (
+                          <tr key={classGroup.classGroupName}>
+                            <td>
+                              <strong>{classGroup.classGroupName}</strong>
+                              {hasDetails ? (
+                                <details className="import-diff-details">
+                                  <summary>Chi tiết</summary>
+                                  <ul className="simple-list">
+                                    {classGroup.added.map((entry, index) => (
+                                      <li key={`add-${index}`} className="diff-added">
+                                        + {describeEntry(entry)}
+                                      </li>
+                                    ))}
+                                    {classGroup.removed.map((entry, index) => (
+                                      <li key={`remove-${index}`} className="diff-removed">
+                                        - {describeEntry(entry)}
+                                      </li>
+                                    ))}
+                                    {classGroup.changed.map((change, index) => (
+                                      <li key={`change-${index}`} className="diff-changed">
+                                        ~ {describeEntry(change.after)} (trước: {describeEntry(change.before)})
+                                      </li>
+                                    ))}
+                                  </ul>
+                                </details>
+                              ) : null}
+                            </td>
+                            <td>{CLASS_GROUP_STATUS_LABEL[classGroup.status] ?? classGroup.status}</td>
+                            <td>{classGroup.added.length}</td>
+                            <td>{classGroup.removed.length}</td>
+                            <td>{classGroup.changed.length}</td>
+                            <td>{classGroup.unchanged}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </div>
+          ))}
+
+          {preview.examSheets.length > 0 ? (
+            <div className="admin-table-wrap mt-card">
+              <table className="admin-table">
+                <thead>
+                  <tr>
+                    <th>Sheet lịch thi</th>
+                    <th>Học kỳ</th>
+                    <th>Khóa</th>
+                    <th>Kỳ thi</th>
+                    <th>Lịch thi mới</th>
+                    <th>Thay thế</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.examSheets.map((sheet) => (
+                    <tr key={sheet.sheetName}>
+                      <td>{sheet.sheetName}</td>
+                      <td>{sheet.semesterKey}</td>
+                      <td>{sheet.cohortCode}</td>
+                      <td>{sheet.kinds.map((kind) => EXAM_KIND_LABEL[kind] ?? kind).join(", ")}</td>
+                      <td>{sheet.incoming}</td>
+                      <td>{sheet.replaced}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : null}
+
+          <details className="import-diff-details mt-card" open={previewErrorCount > 0}>
+            <summary>Chẩn đoán theo dòng ({preview.diagnostics.length})</summary>
+            <ImportDiagnosticsTable diagnostics={preview.diagnostics} />
+          </details>
+
+          {preview.mappingProblems.map((problem) => (
+            <p key={problem} className="status-error">
+              {problem}
+            </p>
+          ))}
+
+          {exceedsErrorLimit ? (
+            <p className="status-error">
+              Số lỗi ({previewErrorCount}) vượt ngưỡng cho phép ({preview.maxErrors}). Import sẽ bị từ chối.
+            </p>
+          ) : null}
+
+          <div className="admin-form-actions line-spread mt-card">
+            <button
+              type="button"
+              className="button-primary"
+              disabled={isLoading || exceedsErrorLimit || mappingDirty || preview.mappingProblems.length > 0}
+              onClick={confirmImport}
+            >
+              {isLoading ? "Importing..." : "Xác nhận import"}
+            </button>
+            <button type="button" className="button-secondary" disabled={isLoading} onClick={() => setPending(null)}>
+              Hủy
+            </button>
+          </div>
+        </section>
+      ) : null}
+
+      {job ? (
+        <div className="import-progress mt-card">
+          <p className="muted-small">
+            {job.sourceFile} · {job.status} · {describeProgress(job)}
+          </p>
+          <progress
+            max={job.progress.totalRows || 1}
+            value={job.progress.totalRows ? job.progress.rows : undefined}
+          />
+        </div>
+      ) : null}
+
       {importState ? (
         <p className={importState.ok ? "status-ok" : "status-error"}>{importState.message}</p>
       ) : null}
+      {importState?.diagnostics && importState.diagnostics.length > 0 ? (
+        <ImportDiagnosticsTable diagnostics={importState.diagnostics} />
+      ) : null}
+      {importState?.bookingConflicts?.map((report) => (
+        <details
+          key={report.semesterKey}
+          className="import-diff-details mt-card"
+          open={report.rooms.length + report.lecturers.length > 0}
+        >
+          <summary>
+            Trùng lịch giữa các khóa · {report.semesterLabel} ({report.rooms.length} phòng, {report.lecturers.length}{" "}
+            giảng viên)
+          </summary>
+          <BookingConflictTables report={report} />
+        </details>
+      ))}
     </div>
   );
 }
@@ -3,6 +3,7 @@ import { redirect } from "next/navigation";
 
 import { ImportForm } from "@/app/admin/import/import-form";
 import { getServerSession } from "@/lib/auth/session";
+import { listImportFormats } from "@/lib/importers/registry";
 
 export default async function ImportPage() {
   const session = await getServerSession();
@@ -16,15 +17,18 @@ export default async function ImportPage() {
         <p className="eyebrow">Administration</p>
         <h1>Data Import Command</h1>
         <p>
-          Đồng bộ dữ liệu học kỳ từ file <code>.xlsx</code> trực tiếp vào hệ thống, giữ chuẩn vận hành như
-          cổng đào tạo trường đại học.
+          Đồng bộ dữ liệu học kỳ từ file <code>.xlsx</code>, <code>.csv</code> hoặc <code>.json</code> trực tiếp vào
+          hệ thống, giữ chuẩn vận hành như cổng đào tạo trường đại học. Mỗi lần import đều hiển thị bản xem trước thay
+          đổi so với dữ liệu hiện tại và chỉ ghi vào database sau khi xác nhận.
         </p>
       </section>
 
-      <ImportForm />
+      <ImportForm formats={listImportFormats()} />
 
       <p className="hint-text">
-        Need full CRUD management? Open <Link href="/admin/academic">Academic Management</Link> or go back to the{" "}
+        Review past runs or roll one back in <Link href="/admin/import/history">Import History</Link>, and check
+        cross-cohort room/lecturer double-bookings in <Link href="/admin/conflicts">Booking Conflicts</Link>. Need full CRUD
+        management? Open <Link href="/admin/academic">Academic Management</Link> or go back to the{" "}
         <Link href="/">dashboard timetable</Link>.
       </p>
     </main>
@@ -0,0 +1,65 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+import { getServerSession } from "@/lib/auth/session";
+import { getResourceIndexStatus } from "@/lib/resource-index";
+import { getRoleViewSettings } from "@/lib/schedule-views";
+
+import { ResourceIndexForm } from "./resource-index-form";
+import { RoleViewsForm } from "./role-views-form";
+
+export default async function PortalSettingsPage() {
+  const session = await getServerSession();
+  if (!session || session.role !== "ADMIN") {
+    redirect("/?denied=admin");
+  }
+
+  const [roleViews, indexStatus] = await Promise.all([getRoleViewSettings(), getResourceIndexStatus()]);
+
+  return (
+    <main className="page-shell">
+      <section className="hero-block">
+        <p className="eyebrow">Administration Console</p>
+        <h1>Portal Settings</h1>
+        <p>
+          Chọn các kiểu xem thời khóa biểu (Matrix, Agenda, Cards) mà từng vai trò được dùng trên dashboard. Người dùng
+          chọn kiểu xem mặc định của mình trong <Link href="/profile">Profile</Link>, trong phạm vi được bật ở đây.
+        </p>
+      </section>
+
+      <section className="details-card">
+        <h2>Kiểu xem theo vai trò</h2>
+        <RoleViewsForm initial={roleViews} />
+      </section>
+
+      <section className="details-card mt-card">
+        <h2>Chỉ mục học liệu</h2>
+        <p className="hint-text">
+          Danh sách file, mtime, mã băm và nội dung guide.md của từng thư mục môn học được lưu trong cơ sở dữ liệu; khi
+          file trong thư mục học liệu thay đổi, chỉ thư mục môn đó được quét lại. Dùng nút dưới đây sau khi chép học liệu
+          lúc server không theo dõi được thư mục.
+        </p>
+        <div className="chip-row">
+          <span className="chip">{indexStatus.folders} thư mục</span>
+          <span className="chip">{indexStatus.files} file</span>
+          <span className="chip">
+            Cập nhật lần cuối:{" "}
+            {indexStatus.lastIndexedAt ? indexStatus.lastIndexedAt.toLocaleString("vi-VN") : "chưa lập chỉ mục"}
+          </span>
+          <span className={indexStatus.watching ? "chip diff-added" : "chip chip-muted"}>
+            {indexStatus.watching ? "Đang theo dõi thay đổi" : "Không theo dõi, quét lại mỗi phút"}
+          </span>
+        </div>
+        <ResourceIndexForm />
+      </section>
+
+      <section className="details-card mt-card">
+        <h2>Chia sẻ thời khóa biểu</h2>
+        <p className="hint-text">
+          Quản lý link chia sẻ công khai và danh sách lớp trưởng tại{" "}
+          <Link href="/admin/share-links">Timetable Share Links</Link>.
+        </p>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+import type { ResourceIndexSummary } from "@/lib/resource-index";
+
+type ReindexResponse = {
+  ok?: boolean;
+  error?: string;
+  summary?: ResourceIndexSummary;
+};
+
+function describeSummary(summary: ResourceIndexSummary): string {
+  const parts = [`Đã kiểm tra ${summary.scanned} thư mục, băm lại ${summary.hashedFiles} file`];
+  parts.push(summary.changed.length > 0 ? `cập nhật: ${summary.changed.join(", ")}` : "không có thư mục thay đổi");
+  if (summary.removed.length > 0) {
+    parts.push(`gỡ khỏi chỉ mục: ${summary.removed.join(", ")}`);
+  }
+
+  return `${parts.join("; ")} (${(summary.durationMs / 1000).toFixed(1)}s).`;
+}
+
+export function ResourceIndexForm() {
+  const router = useRouter();
+  const [courseCode, setCourseCode] = useState("");
+  const [force, setForce] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function onSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    setRunning(true);
+    setMessage(null);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/admin/resources/reindex", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ courseCode: courseCode.trim() || null, force }),
+      });
+
+      const payload = (await response.json()) as ReindexResponse;
+      if (!response.ok || !payload.ok || !payload.summary) {
+        setError(payload.error ?? "Không thể lập chỉ mục học liệu.");
+        return;
+      }
+
+      setMessage(describeSummary(payload.summary));
+      router.refresh();
+    } catch {
+      setError("Không kết nối được dịch vụ lập chỉ mục.");
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  return (
+    <form className="admin-form-grid" onSubmit={onSubmit}>
+      <label>
+        Mã học phần (để trống = tất cả)
+        <input value={courseCode} placeholder="CS 2255" onChange={(event) => setCourseCode(event.target.value)} />
+      </label>
+      <label>
+        <input type="checkbox" checked={force} onChange={(event) => setForce(event.target.checked)} /> Băm lại mọi file
+        (bỏ qua kích thước/mtime đã lưu)
+      </label>
+      <div className="admin-form-actions">
+        <button type="submit" className="button-primary" disabled={running}>
+          {running ? "Đang lập chỉ mục..." : "Lập chỉ mục lại"}
+        </button>
+      </div>
+
+      {message ? <p className="status-ok admin-form-full">{message}</p> : null}
+      {error ? <p className="status-error admin-form-full">{error}</p> : null}
+    </form>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+import type { UserRole } from "@/lib/auth/session";
+import type { RoleViewSettings, ScheduleView } from "@/lib/schedule-views";
+
+type RoleViewsFormProps = {
+  initial: RoleViewSettings;
+};
+
+type SettingsResponse = {
+  ok?: boolean;
+  error?: string;
+  roleViews?: RoleViewSettings;
+};
+
+const ROLES: Array<{ role: UserRole; label: string }> = [
+  { role: "ADMIN", label: "Admin" },
+  { role: "LECTURER", label: "Giảng viên" },
+  { role: "STUDENT", label: "Sinh viên" },
+];
+
+const VIEWS: Array<{ view: ScheduleView; label: string }> = [
+  { view: "matrix", label: "Matrix" },
+  { view: "agenda", label: "Agenda" },
+  { view: "cards", label: "Cards" },
+];
+
+export function RoleViewsForm({ initial }: RoleViewsFormProps) {
+  const router = useRouter();
+  const [roleViews, setRoleViews] = useState<RoleViewSettings>(initial);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  function toggle(role: UserRole, view: ScheduleView) {
+    setRoleViews((current) => {
+      const views = current[role].includes(view)
+        ? current[role].filter((item) => item !== view)
+        : [...current[role], view];
+      return { ...current, [role]: VIEWS.map((item) => item.view).filter((item) => views.includes(item)) };
+    });
+  }
+
+  async function onSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (ROLES.some(({ role }) => roleViews[role].length === 0)) {
+      setError("Mỗi vai trò cần ít nhất một kiểu xem.");
+      return;
+    }
+
+    setSaving(true);
+    setMessage(null);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/admin/settings", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ roleViews }),
+      });
+
+      const payload = (await response.json()) as SettingsResponse;
+      if (!response.ok || !payload.ok) {
+        setError(payload.error ?? "Không thể lưu cài đặt.");
+        return;
+      }
+
+      if (payload.roleViews) {
+        setRoleViews(payload.roleViews);
+      }
+      setMessage("Đã lưu cài đặt kiểu xem.");
+      router.refresh();
+    } catch {
+      setError("Không kết nối được dịch vụ cài đặt.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <form onSubmit={onSubmit}>
+      <div className="admin-table-wrap">
+        <table className="admin-table">
+          <thead>
+            <tr>
+              <th>Vai trò</th>
+              {VIEWS.map(({ view, label }) => (
+                <th key={view}>{label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {ROLES.map(({ role, label }) => (
+              <tr key={role}>
+                <td>{label}</td>
+                {VIEWS.map(({ view }) => (
+                  <td key={view}>
+                    <input
+                      type="checkbox"
+                      aria-label={`${label} · ${view}`}
+                      checked={roleViews[role].includes(view)}
+                      onChange={() => toggle(role, view)}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="admin-form-actions mt-card">
+        <button type="submit" className="button-primary" disabled={saving}>
+          {saving ? "Đang lưu..." : "Lưu cài đặt"}
+        </button>
+      </div>
+
+      {message ? <p className="status-ok">{message}</p> : null}
+      {error ? <p className="status-error">{error}</p> : null}
+    </form>
+  );
+}
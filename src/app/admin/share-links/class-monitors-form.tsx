@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+
+import type { ClassMonitorInfo } from "@/lib/share-links";
+
+type ClassMonitorsFormProps = {
+  initial: ClassMonitorInfo[];
+};
+
+type ClassMonitorsResponse = {
+  ok?: boolean;
+  error?: string;
+  monitors?: ClassMonitorInfo[];
+};
+
+export function ClassMonitorsForm({ initial }: ClassMonitorsFormProps) {
+  const [monitors, setMonitors] = useState<ClassMonitorInfo[]>(initial);
+  const [username, setUsername] = useState("");
+  const [cohortCode, setCohortCode] = useState("");
+  const [classGroupName, setClassGroupName] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function update(target: string, enabled: boolean) {
+    setBusy(true);
+    setMessage(null);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/admin/class-monitors", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(
+          enabled ? { username: target, enabled, cohortCode, classGroupName } : { username: target, enabled },
+        ),
+      });
+
+      const payload = (await response.json()) as ClassMonitorsResponse;
+      if (!response.ok || !payload.ok) {
+        setError(payload.error ?? "Không thể cập nhật lớp trưởng.");
+        return;
+      }
+
+      setMonitors(payload.monitors ?? []);
+      setMessage(enabled ? `Đã đặt ${target} làm lớp trưởng.` : `Đã gỡ quyền lớp trưởng của ${target} và thu hồi link.`);
+      if (enabled) {
+        setUsername("");
+        setCohortCode("");
+        setClassGroupName("");
+      }
+    } catch {
+      setError("Không kết nối được dịch vụ quản trị.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div>
+      <form
+        className="admin-scope-form"
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (username.trim()) {
+            void update(username.trim(), true);
+          }
+        }}
+      >
+        <label>
+          Tài khoản sinh viên
+          <input value={username} onChange={(event) => setUsername(event.target.value)} placeholder="username" />
+        </label>
+        <label>
+          Khóa
+          <input value={cohortCode} onChange={(event) => setCohortCode(event.target.value)} placeholder="Theo hồ sơ" />
+        </label>
+        <label>
+          Lớp
+          <input
+            value={classGroupName}
+            onChange={(event) => setClassGroupName(event.target.value)}
+            placeholder="Theo hồ sơ"
+          />
+        </label>
+        <div className="admin-form-actions">
+          <button type="submit" className="button-primary" disabled={busy || !username.trim()}>
+            Thêm lớp trưởng
+          </button>
+        </div>
+      </form>
+
+      {message ? <p className="status-ok">{message}</p> : null}
+      {error ? <p className="status-error">{error}</p> : null}
+
+      {monitors.length === 0 ? (
+        <p className="muted-small mt-card">Chưa có lớp trưởng nào.</p>
+      ) : (
+        <div className="admin-table-wrap mt-card">
+          <table className="admin-table">
+            <thead>
+              <tr>
+                <th>Tài khoản</th>
+                <th>Họ tên</th>
+                <th>Lớp</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {monitors.map((monitor) => (
+                <tr key={monitor.username}>
+                  <td>{monitor.username}</td>
+                  <td>{monitor.displayName ?? "—"}</td>
+                  <td>
+                    {monitor.cohortCode && monitor.classGroupName
+                      ? `${monitor.cohortCode} ${monitor.classGroupName}`
+                      : "Chưa giao lớp"}
+                  </td>
+                  <td>
+                    <button
+                      type="button"
+                      className="button-secondary"
+                      disabled={busy}
+                      onClick={() => void update(monitor.username, false)}
+                    >
+                      Gỡ quyền
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { headers } from "next/headers";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+import { ShareLinksPanel } from "@/components/schedule/share-links-panel";
+import { getServerSession } from "@/lib/auth/session";
+import { listClassMonitors, listShareLinks, listShareScopes } from "@/lib/share-links";
+
+import { ClassMonitorsForm } from "./class-monitors-form";
+
+export default async function ShareLinksAdminPage() {
+  const session = await getServerSession();
+  if (!session || session.role !== "ADMIN") {
+    redirect("/?denied=admin");
+  }
+
+  const [links, scopes, monitors, requestHeaders] = await Promise.all([
+    listShareLinks(session),
+    listShareScopes(session),
+    listClassMonitors(),
+    headers(),
+  ]);
+  const host = requestHeaders.get("x-forwarded-host") ?? requestHeaders.get("host") ?? "localhost:3000";
+  const origin = `${requestHeaders.get("x-forwarded-proto") ?? "http"}://${host}`;
+
+  return (
+    <main className="page-shell">
+      <section className="hero-block">
+        <p className="eyebrow">Administration Console</p>
+        <h1>Timetable Share Links</h1>
+        <p>
+          Link chia sẻ cho phép người ngoài (phụ huynh, nhóm lớp) xem thời khóa biểu của một lớp mà không cần đăng nhập.
+          Link chỉ hiển thị lịch học, có thể đặt hạn dùng và thu hồi bất cứ lúc nào. Xem thêm{" "}
+          <Link href="/admin/settings">Portal Settings</Link>.
+        </p>
+      </section>
+
+      <section className="details-card">
+        <h2>Link chia sẻ</h2>
+        <ShareLinksPanel origin={origin} scopes={scopes} initial={links} showOwner />
+      </section>
+
+      <section className="details-card mt-card">
+        <h2>Lớp trưởng</h2>
+        <p className="hint-text">
+          Lớp trưởng tạo được link chia sẻ cho đúng lớp được giao ở đây, từ trang Profile. Để trống khóa/lớp sẽ giao theo
+          lớp trong hồ sơ hiện tại của sinh viên; sửa hồ sơ sau đó không đổi lớp được giao. Gỡ quyền hoặc giao lớp khác
+          sẽ thu hồi các link mà tài khoản đó đã tạo cho lớp cũ.
+        </p>
+        <ClassMonitorsForm initial={monitors} />
+      </section>
+    </main>
+  );
+}
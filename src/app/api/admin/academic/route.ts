@@ -4,6 +4,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getRequestSession } from "@/lib/auth/request-session";
 import { normalizeCourseCode } from "@/lib/knowledge";
 import { prisma } from "@/lib/prisma";
+import { computeEndTime, normalizeWeekPattern } from "@/lib/schedule-weeks";
 
 type EntityType = "semester" | "cohort" | "classGroup" | "scheduleEntry";
 
@@ -466,8 +467,12 @@ export async function POST(request: NextRequest) {
             dayOfWeek: true,
             session: true,
             startTime: true,
+            endTime: true,
             rawTime: true,
             room: true,
+            weekPattern: true,
+            startDate: true,
+            endDate: true,
             sourceSheet: true,
             sourceRow: true,
           },
@@ -482,8 +487,12 @@ export async function POST(request: NextRequest) {
               dayOfWeek: sourceEntry.dayOfWeek,
               session: sourceEntry.session,
               startTime: sourceEntry.startTime,
+              endTime: sourceEntry.endTime,
               rawTime: sourceEntry.rawTime,
               room: sourceEntry.room,
+              weekPattern: sourceEntry.weekPattern,
+              startDate: sourceEntry.startDate,
+              endDate: sourceEntry.endDate,
               sourceSheet: sourceEntry.sourceSheet,
               sourceRow: sourceEntry.sourceRow,
             },
@@ -570,8 +579,13 @@ export async function POST(request: NextRequest) {
       const dayOfWeek = normalizeDayOfWeek(body.dayOfWeek);
       const sessionPeriod = normalizeSession(body.session);
       const startTime = normalizeTimeOrNull(body.startTime);
+      const endTime =
+        normalizeTimeOrNull(body.endTime) ?? computeEndTime(startTime, normalizeIntOrNull(body.durationMinutes));
       const room = cleanText(body.room, 180) || null;
       const rawTime = cleanText(body.rawTime, 180) || null;
+      const weekPattern = normalizeWeekPattern(cleanText(body.weekPattern, 120));
+      const entryStartDate = normalizeDateOrNull(body.startDate);
+      const entryEndDate = normalizeDateOrNull(body.endDate);
       const sourceSheet = cleanText(body.sourceSheet, 120) || "ADMIN_MANUAL";
       const sourceRow = normalizeIntOrNull(body.sourceRow) ?? Math.floor(Date.now() % 2_000_000_000);
       const courseNameEn = cleanText(body.courseNameEn, 220) || null;
@@ -584,6 +598,18 @@ export async function POST(request: NextRequest) {
         );
       }
 
+      if (cleanText(body.endTime, 10) && !endTime) {
+        return NextResponse.json({ ok: false, error: "Invalid endTime. Use HH:MM." }, { status: 400 });
+      }
+
+      if (cleanText(body.weekPattern, 120) && !weekPattern) {
+        return NextResponse.json({ ok: false, error: "Invalid weekPattern. Use e.g. 1-8,10,!5." }, { status: 400 });
+      }
+
+      if (entryStartDate && entryEndDate && entryStartDate > entryEndDate) {
+        return NextResponse.json({ ok: false, error: "startDate must be on or before endDate." }, { status: 400 });
+      }
+
       const course = await prisma.course.upsert({
         where: {
           code: courseCode,
@@ -607,8 +633,12 @@ export async function POST(request: NextRequest) {
           dayOfWeek,
           session: sessionPeriod,
           startTime,
+          endTime,
           rawTime,
           room,
+          weekPattern,
+          startDate: entryStartDate,
+          endDate: entryEndDate,
           sourceSheet,
           sourceRow,
         },
@@ -825,8 +855,12 @@ export async function PATCH(request: NextRequest) {
         dayOfWeek?: DayOfWeek;
         session?: SessionPeriod;
         startTime?: string | null;
+        endTime?: string | null;
         room?: string | null;
         rawTime?: string | null;
+        weekPattern?: string | null;
+        startDate?: Date | null;
+        endDate?: Date | null;
         sourceSheet?: string;
         sourceRow?: number;
       } = {};
@@ -880,6 +914,38 @@ export async function PATCH(request: NextRequest) {
         updatePatch.startTime = startTime;
       }
 
+      if (hasOwn(body, "endTime")) {
+        const endTime = normalizeTimeOrNull(body.endTime);
+        if (body.endTime && endTime === null) {
+          return NextResponse.json({ ok: false, error: "Invalid endTime. Use HH:MM." }, { status: 400 });
+        }
+        updatePatch.endTime = endTime;
+      }
+
+      if (hasOwn(body, "weekPattern")) {
+        const weekPattern = normalizeWeekPattern(cleanText(body.weekPattern, 120));
+        if (body.weekPattern && weekPattern === null) {
+          return NextResponse.json({ ok: false, error: "Invalid weekPattern. Use e.g. 1-8,10,!5." }, { status: 400 });
+        }
+        updatePatch.weekPattern = weekPattern;
+      }
+
+      for (const key of ["startDate", "endDate"] as const) {
+        if (hasOwn(body, key)) {
+          const value = normalizeDateOrNull(body[key]);
+          if (body[key] && value === null) {
+            return NextResponse.json({ ok: false, error: `Invalid ${key}.` }, { status: 400 });
+          }
+          updatePatch[key] = value;
+        }
+      }
+
+      const nextStartDate = hasOwn(body, "startDate") ? updatePatch.startDate : currentEntry.startDate;
+      const nextEndDate = hasOwn(body, "endDate") ? updatePatch.endDate : currentEntry.endDate;
+      if (nextStartDate && nextEndDate && nextStartDate > nextEndDate) {
+        return NextResponse.json({ ok: false, error: "startDate must be on or before endDate." }, { status: 400 });
+      }
+
       if (hasOwn(body, "room")) {
         updatePatch.room = cleanText(body.room, 180) || null;
       }
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestSession } from "@/lib/auth/request-session";
+import { exportCatalogCsv } from "@/lib/catalog";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session || session.role !== "ADMIN") {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  return new NextResponse(await exportCatalogCsv(), {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": 'attachment; filename="Catalog.csv"',
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
@@ -0,0 +1,54 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestSession } from "@/lib/auth/request-session";
+import { diffCatalog, importCatalog, parseCatalogCsv, resolveDefaultCatalogPath } from "@/lib/catalog";
+
+export const runtime = "nodejs";
+
+// Without an uploaded file the CSV at CATALOG_CSV_PATH (default data/catalog/Catalog.csv) is used.
+export async function POST(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session || session.role !== "ADMIN") {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return NextResponse.json({ ok: false, error: "Expected multipart form-data." }, { status: 400 });
+  }
+
+  const file = formData.get("file");
+  let buffer: Buffer;
+  let sourceFile: string;
+  if (file instanceof File && file.size > 0) {
+    buffer = Buffer.from(await file.arrayBuffer());
+    sourceFile = file.name;
+  } else {
+    const defaultPath = resolveDefaultCatalogPath();
+    if (!fs.existsSync(defaultPath)) {
+      return NextResponse.json({ ok: false, error: `Không tìm thấy ${defaultPath}; hãy tải lên file CSV.` }, { status: 400 });
+    }
+    buffer = fs.readFileSync(defaultPath);
+    sourceFile = path.basename(defaultPath);
+  }
+
+  const rows = parseCatalogCsv(buffer);
+  if (rows.length === 0) {
+    return NextResponse.json({ ok: false, error: "File không có dòng học phần nào (cột Mã HP)." }, { status: 400 });
+  }
+
+  const mode = String(formData.get("mode") ?? "").trim().toLowerCase();
+  const diff = await diffCatalog(rows, sourceFile);
+  if (mode === "preview") {
+    return NextResponse.json({ ok: true, diff });
+  }
+
+  const detachMissing = String(formData.get("detachMissing") ?? "") === "1";
+  const summary = await importCatalog(rows, { detachMissing });
+  return NextResponse.json({ ok: true, diff, summary });
+}
@@ -0,0 +1,183 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestSession } from "@/lib/auth/request-session";
+import {
+  createCatalogCourse,
+  deleteCatalogCourse,
+  deleteCatalogProgram,
+  deleteCatalogSection,
+  listCatalogCourses,
+  listCatalogPrograms,
+  saveCatalogProgram,
+  saveCatalogSection,
+  updateCatalogCourse,
+  type CatalogCourseInput,
+} from "@/lib/catalog";
+
+export const runtime = "nodejs";
+
+type EntityType = "program" | "section" | "course";
+
+type RawBody = Record<string, unknown> & {
+  type?: unknown;
+};
+
+function cleanText(value: unknown, maxLength = 180): string {
+  if (typeof value !== "string") {
+    return "";
+  }
+
+  return value.trim().slice(0, maxLength);
+}
+
+function textOrNull(value: unknown, maxLength = 400): string | null {
+  return cleanText(value, maxLength) || null;
+}
+
+function intOrNull(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return Math.trunc(value);
+  }
+
+  const parsed = Number.parseInt(cleanText(value, 20), 10);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function toCourseInput(body: RawBody): CatalogCourseInput {
+  return {
+    code: cleanText(body.code, 40),
+    nameEn: textOrNull(body.nameEn),
+    nameVi: textOrNull(body.nameVi),
+    credits: intOrNull(body.credits),
+    prerequisite: textOrNull(body.prerequisite),
+    note: textOrNull(body.note, 1000),
+    sectionId: textOrNull(body.sectionId, 80),
+  };
+}
+
+async function readBody(request: NextRequest): Promise<RawBody | null> {
+  try {
+    return (await request.json()) as RawBody;
+  } catch {
+    return null;
+  }
+}
+
+async function catalogResponse(type: EntityType) {
+  const [programs, courses] = await Promise.all([listCatalogPrograms(), listCatalogCourses()]);
+  return NextResponse.json({ ok: true, type, programs, courses });
+}
+
+export async function GET(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session || session.role !== "ADMIN") {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const [programs, courses] = await Promise.all([listCatalogPrograms(), listCatalogCourses()]);
+  return NextResponse.json({ ok: true, programs, courses });
+}
+
+async function saveEntity(request: NextRequest, mode: "create" | "update") {
+  const session = await getRequestSession(request);
+  if (!session || session.role !== "ADMIN") {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const body = await readBody(request);
+  if (!body) {
+    return NextResponse.json({ ok: false, error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const type = cleanText(body.type, 40) as EntityType;
+  const id = mode === "update" ? cleanText(body.id, 80) : undefined;
+  if (mode === "update" && type !== "course" && !id) {
+    return NextResponse.json({ ok: false, error: "id is required." }, { status: 400 });
+  }
+
+  try {
+    if (type === "program") {
+      await saveCatalogProgram({
+        id,
+        name: cleanText(body.name),
+        sortOrder: intOrNull(body.sortOrder) ?? 0,
+        totalCredits: intOrNull(body.totalCredits),
+      });
+      return catalogResponse(type);
+    }
+
+    if (type === "section") {
+      await saveCatalogSection({
+        id,
+        programId: cleanText(body.programId, 80),
+        name: cleanText(body.name),
+        sortOrder: intOrNull(body.sortOrder) ?? 0,
+        kind: body.kind === "CORE" || body.kind === "ELECTIVE" ? body.kind : undefined,
+        minCredits: intOrNull(body.minCredits),
+      });
+      return catalogResponse(type);
+    }
+
+    if (type === "course") {
+      if (mode === "create") {
+        await createCatalogCourse(toCourseInput(body));
+      } else {
+        await updateCatalogCourse(toCourseInput(body));
+      }
+      return catalogResponse(type);
+    }
+
+    return NextResponse.json({ ok: false, error: "Unsupported type." }, { status: 400 });
+  } catch (error) {
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Cannot save catalog entry" },
+      { status: 400 },
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  return saveEntity(request, "create");
+}
+
+export async function PATCH(request: NextRequest) {
+  return saveEntity(request, "update");
+}
+
+export async function DELETE(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session || session.role !== "ADMIN") {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const body = await readBody(request);
+  if (!body) {
+    return NextResponse.json({ ok: false, error: "Invalid JSON body." }, { status: 400 });
+  }
+
+  const type = cleanText(body.type, 40) as EntityType;
+
+  try {
+    if (type === "program") {
+      await deleteCatalogProgram(cleanText(body.id, 80));
+      return catalogResponse(type);
+    }
+
+    if (type === "section") {
+      await deleteCatalogSection(cleanText(body.id, 80));
+      return catalogResponse(type);
+    }
+
+    if (type === "course") {
+      await deleteCatalogCourse(cleanText(body.code, 40));
+      return catalogResponse(type);
+    }
+
+    return NextResponse.json({ ok: false, error: "Unsupported type." }, { status: 400 });
+  } catch (error) {
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Cannot delete catalog entry" },
+      { status: 400 },
+    );
+  }
+}
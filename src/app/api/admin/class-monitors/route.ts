@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestSession } from "@/lib/auth/request-session";
+import { listClassMonitors, setClassMonitor } from "@/lib/share-links";
+
+type ClassMonitorBody = {
+  username?: unknown;
+  enabled?: unknown;
+  cohortCode?: unknown;
+  classGroupName?: unknown;
+};
+
+function optionalText(value: unknown, maxLength: number): string | null {
+  return typeof value === "string" && value.trim() ? value.trim().slice(0, maxLength) : null;
+}
+
+export async function GET(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session || session.role !== "ADMIN") {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  return NextResponse.json({ ok: true, monitors: await listClassMonitors() });
+}
+
+export async function PUT(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session || session.role !== "ADMIN") {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  let body: ClassMonitorBody;
+  try {
+    body = (await request.json()) as ClassMonitorBody;
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const username = typeof body.username === "string" ? body.username.trim().slice(0, 120) : "";
+  if (!username) {
+    return NextResponse.json({ ok: false, error: "Missing username" }, { status: 400 });
+  }
+
+  try {
+    const monitor = await setClassMonitor(username, {
+      enabled: body.enabled !== false,
+      cohortCode: optionalText(body.cohortCode, 40),
+      classGroupName: optionalText(body.classGroupName, 80),
+    });
+    return NextResponse.json({ ok: true, monitor, monitors: await listClassMonitors() });
+  } catch (error) {
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Cannot update class monitor" },
+      { status: 400 },
+    );
+  }
+}
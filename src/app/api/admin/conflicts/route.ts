@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestSession } from "@/lib/auth/request-session";
+import { findBookingConflicts } from "@/lib/booking-conflicts";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session || session.role !== "ADMIN") {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const semesterKey = request.nextUrl.searchParams.get("semester")?.trim();
+  if (!semesterKey) {
+    return NextResponse.json({ ok: false, error: "Missing semester" }, { status: 400 });
+  }
+
+  const report = await findBookingConflicts(prisma, semesterKey);
+  if (!report) {
+    return NextResponse.json({ ok: false, error: "Semester not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ ok: true, report });
+}
@@ -1,61 +1,146 @@
+import fs from "node:fs";
+
 import { NextRequest, NextResponse } from "next/server";
 
+import { hasImportToken } from "@/lib/auth/import-access";
+import { getRequestSession } from "@/lib/auth/request-session";
+import { enqueueImportJob } from "@/lib/importers/importJobs";
 import {
-  importWorkbookFromBuffer,
-  importWorkbookFromPath,
-  resolveDefaultWorkbookPath,
-} from "@/lib/importers/springSchedule";
-import { AUTH_COOKIE_NAME, verifySessionToken } from "@/lib/auth/session";
+  isImportFormat,
+  previewScheduleFromBuffer,
+  previewScheduleFromPath,
+  type ScheduleImportOptions,
+} from "@/lib/importers/registry";
+import { parseSemesterMapping } from "@/lib/importers/semesterMapping";
+import { resolveDefaultWorkbookPath } from "@/lib/importers/springSchedule";
 import { prisma } from "@/lib/prisma";
 
 export const runtime = "nodejs";
 
-function isAuthorized(request: NextRequest, tokenFromBody?: string): boolean {
-  const expectedToken = process.env.ADMIN_IMPORT_TOKEN;
-  if (!expectedToken) {
-    return false;
+function isPreviewMode(request: NextRequest, modeFromBody?: string): boolean {
+  const mode = modeFromBody || request.nextUrl.searchParams.get("mode") || "";
+  return mode.trim().toLowerCase() === "preview";
+}
+
+// Option problems are the caller's mistake, so they come back as a message for a 400 instead of throwing.
+function parseImportOptions(
+  request: NextRequest,
+  fromBody: { maxErrors?: string; format?: string; force?: string; semesterMapping?: string } = {},
+): { options: ScheduleImportOptions; error: null } | { options: null; error: string } {
+  const options: ScheduleImportOptions = {};
+
+  const rawForce = (fromBody.force || request.nextUrl.searchParams.get("force") || "").trim().toLowerCase();
+  options.force = rawForce === "1" || rawForce === "true";
+
+  const rawMaxErrors = (fromBody.maxErrors || request.nextUrl.searchParams.get("maxErrors") || "").trim();
+  const maxErrors = Number.parseInt(rawMaxErrors, 10);
+  if (Number.isFinite(maxErrors) && maxErrors >= 0) {
+    options.maxErrors = maxErrors;
   }
 
-  const headerToken = request.headers.get("x-import-token");
-  return headerToken === expectedToken || tokenFromBody === expectedToken;
-}
+  const rawFormat = (fromBody.format || request.nextUrl.searchParams.get("format") || "").trim().toLowerCase();
+  if (rawFormat && rawFormat !== "auto") {
+    if (!isImportFormat(rawFormat)) {
+      return { options: null, error: `Unsupported import format: ${rawFormat}` };
+    }
+    options.format = rawFormat;
+  }
+
+  try {
+    options.semesterMapping = parseSemesterMapping(fromBody.semesterMapping ?? "");
+  } catch (error) {
+    return { options: null, error: error instanceof Error ? error.message : "Invalid semester mapping." };
+  }
 
-async function hasAdminSession(request: NextRequest): Promise<boolean> {
-  const token = request.cookies.get(AUTH_COOKIE_NAME)?.value;
-  const session = await verifySessionToken(token);
-  return session?.role === "ADMIN";
+  return { options, error: null };
 }
 
 export async function POST(request: NextRequest) {
   const contentType = request.headers.get("content-type") ?? "";
-  const hasAdmin = await hasAdminSession(request);
+  const session = await getRequestSession(request);
+  const hasAdmin = session?.role === "ADMIN";
+  const requestedBy = hasAdmin ? session.username : "import-token";
 
   try {
     if (!contentType.includes("multipart/form-data")) {
-      if (!hasAdmin && !isAuthorized(request)) {
+      if (!hasAdmin && !hasImportToken(request)) {
         return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
       }
 
-      const summary = await importWorkbookFromPath(prisma, resolveDefaultWorkbookPath());
-      return NextResponse.json({ ok: true, summary });
-    }
+      const { options, error } = parseImportOptions(request);
+      if (!options) {
+        return NextResponse.json({ ok: false, error }, { status: 400 });
+      }
+
+      const workbookPath = resolveDefaultWorkbookPath();
+      if (isPreviewMode(request)) {
+        const preview = await previewScheduleFromPath(prisma, workbookPath, options);
+        return NextResponse.json({ ok: true, preview });
+      }
 
-    const formData = await request.formData();
-    const token = String(formData.get("token") ?? "");
+      const job = await enqueueImportJob(prisma, {
+        buffer: fs.readFileSync(workbookPath),
+        sourceName: workbookPath,
+        options,
+        requestedBy,
+      });
+      return NextResponse.json({ ok: true, job }, { status: 202 });
+    }
 
-    if (!hasAdmin && !isAuthorized(request, token)) {
+    // The token may come in the form body, so only the form itself is read before authorizing.
+    const formData = await request.formData().catch(() => null);
+    if (!hasAdmin && !hasImportToken(request, String(formData?.get("token") ?? ""))) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    if (!formData) {
+      return NextResponse.json({ ok: false, error: "Invalid multipart form data" }, { status: 400 });
+    }
+
+    const preview = isPreviewMode(request, String(formData.get("mode") ?? ""));
+    const { options, error } = parseImportOptions(request, {
+      maxErrors: String(formData.get("maxErrors") ?? ""),
+      format: String(formData.get("format") ?? ""),
+      force: String(formData.get("force") ?? ""),
+      semesterMapping: String(formData.get("semesterMapping") ?? ""),
+    });
+    if (!options) {
+      return NextResponse.json({ ok: false, error }, { status: 400 });
+    }
 
     const file = formData.get("file");
     if (!(file instanceof File) || file.size === 0) {
-      const summary = await importWorkbookFromPath(prisma, resolveDefaultWorkbookPath());
-      return NextResponse.json({ ok: true, summary });
+      const workbookPath = resolveDefaultWorkbookPath();
+      if (preview) {
+        return NextResponse.json({
+          ok: true,
+          preview: await previewScheduleFromPath(prisma, workbookPath, options),
+        });
+      }
+
+      const job = await enqueueImportJob(prisma, {
+        buffer: fs.readFileSync(workbookPath),
+        sourceName: workbookPath,
+        options,
+        requestedBy,
+      });
+      return NextResponse.json({ ok: true, job }, { status: 202 });
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    if (preview) {
+      return NextResponse.json({
+        ok: true,
+        preview: await previewScheduleFromBuffer(prisma, buffer, file.name, options),
+      });
     }
 
-    const arrayBuffer = await file.arrayBuffer();
-    const summary = await importWorkbookFromBuffer(prisma, Buffer.from(arrayBuffer), file.name);
-    return NextResponse.json({ ok: true, summary });
+    const job = await enqueueImportJob(prisma, {
+      buffer,
+      sourceName: file.name,
+      options,
+      requestedBy,
+    });
+    return NextResponse.json({ ok: true, job }, { status: 202 });
   } catch (error) {
     return NextResponse.json(
       {
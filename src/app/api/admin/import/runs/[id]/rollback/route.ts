@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestSession } from "@/lib/auth/request-session";
+import { rollbackImportRun } from "@/lib/importers/importHistory";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const session = await getRequestSession(request);
+  if (!session || session.role !== "ADMIN") {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const params = await context.params;
+  const importRunId = params.id.trim();
+
+  if (!importRunId) {
+    return NextResponse.json({ ok: false, error: "Invalid import run id" }, { status: 400 });
+  }
+
+  try {
+    const rollback = await rollbackImportRun(prisma, importRunId, session.username);
+    return NextResponse.json({ ok: true, rollback });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : "Rollback failed",
+      },
+      { status: 400 },
+    );
+  }
+}
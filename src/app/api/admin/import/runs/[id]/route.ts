@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { hasImportAccess } from "@/lib/auth/import-access";
+import { getImportJob } from "@/lib/importers/importJobs";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  if (!(await hasImportAccess(request))) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  const params = await context.params;
+  const job = await getImportJob(prisma, params.id.trim());
+  if (!job) {
+    return NextResponse.json({ ok: false, error: "Import run not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ ok: true, job });
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestSession } from "@/lib/auth/request-session";
+import { reindexKnowledge } from "@/lib/knowledge";
+import { getResourceIndexStatus } from "@/lib/resource-index";
+import { startSearchIndexSync } from "@/lib/search-index";
+
+export const runtime = "nodejs";
+
+type ReindexBody = {
+  courseCode?: unknown;
+  force?: unknown;
+};
+
+export async function GET(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session || session.role !== "ADMIN") {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  return NextResponse.json({ ok: true, status: await getResourceIndexStatus() });
+}
+
+export async function POST(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session || session.role !== "ADMIN") {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  let body: ReindexBody;
+  try {
+    body = (await request.json()) as ReindexBody;
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const summary = await reindexKnowledge({
+      courseCode: typeof body.courseCode === "string" ? body.courseCode.trim().slice(0, 40) : null,
+      force: body.force === true,
+    });
+    startSearchIndexSync();
+    return NextResponse.json({ ok: true, summary, status: await getResourceIndexStatus() });
+  } catch (error) {
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Cannot reindex resources" },
+      { status: 400 },
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestSession } from "@/lib/auth/request-session";
+import { getRoleViewSettings, saveRoleViewSettings } from "@/lib/schedule-views";
+
+type PortalSettingsBody = {
+  roleViews?: unknown;
+};
+
+export async function GET(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session || session.role !== "ADMIN") {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  return NextResponse.json({ ok: true, roleViews: await getRoleViewSettings() });
+}
+
+export async function PUT(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session || session.role !== "ADMIN") {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  let body: PortalSettingsBody;
+  try {
+    body = (await request.json()) as PortalSettingsBody;
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  if (!body.roleViews || typeof body.roleViews !== "object") {
+    return NextResponse.json({ ok: false, error: "Missing roleViews" }, { status: 400 });
+  }
+
+  const roleViews = await saveRoleViewSettings(body.roleViews, session.username);
+  return NextResponse.json({ ok: true, roleViews });
+}
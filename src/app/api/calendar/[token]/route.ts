@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { buildPortalCalendar, getCalendarPortalData, resolveCalendarFeedToken } from "@/lib/calendar-feed";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest, context: { params: Promise<{ token: string }> }) {
+  const { token } = await context.params;
+  const viewer = await resolveCalendarFeedToken(token.replace(/\.ics$/i, ""));
+  if (!viewer) {
+    return NextResponse.json({ ok: false, error: "Calendar feed not found" }, { status: 404 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const calendar = buildPortalCalendar(
+    await getCalendarPortalData(viewer, {
+      semesterKey: searchParams.get("semester") ?? undefined,
+      cohortCode: searchParams.get("cohort") ?? undefined,
+      classGroupName: searchParams.get("classGroup") ?? undefined,
+    }),
+  );
+  if (!calendar) {
+    return NextResponse.json({ ok: false, error: "Class group not found" }, { status: 404 });
+  }
+
+  return new NextResponse(calendar.body, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `inline; filename="${calendar.filename}"`,
+      "Cache-Control": "private, max-age=300",
+    },
+  });
+}
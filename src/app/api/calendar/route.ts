@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestSession } from "@/lib/auth/request-session";
+import { getCalendarFeed, issueCalendarFeed, revokeCalendarFeed } from "@/lib/calendar-feed";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  return NextResponse.json({ ok: true, feed: await getCalendarFeed(session.username) });
+}
+
+export async function POST(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  return NextResponse.json({ ok: true, feed: await issueCalendarFeed(session) });
+}
+
+export async function DELETE(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  return NextResponse.json({ ok: true, revoked: await revokeCalendarFeed(session.username) });
+}
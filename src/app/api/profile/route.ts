@@ -5,6 +5,7 @@ import { createSessionToken, type PortalSession } from "@/lib/auth/session";
 import { setSessionCookie } from "@/lib/auth/cookies";
 import { getRequestSession } from "@/lib/auth/request-session";
 import { normalizeUiLanguage } from "@/lib/i18n";
+import { isScheduleView } from "@/lib/schedule-views";
 
 type ProfilePatchBody = {
   displayName?: unknown;
@@ -12,6 +13,8 @@ type ProfilePatchBody = {
   cohortCode?: unknown;
   classGroupName?: unknown;
   studentCode?: unknown;
+  lecturerId?: unknown;
+  defaultScheduleView?: unknown;
   preferredLanguage?: unknown;
 };
 
@@ -40,6 +43,8 @@ function buildFallbackProfile(session: PortalSession) {
     cohortCode: session.cohortCode ?? null,
     classGroupName: session.classGroupName ?? null,
     studentCode: session.studentCode ?? null,
+    lecturerId: null,
+    defaultScheduleView: null,
     preferredLanguage: session.language ?? "VI",
   };
 }
@@ -78,6 +83,13 @@ export async function PATCH(request: NextRequest) {
       cohortCode: parsePatchValue(body.cohortCode, 40),
       classGroupName: parsePatchValue(body.classGroupName, 80),
       studentCode: parsePatchValue(body.studentCode, 80),
+      lecturerId: parsePatchValue(body.lecturerId, 80),
+      defaultScheduleView:
+        body.defaultScheduleView === undefined
+          ? undefined
+          : isScheduleView(body.defaultScheduleView)
+            ? body.defaultScheduleView
+            : null,
       preferredLanguage:
         body.preferredLanguage === undefined ? undefined : normalizeUiLanguage(body.preferredLanguage, "VI"),
     },
@@ -86,7 +98,7 @@ export async function PATCH(request: NextRequest) {
 
   if (!profile) {
     return NextResponse.json(
-      { ok: false, error: "Cannot update profile. Check email domain/format or duplicate email." },
+      { ok: false, error: "Cannot update profile. Check email domain/format, duplicate email, or a lecturer record already linked to another account." },
       { status: 400 },
     );
   }
@@ -0,0 +1,57 @@
+import { DayOfWeek } from "@prisma/client";
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestSession } from "@/lib/auth/request-session";
+import { prisma } from "@/lib/prisma";
+import { findFreeRooms, getRoomOccupancy, normalizeTimeInput } from "@/lib/room-occupancy";
+import { computeEndTime } from "@/lib/schedule-weeks";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+  if (session.role !== "ADMIN" && session.role !== "LECTURER") {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const semesterKey = searchParams.get("semester")?.trim();
+  if (!semesterKey) {
+    return NextResponse.json({ ok: false, error: "Missing semester" }, { status: 400 });
+  }
+
+  const weekValue = searchParams.get("week");
+  const weekNumber = Number.parseInt(weekValue ?? "", 10);
+  const report = await getRoomOccupancy(prisma, semesterKey, {
+    week: weekValue === "ALL" ? "ALL" : Number.isFinite(weekNumber) && weekNumber > 0 ? weekNumber : undefined,
+  });
+  if (!report) {
+    return NextResponse.json({ ok: false, error: "Semester not found" }, { status: 404 });
+  }
+
+  const day = searchParams.get("day");
+  if (!day) {
+    return NextResponse.json({ ok: true, report });
+  }
+
+  const startTime = normalizeTimeInput(searchParams.get("start"));
+  const durationMinutes = Number.parseInt(searchParams.get("duration") ?? "", 10);
+  const endTime = searchParams.get("end")
+    ? normalizeTimeInput(searchParams.get("end"))
+    : computeEndTime(startTime, Number.isFinite(durationMinutes) ? durationMinutes : null);
+  if (!Object.values(DayOfWeek).includes(day as DayOfWeek) || !startTime || !endTime || endTime <= startTime) {
+    return NextResponse.json({ ok: false, error: "Invalid day or time slot" }, { status: 400 });
+  }
+
+  const result = findFreeRooms(report, { dayOfWeek: day as DayOfWeek, startTime, endTime });
+  return NextResponse.json({
+    ok: true,
+    semesterKey: report.semesterKey,
+    week: report.selectedWeek,
+    slot: { dayOfWeek: day, startTime, endTime },
+    ...result,
+  });
+}
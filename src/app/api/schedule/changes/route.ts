@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestSession } from "@/lib/auth/request-session";
+import { getCalendarPortalData } from "@/lib/calendar-feed";
+import { getScheduleChanges } from "@/lib/schedule-changes";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const data = await getCalendarPortalData(session, {
+    semesterKey: searchParams.get("semester") ?? undefined,
+    cohortCode: searchParams.get("cohort") ?? undefined,
+    classGroupName: searchParams.get("classGroup") ?? undefined,
+  });
+
+  const { semesterKey, cohortCode, classGroupName } = data.selected;
+  if (!semesterKey || !cohortCode || !classGroupName) {
+    return NextResponse.json({ ok: false, error: "Class group not found" }, { status: 404 });
+  }
+
+  const report = await getScheduleChanges(
+    { semesterKey, cohortCode, classGroupName },
+    searchParams.get("base") ?? undefined,
+  );
+
+  return NextResponse.json({ ok: true, report });
+}
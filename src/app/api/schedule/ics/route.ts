@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestSession } from "@/lib/auth/request-session";
+import { buildPortalCalendar, getCalendarPortalData } from "@/lib/calendar-feed";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const data = await getCalendarPortalData(session, {
+    semesterKey: searchParams.get("semester") ?? undefined,
+    cohortCode: searchParams.get("cohort") ?? undefined,
+    classGroupName: searchParams.get("classGroup") ?? undefined,
+  });
+
+  const calendar = buildPortalCalendar(data);
+  if (!calendar) {
+    return NextResponse.json({ ok: false, error: "Class group not found" }, { status: 404 });
+  }
+
+  if (data.weeks.length === 0) {
+    return NextResponse.json(
+      { ok: false, error: "Semester has no start date; set it in Academic Management first." },
+      { status: 409 },
+    );
+  }
+
+  return new NextResponse(calendar.body, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${calendar.filename}"`,
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getUserProfile } from "@/lib/auth/accounts";
+import { getRequestSession } from "@/lib/auth/request-session";
+import { getCalendarPortalData } from "@/lib/calendar-feed";
+import { normalizeUiLanguage } from "@/lib/i18n";
+import { hasPdfCjkFont, renderTimetablePdf } from "@/lib/timetable-pdf";
+import { buildTimetableSheet } from "@/lib/timetable-sheet";
+
+export const runtime = "nodejs";
+
+function parseWeek(value: string | null): number | "ALL" {
+  const week = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(week) && week > 0 ? week : "ALL";
+}
+
+export async function GET(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const data = await getCalendarPortalData(session, {
+    semesterKey: searchParams.get("semester") ?? undefined,
+    cohortCode: searchParams.get("cohort") ?? undefined,
+    classGroupName: searchParams.get("classGroup") ?? undefined,
+    week: parseWeek(searchParams.get("week")),
+  });
+
+  const profile = await getUserProfile(session.username, session.role);
+  const language = normalizeUiLanguage(profile?.preferredLanguage ?? session.language, "VI");
+  const sheet = buildTimetableSheet(data, language === "JA" && !hasPdfCjkFont() ? "EN" : language);
+  if (!sheet) {
+    return NextResponse.json({ ok: false, error: "Class group not found" }, { status: 404 });
+  }
+
+  const pdf = await renderTimetablePdf(sheet);
+  return new NextResponse(new Uint8Array(pdf), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${sheet.filename}"`,
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
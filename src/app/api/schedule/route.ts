@@ -1,20 +1,36 @@
 import { DayOfWeek } from "@prisma/client";
 import { NextRequest, NextResponse } from "next/server";
 
-import { getPortalData } from "@/lib/portal";
+import { getLecturerPortalData, getPortalData } from "@/lib/portal";
 
 export async function GET(request: NextRequest) {
   const { searchParams } = request.nextUrl;
   const dayValue = searchParams.get("day") ?? "ALL";
+  const weekValue = searchParams.get("week");
+  const weekNumber = Number.parseInt(weekValue ?? "", 10);
+  const day =
+    dayValue === "ALL" || Object.values(DayOfWeek).includes(dayValue as DayOfWeek)
+      ? (dayValue as DayOfWeek | "ALL")
+      : "ALL";
+  const week = weekValue === "ALL" ? "ALL" : Number.isFinite(weekNumber) && weekNumber > 0 ? weekNumber : undefined;
+
+  const lecturerId = searchParams.get("lecturer")?.trim();
+  if (lecturerId) {
+    const data = await getLecturerPortalData(lecturerId, {
+      semesterKey: searchParams.get("semester") ?? undefined,
+      day,
+      week,
+    });
+
+    return NextResponse.json({ ...data, lecturerId });
+  }
 
   const data = await getPortalData({
     semesterKey: searchParams.get("semester") ?? undefined,
     cohortCode: searchParams.get("cohort") ?? undefined,
     classGroupName: searchParams.get("classGroup") ?? undefined,
-    day:
-      dayValue === "ALL" || Object.values(DayOfWeek).includes(dayValue as DayOfWeek)
-        ? (dayValue as DayOfWeek | "ALL")
-        : "ALL",
+    day,
+    week,
   });
 
   return NextResponse.json(data);
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestSession } from "@/lib/auth/request-session";
+import { createShareLink, getShareableClassGroup, listShareLinks, revokeShareLink } from "@/lib/share-links";
+
+export const runtime = "nodejs";
+
+type ShareLinkBody = {
+  semesterKey?: unknown;
+  cohortCode?: unknown;
+  classGroupName?: unknown;
+  expiresInDays?: unknown;
+};
+
+function cleanText(value: unknown, maxLength = 80): string | undefined {
+  return typeof value === "string" ? value.trim().slice(0, maxLength) : undefined;
+}
+
+export async function GET(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  return NextResponse.json({
+    ok: true,
+    canShare: Boolean(await getShareableClassGroup(session)),
+    links: await listShareLinks(session),
+  });
+}
+
+export async function POST(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+  if (!(await getShareableClassGroup(session))) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  let body: ShareLinkBody;
+  try {
+    body = (await request.json()) as ShareLinkBody;
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const expiresInDays = Number(body.expiresInDays);
+  try {
+    const link = await createShareLink(session, {
+      semesterKey: cleanText(body.semesterKey),
+      cohortCode: cleanText(body.cohortCode, 40),
+      classGroupName: cleanText(body.classGroupName),
+      expiresInDays: Number.isFinite(expiresInDays) && expiresInDays > 0 ? expiresInDays : null,
+    });
+    return NextResponse.json({ ok: true, link });
+  } catch (error) {
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error ? error.message : "Cannot create share link" },
+      { status: 400 },
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  const id = request.nextUrl.searchParams.get("id")?.trim();
+  if (!id) {
+    return NextResponse.json({ ok: false, error: "Missing id" }, { status: 400 });
+  }
+
+  const revoked = await revokeShareLink(session, id);
+  if (!revoked) {
+    return NextResponse.json({ ok: false, error: "Share link not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ ok: true, revoked });
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getRequestSession } from "@/lib/auth/request-session";
+import { prisma } from "@/lib/prisma";
+
+export const runtime = "nodejs";
+
+type TimetableBody = {
+  entryId?: unknown;
+};
+
+async function readEntryId(request: NextRequest): Promise<string | null> {
+  try {
+    const body = (await request.json()) as TimetableBody;
+    return typeof body.entryId === "string" && body.entryId.trim() ? body.entryId.trim().slice(0, 80) : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  const semesterKey = request.nextUrl.searchParams.get("semester")?.trim();
+  const picks = await prisma.personalTimetableEntry.findMany({
+    where: {
+      username: session.username,
+      ...(semesterKey ? { scheduleEntry: { semester: { key: semesterKey } } } : {}),
+    },
+    select: {
+      scheduleEntryId: true,
+    },
+  });
+
+  return NextResponse.json({ ok: true, entryIds: picks.map((pick) => pick.scheduleEntryId) });
+}
+
+export async function POST(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  const entryId = await readEntryId(request);
+  if (!entryId) {
+    return NextResponse.json({ ok: false, error: "entryId is required." }, { status: 400 });
+  }
+
+  const entry = await prisma.scheduleEntry.findUnique({
+    where: {
+      id: entryId,
+    },
+    select: {
+      id: true,
+    },
+  });
+  if (!entry) {
+    return NextResponse.json({ ok: false, error: "Schedule entry not found." }, { status: 404 });
+  }
+
+  await prisma.personalTimetableEntry.upsert({
+    where: {
+      username_scheduleEntryId: {
+        username: session.username,
+        scheduleEntryId: entry.id,
+      },
+    },
+    create: {
+      username: session.username,
+      scheduleEntryId: entry.id,
+    },
+    update: {},
+  });
+
+  return NextResponse.json({ ok: true });
+}
+
+export async function DELETE(request: NextRequest) {
+  const session = await getRequestSession(request);
+  if (!session) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  const entryId = await readEntryId(request);
+  if (!entryId) {
+    return NextResponse.json({ ok: false, error: "entryId is required." }, { status: 400 });
+  }
+
+  await prisma.personalTimetableEntry.deleteMany({
+    where: {
+      username: session.username,
+      scheduleEntryId: entryId,
+    },
+  });
+
+  return NextResponse.json({ ok: true });
+}
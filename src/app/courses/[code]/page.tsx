@@ -1,13 +1,26 @@
 import Link from "next/link";
 import { notFound } from "next/navigation";
 
+import { ExamTable } from "@/components/schedule/exam-table";
 import { getAcademicBundle, getCourseTeachingAssignments } from "@/lib/academic-data";
 import { getServerSession } from "@/lib/auth/session";
+import { getCourseExams } from "@/lib/exams";
 import { normalizeCourseCode } from "@/lib/knowledge";
 import { getPortalMeta } from "@/lib/portal";
+import {
+  checkPrerequisite,
+  findDependents,
+  formatPrerequisite,
+  getPassedCourses,
+  getPrerequisiteGraph,
+  parsePrerequisite,
+  type PrerequisiteStatus,
+} from "@/lib/prerequisites";
 import { prisma } from "@/lib/prisma";
+import { scheduleDateOf } from "@/lib/schedule-weeks";
 
 import { CourseLecturerAdminForm } from "./course-lecturer-admin-form";
+import { PrerequisiteChain } from "./prerequisite-chain";
 import { StudentReviewForm } from "./student-review-form";
 
 type CourseDetailProps = {
@@ -23,6 +36,13 @@ function pickSingle(value: string | string[] | undefined): string | undefined {
   return value;
 }
 
+const PREREQUISITE_STATUS_TEXT: Record<PrerequisiteStatus, string> = {
+  met: "Bạn đủ điều kiện tiên quyết để đăng ký môn này.",
+  permission: "Chưa đủ môn tiên quyết; cần giảng viên hoặc khoa đồng ý.",
+  unknown: "Có điều kiện không tự kiểm tra được, hãy đối chiếu với mô tả gốc.",
+  missing: "Chưa đủ điều kiện tiên quyết.",
+};
+
 function formatSize(size: number): string {
   if (size >= 1024 * 1024) {
     return `${(size / (1024 * 1024)).toFixed(2)} MB`;
@@ -78,9 +98,10 @@ export default async function CourseDetailPage({ params, searchParams }: CourseD
   const selectedSemesterLabel = selectedSemester?.label ?? selectedSemester?.key ?? "N/A";
   const semesterQuery = selectedSemesterKey ? `?semester=${encodeURIComponent(selectedSemesterKey)}` : "";
 
-  const [session, teachingAssignments, assignmentHints, semesterOverrides] = await Promise.all([
+  const [session, teachingAssignments, courseExams, assignmentHints, semesterOverrides] = await Promise.all([
     getServerSession(),
     getCourseTeachingAssignments(course.code, selectedSemesterKey),
+    getCourseExams(course.code, selectedSemesterKey),
     prisma.scheduleEntry.findMany({
       where: {
         course: {
@@ -180,6 +201,16 @@ export default async function CourseDetailPage({ params, searchParams }: CourseD
     })
     .sort((a, b) => a.name.localeCompare(b.name));
 
+  const [prerequisiteGraph, passedCourses] = await Promise.all([
+    getPrerequisiteGraph(),
+    session?.role === "STUDENT" ? getPassedCourses(session.username) : Promise.resolve(null),
+  ]);
+  const prerequisite = prerequisiteGraph.get(course.code)?.prerequisite ?? parsePrerequisite(course.prerequisite);
+  const prerequisiteCheck = passedCourses
+    ? checkPrerequisite(prerequisite.expr, passedCourses, prerequisite.minimumGrade)
+    : null;
+  const dependents = findDependents(prerequisiteGraph, course.code);
+
   return (
     <main className="page-shell">
       <section className="hero-block">
@@ -255,6 +286,51 @@ export default async function CourseDetailPage({ params, searchParams }: CourseD
         </article>
       </section>
 
+      <section className="details-card mt-card">
+        <h2>Chuỗi tiên quyết</h2>
+        {prerequisite.expr ? (
+          <>
+            <p className="muted-small">
+              Điều kiện: <strong>{formatPrerequisite(prerequisite.expr)}</strong>
+              {prerequisite.minimumGrade ? ` · điểm tối thiểu ${prerequisite.minimumGrade}` : ""}
+            </p>
+            <ul className="prereq-tree">
+              <PrerequisiteChain
+                expr={prerequisite.expr}
+                graph={prerequisiteGraph}
+                passed={passedCourses}
+                semesterQuery={semesterQuery}
+                ancestors={[course.code]}
+              />
+            </ul>
+          </>
+        ) : (
+          <p>Môn này không có điều kiện tiên quyết.</p>
+        )}
+        {passedCourses && prerequisiteCheck ? (
+          passedCourses.has(course.code) ? (
+            <p className="status-ok">Bạn đã qua môn này (điểm {passedCourses.get(course.code)}).</p>
+          ) : (
+            <p className={prerequisiteCheck.status === "met" ? "status-ok" : "status-error"}>
+              {PREREQUISITE_STATUS_TEXT[prerequisiteCheck.status]}
+              {prerequisiteCheck.missing.length > 0 ? ` Còn thiếu: ${prerequisiteCheck.missing.join(", ")}.` : ""} Điểm
+              lấy từ <Link href="/gpa">bảng điểm GPA</Link>; xem thêm{" "}
+              <Link href="/courses/eligibility">các môn bạn đủ điều kiện</Link>.
+            </p>
+          )
+        ) : null}
+        {dependents.length > 0 ? (
+          <div className="chip-row mt-card">
+            <span className="muted-small">Là tiên quyết của:</span>
+            {dependents.map((code) => (
+              <Link key={code} href={`/courses/${encodeURIComponent(code)}${semesterQuery}`} className="chip link-chip">
+                {code}
+              </Link>
+            ))}
+          </div>
+        ) : null}
+      </section>
+
       <section className="details-card mt-card">
         <h2>Học kỳ đang xem</h2>
         <p className="muted-small">
@@ -283,6 +359,15 @@ export default async function CourseDetailPage({ params, searchParams }: CourseD
         )}
       </section>
 
+      <section className="details-card mt-card">
+        <h2>Lịch thi</h2>
+        {courseExams.length === 0 ? (
+          <p>Chưa có lịch thi của môn này ở học kỳ đang chọn.</p>
+        ) : (
+          <ExamTable exams={courseExams} today={scheduleDateOf(new Date())} showClass />
+        )}
+      </section>
+
       <section className="details-card mt-card">
         <h2>Phân công giảng viên theo lớp / mã IH</h2>
         {teachingAssignments.length === 0 ? (
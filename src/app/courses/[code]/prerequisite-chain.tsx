@@ -0,0 +1,69 @@
+import Link from "next/link";
+
+import type { PrerequisiteExpr, PrerequisiteGraph } from "@/lib/prerequisites";
+
+type PrerequisiteChainProps = {
+  expr: PrerequisiteExpr;
+  graph: PrerequisiteGraph;
+  passed: Map<string, string> | null;
+  semesterQuery: string;
+  ancestors?: string[];
+};
+
+const MAX_DEPTH = 6;
+
+export function PrerequisiteChain({ expr, graph, passed, semesterQuery, ancestors = [] }: PrerequisiteChainProps) {
+  if (expr.type === "permission") {
+    return <li className="prereq-note">Được giảng viên/khoa đồng ý</li>;
+  }
+
+  if (expr.type === "text") {
+    return <li className="prereq-note">Điều kiện khác: {expr.text}</li>;
+  }
+
+  if (expr.type === "and" || expr.type === "or") {
+    return (
+      <li>
+        <span className="muted-small">{expr.type === "and" ? "Tất cả các môn:" : "Một trong các môn:"}</span>
+        <ul className="prereq-tree">
+          {expr.items.map((item, index) => (
+            <PrerequisiteChain
+              key={index}
+              expr={item}
+              graph={graph}
+              passed={passed}
+              semesterQuery={semesterQuery}
+              ancestors={ancestors}
+            />
+          ))}
+        </ul>
+      </li>
+    );
+  }
+
+  const course = graph.get(expr.code);
+  const grade = passed?.get(expr.code);
+  const nested = course?.prerequisite.expr;
+  // Cycles in the catalog (A needs B, B needs A) and very deep chains stop expanding here.
+  const canExpand = nested && !ancestors.includes(expr.code) && ancestors.length < MAX_DEPTH;
+
+  return (
+    <li className={passed ? (grade ? "prereq-met" : "prereq-missing") : undefined}>
+      <Link href={`/courses/${encodeURIComponent(expr.code)}${semesterQuery}`}>{expr.code}</Link>
+      {course?.nameEn || course?.nameVi ? <span className="muted-small"> · {course.nameEn ?? course.nameVi}</span> : null}
+      {passed ? <span className="muted-small"> · {grade ? `Đã qua (${grade})` : "Chưa qua"}</span> : null}
+      {!course ? <span className="muted-small"> · không có trong danh mục</span> : null}
+      {canExpand ? (
+        <ul className="prereq-tree">
+          <PrerequisiteChain
+            expr={nested}
+            graph={graph}
+            passed={passed}
+            semesterQuery={semesterQuery}
+            ancestors={[...ancestors, expr.code]}
+          />
+        </ul>
+      ) : null}
+    </li>
+  );
+}
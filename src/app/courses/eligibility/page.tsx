@@ -0,0 +1,115 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+import { getServerSession } from "@/lib/auth/session";
+import { formatPrerequisite, getEligibilityReport, type CourseEligibility } from "@/lib/prerequisites";
+
+function EligibilityTable({ courses, showMissing = false }: { courses: CourseEligibility[]; showMissing?: boolean }) {
+  return (
+    <div className="admin-table-wrap">
+      <table className="admin-table">
+        <thead>
+          <tr>
+            <th>Mã HP</th>
+            <th>Tên học phần</th>
+            <th>TC</th>
+            <th>Tiên quyết</th>
+            {showMissing ? <th>Còn thiếu</th> : null}
+          </tr>
+        </thead>
+        <tbody>
+          {courses.map((course) => (
+            <tr key={course.code}>
+              <td>
+                <Link href={`/courses/${encodeURIComponent(course.code)}`}>{course.code}</Link>
+              </td>
+              <td>{course.nameEn ?? course.nameVi ?? "—"}</td>
+              <td>{course.credits ?? "—"}</td>
+              <td>
+                {formatPrerequisite(course.prerequisite.expr)}
+                {course.prerequisite.minimumGrade ? ` (≥ ${course.prerequisite.minimumGrade})` : ""}
+              </td>
+              {showMissing ? <td>{course.check.missing.join(", ") || "—"}</td> : null}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default async function CourseEligibilityPage() {
+  const session = await getServerSession();
+  if (!session) {
+    redirect("/login");
+  }
+
+  if (session.role !== "STUDENT") {
+    return (
+      <main className="page-shell">
+        <section className="hero-block">
+          <p className="eyebrow">Điều Kiện Tiên Quyết</p>
+          <h1>Môn học đủ điều kiện</h1>
+          <p>Trang này dựa trên bảng điểm GPA của tài khoản sinh viên.</p>
+        </section>
+      </main>
+    );
+  }
+
+  const report = await getEligibilityReport(session.username);
+  const byMissingCount = (a: CourseEligibility, b: CourseEligibility) =>
+    a.check.missing.length - b.check.missing.length || a.code.localeCompare(b.code);
+
+  return (
+    <main className="page-shell">
+      <section className="hero-block">
+        <p className="eyebrow">Điều Kiện Tiên Quyết</p>
+        <h1>Môn học đủ điều kiện</h1>
+        <p>
+          Đối chiếu điều kiện tiên quyết trong danh mục học phần với các môn đã qua (điểm D trở lên, hoặc mức tối thiểu
+          ghi trong điều kiện) trong <Link href="/gpa">bảng điểm GPA</Link> của bạn. Môn đã qua không được liệt kê.
+        </p>
+        <div className="chip-row">
+          <span className="chip">Đã qua: {report.passed.size}</span>
+          <span className="chip diff-added">Đủ điều kiện: {report.eligible.length}</span>
+          <span className="chip diff-changed">Cần GV đồng ý: {report.permission.length}</span>
+          <span className="chip chip-muted">Cần kiểm tra: {report.unknown.length}</span>
+          <span className="chip diff-removed">Chưa đủ: {report.blocked.length}</span>
+        </div>
+      </section>
+
+      <section className="details-card">
+        <h2>Đủ điều kiện đăng ký ({report.eligible.length})</h2>
+        {report.eligible.length === 0 ? (
+          <p className="empty-state">Chưa có môn nào đủ điều kiện.</p>
+        ) : (
+          <EligibilityTable courses={report.eligible} />
+        )}
+      </section>
+
+      {report.permission.length > 0 ? (
+        <section className="details-card mt-card">
+          <h2>Đăng ký được nếu giảng viên/khoa đồng ý ({report.permission.length})</h2>
+          <EligibilityTable courses={report.permission} showMissing />
+        </section>
+      ) : null}
+
+      {report.unknown.length > 0 ? (
+        <section className="details-card mt-card">
+          <h2>Có điều kiện cần tự kiểm tra ({report.unknown.length})</h2>
+          <p className="hint-text">Điều kiện dạng văn bản (ví dụ số tín chỉ tích lũy, năm học) không tự đối chiếu được.</p>
+          <EligibilityTable courses={report.unknown} />
+        </section>
+      ) : null}
+
+      <section className="details-card mt-card">
+        <h2>Chưa đủ điều kiện ({report.blocked.length})</h2>
+        {report.blocked.length === 0 ? (
+          <p className="empty-state">Không có môn nào bị chặn bởi điều kiện tiên quyết.</p>
+        ) : (
+          <EligibilityTable courses={[...report.blocked].sort(byMissingCount)} showMissing />
+        )}
+      </section>
+    </main>
+  );
+}
@@ -58,7 +58,7 @@ export default async function CoursesPage({ searchParams }: CoursesPageProps) {
         </form>
         <p className="hint-text">
           <Link href="/">Lịch học</Link> · <Link href="/lecturers">Giảng viên</Link> ·{" "}
-          <Link href="/resources">Kho học liệu</Link>
+          <Link href="/resources">Kho học liệu</Link> · <Link href="/search">Tìm kiếm toàn văn</Link>
         </p>
       </section>
 
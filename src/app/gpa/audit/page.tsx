@@ -0,0 +1,221 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+import { getServerSession } from "@/lib/auth/session";
+import { getDegreeAudit, type AuditCourse, type AuditCourseStatus, type SectionAudit } from "@/lib/degree-audit";
+import { prisma } from "@/lib/prisma";
+import { labelFromSemesterKey } from "@/lib/semester";
+
+type DegreeAuditPageProps = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+function pickSingle(value: string | string[] | undefined): string | undefined {
+  if (Array.isArray(value)) {
+    return value[0];
+  }
+
+  return value;
+}
+
+const STATUS_CLASS: Record<AuditCourseStatus, string> = {
+  passed: "chip diff-added",
+  "in-progress": "chip diff-changed",
+  remaining: "chip chip-muted",
+};
+
+function statusText(course: AuditCourse): string {
+  if (course.status === "passed") {
+    return `Đã qua (${course.grade}) · ${labelFromSemesterKey(course.semesterKey ?? "")}`;
+  }
+
+  return course.status === "in-progress" ? "Đang học" : "Chưa học";
+}
+
+function sectionRequirement(section: SectionAudit): string {
+  if (section.requiresAllCourses) {
+    return `Bắt buộc toàn bộ ${section.courses.length} học phần (${section.requiredCredits} TC)`;
+  }
+
+  if (section.requiredCredits === 0) {
+    return section.kind === "ELECTIVE" ? "Tự chọn, chưa đặt số tín chỉ tối thiểu" : "Không có yêu cầu tín chỉ";
+  }
+
+  return `${section.kind === "ELECTIVE" ? "Tự chọn" : "Bắt buộc"} tối thiểu ${section.requiredCredits} TC`;
+}
+
+function AuditCourseTable({ courses }: { courses: AuditCourse[] }) {
+  return (
+    <div className="admin-table-wrap">
+      <table className="admin-table">
+        <thead>
+          <tr>
+            <th>Mã HP</th>
+            <th>Tên học phần</th>
+            <th>TC</th>
+            <th>Trạng thái</th>
+          </tr>
+        </thead>
+        <tbody>
+          {courses.map((course) => (
+            <tr key={course.code}>
+              <td>
+                <Link href={`/courses/${encodeURIComponent(course.code)}`}>{course.code}</Link>
+              </td>
+              <td>{course.name ?? "—"}</td>
+              <td>{course.credits}</td>
+              <td>
+                <span className={STATUS_CLASS[course.status]}>{statusText(course)}</span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default async function DegreeAuditPage({ searchParams }: DegreeAuditPageProps) {
+  const session = await getServerSession();
+  if (!session) {
+    redirect("/login");
+  }
+
+  const query = await searchParams;
+  const paceParam = Number.parseInt(pickSingle(query.pace) ?? "", 10);
+  const profile = await prisma.userSetting.findUnique({
+    where: {
+      username: session.username,
+    },
+    select: {
+      cohortCode: true,
+      classGroupName: true,
+    },
+  });
+
+  const audit = await getDegreeAudit({
+    username: session.username,
+    programId: pickSingle(query.program),
+    pace: Number.isFinite(paceParam) && paceParam > 0 && paceParam <= 40 ? paceParam : undefined,
+    cohortCode: profile?.cohortCode ?? session.cohortCode,
+    classGroupName: profile?.classGroupName ?? session.classGroupName,
+  });
+
+  const graduation = audit.projection.at(-1) ?? null;
+
+  return (
+    <main className="page-shell">
+      <section className="hero-block">
+        <p className="eyebrow">Student Services · Degree Audit</p>
+        <h1>Tiến độ chương trình đào tạo</h1>
+        <p>
+          Đối chiếu các môn đã qua trong <Link href="/gpa">bảng điểm GPA</Link> (điểm D trở lên) và các môn đang học ở học
+          kỳ mới nhất với yêu cầu tín chỉ của từng nhóm học phần trong chương trình.
+        </p>
+        {audit.program ? (
+          <div className="chip-row">
+            <span className="chip">
+              Yêu cầu: {audit.requiredCredits} TC{audit.program.totalCredits === null ? " (tổng các nhóm)" : ""}
+            </span>
+            <span className="chip diff-added">Đã hoàn thành: {audit.completedCredits} TC</span>
+            <span className="chip diff-changed">Đang học: {audit.inProgressCredits} TC</span>
+            <span className="chip chip-muted">Còn lại: {audit.remainingCredits} TC</span>
+            <Link href="/courses/eligibility" className="chip link-chip">
+              Môn đủ điều kiện đăng ký
+            </Link>
+          </div>
+        ) : null}
+      </section>
+
+      {audit.programs.length === 0 ? (
+        <section className="details-card">
+          <p className="empty-state">
+            Chưa có chương trình đào tạo nào trong danh mục học phần. Quản trị viên cần tạo chương trình và nhóm học phần
+            tại trang danh mục.
+          </p>
+        </section>
+      ) : (
+        <section className="details-card">
+          <form method="GET" className="admin-form-grid">
+            <label>
+              Chương trình
+              <select name="program" defaultValue={audit.program?.id}>
+                {audit.programs.map((program) => (
+                  <option key={program.id} value={program.id}>
+                    {program.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Tín chỉ mỗi học kỳ
+              <input type="number" name="pace" min={1} max={40} defaultValue={audit.pace} />
+            </label>
+            <div className="admin-form-actions">
+              <button type="submit" className="button-primary">
+                Cập nhật
+              </button>
+            </div>
+          </form>
+
+          <h2>Dự kiến tốt nghiệp</h2>
+          {audit.remainingCredits === 0 && audit.inProgressCredits === 0 ? (
+            <p>Đã đủ yêu cầu tín chỉ của chương trình.</p>
+          ) : audit.remainingCredits === 0 ? (
+            <p>
+              Đủ yêu cầu sau khi hoàn thành các môn đang học
+              {audit.currentSemester ? ` trong ${audit.currentSemester.label}` : ""}.
+            </p>
+          ) : (
+            <>
+              <p>
+                Còn {audit.remainingCredits} TC, khoảng {audit.projection.length} học kỳ chính nữa với {audit.pace} TC/học kỳ
+                {audit.paceFromHistory ? " (trung bình các học kỳ đã học)" : ""}
+                {graduation?.key ? `: dự kiến tốt nghiệp ${graduation.label}` : ""}.
+              </p>
+              <ul className="simple-list">
+                {audit.projection.map((semester, index) => (
+                  <li key={`${semester.key ?? "term"}-${index}`}>
+                    {semester.label}: {semester.credits} TC
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+          <p className="hint-text">
+            Dự kiến chỉ tính học kỳ Spring/Fall, chưa xét điều kiện tiên quyết hay lịch mở lớp của từng môn.
+          </p>
+        </section>
+      )}
+
+      {audit.sections.map((section) => (
+        <section key={section.id} className="details-card mt-card">
+          <h2>
+            {section.name} {section.complete ? <span className="chip diff-added">Hoàn thành</span> : null}
+          </h2>
+          <p className="muted-small">
+            {sectionRequirement(section)} · Đã qua {section.completedCredits} TC · Đang học {section.inProgressCredits} TC ·
+            Còn thiếu {section.remainingCredits} TC
+          </p>
+          {section.courses.length === 0 ? (
+            <p className="empty-state">Nhóm chưa có học phần nào.</p>
+          ) : (
+            <AuditCourseTable courses={section.courses} />
+          )}
+        </section>
+      ))}
+
+      {audit.otherCourses.length > 0 ? (
+        <section className="details-card mt-card">
+          <h2>Ngoài các nhóm của chương trình ({audit.otherCourses.length})</h2>
+          <p className="hint-text">
+            {audit.program?.totalCredits === null
+              ? "Không tính vào yêu cầu vì chương trình chưa đặt tổng tín chỉ tốt nghiệp."
+              : "Được tính vào tổng tín chỉ tốt nghiệp (ví dụ môn tự chọn tự do)."}
+          </p>
+          <AuditCourseTable courses={audit.otherCourses} />
+        </section>
+      ) : null}
+    </main>
+  );
+}
@@ -98,6 +98,12 @@ export default async function GpaPage() {
           <span className="chip">CGPA: {summary.overall.gpa === null ? "N/A" : summary.overall.gpa.toFixed(2)} / 4.00</span>
           <span className="chip">{summary.overall.countedCredits} tín chỉ tính GPA</span>
           <span className="chip">{summary.bySemester.length} học kỳ có dữ liệu</span>
+          <Link href="/courses/eligibility" className="chip link-chip">
+            Môn đủ điều kiện đăng ký
+          </Link>
+          <Link href="/gpa/audit" className="chip link-chip">
+            Tiến độ chương trình
+          </Link>
         </div>
       </section>
 
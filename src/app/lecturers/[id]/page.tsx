@@ -191,6 +191,14 @@ export default async function LecturerDetailPage({ params, searchParams }: Lectu
               ))}
             </div>
           )}
+          <p>
+            <Link
+              href={`/lecturers/${encodeURIComponent(lecturer.id)}/schedule${selectedSemesterKey ? `?semester=${encodeURIComponent(selectedSemesterKey)}` : ""}`}
+              className="chip link-chip"
+            >
+              Xem lịch giảng dạy trong tuần
+            </Link>
+          </p>
           {lecturer.bio ? <p className="hint-text">{lecturer.bio}</p> : null}
         </article>
       </section>
@@ -0,0 +1,231 @@
+import { DayOfWeek } from "@prisma/client";
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+
+import { getEnhancedLecturerById } from "@/lib/academic-data";
+import { getUserProfile } from "@/lib/auth/accounts";
+import { getServerSession } from "@/lib/auth/session";
+import { DAY_OPTIONS, ORDERED_DAYS, findLecturerIdForAccount, getLecturerPortalData } from "@/lib/portal";
+import { formatWeekNote } from "@/lib/schedule-weeks";
+
+type LecturerScheduleProps = {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+function pickSingle(value: string | string[] | undefined): string | undefined {
+  if (Array.isArray(value)) {
+    return value[0];
+  }
+
+  return value;
+}
+
+function parseWeekParam(value: string | undefined): number | "ALL" | undefined {
+  if (value === "ALL") {
+    return "ALL";
+  }
+
+  const week = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(week) && week > 0 ? week : undefined;
+}
+
+function formatWeekOption(week: { week: number; startDate: string; endDate: string }): string {
+  const shortDate = (value: string) => `${value.slice(8, 10)}/${value.slice(5, 7)}`;
+  return `Tuần ${week.week} · ${shortDate(week.startDate)}–${shortDate(week.endDate)}`;
+}
+
+export default async function LecturerSchedulePage({ params, searchParams }: LecturerScheduleProps) {
+  const session = await getServerSession();
+  if (!session) {
+    redirect("/login");
+  }
+
+  const [routeParams, query] = await Promise.all([params, searchParams]);
+  const lecturer = await getEnhancedLecturerById(routeParams.id);
+  if (!lecturer) {
+    notFound();
+  }
+
+  const dayValue = pickSingle(query.day);
+  const data = await getLecturerPortalData(lecturer.id, {
+    semesterKey: pickSingle(query.semester),
+    day: Object.values(DayOfWeek).includes(dayValue as DayOfWeek) ? (dayValue as DayOfWeek) : "ALL",
+    week: parseWeekParam(pickSingle(query.week)),
+  });
+
+  const semesterKey = data.selected.semesterKey;
+  const semesterQuery = semesterKey ? `?semester=${encodeURIComponent(semesterKey)}` : "";
+  const dayList =
+    data.selected.day === "ALL"
+      ? ORDERED_DAYS.filter((day) => day !== DayOfWeek.SUN || data.entries.some((entry) => entry.dayOfWeek === day))
+      : ORDERED_DAYS.filter((day) => day === data.selected.day);
+  const timeSlots = [...new Set(data.entries.map((entry) => entry.startTime ?? "TBA"))].sort((a, b) =>
+    a === "TBA" ? 1 : b === "TBA" ? -1 : a.localeCompare(b),
+  );
+  const classCount = new Set(data.entries.map((entry) => `${entry.cohortCode}|${entry.classGroupName}`)).size;
+  const profile = session.role === "LECTURER" ? await getUserProfile(session.username, session.role) : null;
+  const isOwnSchedule =
+    session.role === "LECTURER" &&
+    (await findLecturerIdForAccount({
+      lecturerId: profile?.lecturerId,
+    })) === lecturer.id;
+
+  return (
+    <main className="page-shell">
+      <section className="hero-block">
+        <p className="eyebrow">Lịch giảng dạy</p>
+        <h1>{lecturer.name}</h1>
+        <p>
+          Tất cả các ca được phân công cho giảng viên trong học kỳ, gộp từ mọi khóa và lớp theo phân công giảng dạy
+          (môn, lớp, mã instruction IH).
+        </p>
+        <div className="chip-row">
+          <span className="chip">{data.entries.length} ca</span>
+          <span className="chip">{new Set(data.entries.map((entry) => entry.course.code)).size} môn</span>
+          <span className="chip">{classCount} lớp</span>
+          <span className="chip">{data.selected.week === "ALL" ? "Cả học kỳ" : `Tuần ${data.selected.week}`}</span>
+        </div>
+      </section>
+
+      <section className="mt-card">
+        <form method="GET" className="admin-form-grid admin-scope-form">
+          <label>
+            Semester
+            <select name="semester" defaultValue={semesterKey ?? ""}>
+              {data.meta.semesters.map((semester) => (
+                <option key={semester.key} value={semester.key}>
+                  {semester.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label>
+            Day
+            <select name="day" defaultValue={data.selected.day}>
+              {DAY_OPTIONS.map((dayOption) => (
+                <option key={dayOption.value} value={dayOption.value}>
+                  {dayOption.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {data.weeks.length > 0 ? (
+            <label>
+              Week
+              <select name="week" defaultValue={String(data.selected.week)}>
+                <option value="ALL">Cả học kỳ</option>
+                {data.weeks.map((week) => (
+                  <option key={week.week} value={week.week}>
+                    {formatWeekOption(week)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+
+          <div className="admin-form-actions">
+            <button type="submit" className="button-primary">
+              Apply Filters
+            </button>
+          </div>
+        </form>
+      </section>
+
+      {data.conflicts.length > 0 ? (
+        <section className="warning-card">
+          <h2>Cảnh báo trùng lịch dạy</h2>
+          <ul>
+            {data.conflicts.map((conflict) => (
+              <li key={`${conflict.dayOfWeek}-${conflict.startTime}-${conflict.courses.join("-")}`}>
+                {conflict.dayOfWeek} {conflict.startTime}: {conflict.courses.join(", ")}
+              </li>
+            ))}
+          </ul>
+        </section>
+      ) : null}
+
+      <section className="details-card">
+        {data.entries.length === 0 ? (
+          <p className="empty-state">
+            Chưa có ca nào được phân công cho giảng viên này trong bộ lọc hiện tại.
+            {session.role === "ADMIN" ? (
+              <>
+                {" "}
+                Gán môn/lớp tại{" "}
+                <Link href={`/lecturers/${encodeURIComponent(lecturer.id)}${semesterQuery}`}>hồ sơ giảng viên</Link>.
+              </>
+            ) : null}
+          </p>
+        ) : (
+          <div className="matrix-scroll">
+            <table className="schedule-matrix">
+              <thead>
+                <tr>
+                  <th className="matrix-time-col">Time</th>
+                  {dayList.map((day) => (
+                    <th key={day}>{day}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {timeSlots.map((slot) => (
+                  <tr key={slot}>
+                    <th className="matrix-time-col">{slot}</th>
+                    {dayList.map((day) => {
+                      const entries = data.entries.filter(
+                        (entry) => entry.dayOfWeek === day && (entry.startTime ?? "TBA") === slot,
+                      );
+
+                      return (
+                        <td key={`${slot}-${day}`}>
+                          {entries.length === 0 ? (
+                            <span className="matrix-empty">-</span>
+                          ) : (
+                            <div className="matrix-cell-stack">
+                              {entries.map((entry) => (
+                                <Link
+                                  key={entry.id}
+                                  href={`/courses/${encodeURIComponent(entry.course.code)}${semesterQuery}`}
+                                  className="matrix-chip"
+                                >
+                                  <strong>{entry.course.code}</strong>
+                                  <span>
+                                    Lớp: {entry.cohortCode} · {entry.classGroupName}
+                                  </span>
+                                  <span>
+                                    {entry.room ?? "TBA"}
+                                    {entry.endTime ? ` · ${entry.startTime}–${entry.endTime}` : ""}
+                                  </span>
+                                  {formatWeekNote(entry) ? <span>{formatWeekNote(entry)}</span> : null}
+                                  {entry.instructionCode ? <span>Mã: {entry.instructionCode}</span> : null}
+                                </Link>
+                              ))}
+                            </div>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <p className="hint-text">
+        <Link href={`/lecturers/${encodeURIComponent(lecturer.id)}${semesterQuery}`}>Hồ sơ giảng viên</Link> ·{" "}
+        <Link href={semesterKey ? `/${semesterQuery}` : "/?view=matrix"}>{isOwnSchedule ? "Xem lịch theo lớp" : "Lịch học"}</Link>
+        {isOwnSchedule ? (
+          <>
+            {" "}
+            · Sai giảng viên? Chọn lại hồ sơ tại <Link href="/profile">Profile</Link>.
+          </>
+        ) : null}
+      </p>
+    </main>
+  );
+}
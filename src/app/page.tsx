@@ -2,18 +2,34 @@ import { DayOfWeek } from "@prisma/client";
 import Link from "next/link";
 import { redirect } from "next/navigation";
 
+import { ExamTable } from "@/components/schedule/exam-table";
+import { NextClassCountdown } from "@/components/schedule/next-class-countdown";
 import { getAcademicBundle } from "@/lib/academic-data";
 import { getUserProfile } from "@/lib/auth/accounts";
 import { getServerSession, type UserRole } from "@/lib/auth/session";
+import { getCalendarFeed } from "@/lib/calendar-feed";
 import { normalizeUiLanguage, type UiLanguage } from "@/lib/i18n";
-import { DAY_OPTIONS, ORDERED_DAYS, getPortalData } from "@/lib/portal";
+import {
+  DAY_OPTIONS,
+  ORDERED_DAYS,
+  findLecturerIdForAccount,
+  getPersonalPortalData,
+  getPortalData,
+} from "@/lib/portal";
+import { getRecentScheduleChanges, type ScheduleChange } from "@/lib/schedule-changes";
+import { getRoleViewSettings, resolveScheduleView } from "@/lib/schedule-views";
+import {
+  classDateInWeek,
+  findNextClass,
+  findWeekForDate,
+  formatWeekNote,
+  scheduleDateOf,
+} from "@/lib/schedule-weeks";
 
 type HomeProps = {
   searchParams: Promise<Record<string, string | string[] | undefined>>;
 };
 
-type ScheduleView = "matrix" | "agenda" | "cards";
-
 function pickSingle(value: string | string[] | undefined): string | undefined {
   if (Array.isArray(value)) {
     return value[0];
@@ -34,20 +50,47 @@ function isDayValue(value: string | undefined): value is DayOfWeek | "ALL" {
   return Object.values(DayOfWeek).includes(value as DayOfWeek);
 }
 
-function isScheduleView(value: string | undefined): value is ScheduleView {
-  return value === "matrix" || value === "agenda" || value === "cards";
+function parseWeekParam(value: string | undefined): number | "ALL" | undefined {
+  if (value === "ALL") {
+    return "ALL";
+  }
+
+  const week = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(week) && week > 0 ? week : undefined;
 }
 
-function allowedViewsForRole(role: UserRole): ScheduleView[] {
-  if (role === "ADMIN") {
-    return ["matrix", "agenda", "cards"];
+function formatTimeRange(entry: { startTime: string | null; endTime: string | null }): string {
+  if (!entry.startTime) {
+    return "TBA";
   }
 
-  if (role === "LECTURER") {
-    return ["matrix", "agenda"];
+  return entry.endTime ? `${entry.startTime}–${entry.endTime}` : entry.startTime;
+}
+
+function formatShortDate(value: string): string {
+  return `${value.slice(8, 10)}/${value.slice(5, 7)}`;
+}
+
+function buildDashboardHref(
+  query: Record<string, string | string[] | undefined>,
+  patch: Record<string, string>,
+): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    const single = pickSingle(value);
+    if (single !== undefined) {
+      params.set(key, single);
+    }
+  }
+  for (const [key, value] of Object.entries(patch)) {
+    params.set(key, value);
   }
 
-  return ["agenda"];
+  return `/?${params.toString()}`;
+}
+
+function formatWeekOption(week: { week: number; startDate: string; endDate: string }): string {
+  return `Tuần ${week.week} · ${formatShortDate(week.startDate)}–${formatShortDate(week.endDate)}`;
 }
 
 function sessionLabel(raw: string, language: UiLanguage): string {
@@ -192,32 +235,51 @@ export default async function Home({ searchParams }: HomeProps) {
   const profile =
     role === "STUDENT" && session.userId ? await getUserProfile(session.username, session.role) : null;
   const language = normalizeUiLanguage(profile?.preferredLanguage ?? session.language, "VI");
+  const accountProfile = role === "STUDENT" ? profile : await getUserProfile(session.username, session.role);
+  const ownLecturerId =
+    role === "LECTURER"
+      ? await findLecturerIdForAccount({
+          lecturerId: accountProfile?.lecturerId,
+        })
+      : null;
+
+  // Lecturers land on their own teaching timetable; any explicit filter keeps them on the class-group dashboard.
+  if (ownLecturerId && Object.keys(query).length === 0) {
+    redirect(`/lecturers/${encodeURIComponent(ownLecturerId)}/schedule`);
+  }
   const canManageScope = role === "ADMIN";
   const canSelectSemester = role !== "STUDENT";
   const canManageImport = role === "ADMIN";
   const selectedDayParam = pickSingle(query.day);
   const selectedDay = isDayValue(selectedDayParam) ? selectedDayParam : "ALL";
-  const allowedViews = allowedViewsForRole(role);
-  const requestedView = pickSingle(query.view);
-  const selectedView =
-    isScheduleView(requestedView) && allowedViews.includes(requestedView)
-      ? requestedView
-      : role === "ADMIN"
-        ? "cards"
-        : role === "LECTURER"
-          ? "matrix"
-          : "agenda";
+  const allowedViews = (await getRoleViewSettings())[role];
+  const selectedView = resolveScheduleView({
+    role,
+    allowedViews,
+    requested: pickSingle(query.view),
+    preferred: accountProfile?.defaultScheduleView,
+  });
 
   const enforcedStudentCohort = role === "STUDENT" ? profile?.cohortCode ?? session.cohortCode ?? undefined : undefined;
   const enforcedStudentClass =
     role === "STUDENT" ? profile?.classGroupName ?? session.classGroupName ?? undefined : undefined;
 
-  const portalData = await getPortalData({
-    semesterKey: canSelectSemester ? pickSingle(query.semester) : undefined,
-    cohortCode: canManageScope ? pickSingle(query.cohort) : enforcedStudentCohort,
-    classGroupName: canManageScope ? pickSingle(query.classGroup) : enforcedStudentClass,
-    day: selectedDay,
-  });
+  const personalSource = pickSingle(query.source) === "personal";
+  const examsTab = pickSingle(query.tab) === "exams";
+  const selectedWeekParam = parseWeekParam(pickSingle(query.week));
+  const portalData = personalSource
+    ? await getPersonalPortalData(session.username, {
+        semesterKey: pickSingle(query.semester),
+        day: selectedDay,
+        week: selectedWeekParam,
+      })
+    : await getPortalData({
+        semesterKey: canSelectSemester ? pickSingle(query.semester) : undefined,
+        cohortCode: canManageScope ? pickSingle(query.cohort) : enforcedStudentCohort,
+        classGroupName: canManageScope ? pickSingle(query.classGroup) : enforcedStudentClass,
+        day: selectedDay,
+        week: selectedWeekParam,
+      });
 
   const knowledge = await getAcademicBundle();
 
@@ -293,6 +355,75 @@ export default async function Home({ searchParams }: HomeProps) {
   }
 
   const filterGridClass = canManageScope ? "filter-grid" : role === "LECTURER" ? "filter-grid-lecturer" : "filter-grid-student";
+  const calendarParams = new URLSearchParams();
+  for (const [key, value] of [
+    ["semester", portalData.selected.semesterKey],
+    ["cohort", portalData.selected.cohortCode],
+    ["classGroup", portalData.selected.classGroupName],
+  ] as const) {
+    if (value) {
+      calendarParams.set(key, value);
+    }
+  }
+  const printParams = new URLSearchParams(calendarParams);
+  if (portalData.selected.week !== "ALL") {
+    printParams.set("week", String(portalData.selected.week));
+  }
+  const calendarFeed = portalData.selected.classGroupName ? await getCalendarFeed(session.username) : null;
+  const now = new Date();
+  const today = scheduleDateOf(now);
+  const selectedWeek = portalData.selected.week === "ALL" ? null : portalData.weeks[portalData.selected.week - 1] ?? null;
+  const currentWeek = findWeekForDate(portalData.weeks, today);
+  const dayHeading = (day: DayOfWeek) =>
+    selectedWeek ? `${day} · ${formatShortDate(classDateInWeek(selectedWeek, day))}` : day;
+  const isToday = (day: DayOfWeek) => Boolean(selectedWeek && classDateInWeek(selectedWeek, day) === today);
+
+  // The countdown always follows the student's saved class, whatever week or source the dashboard is filtered to.
+  const nextClassSource =
+    role === "STUDENT" && enforcedStudentClass
+      ? !personalSource && portalData.selected.day === "ALL" && portalData.selected.week === "ALL"
+        ? portalData
+        : await getPortalData({
+            cohortCode: enforcedStudentCohort,
+            classGroupName: enforcedStudentClass,
+            day: "ALL",
+            week: "ALL",
+          })
+      : null;
+  const nextClass = nextClassSource ? findNextClass(nextClassSource.entries, nextClassSource.weeks, now) : null;
+
+  const recentChanges =
+    !personalSource &&
+    portalData.selected.semesterKey &&
+    portalData.selected.cohortCode &&
+    portalData.selected.classGroupName
+      ? await getRecentScheduleChanges({
+          semesterKey: portalData.selected.semesterKey,
+          cohortCode: portalData.selected.cohortCode,
+          classGroupName: portalData.selected.classGroupName,
+        })
+      : null;
+  const changeByEntryId = new Map<string, ScheduleChange>(
+    (recentChanges?.changes ?? []).flatMap((change) => (change.after ? [[change.after.id, change] as const] : [])),
+  );
+  const removedCount = (recentChanges?.changes ?? []).filter((change) => change.kind === "REMOVED").length;
+  const changesParams = new URLSearchParams(calendarParams);
+  if (recentChanges) {
+    changesParams.set("base", recentChanges.base.id);
+  }
+  const changeBadge = (entryId: string) => {
+    const change = changeByEntryId.get(entryId);
+    if (!change) {
+      return null;
+    }
+
+    return (
+      <span className="change-badge">
+        {change.kind === "ADDED" ? "Mới thêm" : change.kind === "LECTURER" ? "Đổi giảng viên" : "Vừa đổi lịch"}
+      </span>
+    );
+  };
+
   const selectedSemesterQuery = portalData.selected.semesterKey
     ? `?semester=${encodeURIComponent(portalData.selected.semesterKey)}`
     : "";
@@ -328,6 +459,17 @@ export default async function Home({ searchParams }: HomeProps) {
           <span className="chip">{knowledge.stats.reviews} comments</span>
           <span className="chip">{distinctCourseCount} courses in schedule</span>
           <span className="chip">{creditsLabel}</span>
+          {portalData.weeks.length > 0 ? (
+            <span className="chip">
+              {portalData.selected.week === "ALL"
+                ? language === "VI"
+                  ? "Cả học kỳ"
+                  : language === "JA"
+                    ? "学期全体"
+                    : "Whole semester"
+                : formatWeekOption(portalData.weeks[portalData.selected.week - 1])}
+            </span>
+          ) : null}
         </div>
       </section>
 
@@ -369,6 +511,38 @@ export default async function Home({ searchParams }: HomeProps) {
             <span className="chip">Chiều: {sessionBreakdown.afternoon}</span>
             <span className="chip">Tối: {sessionBreakdown.evening}</span>
           </div>
+          {nextClassSource ? (
+            <div className="next-class">
+              <h3>Ca học tiếp theo</h3>
+              {nextClass ? (
+                <>
+                  <p>
+                    <strong>{nextClass.entry.course.code}</strong>{" "}
+                    {nextClass.entry.course.nameVi ?? nextClass.entry.course.nameEn ?? ""}
+                  </p>
+                  <p className="muted-small">
+                    {nextClass.entry.dayOfWeek} {formatShortDate(nextClass.date)} · {formatTimeRange(nextClass.entry)}{" "}
+                    · {nextClass.entry.room ?? "Phòng TBA"}
+                    {nextClass.entry.lecturers.length > 0
+                      ? ` · GV: ${nextClass.entry.lecturers.map((lecturer) => lecturer.name).join(", ")}`
+                      : ""}
+                  </p>
+                  <div className="chip-row">
+                    <NextClassCountdown
+                      startsAt={nextClass.startsAt.toISOString()}
+                      endsAt={nextClass.endsAt.toISOString()}
+                      renderedAt={now.toISOString()}
+                      language={language}
+                    />
+                  </div>
+                </>
+              ) : (
+                <p className="muted-small">
+                  Không còn ca học nào của lớp {nextClassSource.selected.classGroupName} trong học kỳ này.
+                </p>
+              )}
+            </div>
+          ) : null}
         </section>
       )}
 
@@ -426,7 +600,18 @@ export default async function Home({ searchParams }: HomeProps) {
                 <strong>Lecturer scope</strong>
                 <p>
                   Chế độ giảng viên được tối ưu để theo dõi tổng quan theo học kỳ. Cohort/class hiển thị theo dữ liệu
-                  hệ thống.
+                  hệ thống.{" "}
+                  {ownLecturerId ? (
+                    <Link
+                      href={`/lecturers/${encodeURIComponent(ownLecturerId)}/schedule${portalData.selected.semesterKey ? `?semester=${encodeURIComponent(portalData.selected.semesterKey)}` : ""}`}
+                    >
+                      Lịch dạy của tôi
+                    </Link>
+                  ) : (
+                    <>
+                      Liên kết hồ sơ giảng viên tại <Link href="/profile">Profile</Link> để xem lịch dạy của bạn.
+                    </>
+                  )}
                 </p>
               </div>
             </>
@@ -440,6 +625,22 @@ export default async function Home({ searchParams }: HomeProps) {
             </div>
           )}
 
+          {examsTab ? <input type="hidden" name="tab" value="exams" /> : null}
+
+          {role === "STUDENT" && personalSource && portalData.selected.semesterKey ? (
+            <input type="hidden" name="semester" value={portalData.selected.semesterKey} />
+          ) : null}
+
+          <label>
+            {language === "VI" ? "Nguồn lịch" : language === "JA" ? "表示元" : "Source"}
+            <select name="source" defaultValue={personalSource ? "personal" : "class"}>
+              <option value="class">{language === "VI" ? "Theo lớp" : language === "JA" ? "クラス" : "Class group"}</option>
+              <option value="personal">
+                {language === "VI" ? "Lịch cá nhân" : language === "JA" ? "マイ時間割" : "My timetable"}
+              </option>
+            </select>
+          </label>
+
           <label>
             Day
             <select name="day" defaultValue={portalData.selected.day}>
@@ -451,6 +652,20 @@ export default async function Home({ searchParams }: HomeProps) {
             </select>
           </label>
 
+          {portalData.weeks.length > 0 ? (
+            <label>
+              Week
+              <select name="week" defaultValue={String(portalData.selected.week)}>
+                <option value="ALL">Cả học kỳ</option>
+                {portalData.weeks.map((week) => (
+                  <option key={week.week} value={week.week}>
+                    {formatWeekOption(week)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+
           {allowedViews.length > 1 ? (
             <label>
               View mode
@@ -480,7 +695,8 @@ export default async function Home({ searchParams }: HomeProps) {
           ) : role === "STUDENT" ? (
             <>
               Gợi ý cho sinh viên: mở <Link href="/courses">Course Catalog</Link> để xem chi tiết môn,{" "}
-              <Link href="/lecturers">Faculty</Link> để xem giảng viên theo kỳ, và <Link href="/profile">Profile</Link>{" "}
+              <Link href="/lecturers">Faculty</Link> để xem giảng viên theo kỳ,{" "}
+              <Link href="/timetable">Lịch cá nhân</Link> để ghép ca từ nhiều lớp (học lại, tự chọn), và <Link href="/profile">Profile</Link>{" "}
               để cập nhật khóa/lớp.
             </>
           ) : (
@@ -493,12 +709,12 @@ export default async function Home({ searchParams }: HomeProps) {
         </p>
       </section>
 
-      {canManageImport && portalData.conflicts.length > 0 ? (
+      {(canManageImport || personalSource) && portalData.conflicts.length > 0 ? (
         <section className="warning-card">
           <h2>Cảnh báo trùng lịch</h2>
           <ul>
             {portalData.conflicts.map((conflict) => (
-              <li key={`${conflict.dayOfWeek}-${conflict.startTime}`}>
+              <li key={`${conflict.dayOfWeek}-${conflict.startTime}-${conflict.courses.join("-")}`}>
                 {conflict.dayOfWeek} {conflict.startTime}: {conflict.courses.join(", ")}
               </li>
             ))}
@@ -506,36 +722,152 @@ export default async function Home({ searchParams }: HomeProps) {
         </section>
       ) : null}
 
+      {!examsTab && portalData.examConflicts.length > 0 ? (
+        <section className="warning-card">
+          <h2>Lịch thi trùng với {portalData.examConflicts.length} ca học hoặc ca thi khác</h2>
+          <p>
+            <Link href={buildDashboardHref(query, { tab: "exams" })}>Xem lịch thi</Link> để kiểm tra và báo phòng đào
+            tạo.
+          </p>
+        </section>
+      ) : null}
+
+      {recentChanges ? (
+        <section className="warning-card">
+          <h2>
+            Lịch lớp có {recentChanges.changes.length} thay đổi trong {recentChanges.days} ngày qua
+          </h2>
+          <p>
+            {removedCount > 0 ? `${removedCount} ca đã bị hủy; ` : ""}
+            các ca vừa đổi được đánh dấu bên dưới.{" "}
+            <Link href={`/schedule/changes?${changesParams.toString()}`}>Xem chi tiết thay đổi</Link>
+          </p>
+        </section>
+      ) : null}
+
       <section className="details-card schedule-shell">
         <div className="schedule-head">
+          <nav className="schedule-tabs" aria-label="Schedule tabs">
+            <Link
+              href={buildDashboardHref(query, { tab: "schedule" })}
+              className={examsTab ? "chip link-chip" : "chip link-chip is-active"}
+            >
+              Lịch học
+            </Link>
+            <Link
+              href={buildDashboardHref(query, { tab: "exams" })}
+              className={examsTab ? "chip link-chip is-active" : "chip link-chip"}
+            >
+              Lịch thi ({portalData.exams.length})
+            </Link>
+          </nav>
           <h2>
-            {selectedView === "matrix"
-              ? "Weekly Matrix"
-              : selectedView === "agenda"
-                ? "Daily Agenda"
-                : "Cards by Day"}
+            {examsTab
+              ? "Exam Schedule"
+              : selectedView === "matrix"
+                ? "Weekly Matrix"
+                : selectedView === "agenda"
+                  ? "Daily Agenda"
+                  : "Cards by Day"}
           </h2>
           <p>
-            {selectedView === "matrix"
-              ? "Xem nhanh theo khung giờ × ngày để tránh trùng lịch."
-              : selectedView === "agenda"
-                ? "Danh sách theo từng ngày, phù hợp theo dõi chi tiết."
-                : "Dạng thẻ theo ngày, phù hợp quan sát tổng quan."}
+            {examsTab
+              ? "Lịch thi giữa kỳ và cuối kỳ của cả học kỳ, kèm phòng thi và số báo danh; dòng tô vàng là lịch thi trùng ca học hoặc ca thi khác."
+              : selectedView === "matrix"
+                ? "Xem nhanh theo khung giờ × ngày để tránh trùng lịch."
+                : selectedView === "agenda"
+                  ? "Danh sách theo từng ngày, phù hợp theo dõi chi tiết."
+                  : "Dạng thẻ theo ngày, phù hợp quan sát tổng quan."}
           </p>
+          {!examsTab && portalData.weeks.length > 0 ? (
+            <nav className="week-nav" aria-label="Week navigation">
+              {selectedWeek && selectedWeek.week > 1 ? (
+                <Link href={buildDashboardHref(query, { week: String(selectedWeek.week - 1) })} className="chip link-chip">
+                  ‹ Tuần {selectedWeek.week - 1}
+                </Link>
+              ) : null}
+              <strong>
+                {selectedWeek
+                  ? `Tuần ${selectedWeek.week} · ${formatShortDate(selectedWeek.startDate)}–${formatShortDate(selectedWeek.endDate)}`
+                  : "Cả học kỳ"}
+              </strong>
+              {selectedWeek && selectedWeek.week < portalData.weeks.length ? (
+                <Link href={buildDashboardHref(query, { week: String(selectedWeek.week + 1) })} className="chip link-chip">
+                  Tuần {selectedWeek.week + 1} ›
+                </Link>
+              ) : null}
+              {!selectedWeek ? (
+                <Link href={buildDashboardHref(query, { week: "1" })} className="chip link-chip">
+                  Từ tuần 1
+                </Link>
+              ) : null}
+              {currentWeek && currentWeek.week !== selectedWeek?.week ? (
+                <Link href={buildDashboardHref(query, { week: String(currentWeek.week) })} className="chip link-chip">
+                  Hôm nay
+                </Link>
+              ) : null}
+            </nav>
+          ) : null}
+          {portalData.selected.classGroupName && portalData.weeks.length > 0 ? (
+            <p className="muted-small">
+              <a href={`/api/schedule/ics?${calendarParams.toString()}`}>Tải lịch .ics</a>
+              {" · "}
+              <Link href={`/schedule/print?${printParams.toString()}`}>Bản in</Link>
+              {" · "}
+              <a href={`/api/schedule/pdf?${printParams.toString()}`}>PDF</a>
+              {" · "}
+              <Link href={`/schedule/changes?${calendarParams.toString()}`}>Thay đổi so với bản trước</Link>
+              {calendarFeed ? (
+                <>
+                  {" · "}
+                  <a href={`${calendarFeed.path}${role === "STUDENT" ? "" : `?${calendarParams.toString()}`}`}>
+                    Link đăng ký lịch cho lớp này
+                  </a>
+                </>
+              ) : (
+                <>
+                  {" · "}
+                  <Link href="/profile">Tạo link đăng ký lịch tự cập nhật</Link>
+                </>
+              )}
+            </p>
+          ) : null}
         </div>
 
-        {portalData.entries.length === 0 ? (
-          <p className="empty-state">Không có lớp học trong bộ lọc hiện tại.</p>
+        {examsTab ? (
+          portalData.exams.length > 0 ? (
+            <ExamTable
+              exams={portalData.exams}
+              conflicts={portalData.examConflicts}
+              today={today}
+              showClass={personalSource}
+              courseHref={(courseCode) => `/courses/${encodeURIComponent(courseCode)}${selectedSemesterQuery}`}
+            />
+          ) : (
+            <p className="empty-state">Chưa có lịch thi cho {personalSource ? "lịch cá nhân" : "lớp"} trong học kỳ này.</p>
+          )
+        ) : null}
+
+        {examsTab ? null : portalData.entries.length === 0 ? (
+          personalSource ? (
+            <p className="empty-state">
+              Lịch cá nhân chưa có ca nào trong bộ lọc. Chọn ca học tại <Link href="/timetable">Lịch cá nhân</Link>.
+            </p>
+          ) : (
+            <p className="empty-state">Không có lớp học trong bộ lọc hiện tại.</p>
+          )
         ) : null}
 
-        {portalData.entries.length > 0 && selectedView === "matrix" ? (
+        {!examsTab && portalData.entries.length > 0 && selectedView === "matrix" ? (
           <div className="matrix-scroll">
             <table className="schedule-matrix">
               <thead>
                 <tr>
                   <th className="matrix-time-col">Time</th>
                   {dayList.map((day) => (
-                    <th key={day}>{day}</th>
+                    <th key={day} className={isToday(day) ? "is-today" : undefined}>
+                      {dayHeading(day)}
+                    </th>
                   ))}
                 </tr>
               </thead>
@@ -556,12 +888,20 @@ export default async function Home({ searchParams }: HomeProps) {
                                 <Link
                                   key={entry.id}
                                   href={`/courses/${encodeURIComponent(entry.course.code)}${selectedSemesterQuery}`}
-                                  className="matrix-chip"
+                                  className={changeByEntryId.has(entry.id) ? "matrix-chip is-changed" : "matrix-chip"}
                                 >
                                   <strong>{entry.course.code}</strong>
+                                  {changeBadge(entry.id)}
                                   <span>
                                     {entry.room ?? "TBA"} · {sessionLabel(entry.session, language)}
                                   </span>
+                                  {personalSource ? (
+                                    <span>
+                                      Lớp: {entry.cohortCode} · {entry.classGroupName}
+                                    </span>
+                                  ) : null}
+                                  {entry.endTime ? <span>{formatTimeRange(entry)}</span> : null}
+                                  {formatWeekNote(entry) ? <span>{formatWeekNote(entry)}</span> : null}
                                   {entry.instructionCode ? <span>Mã: {entry.instructionCode}</span> : null}
                                   {entry.lecturers.length > 0 ? (
                                     <span>GV: {entry.lecturers.map((lecturer) => lecturer.name).join(", ")}</span>
@@ -580,15 +920,15 @@ export default async function Home({ searchParams }: HomeProps) {
           </div>
         ) : null}
 
-        {portalData.entries.length > 0 && selectedView === "agenda" ? (
+        {!examsTab && portalData.entries.length > 0 && selectedView === "agenda" ? (
           <div className="agenda-grid">
             {dayList.map((day) => {
               const entries = entriesByDay.get(day) ?? [];
 
               return (
-                <article key={day} className="agenda-day">
+                <article key={day} className={isToday(day) ? "agenda-day is-today" : "agenda-day"}>
                   <header>
-                    <h3>{day}</h3>
+                    <h3>{dayHeading(day)}</h3>
                     <span>{entries.length} ca</span>
                   </header>
 
@@ -597,19 +937,26 @@ export default async function Home({ searchParams }: HomeProps) {
                   ) : (
                     <ul className="agenda-list">
                       {entries.map((entry) => (
-                        <li key={entry.id} className="agenda-item">
+                        <li key={entry.id} className={changeByEntryId.has(entry.id) ? "agenda-item is-changed" : "agenda-item"}>
                           <div className="agenda-item-head">
                             <strong>
                               <Link href={`/courses/${encodeURIComponent(entry.course.code)}${selectedSemesterQuery}`}>
                                 {entry.course.code}
                               </Link>
                             </strong>
-                            <span>{entry.startTime ?? "TBA"}</span>
+                            <span>{formatTimeRange(entry)}</span>
                           </div>
+                          {changeBadge(entry.id)}
                           <p>{entry.course.nameEn ?? entry.course.nameVi ?? "Chưa cập nhật tên môn"}</p>
                           <p>
                             {entry.room ?? "Phòng TBA"} · {sessionLabel(entry.session, language)}
                           </p>
+                          {personalSource ? (
+                            <p>
+                              Lớp: {entry.cohortCode} · {entry.classGroupName}
+                            </p>
+                          ) : null}
+                          {formatWeekNote(entry) ? <p>{formatWeekNote(entry)}</p> : null}
                           {entry.instructionCode ? <p>Mã instruction: {entry.instructionCode}</p> : null}
                           <p>
                             Giảng viên:{" "}
@@ -627,15 +974,15 @@ export default async function Home({ searchParams }: HomeProps) {
           </div>
         ) : null}
 
-        {portalData.entries.length > 0 && selectedView === "cards" ? (
+        {!examsTab && portalData.entries.length > 0 && selectedView === "cards" ? (
           <div className="grid-board">
             {dayList.map((day) => {
               const entries = entriesByDay.get(day) ?? [];
 
               return (
-                <article key={day} className="day-column">
+                <article key={day} className={isToday(day) ? "day-column is-today" : "day-column"}>
                   <header>
-                    <h3>{day}</h3>
+                    <h3>{dayHeading(day)}</h3>
                     <span>{entries.length} ca học</span>
                   </header>
 
@@ -644,18 +991,25 @@ export default async function Home({ searchParams }: HomeProps) {
                   ) : (
                     <ul>
                       {entries.map((entry) => (
-                        <li key={entry.id} className="slot-card">
+                        <li key={entry.id} className={changeByEntryId.has(entry.id) ? "slot-card is-changed" : "slot-card"}>
                           <div className="slot-head">
                             <strong>
                               <Link href={`/courses/${encodeURIComponent(entry.course.code)}${selectedSemesterQuery}`}>
                                 {entry.course.code}
                               </Link>
                             </strong>
-                            <span>{entry.startTime ?? "TBA"}</span>
+                            <span>{formatTimeRange(entry)}</span>
                           </div>
+                          {changeBadge(entry.id)}
                           <p>{entry.course.nameEn ?? entry.course.nameVi ?? "Chưa cập nhật tên môn"}</p>
                           <p>{sessionLabel(entry.session, language)}</p>
                           <p>{entry.room ?? "Phòng TBA"}</p>
+                          {personalSource ? (
+                            <p>
+                              Lớp: {entry.cohortCode} · {entry.classGroupName}
+                            </p>
+                          ) : null}
+                          {formatWeekNote(entry) ? <p>{formatWeekNote(entry)}</p> : null}
                           {entry.instructionCode ? <p>Mã instruction: {entry.instructionCode}</p> : null}
                           <p>
                             Giảng viên:{" "}
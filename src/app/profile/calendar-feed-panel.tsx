@@ -0,0 +1,115 @@
+"use client";
+
+import { useState } from "react";
+
+import type { CalendarFeedInfo } from "@/lib/calendar-feed";
+
+type CalendarFeedPanelProps = {
+  origin: string;
+  initial: CalendarFeedInfo | null;
+  isStudent: boolean;
+};
+
+type FeedResponse = {
+  ok?: boolean;
+  error?: string;
+  feed?: CalendarFeedInfo | null;
+};
+
+export function CalendarFeedPanel({ origin, initial, isStudent }: CalendarFeedPanelProps) {
+  const [feed, setFeed] = useState<CalendarFeedInfo | null>(initial);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const feedUrl = feed ? `${origin}${feed.path}` : "";
+
+  async function callFeedApi(method: "POST" | "DELETE", successMessage: string) {
+    setBusy(true);
+    setMessage(null);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/calendar", { method });
+      const payload = (await response.json()) as FeedResponse;
+      if (!response.ok || !payload.ok) {
+        setError(payload.error ?? "Không thể cập nhật link lịch.");
+        return;
+      }
+
+      setFeed(payload.feed ?? null);
+      setMessage(successMessage);
+    } catch {
+      setError("Không kết nối được dịch vụ lịch.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="admin-form-grid">
+      {feed ? (
+        <>
+          <label className="admin-form-full">
+            Link đăng ký lịch (Google Calendar → Thêm lịch → Từ URL, Outlook → Đăng ký từ web)
+            <input value={feedUrl} readOnly onFocus={(event) => event.currentTarget.select()} />
+          </label>
+          <p className="muted-small admin-form-full">
+            {isStudent
+              ? "Link luôn theo khóa/lớp trong hồ sơ và học kỳ mới nhất."
+              : "Thêm ?semester=…&cohort=…&classGroup=… vào link để chọn lớp; mặc định là lớp đầu tiên của học kỳ mới nhất."}{" "}
+            Tạo lúc {new Date(feed.createdAt).toLocaleString("vi-VN")}
+            {feed.lastUsedAt ? ` · lần đồng bộ gần nhất ${new Date(feed.lastUsedAt).toLocaleString("vi-VN")}` : ""}.
+          </p>
+        </>
+      ) : (
+        <p className="muted-small admin-form-full">
+          Chưa có link đăng ký. Link này giúp lịch trên điện thoại tự cập nhật sau mỗi lần nhà trường import lại thời khóa
+          biểu.
+        </p>
+      )}
+
+      <div className="admin-form-actions">
+        {feed ? (
+          <>
+            <a href={feedUrl.replace(/^https?:/, "webcal:")} className="button-secondary">
+              Mở bằng ứng dụng lịch
+            </a>
+            <button
+              type="button"
+              className="button-secondary"
+              disabled={busy}
+              onClick={() => {
+                if (window.confirm("Tạo link mới? Link cũ sẽ ngừng hoạt động.")) {
+                  void callFeedApi("POST", "Đã tạo link mới, hãy cập nhật lại trong ứng dụng lịch.");
+                }
+              }}
+            >
+              Tạo lại link
+            </button>
+            <button
+              type="button"
+              className="button-secondary"
+              disabled={busy}
+              onClick={() => void callFeedApi("DELETE", "Đã thu hồi link đăng ký lịch.")}
+            >
+              Thu hồi
+            </button>
+          </>
+        ) : (
+          <button
+            type="button"
+            className="button-primary"
+            disabled={busy}
+            onClick={() => void callFeedApi("POST", "Đã tạo link đăng ký lịch.")}
+          >
+            Tạo link đăng ký
+          </button>
+        )}
+      </div>
+
+      {message ? <p className="status-ok">{message}</p> : null}
+      {error ? <p className="status-error">{error}</p> : null}
+    </div>
+  );
+}
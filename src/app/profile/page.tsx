@@ -1,8 +1,17 @@
+import { headers } from "next/headers";
 import { redirect } from "next/navigation";
 
+import { ShareLinksPanel } from "@/components/schedule/share-links-panel";
 import { getUserProfile } from "@/lib/auth/accounts";
 import { getServerSession } from "@/lib/auth/session";
+import { getCalendarFeed } from "@/lib/calendar-feed";
+import { loadKnowledge } from "@/lib/knowledge";
+import { suggestLecturerIdForAccount } from "@/lib/portal";
+import { prisma } from "@/lib/prisma";
+import { getRoleViewSettings } from "@/lib/schedule-views";
+import { listShareLinks, listShareScopes } from "@/lib/share-links";
 
+import { CalendarFeedPanel } from "./calendar-feed-panel";
 import { ProfileForm } from "./profile-form";
 
 export default async function ProfilePage() {
@@ -11,7 +20,16 @@ export default async function ProfilePage() {
     redirect("/login");
   }
 
-  const profile = await getUserProfile(session.username, session.role);
+  const [profile, calendarFeed, requestHeaders, roleViews, shareScopes] = await Promise.all([
+    getUserProfile(session.username, session.role),
+    getCalendarFeed(session.username),
+    headers(),
+    getRoleViewSettings(),
+    session.role === "STUDENT" ? listShareScopes(session) : Promise.resolve([]),
+  ]);
+  const shareLinks = shareScopes.length > 0 ? await listShareLinks(session) : [];
+  const host = requestHeaders.get("x-forwarded-host") ?? requestHeaders.get("host") ?? "localhost:3000";
+  const origin = `${requestHeaders.get("x-forwarded-proto") ?? "http"}://${host}`;
   const initial = profile ?? {
     username: session.username,
     role: session.role,
@@ -20,8 +38,38 @@ export default async function ProfilePage() {
     cohortCode: session.cohortCode ?? null,
     classGroupName: session.classGroupName ?? null,
     studentCode: session.studentCode ?? null,
+    lecturerId: null,
+    defaultScheduleView: null,
     preferredLanguage: session.language ?? "VI",
   };
+  const claimedLecturerIds =
+    session.role === "LECTURER"
+      ? new Set(
+          (
+            await prisma.userSetting.findMany({
+              where: {
+                lecturerId: { not: null },
+                username: { not: session.username },
+              },
+              select: { lecturerId: true },
+            })
+          ).map((setting) => setting.lecturerId),
+        )
+      : new Set<string | null>();
+  const lecturerOptions =
+    session.role === "LECTURER"
+      ? (await loadKnowledge()).lecturers
+          .filter((lecturer) => !claimedLecturerIds.has(lecturer.id))
+          .map((lecturer) => ({ id: lecturer.id, name: lecturer.name }))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      : [];
+  const suggestedLecturerId =
+    session.role === "LECTURER" && !initial.lecturerId
+      ? await suggestLecturerIdForAccount(
+          { email: initial.email ?? session.email, displayName: initial.displayName ?? session.name },
+          claimedLecturerIds,
+        )
+      : null;
 
   return (
     <main className="page-shell">
@@ -36,8 +84,33 @@ export default async function ProfilePage() {
 
       <section className="details-card">
         <h2>Thiết lập tài khoản</h2>
-        <ProfileForm initial={initial} />
+        <ProfileForm
+          initial={initial}
+          lecturerOptions={lecturerOptions}
+          suggestedLecturerId={suggestedLecturerId}
+          viewOptions={roleViews[session.role]}
+        />
       </section>
+
+      <section className="details-card mt-card">
+        <h2>Lịch trên điện thoại</h2>
+        <p className="hint-text">
+          Tải file <a href="/api/schedule/ics">.ics</a> một lần, hoặc dùng link đăng ký riêng bên dưới để Google
+          Calendar/Outlook tự đồng bộ. Không chia sẻ link này: ai có link đều xem được thời khóa biểu của bạn.
+        </p>
+        <CalendarFeedPanel origin={origin} initial={calendarFeed} isStudent={session.role === "STUDENT"} />
+      </section>
+
+      {shareScopes.length > 0 ? (
+        <section className="details-card mt-card">
+          <h2>Chia sẻ thời khóa biểu lớp</h2>
+          <p className="hint-text">
+            Với vai trò lớp trưởng, bạn có thể tạo link chỉ-xem thời khóa biểu của lớp để gửi vào nhóm lớp. Người nhận
+            không cần đăng nhập và chỉ thấy lịch học của lớp, không thấy đánh giá, điểm hay thông tin cá nhân.
+          </p>
+          <ShareLinksPanel origin={origin} scopes={shareScopes} initial={shareLinks} />
+        </section>
+      ) : null}
     </main>
   );
 }
@@ -12,8 +12,19 @@ type ProfileFormProps = {
     cohortCode: string | null;
     classGroupName: string | null;
     studentCode: string | null;
+    lecturerId: string | null;
+    defaultScheduleView: string | null;
     preferredLanguage: "VI" | "EN" | "JA";
   };
+  lecturerOptions: Array<{ id: string; name: string }>;
+  suggestedLecturerId: string | null;
+  viewOptions: Array<"matrix" | "agenda" | "cards">;
+};
+
+const VIEW_LABEL: Record<ProfileFormProps["viewOptions"][number], string> = {
+  matrix: "Matrix (lưới tuần)",
+  agenda: "Agenda (theo ngày)",
+  cards: "Cards (thẻ theo ngày)",
 };
 
 type ProfileResponse = {
@@ -21,7 +32,7 @@ type ProfileResponse = {
   error?: string;
 };
 
-export function ProfileForm({ initial }: ProfileFormProps) {
+export function ProfileForm({ initial, lecturerOptions, suggestedLecturerId, viewOptions }: ProfileFormProps) {
   const router = useRouter();
 
   const [displayName, setDisplayName] = useState(initial.displayName ?? "");
@@ -29,6 +40,8 @@ export function ProfileForm({ initial }: ProfileFormProps) {
   const [cohortCode, setCohortCode] = useState(initial.cohortCode ?? "");
   const [classGroupName, setClassGroupName] = useState(initial.classGroupName ?? "");
   const [studentCode, setStudentCode] = useState(initial.studentCode ?? "");
+  const [lecturerId, setLecturerId] = useState(initial.lecturerId ?? suggestedLecturerId ?? "");
+  const [defaultScheduleView, setDefaultScheduleView] = useState(initial.defaultScheduleView ?? "");
   const [preferredLanguage, setPreferredLanguage] = useState<"VI" | "EN" | "JA">(initial.preferredLanguage ?? "VI");
 
   const [saving, setSaving] = useState(false);
@@ -36,6 +49,7 @@ export function ProfileForm({ initial }: ProfileFormProps) {
   const [error, setError] = useState<string | null>(null);
 
   const isStudent = initial.role === "STUDENT";
+  const isLecturer = initial.role === "LECTURER";
 
   async function onSubmit(event: React.FormEvent<HTMLFormElement>) {
     event.preventDefault();
@@ -55,6 +69,8 @@ export function ProfileForm({ initial }: ProfileFormProps) {
           cohortCode: cohortCode || null,
           classGroupName: classGroupName || null,
           studentCode: studentCode || null,
+          ...(isLecturer ? { lecturerId: lecturerId || null } : {}),
+          ...(viewOptions.length > 1 ? { defaultScheduleView: defaultScheduleView || null } : {}),
           preferredLanguage,
         }),
       });
@@ -131,6 +147,37 @@ export function ProfileForm({ initial }: ProfileFormProps) {
         />
       </label>
 
+      {isLecturer ? (
+        <label className="admin-form-full">
+          Hồ sơ giảng viên (dùng cho lịch dạy cá nhân)
+          <select value={lecturerId} onChange={(event) => setLecturerId(event.target.value)}>
+            <option value="">Chưa liên kết</option>
+            {lecturerOptions.map((lecturer) => (
+              <option key={lecturer.id} value={lecturer.id}>
+                {lecturer.name}
+              </option>
+            ))}
+          </select>
+          {suggestedLecturerId && lecturerId === suggestedLecturerId ? (
+            <span className="muted-small">Gợi ý theo email/tên của tài khoản; bấm lưu để liên kết.</span>
+          ) : null}
+        </label>
+      ) : null}
+
+      {viewOptions.length > 1 ? (
+        <label className="admin-form-full">
+          Kiểu xem thời khóa biểu mặc định
+          <select value={defaultScheduleView} onChange={(event) => setDefaultScheduleView(event.target.value)}>
+            <option value="">Theo mặc định của vai trò</option>
+            {viewOptions.map((view) => (
+              <option key={view} value={view}>
+                {VIEW_LABEL[view]}
+              </option>
+            ))}
+          </select>
+        </label>
+      ) : null}
+
       <label className="admin-form-full">
         Ngôn ngữ giao diện
         <select
@@ -0,0 +1,306 @@
+import { DayOfWeek } from "@prisma/client";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+import { getServerSession } from "@/lib/auth/session";
+import { DAY_OPTIONS } from "@/lib/portal";
+import { prisma } from "@/lib/prisma";
+import { findFreeRooms, getRoomOccupancy, normalizeTimeInput, type RoomBooking } from "@/lib/room-occupancy";
+import { computeEndTime, DEFAULT_CLASS_MINUTES } from "@/lib/schedule-weeks";
+
+type RoomsPageProps = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+function pickSingle(value: string | string[] | undefined): string | undefined {
+  if (Array.isArray(value)) {
+    return value[0];
+  }
+
+  return value;
+}
+
+function parseWeekParam(value: string | undefined): number | "ALL" | undefined {
+  if (value === "ALL") {
+    return "ALL";
+  }
+
+  const week = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(week) && week > 0 ? week : undefined;
+}
+
+function formatWeekOption(week: { week: number; startDate: string; endDate: string }): string {
+  const shortDate = (value: string) => `${value.slice(8, 10)}/${value.slice(5, 7)}`;
+  return `Tuần ${week.week} · ${shortDate(week.startDate)}–${shortDate(week.endDate)}`;
+}
+
+function formatHours(minutes: number): string {
+  return `${Math.round((minutes / 60) * 10) / 10} giờ`;
+}
+
+function BookingChip({ booking }: { booking: RoomBooking }) {
+  return (
+    <div className="matrix-chip">
+      <strong>{booking.courseCode}</strong>
+      <span>
+        {booking.startTime}–{booking.endTime}
+        {booking.endTimeEstimated ? " (ước tính)" : ""}
+      </span>
+      <span>{booking.classGroups.join(", ")}</span>
+      {booking.weekNote ? <span>{booking.weekNote}</span> : null}
+    </div>
+  );
+}
+
+export default async function RoomsPage({ searchParams }: RoomsPageProps) {
+  const session = await getServerSession();
+  if (!session) {
+    redirect("/login");
+  }
+  if (session.role !== "ADMIN" && session.role !== "LECTURER") {
+    redirect("/");
+  }
+
+  const query = await searchParams;
+  const requestedSemesterKey = pickSingle(query.semester);
+
+  const semesters = await prisma.semester.findMany({
+    orderBy: [{ startDate: "desc" }, { updatedAt: "desc" }],
+    select: {
+      key: true,
+      label: true,
+    },
+  });
+
+  const selectedSemester = semesters.find((semester) => semester.key === requestedSemesterKey) ?? semesters[0] ?? null;
+  const report = selectedSemester
+    ? await getRoomOccupancy(prisma, selectedSemester.key, { week: parseWeekParam(pickSingle(query.week)) })
+    : null;
+
+  const dayValue = pickSingle(query.day);
+  const searchDay = Object.values(DayOfWeek).includes(dayValue as DayOfWeek) ? (dayValue as DayOfWeek) : null;
+  const searchStart = normalizeTimeInput(pickSingle(query.from));
+  const rawEnd = pickSingle(query.to);
+  const searchEnd = rawEnd ? normalizeTimeInput(rawEnd) : computeEndTime(searchStart, DEFAULT_CLASS_MINUTES);
+  const searchValid = Boolean(searchDay && searchStart && searchEnd && searchEnd > searchStart);
+  const freeRooms =
+    report && searchValid
+      ? findFreeRooms(report, {
+          dayOfWeek: searchDay as DayOfWeek,
+          startTime: searchStart as string,
+          endTime: searchEnd as string,
+        })
+      : null;
+
+  const roomFilter = pickSingle(query.room)?.trim().toUpperCase() ?? "";
+  const visibleRooms = (report?.rooms ?? []).filter((room) => !roomFilter || room.room.includes(roomFilter));
+
+  return (
+    <main className="page-shell">
+      <section className="hero-block">
+        <p className="eyebrow">Phòng học</p>
+        <h1>Tình trạng phòng</h1>
+        <p>
+          Lịch sử dụng từng phòng theo thời khóa biểu đã import, và tìm phòng trống theo thứ và khung giờ để xếp lớp
+          học bù.
+        </p>
+        {report ? (
+          <div className="chip-row">
+            <span className="chip">{report.rooms.length} phòng</span>
+            <span className="chip">
+              {report.selectedWeek === "ALL" ? "Cả học kỳ" : `Tuần ${report.selectedWeek}`}
+            </span>
+          </div>
+        ) : null}
+      </section>
+
+      <section className="mt-card">
+        <form method="GET" className="admin-form-grid admin-scope-form">
+          <label>
+            Semester
+            <select name="semester" defaultValue={selectedSemester?.key ?? ""}>
+              {semesters.map((semester) => (
+                <option key={semester.key} value={semester.key}>
+                  {semester.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label>
+            Week
+            <select name="week" defaultValue={String(report?.selectedWeek ?? "ALL")}>
+              <option value="ALL">Cả học kỳ</option>
+              {(report?.weeks ?? []).map((week) => (
+                <option key={week.week} value={week.week}>
+                  {formatWeekOption(week)}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label>
+            Thứ
+            <select name="day" defaultValue={searchDay ?? ""}>
+              <option value="">-</option>
+              {DAY_OPTIONS.filter((option) => option.value !== "ALL").map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label>
+            Từ
+            <input type="time" name="from" defaultValue={searchStart ?? ""} />
+          </label>
+
+          <label>
+            Đến
+            <input type="time" name="to" defaultValue={rawEnd ? (searchEnd ?? "") : ""} />
+          </label>
+
+          <label>
+            Phòng
+            <input type="search" name="room" defaultValue={roomFilter} placeholder="B1-204" />
+          </label>
+
+          <div className="admin-form-actions">
+            <button type="submit" className="button-primary">
+              Tìm phòng trống
+            </button>
+          </div>
+        </form>
+
+        {dayValue && !searchValid ? (
+          <p className="status-error">Chọn thứ và giờ bắt đầu hợp lệ (giờ kết thúc phải sau giờ bắt đầu).</p>
+        ) : null}
+        {!rawEnd && searchValid ? (
+          <p className="hint-text">Chưa nhập giờ kết thúc — mặc định {DEFAULT_CLASS_MINUTES} phút ({searchEnd}).</p>
+        ) : null}
+      </section>
+
+      {freeRooms ? (
+        <section className="details-card">
+          <h2>
+            Phòng trống {searchDay} {searchStart}–{searchEnd}
+            {report?.selectedWeek === "ALL" ? " (mọi tuần)" : ` (tuần ${report?.selectedWeek})`}
+          </h2>
+          {freeRooms.free.length === 0 ? (
+            <p className="empty-state">Không còn phòng nào trống trong khung giờ này.</p>
+          ) : (
+            <div className="chip-row">
+              {freeRooms.free.map((room) => (
+                <span key={room} className="chip">
+                  {room}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {freeRooms.busy.length > 0 ? (
+            <div className="admin-table-wrap mt-card">
+              <table className="admin-table">
+                <thead>
+                  <tr>
+                    <th>Phòng đang dùng</th>
+                    <th>Môn</th>
+                    <th>Giờ</th>
+                    <th>Lớp</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {freeRooms.busy.flatMap(({ room, bookings }) =>
+                    bookings.map((booking) => (
+                      <tr key={`${room}-${booking.entryIds[0]}`}>
+                        <td>{room}</td>
+                        <td>{booking.courseCode}</td>
+                        <td>
+                          {booking.startTime}–{booking.endTime}
+                        </td>
+                        <td>{booking.classGroups.join(", ")}</td>
+                      </tr>
+                    )),
+                  )}
+                </tbody>
+              </table>
+            </div>
+          ) : null}
+          <p className="hint-text">
+            Danh sách chỉ gồm các phòng đã xuất hiện trong thời khóa biểu của học kỳ; phòng TBA/Online không được tính.
+          </p>
+        </section>
+      ) : null}
+
+      {!report ? <p className="empty-state">Chưa có học kỳ nào.</p> : null}
+      {report && visibleRooms.length === 0 ? <p className="empty-state">Không tìm thấy phòng nào.</p> : null}
+
+      {report
+        ? visibleRooms.map((room) => {
+            const slots = [...new Set(room.bookings.map((booking) => booking.startTime))].sort();
+
+            return (
+              <details key={room.room} className="details-card room-occupancy" open={Boolean(roomFilter)}>
+                <summary>
+                  <strong>{room.room}</strong>
+                  <span className="muted-small">
+                    {room.bookings.length} ca · {formatHours(room.busyMinutes)}/tuần
+                  </span>
+                </summary>
+
+                {slots.length === 0 ? (
+                  <p className="empty-state">Phòng trống cả tuần.</p>
+                ) : (
+                  <div className="matrix-scroll">
+                    <table className="schedule-matrix">
+                      <thead>
+                        <tr>
+                          <th className="matrix-time-col">Time</th>
+                          {report.days.map((day) => (
+                            <th key={day}>{day}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {slots.map((slot) => (
+                          <tr key={slot}>
+                            <th className="matrix-time-col">{slot}</th>
+                            {report.days.map((day) => {
+                              const bookings = room.bookings.filter(
+                                (booking) => booking.dayOfWeek === day && booking.startTime === slot,
+                              );
+
+                              return (
+                                <td key={`${slot}-${day}`}>
+                                  {bookings.length === 0 ? (
+                                    <span className="matrix-empty">-</span>
+                                  ) : (
+                                    <div className="matrix-cell-stack">
+                                      {bookings.map((booking) => (
+                                        <BookingChip key={booking.entryIds[0]} booking={booking} />
+                                      ))}
+                                    </div>
+                                  )}
+                                </td>
+                              );
+                            })}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </details>
+            );
+          })
+        : null}
+
+      {session.role === "ADMIN" ? (
+        <p className="hint-text">
+          Phòng bị xếp trùng giữa các khóa được liệt kê tại <Link href="/admin/conflicts">Booking Conflicts</Link>.
+        </p>
+      ) : null}
+    </main>
+  );
+}
@@ -0,0 +1,240 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+import { getServerSession } from "@/lib/auth/session";
+import { getCalendarPortalData } from "@/lib/calendar-feed";
+import type { PortalData } from "@/lib/portal";
+import {
+  getScheduleChanges,
+  type ScheduleChangeField,
+  type ScheduleChangeKind,
+} from "@/lib/schedule-changes";
+import { formatWeekNote } from "@/lib/schedule-weeks";
+
+type ScheduleChangesPageProps = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+const KIND_LABEL: Record<ScheduleChangeKind, string> = {
+  MOVED: "Đổi lịch",
+  ADDED: "Thêm mới",
+  REMOVED: "Đã hủy",
+  LECTURER: "Đổi giảng viên",
+};
+
+const FIELD_LABEL: Record<ScheduleChangeField, string> = {
+  day: "thứ",
+  time: "giờ",
+  room: "phòng",
+  weeks: "tuần học",
+  lecturers: "giảng viên",
+};
+
+function pickSingle(value: string | string[] | undefined): string | undefined {
+  if (Array.isArray(value)) {
+    return value[0];
+  }
+
+  return value;
+}
+
+function describeEntry(entry: PortalData["entries"][number] | null) {
+  if (!entry) {
+    return <span className="matrix-empty">-</span>;
+  }
+
+  const weekNote = formatWeekNote(entry);
+  return (
+    <>
+      <strong>
+        {entry.dayOfWeek} {entry.startTime ?? entry.rawTime ?? "TBA"}
+        {entry.startTime && entry.endTime ? `–${entry.endTime}` : ""}
+      </strong>
+      <div className="muted-small">Phòng {entry.room ?? "TBA"}</div>
+      {entry.lecturers.length > 0 ? (
+        <div className="muted-small">{entry.lecturers.map((lecturer) => lecturer.name).join(", ")}</div>
+      ) : null}
+      {weekNote ? <div className="muted-small">{weekNote}</div> : null}
+    </>
+  );
+}
+
+export default async function ScheduleChangesPage({ searchParams }: ScheduleChangesPageProps) {
+  const session = await getServerSession();
+  if (!session) {
+    redirect("/login");
+  }
+
+  const query = await searchParams;
+  const data = await getCalendarPortalData(session, {
+    semesterKey: pickSingle(query.semester),
+    cohortCode: pickSingle(query.cohort),
+    classGroupName: pickSingle(query.classGroup),
+  });
+  const { semesterKey, cohortCode, classGroupName } = data.selected;
+  const report =
+    semesterKey && cohortCode && classGroupName
+      ? await getScheduleChanges({ semesterKey, cohortCode, classGroupName }, pickSingle(query.base))
+      : null;
+
+  const selectedSemester = data.meta.semesters.find((semester) => semester.key === semesterKey);
+  const selectedCohort = selectedSemester?.cohorts.find((cohort) => cohort.code === cohortCode);
+  const counts = (report?.changes ?? []).reduce<Partial<Record<ScheduleChangeKind, number>>>((acc, change) => {
+    acc[change.kind] = (acc[change.kind] ?? 0) + 1;
+    return acc;
+  }, {});
+  const dashboardParams = new URLSearchParams();
+  for (const [key, value] of [
+    ["semester", semesterKey],
+    ["cohort", cohortCode],
+    ["classGroup", classGroupName],
+  ] as const) {
+    if (value) {
+      dashboardParams.set(key, value);
+    }
+  }
+
+  return (
+    <main className="page-shell">
+      <section className="hero-block">
+        <p className="eyebrow">Thay đổi lịch</p>
+        <h1>
+          Lịch lớp {cohortCode ?? ""} {classGroupName ?? ""} đã thay đổi gì?
+        </h1>
+        <p>
+          So sánh thời khóa biểu hiện tại với bản trước khi phòng đào tạo phát hành bản sửa, hoặc với một học kỳ khác:
+          ca bị dời thứ/giờ/phòng, ca thêm mới, ca bị hủy và thay đổi giảng viên.
+        </p>
+        {report ? (
+          <div className="chip-row">
+            {(Object.keys(KIND_LABEL) as ScheduleChangeKind[]).map((kind) => (
+              <span key={kind} className="chip">
+                {KIND_LABEL[kind]}: {counts[kind] ?? 0}
+              </span>
+            ))}
+            <span className="chip">Không đổi: {report.unchanged}</span>
+          </div>
+        ) : null}
+      </section>
+
+      <section className="mt-card">
+        <form method="GET" className="admin-form-grid admin-scope-form">
+          {session.role !== "STUDENT" ? (
+            <label>
+              Semester
+              <select name="semester" defaultValue={semesterKey ?? ""}>
+                {data.meta.semesters.map((semester) => (
+                  <option key={semester.key} value={semester.key}>
+                    {semester.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : null}
+
+          {session.role === "ADMIN" ? (
+            <>
+              <label>
+                Cohort
+                <select name="cohort" defaultValue={cohortCode ?? ""}>
+                  {(selectedSemester?.cohorts ?? []).map((cohort) => (
+                    <option key={cohort.code} value={cohort.code}>
+                      {cohort.code}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                Class
+                <select name="classGroup" defaultValue={classGroupName ?? ""}>
+                  {(selectedCohort?.classGroups ?? []).map((name) => (
+                    <option key={name} value={name}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </>
+          ) : null}
+
+          <label>
+            So với
+            <select name="base" defaultValue={report?.base?.id ?? ""}>
+              {(report?.bases ?? []).map((base) => (
+                <option key={base.id} value={base.id}>
+                  {base.kind === "import" ? `Trước lần import ${base.label}` : `Học kỳ ${base.label}`}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <div className="admin-form-actions">
+            <button type="submit" className="button-primary">
+              So sánh
+            </button>
+          </div>
+        </form>
+      </section>
+
+      {!report ? <p className="empty-state">Chưa chọn được lớp để so sánh.</p> : null}
+      {report && !report.base ? (
+        <p className="empty-state">
+          Chưa có bản import trước đó hay học kỳ nào khác của lớp này để so sánh.
+        </p>
+      ) : null}
+      {report?.base && report.changes.length === 0 ? (
+        <p className="empty-state">Không có thay đổi nào so với bản đã chọn.</p>
+      ) : null}
+
+      {report?.base && report.changes.length > 0 ? (
+        <section className="details-card">
+          <h2>{report.changes.length} thay đổi</h2>
+          <div className="admin-table-wrap">
+            <table className="admin-table">
+              <thead>
+                <tr>
+                  <th>Loại</th>
+                  <th>Môn</th>
+                  <th>Trước</th>
+                  <th>Sau</th>
+                  <th>Thay đổi</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.changes.map((change, index) => {
+                  const course = (change.after ?? change.before)?.course;
+                  return (
+                    <tr key={`${change.kind}-${change.courseCode}-${index}`} className={`change-${change.kind.toLowerCase()}`}>
+                      <td>
+                        <span className="chip">{KIND_LABEL[change.kind]}</span>
+                      </td>
+                      <td>
+                        <Link href={`/courses/${encodeURIComponent(change.courseCode)}`}>{change.courseCode}</Link>
+                        {course?.nameVi ?? course?.nameEn ? (
+                          <div className="muted-small">{course?.nameVi ?? course?.nameEn}</div>
+                        ) : null}
+                      </td>
+                      <td>{describeEntry(change.before)}</td>
+                      <td>{describeEntry(change.after)}</td>
+                      <td>{change.fields.map((field) => FIELD_LABEL[field]).join(", ") || "-"}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          {report.base.kind === "import" ? (
+            <p className="hint-text">
+              Gồm mọi thay đổi từ lần import {report.base.label} đến nay. Giảng viên của bản cũ được tính theo phân
+              công hiện tại, nên chỉ thay đổi mã lớp học phần mới làm đổi giảng viên.
+            </p>
+          ) : null}
+        </section>
+      ) : null}
+
+      <p className="hint-text">
+        <Link href={`/?${dashboardParams.toString()}`}>← Về thời khóa biểu</Link>
+      </p>
+    </main>
+  );
+}
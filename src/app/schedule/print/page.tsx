@@ -0,0 +1,126 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+import { PrintButton } from "@/components/schedule/print-button";
+import { getUserProfile } from "@/lib/auth/accounts";
+import { getServerSession } from "@/lib/auth/session";
+import { getCalendarPortalData } from "@/lib/calendar-feed";
+import { normalizeUiLanguage, t } from "@/lib/i18n";
+import { buildTimetableSheet } from "@/lib/timetable-sheet";
+
+type PrintTimetablePageProps = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+function pickSingle(value: string | string[] | undefined): string | undefined {
+  if (Array.isArray(value)) {
+    return value[0];
+  }
+
+  return value;
+}
+
+function parseWeekParam(value: string | undefined): number | "ALL" {
+  const week = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(week) && week > 0 ? week : "ALL";
+}
+
+export default async function PrintTimetablePage({ searchParams }: PrintTimetablePageProps) {
+  const session = await getServerSession();
+  if (!session) {
+    redirect("/login");
+  }
+
+  const query = await searchParams;
+  const data = await getCalendarPortalData(session, {
+    semesterKey: pickSingle(query.semester),
+    cohortCode: pickSingle(query.cohort),
+    classGroupName: pickSingle(query.classGroup),
+    week: parseWeekParam(pickSingle(query.week)),
+  });
+  const profile = await getUserProfile(session.username, session.role);
+  const language = normalizeUiLanguage(profile?.preferredLanguage ?? session.language, "VI");
+  const sheet = buildTimetableSheet(data, language);
+
+  if (!sheet) {
+    return (
+      <main className="page-shell">
+        <section className="empty-state">
+          <h2>{t(language, "timetableEmpty")}</h2>
+          <Link href="/">Dashboard</Link>
+        </section>
+      </main>
+    );
+  }
+
+  const params = new URLSearchParams();
+  for (const [key, value] of [
+    ["semester", data.selected.semesterKey],
+    ["cohort", data.selected.cohortCode],
+    ["classGroup", data.selected.classGroupName],
+    ["week", data.selected.week === "ALL" ? null : String(data.selected.week)],
+  ] as const) {
+    if (value) {
+      params.set(key, value);
+    }
+  }
+
+  return (
+    <main className="page-shell print-sheet">
+      <section className="print-sheet-head">
+        <div>
+          <h1>{sheet.title}</h1>
+          <p>{sheet.subtitle}</p>
+        </div>
+        <div className="admin-form-actions no-print">
+          <PrintButton label={t(language, "timetablePrint")} />
+          <a href={`/api/schedule/pdf?${params.toString()}`} className="button-secondary">
+            {t(language, "timetableDownloadPdf")}
+          </a>
+        </div>
+      </section>
+
+      {sheet.rows.length === 0 ? (
+        <section className="empty-state">
+          <p>{t(language, "timetableEmpty")}</p>
+        </section>
+      ) : (
+        <table className="print-grid">
+          <thead>
+            <tr>
+              <th className="matrix-time-col">{t(language, "timetableTime")}</th>
+              {sheet.days.map((day) => (
+                <th key={day.day}>
+                  {day.label}
+                  {day.date ? <small>{day.date}</small> : null}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sheet.rows.map((row) => (
+              <tr key={row.slot}>
+                <th className="matrix-time-col">{row.slot}</th>
+                {sheet.days.map((day) => (
+                  <td key={day.day}>
+                    {(row.cells[day.day] ?? []).map((cell) => (
+                      <div key={cell.id} className="print-cell">
+                        <strong>
+                          {cell.courseCode} · {cell.time}
+                        </strong>
+                        {cell.courseName ? <span>{cell.courseName}</span> : null}
+                        <span>{cell.room}</span>
+                        {cell.lecturers ? <span>{cell.lecturers}</span> : null}
+                        {cell.note ? <span>{cell.note}</span> : null}
+                      </div>
+                    ))}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,150 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+import type { SearchKind } from "@prisma/client";
+
+import { getServerSession } from "@/lib/auth/session";
+import {
+  ensureSearchIndex,
+  SEARCH_KINDS,
+  searchIndex,
+  type SearchIndexState,
+  type SearchResults,
+} from "@/lib/search-index";
+
+type SearchPageProps = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+function pickSingle(value: string | string[] | undefined): string {
+  if (Array.isArray(value)) {
+    return value[0] ?? "";
+  }
+
+  return value ?? "";
+}
+
+const KIND_LABELS: Record<SearchKind, string> = {
+  COURSE: "Học phần",
+  LECTURER: "Giảng viên",
+  REVIEW: "Đánh giá",
+  GUIDE: "Guide học phần",
+  RESOURCE: "Nội dung học liệu",
+};
+
+const GROUP_LIMIT = 8;
+const KIND_LIMIT = 50;
+
+function searchHref(q: string, kind?: SearchKind): string {
+  const params = new URLSearchParams({ q });
+  if (kind) {
+    params.set("kind", kind);
+  }
+
+  return `/search?${params.toString()}`;
+}
+
+export default async function SearchPage({ searchParams }: SearchPageProps) {
+  const session = await getServerSession();
+  if (!session) {
+    redirect("/login");
+  }
+
+  const query = await searchParams;
+  const q = pickSingle(query.q).trim();
+  const kindParam = pickSingle(query.kind).toUpperCase();
+  const kind = SEARCH_KINDS.find((item) => item === kindParam);
+
+  let results: SearchResults | null = null;
+  let indexState: SearchIndexState | null = null;
+  let error = "";
+  if (q) {
+    try {
+      indexState = await ensureSearchIndex();
+      results = await searchIndex(q, { kind, limit: kind ? KIND_LIMIT : GROUP_LIMIT });
+    } catch (searchError) {
+      console.error("Search failed:", searchError);
+      error = "Không thể tìm kiếm lúc này. Chỉ mục tìm kiếm có thể đang được xây dựng, thử lại sau ít phút.";
+    }
+  }
+
+  return (
+    <main className="page-shell">
+      <section className="hero-block">
+        <p className="eyebrow">Knowledge · Search</p>
+        <h1>Tìm kiếm toàn văn</h1>
+        <p>
+          Tìm trong học phần, giảng viên, đánh giá, guide của từng môn và nội dung file học liệu (PDF, DOCX, PPTX,
+          Markdown). Có thể gõ không dấu: &quot;giai tich&quot; tìm được &quot;Giải tích&quot;.
+        </p>
+      </section>
+
+      <section className="controls-card">
+        <form className="search-form" method="GET">
+          <input name="q" defaultValue={q} placeholder="Ví dụ: cau truc du lieu, recursion, CS 2255..." autoFocus />
+          {kind ? <input type="hidden" name="kind" value={kind} /> : null}
+          <button type="submit" className="button-primary">
+            Tìm kiếm
+          </button>
+        </form>
+        {q ? (
+          <div className="chip-row">
+            <Link href={searchHref(q)} className={`chip link-chip${kind ? "" : " diff-changed"}`}>
+              Tất cả
+            </Link>
+            {SEARCH_KINDS.map((item) => (
+              <Link key={item} href={searchHref(q, item)} className={`chip link-chip${kind === item ? " diff-changed" : ""}`}>
+                {KIND_LABELS[item]}
+              </Link>
+            ))}
+          </div>
+        ) : (
+          <p className="hint-text">Mỗi từ khóa từ 3 ký tự trở lên cũng khớp với các từ bắt đầu bằng nó.</p>
+        )}
+      </section>
+
+      {error ? <p className="status-error">{error}</p> : null}
+      {indexState?.building ? (
+        <p className="hint-text">
+          {indexState.lastSyncedAt
+            ? "Chỉ mục tìm kiếm đang được cập nhật ở nền; kết quả mới có thể chưa xuất hiện."
+            : "Chỉ mục tìm kiếm đang được xây dựng lần đầu (đọc nội dung file học liệu); kết quả có thể chưa đầy đủ, thử lại sau ít phút."}
+        </p>
+      ) : null}
+
+      {results && results.groups.length === 0 ? (
+        <section className="details-card">
+          <p className="empty-state">Không tìm thấy kết quả chứa tất cả các từ khóa &quot;{q}&quot;.</p>
+        </section>
+      ) : null}
+
+      {results?.groups.map((group) => (
+        <section key={group.kind} className="details-card mt-card">
+          <h2>
+            {KIND_LABELS[group.kind]} ({group.total})
+          </h2>
+          <ul className="simple-list">
+            {group.hits.map((hit) => (
+              <li key={hit.id} className="search-hit">
+                <Link href={hit.href}>
+                  <strong>{hit.title}</strong>
+                </Link>
+                {hit.subtitle ? <span className="muted-small">{hit.subtitle}</span> : null}
+                {hit.snippet.length > 0 ? (
+                  <p className="search-snippet">
+                    {hit.snippet.map((part, index) => (part.match ? <mark key={index}>{part.text}</mark> : part.text))}
+                  </p>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+          {group.total > group.hits.length && !kind ? (
+            <p className="hint-text">
+              <Link href={searchHref(q, group.kind)}>Xem thêm {group.total - group.hits.length} kết quả</Link>
+            </p>
+          ) : null}
+        </section>
+      ))}
+    </main>
+  );
+}
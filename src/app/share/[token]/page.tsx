@@ -0,0 +1,153 @@
+import type { Metadata } from "next";
+
+import { PrintButton } from "@/components/schedule/print-button";
+import { t } from "@/lib/i18n";
+import { getPortalData } from "@/lib/portal";
+import { resolveShareToken } from "@/lib/share-links";
+import { buildTimetableSheet } from "@/lib/timetable-sheet";
+
+export const metadata: Metadata = {
+  title: "Thời khóa biểu lớp · HUST x Troy IT",
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+type SharedTimetablePageProps = {
+  params: Promise<{ token: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+function pickSingle(value: string | string[] | undefined): string | undefined {
+  if (Array.isArray(value)) {
+    return value[0];
+  }
+
+  return value;
+}
+
+function parseWeekParam(value: string | undefined): number | "ALL" {
+  const week = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(week) && week > 0 ? week : "ALL";
+}
+
+// Public on purpose: the token is the only credential, so this page must never render data beyond the shared class timetable.
+export default async function SharedTimetablePage({ params, searchParams }: SharedTimetablePageProps) {
+  const { token } = await params;
+  const scope = await resolveShareToken(token);
+  const language = "VI";
+
+  if (!scope) {
+    return (
+      <main className="page-shell">
+        <section className="empty-state">
+          <h2>Link chia sẻ không hợp lệ</h2>
+          <p>Link đã hết hạn, đã bị thu hồi hoặc không tồn tại. Hãy xin link mới từ lớp trưởng hoặc phòng đào tạo.</p>
+        </section>
+      </main>
+    );
+  }
+
+  const query = await searchParams;
+  const data = await getPortalData({
+    semesterKey: scope.semesterKey,
+    cohortCode: scope.cohortCode,
+    classGroupName: scope.classGroupName,
+    day: "ALL",
+    week: parseWeekParam(pickSingle(query.week)),
+  });
+  const matches =
+    data.selected.semesterKey === scope.semesterKey &&
+    data.selected.cohortCode === scope.cohortCode &&
+    data.selected.classGroupName === scope.classGroupName;
+  const sheet = matches ? buildTimetableSheet(data, language) : null;
+
+  if (!sheet) {
+    return (
+      <main className="page-shell">
+        <section className="empty-state">
+          <h2>{t(language, "timetableEmpty")}</h2>
+          <p>
+            Lớp {scope.cohortCode} {scope.classGroupName} không còn trong dữ liệu học kỳ {scope.semesterKey}.
+          </p>
+        </section>
+      </main>
+    );
+  }
+
+  return (
+    <main className="page-shell print-sheet">
+      <section className="print-sheet-head">
+        <div>
+          <h1>{sheet.title}</h1>
+          <p>{sheet.subtitle}</p>
+          <p className="muted-small no-print">
+            Bản xem chỉ-đọc được chia sẻ qua link
+            {scope.expiresAt ? `, hiệu lực đến ${new Date(scope.expiresAt).toLocaleString("vi-VN")}` : ""}.
+          </p>
+        </div>
+        <div className="admin-form-actions no-print">
+          {data.weeks.length > 0 ? (
+            <form method="get" className="admin-form-actions">
+              <select name="week" defaultValue={data.selected.week === "ALL" ? "" : String(data.selected.week)}>
+                <option value="">Cả học kỳ</option>
+                {data.weeks.map((week) => (
+                  <option key={week.week} value={week.week}>
+                    Tuần {week.week} ({week.startDate} → {week.endDate})
+                  </option>
+                ))}
+              </select>
+              <button type="submit" className="button-secondary">
+                Xem
+              </button>
+            </form>
+          ) : null}
+          <PrintButton label={t(language, "timetablePrint")} />
+        </div>
+      </section>
+
+      {sheet.rows.length === 0 ? (
+        <section className="empty-state">
+          <p>{t(language, "timetableEmpty")}</p>
+        </section>
+      ) : (
+        <table className="print-grid">
+          <thead>
+            <tr>
+              <th className="matrix-time-col">{t(language, "timetableTime")}</th>
+              {sheet.days.map((day) => (
+                <th key={day.day}>
+                  {day.label}
+                  {day.date ? <small>{day.date}</small> : null}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sheet.rows.map((row) => (
+              <tr key={row.slot}>
+                <th className="matrix-time-col">{row.slot}</th>
+                {sheet.days.map((day) => (
+                  <td key={day.day}>
+                    {(row.cells[day.day] ?? []).map((cell) => (
+                      <div key={cell.id} className="print-cell">
+                        <strong>
+                          {cell.courseCode} · {cell.time}
+                        </strong>
+                        {cell.courseName ? <span>{cell.courseName}</span> : null}
+                        <span>{cell.room}</span>
+                        {cell.lecturers ? <span>{cell.lecturers}</span> : null}
+                        {cell.note ? <span>{cell.note}</span> : null}
+                      </div>
+                    ))}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </main>
+  );
+}
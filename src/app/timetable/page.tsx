@@ -0,0 +1,164 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+import { getServerSession } from "@/lib/auth/session";
+import { getPersonalPortalData, ORDERED_DAYS } from "@/lib/portal";
+import { prisma } from "@/lib/prisma";
+import { formatWeekNote } from "@/lib/schedule-weeks";
+
+import { TimetableBuilder, type TimetableSession } from "./timetable-builder";
+
+type TimetablePageProps = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+function pickSingle(value: string | string[] | undefined): string | undefined {
+  if (Array.isArray(value)) {
+    return value[0];
+  }
+
+  return value;
+}
+
+export default async function TimetablePage({ searchParams }: TimetablePageProps) {
+  const session = await getServerSession();
+  if (!session) {
+    redirect("/login");
+  }
+
+  const query = await searchParams;
+  const personal = await getPersonalPortalData(session.username, {
+    semesterKey: pickSingle(query.semester),
+    week: "ALL",
+  });
+  const semesterKey = personal.selected.semesterKey;
+
+  const [entries, picks] = semesterKey
+    ? await Promise.all([
+        prisma.scheduleEntry.findMany({
+          where: {
+            semester: {
+              key: semesterKey,
+            },
+          },
+          include: {
+            course: {
+              select: {
+                code: true,
+                nameEn: true,
+                nameVi: true,
+              },
+            },
+            classGroup: {
+              select: {
+                name: true,
+                cohort: {
+                  select: {
+                    code: true,
+                  },
+                },
+              },
+            },
+          },
+        }),
+        prisma.personalTimetableEntry.findMany({
+          where: {
+            username: session.username,
+            scheduleEntry: {
+              semester: {
+                key: semesterKey,
+              },
+            },
+          },
+          select: {
+            scheduleEntryId: true,
+          },
+        }),
+      ])
+    : [[], []];
+
+  const sessions: TimetableSession[] = entries
+    .map((entry) => ({
+      id: entry.id,
+      courseCode: entry.course.code,
+      courseName: entry.course.nameVi ?? entry.course.nameEn,
+      cohortCode: entry.classGroup.cohort.code,
+      classGroupName: entry.classGroup.name,
+      dayOfWeek: entry.dayOfWeek,
+      time: entry.startTime ? `${entry.startTime}${entry.endTime ? `–${entry.endTime}` : ""}` : entry.rawTime ?? "TBA",
+      room: entry.room,
+      weekNote: formatWeekNote(entry),
+    }))
+    .sort(
+      (a, b) =>
+        a.courseCode.localeCompare(b.courseCode) ||
+        a.cohortCode.localeCompare(b.cohortCode) ||
+        a.classGroupName.localeCompare(b.classGroupName) ||
+        ORDERED_DAYS.indexOf(a.dayOfWeek) - ORDERED_DAYS.indexOf(b.dayOfWeek) ||
+        a.time.localeCompare(b.time),
+    );
+
+  const dashboardQuery = new URLSearchParams({ source: "personal", ...(semesterKey ? { semester: semesterKey } : {}) });
+
+  return (
+    <main className="page-shell">
+      <section className="hero-block">
+        <p className="eyebrow">Lịch cá nhân</p>
+        <h1>Tự xếp thời khóa biểu</h1>
+        <p>
+          Chọn từng ca học từ bất kỳ lớp nào trong học kỳ (học lại, học cải thiện, môn tự chọn). Các ca đã chọn được
+          gộp lại trên dashboard ở dạng Matrix/Agenda và được kiểm tra trùng giờ.
+        </p>
+        <div className="chip-row">
+          <span className="chip">{personal.entries.length} ca đã chọn</span>
+          <span className="chip">{new Set(personal.entries.map((entry) => entry.course.code)).size} môn</span>
+          <Link href={`/?${dashboardQuery.toString()}`} className="chip link-chip">
+            Xem trên dashboard
+          </Link>
+        </div>
+      </section>
+
+      <section className="mt-card">
+        <form method="GET" className="admin-form-grid admin-scope-form">
+          <label>
+            Semester
+            <select name="semester" defaultValue={semesterKey ?? ""}>
+              {personal.meta.semesters.map((semester) => (
+                <option key={semester.key} value={semester.key}>
+                  {semester.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="admin-form-actions">
+            <button type="submit" className="button-secondary">
+              Chọn học kỳ
+            </button>
+          </div>
+        </form>
+      </section>
+
+      {personal.conflicts.length > 0 ? (
+        <section className="warning-card">
+          <h2>Cảnh báo trùng lịch</h2>
+          <ul>
+            {personal.conflicts.map((conflict) => (
+              <li key={`${conflict.dayOfWeek}-${conflict.startTime}-${conflict.courses.join("-")}`}>
+                {conflict.dayOfWeek} {conflict.startTime}: {conflict.courses.join(", ")}
+              </li>
+            ))}
+          </ul>
+        </section>
+      ) : null}
+
+      <section className="details-card">
+        <h2>Các ca trong học kỳ</h2>
+        <TimetableBuilder
+          key={semesterKey ?? "none"}
+          sessions={sessions}
+          pickedIds={picks.map((pick) => pick.scheduleEntryId)}
+        />
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import type { DayOfWeek } from "@prisma/client";
+import { useRouter } from "next/navigation";
+import { useMemo, useState } from "react";
+
+export type TimetableSession = {
+  id: string;
+  courseCode: string;
+  courseName: string | null;
+  cohortCode: string;
+  classGroupName: string;
+  dayOfWeek: DayOfWeek;
+  time: string;
+  room: string | null;
+  weekNote: string | null;
+};
+
+type TimetableBuilderProps = {
+  sessions: TimetableSession[];
+  pickedIds: string[];
+};
+
+export function TimetableBuilder({ sessions, pickedIds }: TimetableBuilderProps) {
+  const router = useRouter();
+  const [picked, setPicked] = useState(() => new Set(pickedIds));
+  const [search, setSearch] = useState("");
+  const [onlyPicked, setOnlyPicked] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const courses = useMemo(() => {
+    const keyword = search.trim().toLowerCase();
+    const grouped = new Map<string, TimetableSession[]>();
+    for (const session of sessions) {
+      if (onlyPicked && !picked.has(session.id)) {
+        continue;
+      }
+      if (
+        keyword &&
+        ![session.courseCode, session.courseName, session.classGroupName, session.cohortCode, session.room]
+          .join(" ")
+          .toLowerCase()
+          .includes(keyword)
+      ) {
+        continue;
+      }
+
+      const row = grouped.get(session.courseCode) ?? [];
+      row.push(session);
+      grouped.set(session.courseCode, row);
+    }
+
+    return [...grouped.entries()];
+  }, [sessions, search, onlyPicked, picked]);
+
+  async function toggle(session: TimetableSession) {
+    const selected = picked.has(session.id);
+    setBusyId(session.id);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/timetable", {
+        method: selected ? "DELETE" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ entryId: session.id }),
+      });
+      const payload = (await response.json()) as { ok?: boolean; error?: string };
+      if (!response.ok || !payload.ok) {
+        setError(payload.error ?? "Không thể cập nhật lịch cá nhân.");
+        return;
+      }
+
+      setPicked((current) => {
+        const next = new Set(current);
+        if (selected) {
+          next.delete(session.id);
+        } else {
+          next.add(session.id);
+        }
+        return next;
+      });
+      router.refresh();
+    } catch {
+      setError("Không kết nối được dịch vụ lịch cá nhân.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <>
+      <div className="admin-form-grid">
+        <label>
+          Tìm môn / lớp / phòng
+          <input value={search} onChange={(event) => setSearch(event.target.value)} placeholder="VD: CS 2255, IT 02" />
+        </label>
+        <label>
+          Hiển thị
+          <select value={onlyPicked ? "picked" : "all"} onChange={(event) => setOnlyPicked(event.target.value === "picked")}>
+            <option value="all">Tất cả ca trong học kỳ</option>
+            <option value="picked">Chỉ ca đã chọn ({picked.size})</option>
+          </select>
+        </label>
+      </div>
+
+      {error ? <p className="status-error">{error}</p> : null}
+      {courses.length === 0 ? <p className="empty-state">Không có ca học phù hợp.</p> : null}
+
+      {courses.map(([courseCode, courseSessions]) => (
+        <div key={courseCode} className="mt-card">
+          <h3>
+            {courseCode}
+            {courseSessions[0].courseName ? ` · ${courseSessions[0].courseName}` : ""}
+          </h3>
+          <div className="admin-table-wrap">
+            <table className="admin-table">
+              <thead>
+                <tr>
+                  <th>Chọn</th>
+                  <th>Lớp</th>
+                  <th>Thứ</th>
+                  <th>Giờ</th>
+                  <th>Phòng</th>
+                  <th>Tuần</th>
+                </tr>
+              </thead>
+              <tbody>
+                {courseSessions.map((session) => (
+                  <tr key={session.id}>
+                    <td>
+                      <input
+                        type="checkbox"
+                        checked={picked.has(session.id)}
+                        disabled={busyId !== null}
+                        onChange={() => void toggle(session)}
+                        aria-label={`${session.courseCode} ${session.classGroupName} ${session.dayOfWeek}`}
+                      />
+                    </td>
+                    <td>
+                      {session.cohortCode} · {session.classGroupName}
+                    </td>
+                    <td>{session.dayOfWeek}</td>
+                    <td>{session.time}</td>
+                    <td>{session.room ?? "TBA"}</td>
+                    <td>{session.weekNote ?? "Cả kỳ"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ))}
+    </>
+  );
+}
@@ -10,12 +10,17 @@ type NavItem = {
   href: string;
   labelKey:
     | "navDashboard"
+    | "navTimetable"
     | "navCourses"
     | "navFaculty"
+    | "navRooms"
     | "navProfile"
     | "navGpa"
     | "navResources"
+    | "navSearch"
     | "navImport"
+    | "navCatalog"
+    | "navSettings"
     | "navAdmin";
   match: readonly string[];
   roles: readonly UserRole[];
@@ -28,6 +33,12 @@ const NAV_ITEMS: NavItem[] = [
     match: ["/"],
     roles: ["ADMIN", "STUDENT", "LECTURER"],
   },
+  {
+    href: "/timetable",
+    labelKey: "navTimetable",
+    match: ["/timetable"],
+    roles: ["STUDENT"],
+  },
   {
     href: "/courses",
     labelKey: "navCourses",
@@ -40,6 +51,12 @@ const NAV_ITEMS: NavItem[] = [
     match: ["/lecturers"],
     roles: ["ADMIN", "STUDENT", "LECTURER"],
   },
+  {
+    href: "/rooms",
+    labelKey: "navRooms",
+    match: ["/rooms"],
+    roles: ["ADMIN", "LECTURER"],
+  },
   {
     href: "/profile",
     labelKey: "navProfile",
@@ -58,6 +75,12 @@ const NAV_ITEMS: NavItem[] = [
     match: ["/resources"],
     roles: ["ADMIN", "STUDENT", "LECTURER"],
   },
+  {
+    href: "/search",
+    labelKey: "navSearch",
+    match: ["/search"],
+    roles: ["ADMIN", "STUDENT", "LECTURER"],
+  },
   {
     href: "/admin/academic",
     labelKey: "navAdmin",
@@ -70,6 +93,18 @@ const NAV_ITEMS: NavItem[] = [
     match: ["/admin/import"],
     roles: ["ADMIN"],
   },
+  {
+    href: "/admin/catalog",
+    labelKey: "navCatalog",
+    match: ["/admin/catalog"],
+    roles: ["ADMIN"],
+  },
+  {
+    href: "/admin/settings",
+    labelKey: "navSettings",
+    match: ["/admin/settings"],
+    roles: ["ADMIN"],
+  },
 ];
 
 function isActive(pathname: string, prefixes: readonly string[]) {
@@ -0,0 +1,109 @@
+import Link from "next/link";
+
+import { EXAM_KIND_LABEL, type ExamConflict, type PortalExam } from "@/lib/exams";
+
+type ExamTableProps = {
+  exams: PortalExam[];
+  conflicts?: ExamConflict[];
+  today: string;
+  showClass?: boolean;
+  courseHref?: (courseCode: string) => string;
+};
+
+function formatExamDate(exam: PortalExam): string {
+  return `${exam.dayOfWeek} ${exam.date.slice(8, 10)}/${exam.date.slice(5, 7)}/${exam.date.slice(0, 4)}`;
+}
+
+function formatExamTime(exam: { startTime: string | null; endTime: string | null }): string {
+  if (!exam.startTime) {
+    return "TBA";
+  }
+
+  return exam.endTime ? `${exam.startTime}–${exam.endTime}` : exam.startTime;
+}
+
+export function ExamTable({ exams, conflicts = [], today, showClass = false, courseHref }: ExamTableProps) {
+  const conflictsByExam = new Map<string, ExamConflict[]>();
+  const addConflict = (examId: string, conflict: ExamConflict) => {
+    conflictsByExam.set(examId, [...(conflictsByExam.get(examId) ?? []), conflict]);
+  };
+  for (const conflict of conflicts) {
+    addConflict(conflict.examId, conflict);
+
+    // Exam-vs-exam clashes are reported once; flag the other exam's row too.
+    const source = exams.find((exam) => exam.id === conflict.examId);
+    const other = exams.find(
+      (exam) => conflict.with.type === "EXAM" && exam.date === conflict.date && exam.course.code === conflict.with.courseCode,
+    );
+    if (source && other) {
+      addConflict(other.id, {
+        ...conflict,
+        examId: other.id,
+        courseCode: other.course.code,
+        with: { ...conflict.with, courseCode: source.course.code, startTime: source.startTime, endTime: source.endTime },
+      });
+    }
+  }
+
+  return (
+    <div className="admin-table-wrap">
+      <table className="admin-table">
+        <thead>
+          <tr>
+            <th>Ngày thi</th>
+            <th>Giờ</th>
+            <th>Môn</th>
+            <th>Kỳ thi</th>
+            {showClass ? <th>Lớp</th> : null}
+            <th>Phòng</th>
+            <th>SBD / chỗ ngồi</th>
+            <th>Ghi chú</th>
+          </tr>
+        </thead>
+        <tbody>
+          {exams.map((exam) => {
+            const clashes = conflictsByExam.get(exam.id) ?? [];
+            const className = clashes.length > 0 ? "exam-clash" : exam.date < today ? "exam-past" : undefined;
+
+            return (
+              <tr key={exam.id} className={className}>
+                <td>{formatExamDate(exam)}</td>
+                <td>{formatExamTime(exam)}</td>
+                <td>
+                  {courseHref ? (
+                    <Link href={courseHref(exam.course.code)}>{exam.course.code}</Link>
+                  ) : (
+                    <strong>{exam.course.code}</strong>
+                  )}
+                  {exam.course.nameVi ?? exam.course.nameEn ? (
+                    <>
+                      <br />
+                      <span className="muted-small">{exam.course.nameVi ?? exam.course.nameEn}</span>
+                    </>
+                  ) : null}
+                </td>
+                <td>{EXAM_KIND_LABEL[exam.kind]}</td>
+                {showClass ? (
+                  <td>
+                    {exam.cohortCode} {exam.classGroupName}
+                  </td>
+                ) : null}
+                <td>{exam.room ?? "TBA"}</td>
+                <td>{exam.seats ?? "—"}</td>
+                <td>
+                  {exam.note}
+                  {clashes.map((clash) => (
+                    <span key={`${clash.with.type}-${clash.with.courseCode}`} className="change-badge">
+                      Trùng {clash.with.type === "EXAM" ? "lịch thi" : "giờ học"} {clash.with.courseCode}{" "}
+                      {formatExamTime(clash.with)}
+                    </span>
+                  ))}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { t, type UiKey, type UiLanguage } from "@/lib/i18n";
+
+type NextClassCountdownProps = {
+  startsAt: string;
+  endsAt: string;
+  renderedAt: string;
+  language: UiLanguage;
+};
+
+function formatDuration(ms: number, language: UiLanguage): string {
+  const totalMinutes = Math.max(1, Math.ceil(ms / 60_000));
+  const days = Math.floor(totalMinutes / (24 * 60));
+  const hours = Math.floor((totalMinutes % (24 * 60)) / 60);
+  const minutes = totalMinutes % 60;
+  const unit = (value: number, key: UiKey) => `${value}${language === "JA" ? "" : " "}${t(language, key)}`;
+
+  return [
+    days > 0 ? unit(days, "durationDays") : null,
+    hours > 0 ? unit(hours, "durationHours") : null,
+    days === 0 ? unit(minutes, "durationMinutes") : null,
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+export function NextClassCountdown({ startsAt, endsAt, renderedAt, language }: NextClassCountdownProps) {
+  const [now, setNow] = useState(() => Date.parse(renderedAt));
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 30_000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const start = Date.parse(startsAt);
+  const end = Date.parse(endsAt);
+
+  if (now >= end) {
+    return <span className="chip">{t(language, "countdownEnded")}</span>;
+  }
+
+  if (now >= start) {
+    return (
+      <span className="chip countdown-chip is-live">
+        {t(language, "countdownLive")} {formatDuration(end - now, language)}
+      </span>
+    );
+  }
+
+  return (
+    <span className="chip countdown-chip">
+      {t(language, "countdownStartsIn")} {formatDuration(start - now, language)}
+    </span>
+  );
+}
@@ -0,0 +1,13 @@
+"use client";
+
+type PrintButtonProps = {
+  label: string;
+};
+
+export function PrintButton({ label }: PrintButtonProps) {
+  return (
+    <button type="button" className="button-primary" onClick={() => window.print()}>
+      {label}
+    </button>
+  );
+}
@@ -0,0 +1,203 @@
+"use client";
+
+import { useState } from "react";
+
+import type { ShareLinkInfo, ShareScopeOption } from "@/lib/share-links";
+
+type ShareLinksPanelProps = {
+  origin: string;
+  scopes: ShareScopeOption[];
+  initial: ShareLinkInfo[];
+  showOwner?: boolean;
+};
+
+type ShareLinkResponse = {
+  ok?: boolean;
+  error?: string;
+  link?: ShareLinkInfo;
+};
+
+function scopeKey(scope: { semesterKey: string; cohortCode: string; classGroupName: string }): string {
+  return `${scope.semesterKey}|${scope.cohortCode}|${scope.classGroupName}`;
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString("vi-VN") : "—";
+}
+
+export function ShareLinksPanel({ origin, scopes, initial, showOwner = false }: ShareLinksPanelProps) {
+  const [links, setLinks] = useState<ShareLinkInfo[]>(initial);
+  const [selectedScope, setSelectedScope] = useState(scopes[0] ? scopeKey(scopes[0]) : "");
+  const [expiresInDays, setExpiresInDays] = useState("30");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function onCreate(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const scope = scopes.find((item) => scopeKey(item) === selectedScope);
+    if (!scope) {
+      setError("Chọn học kỳ và lớp cần chia sẻ.");
+      return;
+    }
+
+    setBusy(true);
+    setMessage(null);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/share-links", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          semesterKey: scope.semesterKey,
+          cohortCode: scope.cohortCode,
+          classGroupName: scope.classGroupName,
+          expiresInDays: expiresInDays ? Number(expiresInDays) : null,
+        }),
+      });
+
+      const payload = (await response.json()) as ShareLinkResponse;
+      if (!response.ok || !payload.ok || !payload.link) {
+        setError(payload.error ?? "Không thể tạo link chia sẻ.");
+        return;
+      }
+
+      const created = payload.link;
+      setLinks((current) => [created, ...current]);
+      setMessage("Đã tạo link chia sẻ.");
+    } catch {
+      setError("Không kết nối được dịch vụ chia sẻ.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function onRevoke(id: string) {
+    if (!window.confirm("Thu hồi link này? Người đang giữ link sẽ không xem được nữa.")) {
+      return;
+    }
+
+    setBusy(true);
+    setMessage(null);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/share-links?id=${encodeURIComponent(id)}`, { method: "DELETE" });
+      const payload = (await response.json()) as ShareLinkResponse;
+      if (!response.ok || !payload.ok) {
+        setError(payload.error ?? "Không thể thu hồi link.");
+        return;
+      }
+
+      const revokedAt = new Date().toISOString();
+      setLinks((current) =>
+        current.map((link) => (link.id === id ? { ...link, revokedAt, active: false } : link)),
+      );
+      setMessage("Đã thu hồi link chia sẻ.");
+    } catch {
+      setError("Không kết nối được dịch vụ chia sẻ.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div>
+      {scopes.length > 0 ? (
+        <form className="admin-form-grid" onSubmit={onCreate}>
+          <label>
+            Học kỳ / lớp
+            <select value={selectedScope} onChange={(event) => setSelectedScope(event.target.value)}>
+              {scopes.map((scope) => (
+                <option key={scopeKey(scope)} value={scopeKey(scope)}>
+                  {scope.semesterLabel} · {scope.cohortCode} {scope.classGroupName}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Hết hạn sau (ngày, để trống = không hết hạn)
+            <input
+              type="number"
+              min={1}
+              max={365}
+              value={expiresInDays}
+              onChange={(event) => setExpiresInDays(event.target.value)}
+            />
+          </label>
+          <div className="admin-form-actions">
+            <button type="submit" className="button-primary" disabled={busy}>
+              Tạo link chia sẻ
+            </button>
+          </div>
+        </form>
+      ) : (
+        <p className="muted-small">Chưa có lớp nào để chia sẻ.</p>
+      )}
+
+      {message ? <p className="status-ok">{message}</p> : null}
+      {error ? <p className="status-error">{error}</p> : null}
+
+      {links.length === 0 ? (
+        <p className="muted-small mt-card">Chưa có link chia sẻ nào.</p>
+      ) : (
+        <div className="admin-table-wrap mt-card">
+          <table className="admin-table">
+            <thead>
+              <tr>
+                <th>Lớp</th>
+                <th>Link</th>
+                {showOwner ? <th>Người tạo</th> : null}
+                <th>Hết hạn</th>
+                <th>Lượt xem</th>
+                <th>Trạng thái</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {links.map((link) => (
+                <tr key={link.id}>
+                  <td>
+                    {link.cohortCode} {link.classGroupName}
+                    <br />
+                    <span className="muted-small">{link.semesterKey}</span>
+                  </td>
+                  <td>
+                    <input
+                      value={`${origin}${link.path}`}
+                      readOnly
+                      aria-label="Link chia sẻ"
+                      onFocus={(event) => event.currentTarget.select()}
+                    />
+                  </td>
+                  {showOwner ? <td>{link.createdBy}</td> : null}
+                  <td>{link.expiresAt ? formatDate(link.expiresAt) : "Không hết hạn"}</td>
+                  <td>
+                    {link.viewCount}
+                    {link.lastUsedAt ? <span className="muted-small"> · {formatDate(link.lastUsedAt)}</span> : null}
+                  </td>
+                  <td>{link.revokedAt ? "Đã thu hồi" : link.active ? "Đang hoạt động" : "Đã hết hạn"}</td>
+                  <td>
+                    {link.active ? (
+                      <button
+                        type="button"
+                        className="button-secondary"
+                        disabled={busy}
+                        onClick={() => void onRevoke(link.id)}
+                      >
+                        Thu hồi
+                      </button>
+                    ) : null}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+export async function register() {
+  // Build the search index at startup so the first /search request does not wait for file extraction.
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startSearchIndexSync } = await import("@/lib/search-index");
+    startSearchIndexSync();
+  }
+}
@@ -222,7 +222,7 @@ async function loadGlobalCourseLecturerOverrides() {
 }
 
 export async function getAcademicBundle(): Promise<AcademicBundle> {
-  const base = loadKnowledge();
+  const base = await loadKnowledge();
 
   const [overrides, studentReviews, courseLecturerOverrides] = await Promise.all([
     prisma.lecturerProfile.findMany(),
@@ -3,6 +3,7 @@ import { createHash, randomInt, timingSafeEqual } from "node:crypto";
 import type { AccountUser } from "@prisma/client";
 
 import { normalizeUiLanguage, type UiLanguage } from "@/lib/i18n";
+import { loadKnowledge } from "@/lib/knowledge";
 import { prisma } from "@/lib/prisma";
 
 import { sendRegistrationVerificationCode } from "./email";
@@ -23,6 +24,8 @@ export type UserProfile = {
   cohortCode: string | null;
   classGroupName: string | null;
   studentCode: string | null;
+  lecturerId: string | null;
+  defaultScheduleView: string | null;
   preferredLanguage: UiLanguage;
 };
 
@@ -52,6 +55,8 @@ type ProfilePatch = {
   cohortCode?: OptionalPatch;
   classGroupName?: OptionalPatch;
   studentCode?: OptionalPatch;
+  lecturerId?: OptionalPatch;
+  defaultScheduleView?: OptionalPatch;
   preferredLanguage?: UiLanguage | null | undefined;
 };
 
@@ -66,6 +71,8 @@ type UserSettingDelegate = {
     cohortCode: string | null;
     classGroupName: string | null;
     studentCode: string | null;
+    lecturerId?: string | null;
+    defaultScheduleView?: string | null;
     preferredLanguage: UiLanguage;
   } | null>;
 };
@@ -778,6 +785,8 @@ export async function getUserProfile(usernameRaw: string, roleFallback?: string)
     cohortCode: profileValue(setting?.cohortCode ?? account?.cohortCode ?? null),
     classGroupName: profileValue(setting?.classGroupName ?? account?.classGroupName ?? null),
     studentCode: profileValue(setting?.studentCode ?? account?.studentCode ?? null),
+    lecturerId: profileValue(setting?.lecturerId ?? null),
+    defaultScheduleView: profileValue(setting?.defaultScheduleView ?? null),
     preferredLanguage: normalizeUiLanguage(setting?.preferredLanguage, "VI"),
   };
 }
@@ -805,6 +814,8 @@ export async function updateUserProfile(
   const cohortCode = applyPatchValue(patch.cohortCode, 40);
   const classGroupName = applyPatchValue(patch.classGroupName, 80);
   const studentCode = applyPatchValue(patch.studentCode, 80);
+  const lecturerId = applyPatchValue(patch.lecturerId, 80);
+  const defaultScheduleView = applyPatchValue(patch.defaultScheduleView, 20);
   const preferredLanguage = patch.preferredLanguage ? normalizeUiLanguage(patch.preferredLanguage, "VI") : undefined;
 
   const role = account?.role ?? roleFallback ?? "STUDENT";
@@ -813,6 +824,26 @@ export async function updateUserProfile(
     return null;
   }
 
+  // A lecturer link unlocks that lecturer's timetable and teaching assignments, so it must name a known
+  // lecturer that no other account has claimed.
+  if (lecturerId && role === "LECTURER") {
+    const { lecturers } = await loadKnowledge();
+    if (!lecturers.some((lecturer) => lecturer.id === lecturerId)) {
+      return null;
+    }
+
+    const claimed = await prisma.userSetting.findFirst({
+      where: {
+        lecturerId,
+        username: { not: username },
+      },
+      select: { id: true },
+    });
+    if (claimed) {
+      return null;
+    }
+  }
+
   const normalizedEmail =
     emailRaw === undefined ? undefined : emailRaw === null ? null : normalizeEmail(emailRaw);
 
@@ -873,6 +904,8 @@ export async function updateUserProfile(
       cohortCode?: string | null;
       classGroupName?: string | null;
       studentCode?: string | null;
+      lecturerId?: string | null;
+      defaultScheduleView?: string | null;
       preferredLanguage?: UiLanguage;
     } = {};
 
@@ -891,6 +924,12 @@ export async function updateUserProfile(
     if (studentCode !== undefined) {
       settingPatch.studentCode = studentCode;
     }
+    if (lecturerId !== undefined && role === "LECTURER") {
+      settingPatch.lecturerId = lecturerId;
+    }
+    if (defaultScheduleView !== undefined) {
+      settingPatch.defaultScheduleView = defaultScheduleView;
+    }
     if (preferredLanguage !== undefined) {
       settingPatch.preferredLanguage = preferredLanguage;
     }
@@ -904,6 +943,8 @@ export async function updateUserProfile(
         cohortCode: settingPatch.cohortCode ?? account?.cohortCode ?? null,
         classGroupName: settingPatch.classGroupName ?? account?.classGroupName ?? null,
         studentCode: settingPatch.studentCode ?? account?.studentCode ?? null,
+        lecturerId: settingPatch.lecturerId ?? null,
+        defaultScheduleView: settingPatch.defaultScheduleView ?? null,
         preferredLanguage: settingPatch.preferredLanguage ?? "VI",
       },
       update: settingPatch,
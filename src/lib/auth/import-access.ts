@@ -0,0 +1,18 @@
+import type { NextRequest } from "next/server";
+
+import { getRequestSession } from "@/lib/auth/request-session";
+
+export function hasImportToken(request: NextRequest, tokenFromBody?: string): boolean {
+  const expectedToken = process.env.ADMIN_IMPORT_TOKEN;
+  if (!expectedToken) {
+    return false;
+  }
+
+  const headerToken = request.headers.get("x-import-token");
+  return headerToken === expectedToken || tokenFromBody === expectedToken;
+}
+
+export async function hasImportAccess(request: NextRequest, tokenFromBody?: string): Promise<boolean> {
+  const session = await getRequestSession(request);
+  return session?.role === "ADMIN" || hasImportToken(request, tokenFromBody);
+}
@@ -0,0 +1,232 @@
+import { DayOfWeek, PrismaClient } from "@prisma/client";
+
+import { loadKnowledge } from "@/lib/knowledge";
+import {
+  extractInstructionCode,
+  normalizeClassGroupName,
+  normalizeSemesterKey,
+  ORDERED_DAYS,
+  resolveLecturersForEntry,
+} from "@/lib/portal";
+import { entriesShareWeek, listSemesterWeeks, type ScheduleTiming, type SemesterWeek } from "@/lib/schedule-weeks";
+
+export type BookingSlot = {
+  entryId: string;
+  cohortCode: string;
+  classGroupName: string;
+  courseCode: string;
+  room: string | null;
+};
+
+export type RoomConflict = {
+  room: string;
+  dayOfWeek: DayOfWeek;
+  startTime: string;
+  slots: BookingSlot[];
+};
+
+export type LecturerConflict = {
+  lecturerId: string;
+  lecturerName: string;
+  dayOfWeek: DayOfWeek;
+  startTime: string;
+  slots: BookingSlot[];
+};
+
+export type BookingConflictReport = {
+  semesterKey: string;
+  semesterLabel: string;
+  rooms: RoomConflict[];
+  lecturers: LecturerConflict[];
+};
+
+const UNBOOKABLE_ROOMS = /^(TBA|N\/A|ONLINE|-)$/i;
+
+export function normalizeRoom(raw: string | null): string {
+  const room = (raw ?? "").trim().toUpperCase().replace(/\s+/g, " ");
+  return UNBOOKABLE_ROOMS.test(room) ? "" : room;
+}
+
+function distinctCount(slots: BookingSlot[], keyOf: (slot: BookingSlot) => string): number {
+  return new Set(slots.map(keyOf)).size;
+}
+
+function clashingSlots(
+  slots: BookingSlot[],
+  keyOf: (slot: BookingSlot) => string,
+  timingById: Map<string, ScheduleTiming>,
+  weeks: SemesterWeek[],
+): BookingSlot[] {
+  return slots.filter((slot) =>
+    slots.some(
+      (other) =>
+        keyOf(other) !== keyOf(slot) &&
+        entriesShareWeek(
+          timingById.get(slot.entryId) as ScheduleTiming,
+          timingById.get(other.entryId) as ScheduleTiming,
+          weeks,
+        ),
+    ),
+  );
+}
+
+function compareSlotKeys(
+  a: { dayOfWeek: DayOfWeek; startTime: string },
+  b: { dayOfWeek: DayOfWeek; startTime: string },
+): number {
+  const dayDelta = ORDERED_DAYS.indexOf(a.dayOfWeek) - ORDERED_DAYS.indexOf(b.dayOfWeek);
+  return dayDelta !== 0 ? dayDelta : a.startTime.localeCompare(b.startTime);
+}
+
+export async function findBookingConflicts(
+  prisma: PrismaClient,
+  semesterKey: string,
+): Promise<BookingConflictReport | null> {
+  const semester = await prisma.semester.findUnique({
+    where: {
+      key: semesterKey,
+    },
+    select: {
+      id: true,
+      key: true,
+      label: true,
+      startDate: true,
+      endDate: true,
+    },
+  });
+
+  if (!semester) {
+    return null;
+  }
+
+  const entries = await prisma.scheduleEntry.findMany({
+    where: {
+      semesterId: semester.id,
+      startTime: {
+        not: null,
+      },
+    },
+    select: {
+      id: true,
+      dayOfWeek: true,
+      startTime: true,
+      rawTime: true,
+      room: true,
+      weekPattern: true,
+      startDate: true,
+      endDate: true,
+      course: {
+        select: {
+          code: true,
+        },
+      },
+      classGroup: {
+        select: {
+          name: true,
+          cohort: {
+            select: {
+              code: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  const assignments = await prisma.courseTeachingAssignment.findMany({
+    where: {
+      enabled: true,
+      semesterKey: normalizeSemesterKey(semester.key),
+    },
+    select: {
+      courseCode: true,
+      classGroupName: true,
+      instructionCode: true,
+      lecturerId: true,
+    },
+  });
+
+  const lecturerNameMap = new Map((await loadKnowledge()).lecturers.map((lecturer) => [lecturer.id, lecturer.name]));
+  const profiles = await prisma.lecturerProfile.findMany({
+    where: {
+      lecturerId: {
+        in: [...new Set(assignments.map((assignment) => assignment.lecturerId))],
+      },
+    },
+    select: {
+      lecturerId: true,
+      name: true,
+    },
+  });
+  for (const profile of profiles) {
+    if (profile.name?.trim()) {
+      lecturerNameMap.set(profile.lecturerId, profile.name.trim());
+    }
+  }
+
+  const weeks = listSemesterWeeks(semester.startDate, semester.endDate);
+  const timingById = new Map<string, ScheduleTiming>(entries.map((entry) => [entry.id, entry]));
+  const roomSlots = new Map<string, RoomConflict>();
+  const lecturerSlots = new Map<string, LecturerConflict>();
+
+  for (const entry of entries) {
+    const startTime = entry.startTime as string;
+    const slot: BookingSlot = {
+      entryId: entry.id,
+      cohortCode: entry.classGroup.cohort.code,
+      classGroupName: entry.classGroup.name,
+      courseCode: entry.course.code,
+      room: entry.room,
+    };
+
+    const room = normalizeRoom(entry.room);
+    if (room) {
+      const key = `${room}|${entry.dayOfWeek}|${startTime}`;
+      const row = roomSlots.get(key) ?? { room, dayOfWeek: entry.dayOfWeek, startTime, slots: [] };
+      row.slots.push(slot);
+      roomSlots.set(key, row);
+    }
+
+    const lecturers = resolveLecturersForEntry({
+      courseCode: entry.course.code,
+      classGroupName: normalizeClassGroupName(entry.classGroup.name),
+      instructionCode: extractInstructionCode(entry.room ?? entry.rawTime),
+      assignments,
+      lecturerNameMap,
+    });
+
+    for (const lecturer of lecturers) {
+      const key = `${lecturer.id}|${entry.dayOfWeek}|${startTime}`;
+      const row = lecturerSlots.get(key) ?? {
+        lecturerId: lecturer.id,
+        lecturerName: lecturer.name,
+        dayOfWeek: entry.dayOfWeek,
+        startTime,
+        slots: [],
+      };
+      row.slots.push(slot);
+      lecturerSlots.set(key, row);
+    }
+  }
+
+  // Several class groups sharing one course in one room is a combined lecture, not a double-booking.
+  // Slots that never meet in the same week (block courses, date ranges) do not clash either.
+  const roomKey = (slot: BookingSlot) => slot.courseCode;
+  const rooms = [...roomSlots.values()]
+    .map((conflict) => ({ ...conflict, slots: clashingSlots(conflict.slots, roomKey, timingById, weeks) }))
+    .filter((conflict) => distinctCount(conflict.slots, roomKey) > 1)
+    .sort((a, b) => compareSlotKeys(a, b) || a.room.localeCompare(b.room));
+
+  const lecturerKey = (slot: BookingSlot) => `${slot.courseCode}|${normalizeRoom(slot.room)}`;
+  const lecturers = [...lecturerSlots.values()]
+    .map((conflict) => ({ ...conflict, slots: clashingSlots(conflict.slots, lecturerKey, timingById, weeks) }))
+    .filter((conflict) => distinctCount(conflict.slots, lecturerKey) > 1)
+    .sort((a, b) => compareSlotKeys(a, b) || a.lecturerName.localeCompare(b.lecturerName));
+
+  return {
+    semesterKey: semester.key,
+    semesterLabel: semester.label,
+    rooms,
+    lecturers,
+  };
+}
@@ -0,0 +1,199 @@
+import { randomBytes } from "node:crypto";
+
+import { getUserProfile } from "@/lib/auth/accounts";
+import { getPortalUsers, type UserRole } from "@/lib/auth/session";
+import { buildScheduleCalendar } from "@/lib/ical";
+import { getPortalData, type PortalData } from "@/lib/portal";
+import { prisma } from "@/lib/prisma";
+
+export type CalendarViewer = {
+  username: string;
+  role: UserRole;
+};
+
+export type CalendarScopeQuery = {
+  semesterKey?: string;
+  cohortCode?: string;
+  classGroupName?: string;
+  week?: number | "ALL";
+};
+
+export type CalendarFile = {
+  filename: string;
+  body: string;
+  eventCount: number;
+};
+
+export type CalendarFeedInfo = {
+  token: string;
+  path: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+};
+
+function toFeedInfo(record: { token: string; createdAt: Date; lastUsedAt: Date | null }): CalendarFeedInfo {
+  return {
+    token: record.token,
+    path: `/api/calendar/${record.token}`,
+    createdAt: record.createdAt.toISOString(),
+    lastUsedAt: record.lastUsedAt?.toISOString() ?? null,
+  };
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+// Same scoping rules as the dashboard: students are pinned to their profile class and the latest semester,
+// lecturers may pick the semester, admins may pick everything.
+export async function getCalendarPortalData(viewer: CalendarViewer, query: CalendarScopeQuery): Promise<PortalData> {
+  if (viewer.role === "STUDENT") {
+    const profile = await getUserProfile(viewer.username, viewer.role);
+    return getPortalData({
+      cohortCode: profile?.cohortCode ?? undefined,
+      classGroupName: profile?.classGroupName ?? undefined,
+      day: "ALL",
+      week: query.week ?? "ALL",
+    });
+  }
+
+  return getPortalData({
+    semesterKey: query.semesterKey,
+    cohortCode: viewer.role === "ADMIN" ? query.cohortCode : undefined,
+    classGroupName: viewer.role === "ADMIN" ? query.classGroupName : undefined,
+    day: "ALL",
+    week: query.week ?? "ALL",
+  });
+}
+
+export function buildPortalCalendar(data: PortalData): CalendarFile | null {
+  const semester = data.meta.semesters.find((item) => item.key === data.selected.semesterKey);
+  if (!semester || !data.selected.classGroupName) {
+    return null;
+  }
+
+  const name = `TKB ${semester.label} · ${data.selected.cohortCode ?? ""} ${data.selected.classGroupName}`.replace(
+    /\s+/g,
+    " ",
+  );
+  const body = buildScheduleCalendar({
+    name,
+    semester,
+    weeks: data.weeks,
+    entries: data.entries,
+    exams: data.exams,
+  });
+
+  return {
+    filename: `tkb-${slugify(semester.key)}-${slugify(data.selected.cohortCode ?? "")}-${slugify(data.selected.classGroupName)}.ics`,
+    body,
+    eventCount: body.split("BEGIN:VEVENT").length - 1,
+  };
+}
+
+export async function getCalendarFeed(username: string): Promise<CalendarFeedInfo | null> {
+  const record = await prisma.calendarFeedToken.findUnique({
+    where: {
+      username,
+    },
+  });
+
+  return record ? toFeedInfo(record) : null;
+}
+
+export async function issueCalendarFeed(viewer: CalendarViewer): Promise<CalendarFeedInfo> {
+  const token = randomBytes(24).toString("base64url");
+  const record = await prisma.calendarFeedToken.upsert({
+    where: {
+      username: viewer.username,
+    },
+    create: {
+      username: viewer.username,
+      role: viewer.role,
+      token,
+    },
+    update: {
+      role: viewer.role,
+      token,
+      lastUsedAt: null,
+      createdAt: new Date(),
+    },
+  });
+
+  return toFeedInfo(record);
+}
+
+export async function revokeCalendarFeed(username: string): Promise<boolean> {
+  const deleted = await prisma.calendarFeedToken.deleteMany({
+    where: {
+      username,
+    },
+  });
+
+  return deleted.count > 0;
+}
+
+// Same account sources and order as the login route: PORTAL_USERS first, then registered accounts.
+async function findCurrentRole(username: string): Promise<UserRole | null> {
+  const portalUser = getPortalUsers().find((user) => user.username.toLowerCase() === username.toLowerCase());
+  if (portalUser) {
+    return portalUser.role;
+  }
+
+  const account = await prisma.accountUser.findUnique({
+    where: {
+      username,
+    },
+    select: {
+      role: true,
+    },
+  });
+  if (!account) {
+    return null;
+  }
+
+  return account.role === "ADMIN" || account.role === "LECTURER" ? account.role : "STUDENT";
+}
+
+/**
+ * Resolves a feed token to its owner with the account's current role, so a demoted admin's feed narrows
+ * to their own scope. Tokens of deleted accounts are revoked.
+ */
+export async function resolveCalendarFeedToken(token: string): Promise<CalendarViewer | null> {
+  if (!/^[A-Za-z0-9_-]{16,64}$/.test(token)) {
+    return null;
+  }
+
+  const record = await prisma.calendarFeedToken.findUnique({
+    where: {
+      token,
+    },
+  });
+  if (!record) {
+    return null;
+  }
+
+  const role = await findCurrentRole(record.username);
+  if (!role) {
+    await revokeCalendarFeed(record.username);
+    return null;
+  }
+
+  await prisma.calendarFeedToken.update({
+    where: {
+      id: record.id,
+    },
+    data: {
+      role,
+      lastUsedAt: new Date(),
+    },
+  });
+
+  return {
+    username: record.username,
+    role,
+  };
+}
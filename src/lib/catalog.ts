@@ -0,0 +1,703 @@
+import path from "node:path";
+
+import type { CatalogSectionKind } from "@prisma/client";
+
+import { cleanCell } from "@/lib/importers/normalize";
+import { invalidateKnowledge, normalizeCourseCode, normalizeSearchText, parseCsvText } from "@/lib/knowledge";
+import { prisma } from "@/lib/prisma";
+
+const DEFAULT_CATALOG_PATH = path.resolve(process.cwd(), "data/catalog/Catalog.csv");
+
+const CSV_HEADER = ["No.", "Mã HP", "Course name", "Tên học phần", "Credits", "Prerequisite", "Note"];
+
+export type CatalogRow = {
+  code: string;
+  nameEn: string | null;
+  nameVi: string | null;
+  credits: number | null;
+  prerequisite: string | null;
+  note: string | null;
+  program: string | null;
+  section: string | null;
+};
+
+export type CatalogField = Exclude<keyof CatalogRow, "code">;
+
+export type CatalogFieldChange = {
+  field: CatalogField;
+  before: string | number | null;
+  after: string | number | null;
+};
+
+export type CatalogDiff = {
+  sourceFile: string;
+  total: number;
+  added: CatalogRow[];
+  changed: Array<{ code: string; changes: CatalogFieldChange[] }>;
+  unchanged: number;
+  missing: string[];
+  newPrograms: string[];
+  newSections: string[];
+};
+
+export type CatalogImportSummary = {
+  added: number;
+  updated: number;
+  unchanged: number;
+  detached: number;
+  programs: number;
+  sections: number;
+};
+
+export type CatalogSectionView = {
+  id: string;
+  name: string;
+  sortOrder: number;
+  kind: CatalogSectionKind;
+  minCredits: number | null;
+  courseCount: number;
+};
+
+export type CatalogProgramView = {
+  id: string;
+  name: string;
+  sortOrder: number;
+  totalCredits: number | null;
+  sections: CatalogSectionView[];
+};
+
+export type CatalogCourseView = CatalogRow & {
+  sectionId: string | null;
+  scheduledEntries: number;
+};
+
+export type CatalogCourseInput = {
+  code: string;
+  nameEn: string | null;
+  nameVi: string | null;
+  credits: number | null;
+  prerequisite: string | null;
+  note: string | null;
+  sectionId: string | null;
+};
+
+const CATALOG_FIELDS: CatalogField[] = ["nameEn", "nameVi", "credits", "prerequisite", "note", "program", "section"];
+
+export function resolveDefaultCatalogPath(): string {
+  return process.env.CATALOG_CSV_PATH ?? DEFAULT_CATALOG_PATH;
+}
+
+function decodeCatalogCsv(buffer: Buffer): string {
+  let text = buffer.toString("utf8");
+  if (text.charCodeAt(0) === 0xfeff) {
+    text = text.slice(1);
+  }
+
+  // Basic mojibake recovery for strings like "Khoa Há»c MÃ¡y TÃ­nh".
+  const mojibakeMarkers = ["Ã", "á»", "â€", "Ä", "�"];
+  const markerHits = mojibakeMarkers.reduce(
+    (sum, marker) => sum + (text.match(new RegExp(marker, "g"))?.length ?? 0),
+    0,
+  );
+  if (markerHits >= 8) {
+    const repaired = Buffer.from(text, "latin1").toString("utf8");
+    if (repaired.includes("Khoa Học") || repaired.includes("Tiếng Việt")) {
+      return repaired;
+    }
+  }
+
+  return text;
+}
+
+// Reads the university's Catalog.csv layout (program and section heading rows above the course rows)
+// as well as the `Program,<name>` / `Section,<name>` marker rows written by `exportCatalogCsv`.
+export function parseCatalogCsv(buffer: Buffer): CatalogRow[] {
+  const catalog = new Map<string, CatalogRow>();
+  const rows = parseCsvText(decodeCatalogCsv(buffer));
+
+  let currentProgram: string | null = null;
+  let currentSection: string | null = null;
+
+  for (const row of rows) {
+    const cells = row.map((cell) => cleanCell(cell));
+    const nonEmpty = cells.filter(Boolean);
+
+    if (nonEmpty.length === 0) {
+      continue;
+    }
+
+    const code = normalizeCourseCode(cells[1] ?? "");
+    if (code) {
+      const creditsRaw = Number.parseInt(cleanCell(cells[4]), 10);
+      catalog.set(code, {
+        code,
+        nameEn: cleanCell(cells[2]) || null,
+        nameVi: cleanCell(cells[3]) || null,
+        credits: Number.isFinite(creditsRaw) ? creditsRaw : null,
+        prerequisite: cleanCell(cells[5]) || null,
+        note: cleanCell(cells[6]) || null,
+        program: currentProgram,
+        section: currentProgram ? currentSection : null,
+      });
+      continue;
+    }
+
+    const first = cleanCell(cells[0]);
+    const second = cleanCell(cells[1]);
+    const marker = normalizeSearchText(first);
+
+    if (marker === "program" && second) {
+      currentProgram = second;
+      currentSection = null;
+      continue;
+    }
+
+    if (marker === "section" && second) {
+      currentSection = second;
+      continue;
+    }
+
+    const normalized = normalizeSearchText(`${first} ${second}`);
+
+    if (normalized.includes("program")) {
+      currentProgram = first || second || null;
+      currentSection = null;
+      continue;
+    }
+
+    if (normalized.includes("required courses") || normalized.includes("major electives") || normalized.includes("free electives") || normalized.includes("hust political theory")) {
+      currentSection = first || second || null;
+      continue;
+    }
+
+    if (marker === "no." || normalizeSearchText(second) === "ma hp") {
+      continue;
+    }
+
+    if (!first && second && nonEmpty.length <= 2) {
+      currentSection = second;
+    }
+  }
+
+  return [...catalog.values()];
+}
+
+function escapeCsvCell(value: string | number | null): string {
+  const text = value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+}
+
+function toCsvLine(cells: Array<string | number | null>): string {
+  return cells.map(escapeCsvCell).join(",");
+}
+
+async function loadStoredCatalog() {
+  const courses = await prisma.course.findMany({
+    select: {
+      id: true,
+      code: true,
+      nameEn: true,
+      nameVi: true,
+      credits: true,
+      prerequisite: true,
+      note: true,
+      catalogSectionId: true,
+      catalogSection: {
+        select: {
+          name: true,
+          program: {
+            select: {
+              name: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  return new Map(
+    courses.map((course) => [
+      course.code,
+      {
+        id: course.id,
+        sectionId: course.catalogSectionId,
+        row: {
+          code: course.code,
+          nameEn: course.nameEn,
+          nameVi: course.nameVi,
+          credits: course.credits,
+          prerequisite: course.prerequisite,
+          note: course.note,
+          program: course.catalogSection?.program.name ?? null,
+          section: course.catalogSection?.name ?? null,
+        } satisfies CatalogRow,
+      },
+    ]),
+  );
+}
+
+function sectionKey(program: string, section: string): string {
+  return `${program} › ${section}`;
+}
+
+// New sections named like "Major Electives" / "Tự chọn" start as elective lists; admins can change it in the editor.
+function inferSectionKind(name: string): CatalogSectionKind {
+  const normalized = normalizeSearchText(name);
+  return normalized.includes("elective") || normalized.includes("tu chon") ? "ELECTIVE" : "CORE";
+}
+
+// Blank cells never clear stored values, so a CSV without Vietnamese names leaves the existing ones alone.
+function diffRow(stored: CatalogRow, incoming: CatalogRow): CatalogFieldChange[] {
+  return CATALOG_FIELDS.filter((field) => {
+    if (incoming[field] === null) {
+      return false;
+    }
+    if (field === "section" || field === "program") {
+      return incoming.section !== null && incoming[field] !== stored[field];
+    }
+    return incoming[field] !== stored[field];
+  }).map((field) => ({ field, before: stored[field], after: incoming[field] }));
+}
+
+export async function diffCatalog(rows: CatalogRow[], sourceFile: string): Promise<CatalogDiff> {
+  const [stored, programs] = await Promise.all([
+    loadStoredCatalog(),
+    prisma.catalogProgram.findMany({
+      select: {
+        name: true,
+        sections: {
+          select: {
+            name: true,
+          },
+        },
+      },
+    }),
+  ]);
+
+  const knownPrograms = new Set(programs.map((program) => program.name));
+  const knownSections = new Set(
+    programs.flatMap((program) => program.sections.map((section) => sectionKey(program.name, section.name))),
+  );
+
+  const diff: CatalogDiff = {
+    sourceFile,
+    total: rows.length,
+    added: [],
+    changed: [],
+    unchanged: 0,
+    missing: [],
+    newPrograms: [],
+    newSections: [],
+  };
+
+  for (const row of rows) {
+    if (row.program && !knownPrograms.has(row.program)) {
+      knownPrograms.add(row.program);
+      diff.newPrograms.push(row.program);
+    }
+    if (row.program && row.section && !knownSections.has(sectionKey(row.program, row.section))) {
+      knownSections.add(sectionKey(row.program, row.section));
+      diff.newSections.push(sectionKey(row.program, row.section));
+    }
+
+    const existing = stored.get(row.code);
+    if (!existing) {
+      diff.added.push(row);
+      continue;
+    }
+
+    const changes = diffRow(existing.row, row);
+    if (changes.length > 0) {
+      diff.changed.push({ code: row.code, changes });
+    } else {
+      diff.unchanged += 1;
+    }
+  }
+
+  const incomingCodes = new Set(rows.map((row) => row.code));
+  diff.missing = [...stored.values()]
+    .filter((course) => course.sectionId && !incomingCodes.has(course.row.code))
+    .map((course) => course.row.code)
+    .sort((a, b) => a.localeCompare(b));
+
+  return diff;
+}
+
+export async function importCatalog(
+  rows: CatalogRow[],
+  options: { detachMissing?: boolean } = {},
+): Promise<CatalogImportSummary> {
+  const stored = await loadStoredCatalog();
+  const summary: CatalogImportSummary = { added: 0, updated: 0, unchanged: 0, detached: 0, programs: 0, sections: 0 };
+
+  await prisma.$transaction(async (tx) => {
+    const programIds = new Map<string, string>();
+    const sectionIds = new Map<string, string>();
+    const sectionCounts = new Map<string, number>();
+
+    for (const row of rows) {
+      if (!row.program || programIds.has(row.program)) {
+        continue;
+      }
+
+      const program = await tx.catalogProgram.upsert({
+        where: { name: row.program },
+        update: { sortOrder: programIds.size },
+        create: { name: row.program, sortOrder: programIds.size },
+      });
+      programIds.set(row.program, program.id);
+    }
+
+    for (const row of rows) {
+      if (!row.program || !row.section || sectionIds.has(sectionKey(row.program, row.section))) {
+        continue;
+      }
+
+      const programId = programIds.get(row.program)!;
+      const sortOrder = sectionCounts.get(programId) ?? 0;
+      sectionCounts.set(programId, sortOrder + 1);
+      const section = await tx.catalogSection.upsert({
+        where: { programId_name: { programId, name: row.section } },
+        update: { sortOrder },
+        create: { programId, name: row.section, sortOrder, kind: inferSectionKind(row.section) },
+      });
+      sectionIds.set(sectionKey(row.program, row.section), section.id);
+    }
+
+    for (const row of rows) {
+      const catalogSectionId = row.program && row.section ? sectionIds.get(sectionKey(row.program, row.section)) : undefined;
+      const existing = stored.get(row.code);
+
+      if (!existing) {
+        await tx.course.create({
+          data: {
+            code: row.code,
+            nameEn: row.nameEn,
+            nameVi: row.nameVi,
+            credits: row.credits,
+            prerequisite: row.prerequisite,
+            note: row.note,
+            catalogSectionId: catalogSectionId ?? null,
+          },
+        });
+        summary.added += 1;
+        continue;
+      }
+
+      if (diffRow(existing.row, row).length === 0) {
+        summary.unchanged += 1;
+        continue;
+      }
+
+      await tx.course.update({
+        where: { id: existing.id },
+        data: {
+          ...(row.nameEn !== null ? { nameEn: row.nameEn } : {}),
+          ...(row.nameVi !== null ? { nameVi: row.nameVi } : {}),
+          ...(row.credits !== null ? { credits: row.credits } : {}),
+          ...(row.prerequisite !== null ? { prerequisite: row.prerequisite } : {}),
+          ...(row.note !== null ? { note: row.note } : {}),
+          ...(catalogSectionId ? { catalogSectionId } : {}),
+        },
+      });
+      summary.updated += 1;
+    }
+
+    if (options.detachMissing) {
+      const detached = await tx.course.updateMany({
+        where: {
+          code: { notIn: rows.map((row) => row.code) },
+          catalogSectionId: { not: null },
+        },
+        data: { catalogSectionId: null },
+      });
+      summary.detached = detached.count;
+    }
+
+    summary.programs = programIds.size;
+    summary.sections = sectionIds.size;
+  });
+
+  invalidateKnowledge();
+  return summary;
+}
+
+export async function exportCatalogCsv(): Promise<string> {
+  const [programs, unassigned] = await Promise.all([
+    prisma.catalogProgram.findMany({
+      orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+      include: {
+        sections: {
+          orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+          include: {
+            courses: {
+              orderBy: { code: "asc" },
+            },
+          },
+        },
+      },
+    }),
+    prisma.course.findMany({
+      where: { catalogSectionId: null },
+      orderBy: { code: "asc" },
+    }),
+  ]);
+
+  type CourseRecord = (typeof unassigned)[number];
+  const lines: string[] = [];
+  const pushCourses = (courses: CourseRecord[]) => {
+    lines.push(toCsvLine(CSV_HEADER));
+    courses.forEach((course, index) => {
+      lines.push(
+        toCsvLine([
+          index + 1,
+          course.code,
+          course.nameEn,
+          course.nameVi,
+          course.credits,
+          course.prerequisite,
+          course.note,
+        ]),
+      );
+    });
+  };
+
+  if (unassigned.length > 0) {
+    pushCourses(unassigned);
+  }
+
+  for (const program of programs) {
+    lines.push(toCsvLine(["Program", program.name]));
+    for (const section of program.sections) {
+      lines.push(toCsvLine(["Section", section.name]));
+      pushCourses(section.courses);
+    }
+  }
+
+  return `\ufeff${lines.join("\r\n")}\r\n`;
+}
+
+export async function listCatalogPrograms(): Promise<CatalogProgramView[]> {
+  const programs = await prisma.catalogProgram.findMany({
+    orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+    include: {
+      sections: {
+        orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+        include: {
+          _count: {
+            select: {
+              courses: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  return programs.map((program) => ({
+    id: program.id,
+    name: program.name,
+    sortOrder: program.sortOrder,
+    totalCredits: program.totalCredits,
+    sections: program.sections.map((section) => ({
+      id: section.id,
+      name: section.name,
+      sortOrder: section.sortOrder,
+      kind: section.kind,
+      minCredits: section.minCredits,
+      courseCount: section._count.courses,
+    })),
+  }));
+}
+
+export async function listCatalogCourses(): Promise<CatalogCourseView[]> {
+  const courses = await prisma.course.findMany({
+    orderBy: { code: "asc" },
+    include: {
+      catalogSection: {
+        include: {
+          program: true,
+        },
+      },
+      _count: {
+        select: {
+          entries: true,
+        },
+      },
+    },
+  });
+
+  return courses.map((course) => ({
+    code: course.code,
+    nameEn: course.nameEn,
+    nameVi: course.nameVi,
+    credits: course.credits,
+    prerequisite: course.prerequisite,
+    note: course.note,
+    program: course.catalogSection?.program.name ?? null,
+    section: course.catalogSection?.name ?? null,
+    sectionId: course.catalogSectionId,
+    scheduledEntries: course._count.entries,
+  }));
+}
+
+async function assertSectionExists(sectionId: string | null): Promise<void> {
+  if (sectionId && !(await prisma.catalogSection.findUnique({ where: { id: sectionId }, select: { id: true } }))) {
+    throw new Error("Không tìm thấy nhóm học phần.");
+  }
+}
+
+export async function createCatalogCourse(input: CatalogCourseInput): Promise<void> {
+  const code = normalizeCourseCode(input.code);
+  if (!code) {
+    throw new Error("Mã học phần không hợp lệ (ví dụ: CS 2255).");
+  }
+  if (await prisma.course.findUnique({ where: { code }, select: { id: true } })) {
+    throw new Error(`Học phần ${code} đã tồn tại.`);
+  }
+  await assertSectionExists(input.sectionId);
+
+  await prisma.course.create({
+    data: {
+      code,
+      nameEn: input.nameEn,
+      nameVi: input.nameVi,
+      credits: input.credits,
+      prerequisite: input.prerequisite,
+      note: input.note,
+      catalogSectionId: input.sectionId,
+    },
+  });
+  invalidateKnowledge();
+}
+
+export async function updateCatalogCourse(input: CatalogCourseInput): Promise<void> {
+  const code = normalizeCourseCode(input.code);
+  if (!code || !(await prisma.course.findUnique({ where: { code }, select: { id: true } }))) {
+    throw new Error("Không tìm thấy học phần.");
+  }
+  await assertSectionExists(input.sectionId);
+
+  await prisma.course.update({
+    where: { code },
+    data: {
+      nameEn: input.nameEn,
+      nameVi: input.nameVi,
+      credits: input.credits,
+      prerequisite: input.prerequisite,
+      note: input.note,
+      catalogSectionId: input.sectionId,
+    },
+  });
+  invalidateKnowledge();
+}
+
+export async function deleteCatalogCourse(rawCode: string): Promise<void> {
+  const code = normalizeCourseCode(rawCode);
+  const course = code
+    ? await prisma.course.findUnique({
+        where: { code },
+        select: {
+          id: true,
+          _count: {
+            select: {
+              entries: true,
+              exams: true,
+            },
+          },
+        },
+      })
+    : null;
+  if (!course) {
+    throw new Error("Không tìm thấy học phần.");
+  }
+  if (course._count.entries > 0 || course._count.exams > 0) {
+    throw new Error(`Học phần ${code} đang có trong thời khóa biểu hoặc lịch thi; chỉ có thể gỡ khỏi nhóm học phần.`);
+  }
+
+  await prisma.course.delete({ where: { id: course.id } });
+  invalidateKnowledge();
+}
+
+function assertCredits(value: number | null, label: string): void {
+  if (value !== null && (value < 0 || value > 500)) {
+    throw new Error(`${label} phải nằm trong khoảng 0–500.`);
+  }
+}
+
+export async function saveCatalogProgram(input: {
+  id?: string;
+  name: string;
+  sortOrder: number;
+  totalCredits: number | null;
+}): Promise<void> {
+  const name = input.name.trim();
+  if (!name) {
+    throw new Error("Tên chương trình không được để trống.");
+  }
+  assertCredits(input.totalCredits, "Tổng tín chỉ tốt nghiệp");
+
+  const duplicate = await prisma.catalogProgram.findUnique({ where: { name }, select: { id: true } });
+  if (duplicate && duplicate.id !== input.id) {
+    throw new Error(`Chương trình "${name}" đã tồn tại.`);
+  }
+
+  const data = { name, sortOrder: input.sortOrder, totalCredits: input.totalCredits };
+  if (input.id) {
+    await prisma.catalogProgram.update({ where: { id: input.id }, data });
+  } else {
+    await prisma.catalogProgram.create({ data });
+  }
+  invalidateKnowledge();
+}
+
+// Deleting a program drops its sections; their courses stay in the catalog without a section.
+export async function deleteCatalogProgram(id: string): Promise<void> {
+  await prisma.catalogProgram.delete({ where: { id } });
+  invalidateKnowledge();
+}
+
+export async function saveCatalogSection(input: {
+  id?: string;
+  programId: string;
+  name: string;
+  sortOrder: number;
+  kind?: CatalogSectionKind;
+  minCredits: number | null;
+}): Promise<void> {
+  const name = input.name.trim();
+  if (!name) {
+    throw new Error("Tên nhóm học phần không được để trống.");
+  }
+  assertCredits(input.minCredits, "Số tín chỉ tối thiểu");
+  if (!(await prisma.catalogProgram.findUnique({ where: { id: input.programId }, select: { id: true } }))) {
+    throw new Error("Không tìm thấy chương trình.");
+  }
+
+  const duplicate = await prisma.catalogSection.findUnique({
+    where: { programId_name: { programId: input.programId, name } },
+    select: { id: true },
+  });
+  if (duplicate && duplicate.id !== input.id) {
+    throw new Error(`Nhóm "${name}" đã có trong chương trình này.`);
+  }
+
+  const data = {
+    programId: input.programId,
+    name,
+    sortOrder: input.sortOrder,
+    kind: input.kind ?? inferSectionKind(name),
+    minCredits: input.minCredits,
+  };
+  if (input.id) {
+    await prisma.catalogSection.update({ where: { id: input.id }, data });
+  } else {
+    await prisma.catalogSection.create({ data });
+  }
+  invalidateKnowledge();
+}
+
+export async function deleteCatalogSection(id: string): Promise<void> {
+  await prisma.catalogSection.delete({ where: { id } });
+  invalidateKnowledge();
+}
@@ -0,0 +1,359 @@
+import type { CatalogSectionKind } from "@prisma/client";
+
+import { normalizeGradeLetter } from "@/lib/gpa";
+import { normalizeCourseCode } from "@/lib/knowledge";
+import { prisma } from "@/lib/prisma";
+import { compareSemesterKeyDesc, isSummerSemesterKey, labelFromSemesterKey, nextRegularSemesterKey } from "@/lib/semester";
+
+export const DEFAULT_CREDITS_PER_SEMESTER = 15;
+
+const MAX_PROJECTED_SEMESTERS = 16;
+const GRADE_ORDER = ["A", "B", "C", "D"];
+
+export type AuditCourseStatus = "passed" | "in-progress" | "remaining";
+
+export type AuditCourse = {
+  code: string;
+  name: string | null;
+  credits: number;
+  status: AuditCourseStatus;
+  grade: string | null;
+  semesterKey: string | null;
+};
+
+export type SectionAudit = {
+  id: string;
+  name: string;
+  kind: CatalogSectionKind;
+  /** Core sections without a credit minimum require every listed course. */
+  requiresAllCourses: boolean;
+  requiredCredits: number;
+  completedCredits: number;
+  inProgressCredits: number;
+  remainingCredits: number;
+  complete: boolean;
+  courses: AuditCourse[];
+};
+
+export type ProjectedSemester = {
+  key: string | null;
+  label: string;
+  credits: number;
+};
+
+export type DegreeAudit = {
+  programs: Array<{ id: string; name: string }>;
+  program: { id: string; name: string; totalCredits: number | null } | null;
+  requiredCredits: number;
+  completedCredits: number;
+  inProgressCredits: number;
+  remainingCredits: number;
+  sections: SectionAudit[];
+  otherCourses: AuditCourse[];
+  currentSemester: { key: string; label: string } | null;
+  pace: number;
+  paceFromHistory: boolean;
+  projection: ProjectedSemester[];
+};
+
+type PassedCourse = {
+  grade: string;
+  semesterKey: string;
+  credits: number;
+  name: string | null;
+};
+
+type ProgramRecord = Awaited<ReturnType<typeof loadPrograms>>[number];
+
+function loadPrograms() {
+  return prisma.catalogProgram.findMany({
+    orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+    include: {
+      sections: {
+        orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+        include: {
+          courses: {
+            orderBy: { code: "asc" },
+            select: {
+              code: true,
+              nameEn: true,
+              nameVi: true,
+              credits: true,
+            },
+          },
+        },
+      },
+    },
+  });
+}
+
+async function loadPassedCourses(username: string) {
+  const entries = await prisma.studentGradeEntry.findMany({
+    where: {
+      username,
+    },
+    select: {
+      semesterKey: true,
+      courseCode: true,
+      courseName: true,
+      credits: true,
+      gradeLetter: true,
+    },
+  });
+
+  const passed = new Map<string, PassedCourse>();
+  const gradedSemesters = new Map<string, Set<string>>();
+  for (const entry of entries) {
+    const code = normalizeCourseCode(entry.courseCode);
+    const letter = normalizeGradeLetter(entry.gradeLetter);
+    if (!code || !letter) {
+      continue;
+    }
+
+    gradedSemesters.set(entry.semesterKey, (gradedSemesters.get(entry.semesterKey) ?? new Set()).add(code));
+    if (!GRADE_ORDER.includes(letter)) {
+      continue;
+    }
+
+    const previous = passed.get(code);
+    if (!previous || GRADE_ORDER.indexOf(letter) < GRADE_ORDER.indexOf(previous.grade)) {
+      passed.set(code, { grade: letter, semesterKey: entry.semesterKey, credits: entry.credits, name: entry.courseName });
+    }
+  }
+
+  return { passed, gradedSemesters };
+}
+
+// Courses of the latest semester the student is taking: personal timetable picks first, otherwise the saved class group.
+async function loadCurrentCourses(input: {
+  username: string;
+  semesterId: string;
+  cohortCode?: string | null;
+  classGroupName?: string | null;
+}) {
+  const picks = await prisma.personalTimetableEntry.findMany({
+    where: {
+      username: input.username,
+      scheduleEntry: {
+        semesterId: input.semesterId,
+      },
+    },
+    select: {
+      scheduleEntry: {
+        select: {
+          course: true,
+        },
+      },
+    },
+  });
+  if (picks.length > 0) {
+    return picks.map((pick) => pick.scheduleEntry.course);
+  }
+
+  if (!input.cohortCode || !input.classGroupName) {
+    return [];
+  }
+
+  const entries = await prisma.scheduleEntry.findMany({
+    where: {
+      semesterId: input.semesterId,
+      classGroup: {
+        name: input.classGroupName,
+        cohort: {
+          code: input.cohortCode,
+        },
+      },
+    },
+    select: {
+      course: true,
+    },
+  });
+  return entries.map((entry) => entry.course);
+}
+
+function passedCreditsInProgram(program: ProgramRecord, passed: Map<string, PassedCourse>): number {
+  return program.sections
+    .flatMap((section) => section.courses)
+    .reduce((sum, course) => {
+      const record = passed.get(course.code);
+      return record ? sum + (course.credits ?? record.credits) : sum;
+    }, 0);
+}
+
+function sumCredits(courses: AuditCourse[], status: AuditCourseStatus): number {
+  return courses.filter((course) => course.status === status).reduce((sum, course) => sum + course.credits, 0);
+}
+
+function auditSection(
+  section: ProgramRecord["sections"][number],
+  toAuditCourse: (course: ProgramRecord["sections"][number]["courses"][number]) => AuditCourse,
+): SectionAudit {
+  const courses = section.courses.map(toAuditCourse);
+  const requiresAllCourses = section.kind === "CORE" && section.minCredits === null;
+  const requiredCredits =
+    section.minCredits ?? (requiresAllCourses ? courses.reduce((sum, course) => sum + course.credits, 0) : 0);
+  const completedCredits = sumCredits(courses, "passed");
+  const inProgressCredits = sumCredits(courses, "in-progress");
+
+  return {
+    id: section.id,
+    name: section.name,
+    kind: section.kind,
+    requiresAllCourses,
+    requiredCredits,
+    completedCredits,
+    inProgressCredits,
+    remainingCredits: Math.max(0, requiredCredits - completedCredits - inProgressCredits),
+    complete:
+      completedCredits >= requiredCredits && (!requiresAllCourses || courses.every((course) => course.status === "passed")),
+    courses,
+  };
+}
+
+function estimatePace(passed: Map<string, PassedCourse>): number | null {
+  const creditsBySemester = new Map<string, number>();
+  for (const course of passed.values()) {
+    if (!isSummerSemesterKey(course.semesterKey)) {
+      creditsBySemester.set(course.semesterKey, (creditsBySemester.get(course.semesterKey) ?? 0) + course.credits);
+    }
+  }
+
+  if (creditsBySemester.size === 0) {
+    return null;
+  }
+
+  const total = [...creditsBySemester.values()].reduce((sum, credits) => sum + credits, 0);
+  return Math.max(1, Math.round(total / creditsBySemester.size));
+}
+
+function projectSemesters(startKey: string | null, remainingCredits: number, pace: number): ProjectedSemester[] {
+  const projection: ProjectedSemester[] = [];
+  let key = startKey;
+  let left = remainingCredits;
+
+  while (left > 0 && projection.length < MAX_PROJECTED_SEMESTERS) {
+    key = key ? nextRegularSemesterKey(key) : null;
+    const credits = Math.min(pace, left);
+    projection.push({
+      key,
+      label: key ? labelFromSemesterKey(key) : `Học kỳ thứ ${projection.length + 1}`,
+      credits,
+    });
+    left -= credits;
+  }
+
+  return projection;
+}
+
+/**
+ * Matches the student's GPA records against a catalog program's section requirements.
+ * Without `programId` the program covering most of the student's passed credits is used.
+ */
+export async function getDegreeAudit(input: {
+  username: string;
+  programId?: string;
+  pace?: number;
+  cohortCode?: string | null;
+  classGroupName?: string | null;
+}): Promise<DegreeAudit> {
+  const [programs, { passed, gradedSemesters }, latestSemester] = await Promise.all([
+    loadPrograms(),
+    loadPassedCourses(input.username),
+    prisma.semester.findFirst({
+      orderBy: [{ startDate: "desc" }, { updatedAt: "desc" }],
+      select: {
+        id: true,
+        key: true,
+        label: true,
+      },
+    }),
+  ]);
+
+  const currentCourses = latestSemester
+    ? await loadCurrentCourses({
+        username: input.username,
+        semesterId: latestSemester.id,
+        cohortCode: input.cohortCode,
+        classGroupName: input.classGroupName,
+      })
+    : [];
+  const gradedThisSemester = latestSemester ? gradedSemesters.get(latestSemester.key) : undefined;
+  const inProgress = new Map(
+    currentCourses
+      .filter((course) => !passed.has(course.code) && !gradedThisSemester?.has(course.code))
+      .map((course) => [course.code, course]),
+  );
+
+  const program =
+    programs.find((item) => item.id === input.programId) ??
+    programs.reduce<ProgramRecord | null>(
+      (best, item) =>
+        !best || passedCreditsInProgram(item, passed) > passedCreditsInProgram(best, passed) ? item : best,
+      null,
+    );
+
+  const toAuditCourse = (course: { code: string; nameEn: string | null; nameVi: string | null; credits: number | null }) => {
+    const record = passed.get(course.code);
+    return {
+      code: course.code,
+      name: course.nameEn ?? course.nameVi ?? record?.name ?? null,
+      credits: course.credits ?? record?.credits ?? 0,
+      status: record ? "passed" : inProgress.has(course.code) ? "in-progress" : "remaining",
+      grade: record?.grade ?? null,
+      semesterKey: record?.semesterKey ?? (inProgress.has(course.code) ? latestSemester?.key ?? null : null),
+    } satisfies AuditCourse;
+  };
+
+  const sections = program ? program.sections.map((section) => auditSection(section, toAuditCourse)) : [];
+  const programCodes = new Set(sections.flatMap((section) => section.courses.map((course) => course.code)));
+  const otherCourses = [
+    ...[...passed.entries()].map(([code, record]) => ({ code, nameEn: record.name, nameVi: null, credits: record.credits })),
+    ...[...inProgress.values()],
+  ]
+    .filter((course) => !programCodes.has(course.code))
+    .map(toAuditCourse)
+    .sort((a, b) => a.code.localeCompare(b.code));
+
+  const sectionRemaining = sections.reduce((sum, section) => sum + section.remainingCredits, 0);
+  let requiredCredits: number;
+  let completedCredits: number;
+  let inProgressCredits: number;
+  if (program?.totalCredits != null) {
+    // A program total also counts free electives and credits beyond each section's minimum.
+    const allCourses = [...sections.flatMap((section) => section.courses), ...otherCourses];
+    requiredCredits = program.totalCredits;
+    completedCredits = sumCredits(allCourses, "passed");
+    inProgressCredits = sumCredits(allCourses, "in-progress");
+  } else {
+    requiredCredits = sections.reduce((sum, section) => sum + section.requiredCredits, 0);
+    completedCredits = sections.reduce((sum, section) => sum + Math.min(section.completedCredits, section.requiredCredits), 0);
+    inProgressCredits = sections.reduce(
+      (sum, section) =>
+        sum + Math.min(section.inProgressCredits, Math.max(0, section.requiredCredits - section.completedCredits)),
+      0,
+    );
+  }
+  const remainingCredits = Math.max(requiredCredits - completedCredits - inProgressCredits, sectionRemaining, 0);
+
+  const historyPace = estimatePace(passed);
+  const pace = input.pace && input.pace > 0 ? input.pace : historyPace ?? DEFAULT_CREDITS_PER_SEMESTER;
+  // Project from the latest imported semester, or from the latest graded one when its key carries no term/year.
+  const gradedKeys = [...passed.values()].map((course) => course.semesterKey).sort(compareSemesterKeyDesc);
+  const projectionStart =
+    [latestSemester?.key ?? "", ...gradedKeys].find((key) => nextRegularSemesterKey(key) !== null) ?? null;
+
+  return {
+    programs: programs.map((item) => ({ id: item.id, name: item.name })),
+    program: program ? { id: program.id, name: program.name, totalCredits: program.totalCredits } : null,
+    requiredCredits,
+    completedCredits,
+    inProgressCredits,
+    remainingCredits,
+    sections,
+    otherCourses,
+    currentSemester: latestSemester ? { key: latestSemester.key, label: latestSemester.label } : null,
+    pace,
+    paceFromHistory: !input.pace && historyPace !== null,
+    projection: projectSemesters(projectionStart, remainingCredits, pace),
+  };
+}
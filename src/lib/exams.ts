@@ -0,0 +1,276 @@
+import { DayOfWeek, type ExamKind, type Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import {
+  DEFAULT_CLASS_MINUTES,
+  findWeekForDate,
+  isEntryActiveInWeek,
+  type ScheduleTiming,
+  type SemesterWeek,
+} from "@/lib/schedule-weeks";
+
+export type PortalExam = {
+  id: string;
+  kind: ExamKind;
+  date: string;
+  dayOfWeek: DayOfWeek;
+  startTime: string | null;
+  endTime: string | null;
+  room: string | null;
+  seats: string | null;
+  note: string | null;
+  cohortCode: string;
+  classGroupName: string;
+  course: {
+    code: string;
+    nameEn: string | null;
+    nameVi: string | null;
+  };
+};
+
+export type ExamConflict = {
+  examId: string;
+  date: string;
+  courseCode: string;
+  kind: ExamKind;
+  with: {
+    type: "CLASS" | "EXAM";
+    courseCode: string;
+    startTime: string | null;
+    endTime: string | null;
+    room: string | null;
+  };
+};
+
+export type ExamSchedule = {
+  exams: PortalExam[];
+  conflicts: ExamConflict[];
+};
+
+type ExamSession = ScheduleTiming & {
+  startTime: string | null;
+  endTime: string | null;
+  room: string | null;
+  course: {
+    code: string;
+  };
+};
+
+// Exam sheets rarely give an end time; 90 minutes covers the usual written exam.
+export const DEFAULT_EXAM_MINUTES = 90;
+
+const WEEKDAYS: DayOfWeek[] = [
+  DayOfWeek.SUN,
+  DayOfWeek.MON,
+  DayOfWeek.TUE,
+  DayOfWeek.WED,
+  DayOfWeek.THU,
+  DayOfWeek.FRI,
+  DayOfWeek.SAT,
+];
+
+export const EXAM_KIND_LABEL: Record<ExamKind, string> = {
+  MIDTERM: "Giữa kỳ",
+  FINAL: "Cuối kỳ",
+};
+
+const EXAM_INCLUDE = {
+  course: {
+    select: {
+      code: true,
+      nameEn: true,
+      nameVi: true,
+    },
+  },
+  classGroup: {
+    select: {
+      name: true,
+      cohort: {
+        select: {
+          code: true,
+        },
+      },
+    },
+  },
+} as const;
+
+function toMinutes(time: string): number {
+  const [hour, minute] = time.split(":").map((part) => Number.parseInt(part, 10));
+  return hour * 60 + minute;
+}
+
+function timeRange(startTime: string | null, endTime: string | null, fallbackMinutes: number): [number, number] | null {
+  if (!startTime) {
+    return null;
+  }
+
+  const start = toMinutes(startTime);
+  return [start, endTime ? toMinutes(endTime) : start + fallbackMinutes];
+}
+
+function rangesOverlap(left: [number, number] | null, right: [number, number] | null): boolean {
+  return Boolean(left && right && left[0] < right[1] && right[0] < left[1]);
+}
+
+export function dayOfWeekOf(date: string): DayOfWeek {
+  return WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+}
+
+// Classes of the same course are ignored: midterms are often held in the course's own class slot.
+export function findExamConflicts(exams: PortalExam[], sessions: ExamSession[], weeks: SemesterWeek[]): ExamConflict[] {
+  const conflicts: ExamConflict[] = [];
+
+  for (const exam of exams) {
+    const examRange = timeRange(exam.startTime, exam.endTime, DEFAULT_EXAM_MINUTES);
+    const week = findWeekForDate(weeks, exam.date);
+
+    for (const session of sessions) {
+      if (
+        session.course.code === exam.course.code ||
+        session.dayOfWeek !== exam.dayOfWeek ||
+        (week ? !isEntryActiveInWeek(session, week) : weeks.length > 0) ||
+        !rangesOverlap(examRange, timeRange(session.startTime, session.endTime, DEFAULT_CLASS_MINUTES))
+      ) {
+        continue;
+      }
+
+      conflicts.push({
+        examId: exam.id,
+        date: exam.date,
+        courseCode: exam.course.code,
+        kind: exam.kind,
+        with: {
+          type: "CLASS",
+          courseCode: session.course.code,
+          startTime: session.startTime,
+          endTime: session.endTime,
+          room: session.room,
+        },
+      });
+    }
+
+    for (const other of exams) {
+      if (
+        other.id <= exam.id ||
+        other.date !== exam.date ||
+        other.course.code === exam.course.code ||
+        !rangesOverlap(examRange, timeRange(other.startTime, other.endTime, DEFAULT_EXAM_MINUTES))
+      ) {
+        continue;
+      }
+
+      conflicts.push({
+        examId: exam.id,
+        date: exam.date,
+        courseCode: exam.course.code,
+        kind: exam.kind,
+        with: {
+          type: "EXAM",
+          courseCode: other.course.code,
+          startTime: other.startTime,
+          endTime: other.endTime,
+          room: other.room,
+        },
+      });
+    }
+  }
+
+  return conflicts.sort((a, b) => a.date.localeCompare(b.date) || a.courseCode.localeCompare(b.courseCode));
+}
+
+async function listExams(where: Prisma.ExamSlotWhereInput): Promise<PortalExam[]> {
+  const exams = await prisma.examSlot.findMany({
+    where,
+    include: EXAM_INCLUDE,
+    orderBy: [{ examDate: "asc" }, { startTime: "asc" }],
+  });
+
+  return exams.map((exam) => {
+    const date = exam.examDate.toISOString().slice(0, 10);
+    return {
+      id: exam.id,
+      kind: exam.kind,
+      date,
+      dayOfWeek: dayOfWeekOf(date),
+      startTime: exam.startTime,
+      endTime: exam.endTime,
+      room: exam.room,
+      seats: exam.seats,
+      note: exam.note,
+      cohortCode: exam.classGroup.cohort.code,
+      classGroupName: exam.classGroup.name,
+      course: exam.course,
+    };
+  });
+}
+
+async function buildExamSchedule(
+  examWhere: Prisma.ExamSlotWhereInput,
+  sessionWhere: Prisma.ScheduleEntryWhereInput,
+  weeks: SemesterWeek[],
+): Promise<ExamSchedule> {
+  const exams = await listExams(examWhere);
+  if (exams.length === 0) {
+    return { exams, conflicts: [] };
+  }
+
+  const sessions = await prisma.scheduleEntry.findMany({
+    where: sessionWhere,
+    select: {
+      dayOfWeek: true,
+      startTime: true,
+      endTime: true,
+      room: true,
+      weekPattern: true,
+      startDate: true,
+      endDate: true,
+      course: {
+        select: {
+          code: true,
+        },
+      },
+    },
+  });
+
+  return { exams, conflicts: findExamConflicts(exams, sessions, weeks) };
+}
+
+export async function getClassGroupExamSchedule(
+  semesterId: string,
+  classGroupId: string,
+  weeks: SemesterWeek[],
+): Promise<ExamSchedule> {
+  return buildExamSchedule({ semesterId, classGroupId }, { semesterId, classGroupId }, weeks);
+}
+
+// A personal timetable sits the exam of the class group each picked course was taken with.
+export async function getPersonalExamSchedule(
+  picks: Array<{ id: string; classGroupId: string; courseId: string }>,
+  weeks: SemesterWeek[],
+): Promise<ExamSchedule> {
+  if (picks.length === 0) {
+    return { exams: [], conflicts: [] };
+  }
+
+  const pairs = [...new Map(picks.map((pick) => [`${pick.classGroupId}|${pick.courseId}`, pick])).values()];
+  return buildExamSchedule(
+    {
+      OR: pairs.map((pick) => ({ classGroupId: pick.classGroupId, courseId: pick.courseId })),
+    },
+    {
+      id: {
+        in: picks.map((pick) => pick.id),
+      },
+    },
+    weeks,
+  );
+}
+
+export async function getCourseExams(courseCode: string, semesterKey?: string | null): Promise<PortalExam[]> {
+  return listExams({
+    course: {
+      code: courseCode,
+    },
+    ...(semesterKey ? { semester: { key: semesterKey } } : {}),
+  });
+}
@@ -43,11 +43,21 @@ const STRINGS = {
     EN: "Dashboard",
     JA: "ダッシュボード",
   },
+  navTimetable: {
+    VI: "Lịch cá nhân",
+    EN: "My timetable",
+    JA: "マイ時間割",
+  },
   navCourses: {
     VI: "Học phần",
     EN: "Courses",
     JA: "科目",
   },
+  navRooms: {
+    VI: "Phòng học",
+    EN: "Rooms",
+    JA: "教室",
+  },
   navFaculty: {
     VI: "Giảng viên",
     EN: "Faculty",
@@ -68,11 +78,26 @@ const STRINGS = {
     EN: "Resources",
     JA: "資料",
   },
+  navSearch: {
+    VI: "Tìm kiếm",
+    EN: "Search",
+    JA: "検索",
+  },
   navImport: {
     VI: "Nhập dữ liệu",
     EN: "Import",
     JA: "インポート",
   },
+  navCatalog: {
+    VI: "Danh mục học phần",
+    EN: "Catalog",
+    JA: "科目カタログ",
+  },
+  navSettings: {
+    VI: "Cài đặt",
+    EN: "Settings",
+    JA: "設定",
+  },
   navAdmin: {
     VI: "Quản trị học vụ",
     EN: "Academic Admin",
@@ -118,6 +143,121 @@ const STRINGS = {
     EN: "Academic Services Center · Timetable · Learning Resources · Faculty Ratings",
     JA: "学務サービスセンター · 時間割 · 学習資料 · 教員評価",
   },
+  timetableTitle: {
+    VI: "Thời khóa biểu",
+    EN: "Timetable",
+    JA: "時間割",
+  },
+  timetableTime: {
+    VI: "Giờ",
+    EN: "Time",
+    JA: "時間",
+  },
+  timetableRoom: {
+    VI: "Phòng",
+    EN: "Room",
+    JA: "教室",
+  },
+  timetableLecturer: {
+    VI: "GV",
+    EN: "Lecturer",
+    JA: "教員",
+  },
+  timetableWeek: {
+    VI: "Tuần",
+    EN: "Week",
+    JA: "週",
+  },
+  timetableWholeSemester: {
+    VI: "Cả học kỳ",
+    EN: "Whole semester",
+    JA: "学期全体",
+  },
+  timetableEmpty: {
+    VI: "Không có lớp học trong tuần này.",
+    EN: "No classes in this week.",
+    JA: "この週の授業はありません。",
+  },
+  timetableGeneratedAt: {
+    VI: "Xuất lúc",
+    EN: "Generated",
+    JA: "作成日時",
+  },
+  timetablePrint: {
+    VI: "In thời khóa biểu",
+    EN: "Print timetable",
+    JA: "時間割を印刷",
+  },
+  timetableDownloadPdf: {
+    VI: "Tải PDF",
+    EN: "Download PDF",
+    JA: "PDFをダウンロード",
+  },
+  countdownStartsIn: {
+    VI: "Bắt đầu sau",
+    EN: "Starts in",
+    JA: "開始まで",
+  },
+  countdownLive: {
+    VI: "Đang diễn ra · còn",
+    EN: "In progress · ends in",
+    JA: "授業中 · 残り",
+  },
+  countdownEnded: {
+    VI: "Đã kết thúc · tải lại trang để xem ca tiếp theo",
+    EN: "Finished · reload to see the next class",
+    JA: "終了 · 次の授業はページを再読み込み",
+  },
+  durationDays: {
+    VI: "ngày",
+    EN: "d",
+    JA: "日",
+  },
+  durationHours: {
+    VI: "giờ",
+    EN: "h",
+    JA: "時間",
+  },
+  durationMinutes: {
+    VI: "phút",
+    EN: "min",
+    JA: "分",
+  },
+  dayMON: {
+    VI: "Thứ Hai",
+    EN: "Monday",
+    JA: "月曜日",
+  },
+  dayTUE: {
+    VI: "Thứ Ba",
+    EN: "Tuesday",
+    JA: "火曜日",
+  },
+  dayWED: {
+    VI: "Thứ Tư",
+    EN: "Wednesday",
+    JA: "水曜日",
+  },
+  dayTHU: {
+    VI: "Thứ Năm",
+    EN: "Thursday",
+    JA: "木曜日",
+  },
+  dayFRI: {
+    VI: "Thứ Sáu",
+    EN: "Friday",
+    JA: "金曜日",
+  },
+  daySAT: {
+    VI: "Thứ Bảy",
+    EN: "Saturday",
+    JA: "土曜日",
+  },
+  daySUN: {
+    VI: "Chủ Nhật",
+    EN: "Sunday",
+    JA: "日曜日",
+  },
 } satisfies Record<string, Translated>;
 
 export type UiKey = keyof typeof STRINGS;
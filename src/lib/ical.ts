@@ -0,0 +1,175 @@
+import { DEFAULT_EXAM_MINUTES, EXAM_KIND_LABEL } from "@/lib/exams";
+import type { PortalData } from "@/lib/portal";
+import { classDateInWeek, computeEndTime, DEFAULT_CLASS_MINUTES, isEntryActiveInWeek } from "@/lib/schedule-weeks";
+
+type CalendarInput = {
+  name: string;
+  semester: {
+    startDate: string | null;
+    endDate: string | null;
+  };
+  weeks: PortalData["weeks"];
+  entries: PortalData["entries"];
+  exams?: PortalData["exams"];
+};
+
+const CALENDAR_TIMEZONE = "Asia/Ho_Chi_Minh";
+const REFRESH_INTERVAL = "PT6H";
+
+const SESSION_LABEL: Record<string, string> = {
+  MORNING: "Sáng",
+  AFTERNOON: "Chiều",
+  EVENING: "Tối",
+};
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char, "utf8") > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+function compactDate(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+function nextDate(date: string): string {
+  return new Date(Date.parse(date) + 86_400_000).toISOString().slice(0, 10);
+}
+
+function formatStamp(value: Date): string {
+  return value.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function describeEntry(entry: PortalData["entries"][number], week: number): string {
+  return [
+    entry.course.nameVi,
+    entry.course.nameEn,
+    [SESSION_LABEL[entry.session], entry.rawTime].filter(Boolean).join(" · "),
+    entry.lecturers.length > 0 ? `Giảng viên: ${entry.lecturers.map((lecturer) => lecturer.name).join(", ")}` : null,
+    entry.instructionCode ? `Mã instruction: ${entry.instructionCode}` : null,
+    `Tuần ${week}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function describeExam(exam: PortalData["exams"][number]): string {
+  return [
+    exam.course.nameVi,
+    exam.course.nameEn,
+    `Thi ${EXAM_KIND_LABEL[exam.kind].toLowerCase()} · ${exam.cohortCode} ${exam.classGroupName}`,
+    exam.seats ? `Số báo danh/chỗ ngồi: ${exam.seats}` : null,
+    exam.note,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+export function buildScheduleCalendar(input: CalendarInput): string {
+  const stamp = formatStamp(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//TKB Troy IT Portal//Timetable//VI",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(input.name)}`,
+    `X-WR-TIMEZONE:${CALENDAR_TIMEZONE}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+    "BEGIN:VTIMEZONE",
+    `TZID:${CALENDAR_TIMEZONE}`,
+    "BEGIN:STANDARD",
+    "DTSTART:19700101T000000",
+    "TZOFFSETFROM:+0700",
+    "TZOFFSETTO:+0700",
+    "TZNAME:ICT",
+    "END:STANDARD",
+    "END:VTIMEZONE",
+  ];
+
+  for (const week of input.weeks) {
+    for (const entry of input.entries) {
+      if (!isEntryActiveInWeek(entry, week)) {
+        continue;
+      }
+
+      const date = classDateInWeek(week, entry.dayOfWeek);
+      if (
+        (input.semester.startDate && date < input.semester.startDate) ||
+        (input.semester.endDate && date > input.semester.endDate)
+      ) {
+        continue;
+      }
+
+      const name = entry.course.nameVi ?? entry.course.nameEn;
+      lines.push(
+        "BEGIN:VEVENT",
+        `UID:${entry.id}-${compactDate(date)}@tkb-troy-it-portal`,
+        `DTSTAMP:${stamp}`,
+      );
+
+      if (entry.startTime) {
+        const endTime = entry.endTime ?? computeEndTime(entry.startTime, DEFAULT_CLASS_MINUTES) ?? "23:59";
+        lines.push(
+          `DTSTART;TZID=${CALENDAR_TIMEZONE}:${compactDate(date)}T${entry.startTime.replace(":", "")}00`,
+          `DTEND;TZID=${CALENDAR_TIMEZONE}:${compactDate(date)}T${endTime.replace(":", "")}00`,
+        );
+      } else {
+        lines.push(`DTSTART;VALUE=DATE:${compactDate(date)}`, `DTEND;VALUE=DATE:${compactDate(nextDate(date))}`);
+      }
+
+      lines.push(`SUMMARY:${escapeText(name ? `${entry.course.code} · ${name}` : entry.course.code)}`);
+      if (entry.room) {
+        lines.push(`LOCATION:${escapeText(entry.room)}`);
+      }
+      lines.push(`DESCRIPTION:${escapeText(describeEntry(entry, week.week))}`, "END:VEVENT");
+    }
+  }
+
+  for (const exam of input.exams ?? []) {
+    lines.push("BEGIN:VEVENT", `UID:exam-${exam.id}@tkb-troy-it-portal`, `DTSTAMP:${stamp}`);
+
+    if (exam.startTime) {
+      const endTime = exam.endTime ?? computeEndTime(exam.startTime, DEFAULT_EXAM_MINUTES) ?? "23:59";
+      lines.push(
+        `DTSTART;TZID=${CALENDAR_TIMEZONE}:${compactDate(exam.date)}T${exam.startTime.replace(":", "")}00`,
+        `DTEND;TZID=${CALENDAR_TIMEZONE}:${compactDate(exam.date)}T${endTime.replace(":", "")}00`,
+      );
+    } else {
+      lines.push(`DTSTART;VALUE=DATE:${compactDate(exam.date)}`, `DTEND;VALUE=DATE:${compactDate(nextDate(exam.date))}`);
+    }
+
+    lines.push(`SUMMARY:${escapeText(`Thi ${EXAM_KIND_LABEL[exam.kind].toLowerCase()} · ${exam.course.code}`)}`);
+    if (exam.room) {
+      lines.push(`LOCATION:${escapeText(exam.room)}`);
+    }
+    lines.push(`DESCRIPTION:${escapeText(describeExam(exam))}`, "END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
@@ -0,0 +1,193 @@
+import path from "node:path";
+
+import * as XLSX from "xlsx";
+
+import { parseCsvText } from "@/lib/knowledge";
+
+import { buildFlatScheduleSheets, type FlatScheduleField, type FlatScheduleRecord } from "./flatSchedule";
+import { cleanCell, foldText, normalizeCourseCode, parseDateValue } from "./normalize";
+import type { ImportCourseMeta, ImportDiagnostic, ScheduleImporter } from "./types";
+
+type CsvColumn =
+  | FlatScheduleField
+  | "semester"
+  | "semesterKey"
+  | "semesterStart"
+  | "semesterEnd"
+  | "courseNameEn"
+  | "courseNameVi"
+  | "credits"
+  | "prerequisite";
+
+const COLUMN_ALIASES: Record<string, CsvColumn> = {
+  semester: "semester",
+  semester_label: "semester",
+  semester_key: "semesterKey",
+  semester_start: "semesterStart",
+  start_date: "semesterStart",
+  semester_end: "semesterEnd",
+  end_date: "semesterEnd",
+  cohort: "cohort",
+  khoa: "cohort",
+  class_group: "classGroup",
+  class: "classGroup",
+  lop: "classGroup",
+  day: "day",
+  day_of_week: "day",
+  thu: "day",
+  session: "session",
+  buoi: "session",
+  start_time: "startTime",
+  time: "startTime",
+  end_time: "endTime",
+  duration: "durationMinutes",
+  duration_minutes: "durationMinutes",
+  raw_time: "rawTime",
+  weeks: "weekPattern",
+  week_pattern: "weekPattern",
+  tuan: "weekPattern",
+  class_start_date: "startDate",
+  from_date: "startDate",
+  class_end_date: "endDate",
+  to_date: "endDate",
+  room: "room",
+  phong: "room",
+  course_code: "courseCode",
+  course: "courseCode",
+  ma_hp: "courseCode",
+  course_name_en: "courseNameEn",
+  name_en: "courseNameEn",
+  course_name_vi: "courseNameVi",
+  name_vi: "courseNameVi",
+  credits: "credits",
+  prerequisite: "prerequisite",
+};
+
+const REQUIRED_COLUMNS: CsvColumn[] = ["semester", "cohort", "classGroup", "day", "courseCode"];
+
+const FLAT_FIELDS: FlatScheduleField[] = [
+  "cohort",
+  "classGroup",
+  "day",
+  "session",
+  "startTime",
+  "endTime",
+  "durationMinutes",
+  "rawTime",
+  "room",
+  "weekPattern",
+  "startDate",
+  "endDate",
+  "courseCode",
+];
+
+function decodeCsv(buffer: Buffer): string {
+  const text = buffer.toString("utf8");
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+function normalizeHeader(value: string): string {
+  return foldText(cleanCell(value))
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+function parseCsvSchedule(buffer: Buffer, sourceName: string) {
+  const sheetName = path.basename(sourceName);
+  const rows = parseCsvText(decodeCsv(buffer));
+  const headerIndex = rows.findIndex((row) => row.some((cell) => cleanCell(cell)));
+  if (headerIndex < 0) {
+    throw new Error(`${sheetName}: CSV file is empty.`);
+  }
+
+  const columnIndex = new Map<CsvColumn, number>();
+  rows[headerIndex].forEach((cell, index) => {
+    const column = COLUMN_ALIASES[normalizeHeader(cell)];
+    if (column && !columnIndex.has(column)) {
+      columnIndex.set(column, index);
+    }
+  });
+
+  const missing = REQUIRED_COLUMNS.filter((column) => !columnIndex.has(column));
+  if (missing.length > 0) {
+    throw new Error(`${sheetName}: CSV is missing required columns: ${missing.join(", ")}.`);
+  }
+
+  const read = (row: string[], column: CsvColumn): string => {
+    const index = columnIndex.get(column);
+    return index === undefined ? "" : cleanCell(row[index]);
+  };
+
+  const records: FlatScheduleRecord[] = [];
+  const catalog = new Map<string, ImportCourseMeta>();
+  const semesterLabels = new Set<string>();
+  let semesterKey = "";
+  let semesterStart = "";
+  let semesterEnd = "";
+
+  for (let rowIndex = headerIndex + 1; rowIndex < rows.length; rowIndex += 1) {
+    const row = rows[rowIndex];
+    if (!row.some((cell) => cleanCell(cell))) {
+      continue;
+    }
+
+    const label = read(row, "semester").toUpperCase();
+    if (label) {
+      semesterLabels.add(label);
+    }
+    semesterKey ||= read(row, "semesterKey");
+    semesterStart ||= read(row, "semesterStart");
+    semesterEnd ||= read(row, "semesterEnd");
+
+    const values: FlatScheduleRecord["values"] = {};
+    for (const field of FLAT_FIELDS) {
+      values[field] = read(row, field);
+    }
+    records.push({ row: rowIndex + 1, values });
+
+    const code = normalizeCourseCode(values.courseCode ?? "");
+    if (code && !catalog.has(code)) {
+      const credits = Number.parseInt(read(row, "credits"), 10);
+      catalog.set(code, {
+        code,
+        nameEn: read(row, "courseNameEn") || null,
+        nameVi: read(row, "courseNameVi") || null,
+        credits: Number.isFinite(credits) ? credits : null,
+        prerequisite: read(row, "prerequisite") || null,
+      });
+    }
+  }
+
+  if (semesterLabels.size > 1) {
+    throw new Error(`${sheetName}: CSV files must contain a single semester (found ${[...semesterLabels].join(", ")}).`);
+  }
+
+  const diagnostics: ImportDiagnostic[] = [];
+  return buildFlatScheduleSheets({
+    sheetName,
+    semester: {
+      label: [...semesterLabels][0] ?? "",
+      key: semesterKey || null,
+      startDate: parseDateValue(semesterStart),
+      endDate: parseDateValue(semesterEnd),
+    },
+    records,
+    catalog,
+    diagnostics,
+    columnOf: (field) => {
+      const index = columnIndex.get(field);
+      return index === undefined ? null : XLSX.utils.encode_col(index);
+    },
+  });
+}
+
+export const csvScheduleImporter: ScheduleImporter = {
+  format: "csv",
+  label: "Flat CSV (one row per class slot)",
+  extensions: [".csv"],
+  sniff: (buffer) => {
+    const firstLine = decodeCsv(buffer.subarray(0, 2048)).split(/\r?\n/)[0] ?? "";
+    return firstLine.includes(",") && !/^\s*[{[]/.test(firstLine);
+  },
+  parse: parseCsvSchedule,
+};
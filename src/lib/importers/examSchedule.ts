@@ -0,0 +1,252 @@
+import { ExamKind } from "@prisma/client";
+import * as XLSX from "xlsx";
+
+import {
+  cleanCell,
+  expandClassGroups,
+  foldText,
+  normalizeCourseCode,
+  parseEndTime,
+  parseSemesterKey,
+  parseStartTime,
+} from "./normalize";
+import type { ImportDiagnostic, ImportExam, ImportExamSheet } from "./types";
+
+type ExamColumn = "course" | "classGroup" | "kind" | "date" | "time" | "room" | "seats" | "note";
+
+const EXAM_SHEET_FILTER =
+  /^(?:(midterm|mid-term|final|giua ky|cuoi ky)\s+)?(?:exams?|lich thi)\s+((?:spring|summer|fall|autumn|winter)\s+\d{4})\s+(k\d+)$/i;
+
+const COLUMN_ALIASES: Record<string, ExamColumn> = {
+  "ma hp": "course",
+  "ma mon": "course",
+  course: "course",
+  "course code": "course",
+  lop: "classGroup",
+  class: "classGroup",
+  "class group": "classGroup",
+  loai: "kind",
+  "loai thi": "kind",
+  "ky thi": "kind",
+  type: "kind",
+  "exam type": "kind",
+  "ngay thi": "date",
+  ngay: "date",
+  date: "date",
+  "exam date": "date",
+  "gio thi": "time",
+  gio: "time",
+  "thoi gian": "time",
+  time: "time",
+  "phong thi": "room",
+  phong: "room",
+  room: "room",
+  sbd: "seats",
+  "so bao danh": "seats",
+  seats: "seats",
+  seat: "seats",
+  "seat numbers": "seats",
+  "ghi chu": "note",
+  note: "note",
+  notes: "note",
+};
+
+const REQUIRED_COLUMNS: ExamColumn[] = ["course", "classGroup", "date"];
+
+function normalizeHeader(value: unknown): string {
+  return foldText(cleanCell(value))
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+export function isExamSheetName(sheetName: string): boolean {
+  return EXAM_SHEET_FILTER.test(foldText(cleanCell(sheetName)));
+}
+
+export function parseExamKind(raw: string): ExamKind | null {
+  const folded = foldText(cleanCell(raw));
+  if (/mid|giua/.test(folded)) {
+    return ExamKind.MIDTERM;
+  }
+  if (/final|cuoi/.test(folded)) {
+    return ExamKind.FINAL;
+  }
+
+  return null;
+}
+
+function utcDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+}
+
+// Exam dates are calendar days, stored as UTC midnight so `toISOString().slice(0, 10)` gives the day back.
+export function parseExamDate(raw: unknown, fallbackYear: number): Date | null {
+  if (typeof raw === "number" && Number.isFinite(raw)) {
+    const parsed = XLSX.SSF.parse_date_code(raw);
+    return parsed ? utcDate(parsed.y, parsed.m, parsed.d) : null;
+  }
+
+  const text = cleanCell(raw);
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) {
+    return utcDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+
+  const dayMonth = text.match(/\b(\d{1,2})[/.-](\d{1,2})(?:[/.-](\d{2,4}))?\b/);
+  if (!dayMonth) {
+    return null;
+  }
+
+  const yearText = dayMonth[3];
+  const year = !yearText ? fallbackYear : yearText.length === 2 ? 2000 + Number(yearText) : Number(yearText);
+  return utcDate(year, Number(dayMonth[2]), Number(dayMonth[1]));
+}
+
+function formatExcelTime(raw: unknown): string {
+  if (typeof raw === "number" && raw > 0 && raw < 1) {
+    const minutes = Math.round(raw * 24 * 60);
+    return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+  }
+
+  return cleanCell(raw).replace(/(\d{1,2})\s*[hH]\s*(\d{2})?/g, (_, hour: string, minute?: string) => `${hour}:${minute ?? "00"}`);
+}
+
+function parseExamSheet(sheetName: string, rows: unknown[][]): ImportExamSheet {
+  const matched = foldText(cleanCell(sheetName)).match(EXAM_SHEET_FILTER);
+  if (!matched) {
+    throw new Error(`Sheet ${sheetName} is not an exam sheet.`);
+  }
+
+  const sheetKind = matched[1] ? parseExamKind(matched[1]) : null;
+  const semesterLabel = matched[2].toUpperCase();
+  const cohortCode = matched[3].toUpperCase();
+  const labelYear = Number(semesterLabel.match(/\d{4}/)?.[0] ?? new Date().getFullYear());
+
+  const diagnostics: ImportDiagnostic[] = [];
+  const exams: ImportExam[] = [];
+
+  const report = (
+    severity: ImportDiagnostic["severity"],
+    rowIndex: number,
+    columnIndex: number | null,
+    raw: string,
+    reason: string,
+  ) => {
+    diagnostics.push({
+      severity,
+      sheet: sheetName,
+      row: rowIndex + 1,
+      column: columnIndex === null ? null : XLSX.utils.encode_col(columnIndex),
+      raw,
+      reason,
+    });
+  };
+
+  const columnIndex = new Map<ExamColumn, number>();
+  const headerIndex = rows.findIndex((row) => {
+    const found = new Map<ExamColumn, number>();
+    row.forEach((cell, index) => {
+      const column = COLUMN_ALIASES[normalizeHeader(cell)];
+      if (column && !found.has(column)) {
+        found.set(column, index);
+      }
+    });
+
+    if (!REQUIRED_COLUMNS.every((column) => found.has(column))) {
+      return false;
+    }
+
+    for (const [column, index] of found) {
+      columnIndex.set(column, index);
+    }
+    return true;
+  });
+
+  if (headerIndex < 0) {
+    throw new Error(`Could not find exam header row (course, class, date) in sheet ${sheetName}`);
+  }
+
+  const read = (row: unknown[], column: ExamColumn): unknown => {
+    const index = columnIndex.get(column);
+    return index === undefined ? "" : row[index];
+  };
+
+  for (let rowIndex = headerIndex + 1; rowIndex < rows.length; rowIndex += 1) {
+    const row = rows[rowIndex] ?? [];
+    const courseText = cleanCell(read(row, "course"));
+    const classText = cleanCell(read(row, "classGroup"));
+    if (!courseText && !classText) {
+      continue;
+    }
+
+    const courseCode = normalizeCourseCode(courseText);
+    if (!courseCode) {
+      report("error", rowIndex, columnIndex.get("course") ?? null, courseText, "Unrecognized course code");
+      continue;
+    }
+
+    const classGroups = expandClassGroups(classText);
+    if (classGroups.length === 0) {
+      report("error", rowIndex, columnIndex.get("classGroup") ?? null, classText, "Could not split class group label");
+      continue;
+    }
+
+    const rawDate = read(row, "date");
+    const examDate = parseExamDate(rawDate, labelYear);
+    if (!examDate) {
+      report("error", rowIndex, columnIndex.get("date") ?? null, cleanCell(rawDate), "Unrecognized exam date");
+      continue;
+    }
+
+    const kindText = cleanCell(read(row, "kind"));
+    const kind = (kindText ? parseExamKind(kindText) : null) ?? sheetKind;
+    if (!kind) {
+      report("error", rowIndex, columnIndex.get("kind") ?? null, kindText, "Exam type must be midterm or final");
+      continue;
+    }
+
+    const timeText = formatExcelTime(read(row, "time"));
+    const startTime = parseStartTime(timeText);
+    if (timeText && !startTime) {
+      report("warning", rowIndex, columnIndex.get("time") ?? null, timeText, "Unrecognized time format, start time left empty");
+    }
+
+    for (const classGroupName of classGroups) {
+      exams.push({
+        classGroupName,
+        courseCode,
+        kind,
+        examDate,
+        startTime,
+        endTime: parseEndTime(timeText),
+        room: cleanCell(read(row, "room")) || null,
+        seats: cleanCell(read(row, "seats")) || null,
+        note: cleanCell(read(row, "note")) || null,
+        sourceSheet: sheetName,
+        sourceRow: rowIndex + 1,
+      });
+    }
+  }
+
+  return {
+    sheetName,
+    cohortCode,
+    semesterLabel,
+    semesterKey: parseSemesterKey(semesterLabel),
+    exams,
+    diagnostics,
+  };
+}
+
+export function parseExamWorkbook(workbook: XLSX.WorkBook): ImportExamSheet[] {
+  return workbook.SheetNames.filter(isExamSheetName).map((sheetName) => {
+    const rows = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], {
+      header: 1,
+      defval: "",
+      blankrows: false,
+    }) as unknown[][];
+
+    return parseExamSheet(sheetName, rows);
+  });
+}
@@ -0,0 +1,204 @@
+import { SessionPeriod } from "@prisma/client";
+
+import { computeEndTime, normalizeWeekPattern } from "@/lib/schedule-weeks";
+
+import {
+  cleanCell,
+  getSessionPeriod,
+  normalizeClassGroup,
+  normalizeCourseCode,
+  parseDateValue,
+  parseDayOfWeek,
+  parseEndTime,
+  parseSemesterKey,
+  parseStartTime,
+  sessionFromStartTime,
+} from "./normalize";
+import type { ImportCourseMeta, ImportDiagnostic, ImportEvent, ImportSheet } from "./types";
+
+export type FlatScheduleField =
+  | "cohort"
+  | "classGroup"
+  | "day"
+  | "session"
+  | "startTime"
+  | "endTime"
+  | "durationMinutes"
+  | "rawTime"
+  | "room"
+  | "weekPattern"
+  | "startDate"
+  | "endDate"
+  | "courseCode";
+
+export type FlatScheduleRecord = {
+  row: number;
+  values: Partial<Record<FlatScheduleField, string>>;
+};
+
+export type FlatSemester = {
+  label: string;
+  key: string | null;
+  startDate: Date | null;
+  endDate: Date | null;
+};
+
+type FlatScheduleInput = {
+  sheetName: string;
+  semester: FlatSemester;
+  records: FlatScheduleRecord[];
+  catalog: Map<string, ImportCourseMeta>;
+  diagnostics: ImportDiagnostic[];
+  columnOf: (field: FlatScheduleField) => string | null;
+};
+
+function parseSessionValue(raw: string, startTime: string | null): SessionPeriod {
+  const text = cleanCell(raw).toUpperCase();
+  if (!text) {
+    return sessionFromStartTime(startTime);
+  }
+
+  if (Object.values(SessionPeriod).includes(text as SessionPeriod)) {
+    return text as SessionPeriod;
+  }
+
+  return getSessionPeriod(text);
+}
+
+export function buildFlatScheduleSheets(input: FlatScheduleInput): ImportSheet[] {
+  const { sheetName, semester, records, catalog, diagnostics, columnOf } = input;
+
+  const semesterLabel = cleanCell(semester.label).toUpperCase();
+  if (!semesterLabel) {
+    throw new Error(`${sheetName}: missing semester label.`);
+  }
+
+  const semesterKey = parseSemesterKey(semester.key || semesterLabel);
+
+  const report = (
+    severity: ImportDiagnostic["severity"],
+    record: FlatScheduleRecord,
+    field: FlatScheduleField,
+    reason: string,
+  ) => {
+    diagnostics.push({
+      severity,
+      sheet: sheetName,
+      row: record.row,
+      column: columnOf(field),
+      raw: record.values[field] ?? "",
+      reason,
+    });
+  };
+
+  const eventsByCohort = new Map<string, ImportEvent[]>();
+
+  for (const record of records) {
+    const values = record.values;
+
+    const cohortCode = cleanCell(values.cohort).toUpperCase().replace(/\s+/g, "");
+    if (!cohortCode) {
+      report("error", record, "cohort", "Missing cohort code");
+      continue;
+    }
+
+    const rawClassGroup = cleanCell(values.classGroup);
+    const classGroupName = normalizeClassGroup(rawClassGroup) ?? rawClassGroup.toUpperCase().replace(/\s+/g, " ");
+    if (!classGroupName) {
+      report("error", record, "classGroup", "Missing class group");
+      continue;
+    }
+
+    const dayOfWeek = parseDayOfWeek(values.day ?? "");
+    if (!dayOfWeek) {
+      report("error", record, "day", "Unrecognized day of week");
+      continue;
+    }
+
+    const courseCode = normalizeCourseCode(values.courseCode ?? "");
+    if (!courseCode) {
+      report("error", record, "courseCode", "Unrecognized course code");
+      continue;
+    }
+
+    const rawTime = cleanCell(values.rawTime) || null;
+    const startTimeText = cleanCell(values.startTime);
+    const startTime = parseStartTime(startTimeText || rawTime || "");
+    if (startTimeText && !startTime) {
+      report("warning", record, "startTime", "Unrecognized time format, start time left empty");
+    }
+
+    const endTimeText = cleanCell(values.endTime);
+    const durationText = cleanCell(values.durationMinutes);
+    const duration = durationText ? Number.parseInt(durationText, 10) : null;
+    let endTime = endTimeText ? parseStartTime(endTimeText) : parseEndTime(rawTime ?? "");
+    if (endTimeText && !endTime) {
+      report("warning", record, "endTime", "Unrecognized end time, left empty");
+    }
+    if (!endTime && durationText) {
+      endTime = computeEndTime(startTime, duration);
+      if (!endTime) {
+        report("warning", record, "durationMinutes", "Could not derive end time from duration");
+      }
+    }
+
+    const weekText = cleanCell(values.weekPattern);
+    const weekPattern = normalizeWeekPattern(weekText);
+    if (weekText && !weekPattern) {
+      report("warning", record, "weekPattern", "Unrecognized week pattern, class kept for every week");
+    }
+
+    const startDateText = cleanCell(values.startDate);
+    const endDateText = cleanCell(values.endDate);
+    let startDate = parseDateValue(startDateText);
+    let endDate = parseDateValue(endDateText);
+    if (startDateText && !startDate) {
+      report("warning", record, "startDate", "Unrecognized class start date, left empty");
+    }
+    if (endDateText && !endDate) {
+      report("warning", record, "endDate", "Unrecognized class end date, left empty");
+    }
+    if (startDate && endDate && startDate > endDate) {
+      report("warning", record, "endDate", "Class end date is before its start date, dates ignored");
+      startDate = null;
+      endDate = null;
+    }
+
+    const session = parseSessionValue(values.session ?? "", startTime);
+    if (session === SessionPeriod.UNKNOWN) {
+      report("warning", record, "session", "Could not determine session");
+    }
+
+    const events = eventsByCohort.get(cohortCode) ?? [];
+    events.push({
+      classGroupName,
+      dayOfWeek,
+      session,
+      startTime,
+      endTime,
+      rawTime,
+      room: cleanCell(values.room) || null,
+      weekPattern,
+      startDate,
+      endDate,
+      courseCode,
+      sourceSheet: sheetName,
+      sourceRow: record.row,
+    });
+    eventsByCohort.set(cohortCode, events);
+  }
+
+  return [...eventsByCohort.entries()]
+    .sort(([left], [right]) => left.localeCompare(right))
+    .map(([cohortCode, events], index) => ({
+      sheetName,
+      cohortCode,
+      semesterLabel,
+      semesterKey,
+      startDate: semester.startDate,
+      endDate: semester.endDate,
+      events,
+      catalog,
+      diagnostics: index === 0 ? diagnostics : [],
+    }));
+}
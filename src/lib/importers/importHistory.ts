@@ -0,0 +1,607 @@
+import { createHash } from "node:crypto";
+
+import { DayOfWeek, ExamKind, PrismaClient, SessionPeriod, type Prisma } from "@prisma/client";
+
+import { reconcileCohortEntries } from "./reconcile";
+
+export type SnapshotEntry = {
+  courseCode: string;
+  dayOfWeek: DayOfWeek;
+  session: SessionPeriod;
+  startTime: string | null;
+  endTime?: string | null;
+  rawTime: string | null;
+  room: string | null;
+  weekPattern?: string | null;
+  startDate?: string | null;
+  endDate?: string | null;
+  sourceSheet: string;
+  sourceRow: number;
+};
+
+export type SnapshotExam = {
+  courseCode: string;
+  kind: ExamKind;
+  examDate: string;
+  startTime: string | null;
+  endTime: string | null;
+  room: string | null;
+  seats: string | null;
+  note: string | null;
+  sourceSheet: string;
+  sourceRow: number;
+};
+
+export type SnapshotPayload = {
+  version: 1;
+  semester: {
+    key: string;
+    label: string;
+    startDate: string | null;
+    endDate: string | null;
+    sourceFile: string;
+  } | null;
+  cohorts: Array<{
+    code: string;
+    existed: boolean;
+    classGroups: Array<{
+      name: string;
+      entries: SnapshotEntry[];
+      exams?: SnapshotExam[];
+    }>;
+  }>;
+};
+
+export type RollbackSummary = {
+  importRunId: string;
+  semesterKeys: string[];
+  deletedSemesters: string[];
+  cohorts: string[];
+  classGroups: number;
+  entries: number;
+};
+
+const ROLLBACK_TIMEOUT_MS = 60_000;
+
+export function parseSnapshotPayload(raw: string): SnapshotPayload {
+  const payload = JSON.parse(raw) as SnapshotPayload;
+  if (payload?.version !== 1 || !Array.isArray(payload.cohorts)) {
+    throw new Error("Unsupported import snapshot format.");
+  }
+
+  return payload;
+}
+
+function toDateOrNull(value: string | null): Date | null {
+  if (!value) {
+    return null;
+  }
+
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+// Runs logged before the job queue recorded a finished import as "SUCCESS".
+export const SUCCEEDED_IMPORT_STATUSES = ["SUCCEEDED", "SUCCESS"];
+
+export function hashImportFile(buffer: Buffer): string {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+// `includeRolledBack` also counts imports an admin has since rolled back, so an unattended re-import
+// cannot silently undo the rollback.
+export async function findDuplicateImport(
+  prisma: PrismaClient,
+  fileHash: string,
+  { includeRolledBack = false }: { includeRolledBack?: boolean } = {},
+) {
+  return prisma.importRun.findFirst({
+    where: {
+      fileHash,
+      status: {
+        in: SUCCEEDED_IMPORT_STATUSES,
+      },
+      ...(includeRolledBack ? {} : { rolledBackAt: null }),
+    },
+    orderBy: {
+      startedAt: "desc",
+    },
+    select: {
+      id: true,
+      sourceFile: true,
+      startedAt: true,
+      rolledBackAt: true,
+    },
+  });
+}
+
+export async function captureImportSnapshot(
+  prisma: PrismaClient,
+  importRunId: string,
+  semesterKey: string,
+  cohortCodes: string[],
+): Promise<void> {
+  const semester = await prisma.semester.findUnique({
+    where: {
+      key: semesterKey,
+    },
+    select: {
+      key: true,
+      label: true,
+      startDate: true,
+      endDate: true,
+      sourceFile: true,
+      cohorts: {
+        where: {
+          code: {
+            in: cohortCodes,
+          },
+        },
+        select: {
+          code: true,
+          classGroups: {
+            select: {
+              name: true,
+              entries: {
+                select: {
+                  dayOfWeek: true,
+                  session: true,
+                  startTime: true,
+                  endTime: true,
+                  rawTime: true,
+                  room: true,
+                  weekPattern: true,
+                  startDate: true,
+                  endDate: true,
+                  sourceSheet: true,
+                  sourceRow: true,
+                  course: {
+                    select: {
+                      code: true,
+                    },
+                  },
+                },
+              },
+              exams: {
+                select: {
+                  kind: true,
+                  examDate: true,
+                  startTime: true,
+                  endTime: true,
+                  room: true,
+                  seats: true,
+                  note: true,
+                  sourceSheet: true,
+                  sourceRow: true,
+                  course: {
+                    select: {
+                      code: true,
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  const payload: SnapshotPayload = {
+    version: 1,
+    semester: semester
+      ? {
+          key: semester.key,
+          label: semester.label,
+          startDate: semester.startDate?.toISOString() ?? null,
+          endDate: semester.endDate?.toISOString() ?? null,
+          sourceFile: semester.sourceFile,
+        }
+      : null,
+    cohorts: [...new Set(cohortCodes)].map((code) => {
+      const cohort = semester?.cohorts.find((item) => item.code === code);
+      return {
+        code,
+        existed: Boolean(cohort),
+        classGroups: (cohort?.classGroups ?? []).map((classGroup) => ({
+          name: classGroup.name,
+          entries: classGroup.entries.map((entry) => ({
+            courseCode: entry.course.code,
+            dayOfWeek: entry.dayOfWeek,
+            session: entry.session,
+            startTime: entry.startTime,
+            endTime: entry.endTime,
+            rawTime: entry.rawTime,
+            room: entry.room,
+            weekPattern: entry.weekPattern,
+            startDate: entry.startDate?.toISOString() ?? null,
+            endDate: entry.endDate?.toISOString() ?? null,
+            sourceSheet: entry.sourceSheet,
+            sourceRow: entry.sourceRow,
+          })),
+          exams: classGroup.exams.map((exam) => ({
+            courseCode: exam.course.code,
+            kind: exam.kind,
+            examDate: exam.examDate.toISOString(),
+            startTime: exam.startTime,
+            endTime: exam.endTime,
+            room: exam.room,
+            seats: exam.seats,
+            note: exam.note,
+            sourceSheet: exam.sourceSheet,
+            sourceRow: exam.sourceRow,
+          })),
+        })),
+      };
+    }),
+  };
+
+  await prisma.importSnapshot.create({
+    data: {
+      importRunId,
+      semesterKey,
+      payload: JSON.stringify(payload),
+    },
+  });
+}
+
+async function restoreCohortExams(
+  tx: Prisma.TransactionClient,
+  semesterId: string,
+  cohortId: string,
+  cohort: SnapshotPayload["cohorts"][number],
+  courses: Array<{ id: string; code: string }>,
+): Promise<void> {
+  const classGroups = await tx.classGroup.findMany({
+    where: {
+      cohortId,
+    },
+    select: {
+      id: true,
+      name: true,
+    },
+  });
+  const classGroupIdByName = new Map(classGroups.map((classGroup) => [classGroup.name, classGroup.id]));
+  const courseIdByCode = new Map(courses.map((course) => [course.code, course.id]));
+
+  await tx.examSlot.deleteMany({
+    where: {
+      semesterId,
+      classGroupId: {
+        in: classGroups.map((classGroup) => classGroup.id),
+      },
+    },
+  });
+
+  const data: Prisma.ExamSlotCreateManyInput[] = cohort.classGroups.flatMap((group) => {
+    const classGroupId = classGroupIdByName.get(group.name);
+    return (group.exams ?? []).flatMap((exam) => {
+      const courseId = courseIdByCode.get(exam.courseCode);
+      const examDate = toDateOrNull(exam.examDate);
+      return classGroupId && courseId && examDate
+        ? [
+            {
+              semesterId,
+              classGroupId,
+              courseId,
+              kind: exam.kind,
+              examDate,
+              startTime: exam.startTime,
+              endTime: exam.endTime,
+              room: exam.room,
+              seats: exam.seats,
+              note: exam.note,
+              sourceSheet: exam.sourceSheet,
+              sourceRow: exam.sourceRow,
+            },
+          ]
+        : [];
+    });
+  });
+
+  if (data.length > 0) {
+    await tx.examSlot.createMany({
+      data,
+    });
+  }
+}
+
+async function restoreCohort(
+  tx: Prisma.TransactionClient,
+  semesterId: string,
+  cohort: SnapshotPayload["cohorts"][number],
+): Promise<{ classGroups: number; entries: number }> {
+  if (!cohort.existed) {
+    await tx.cohort.deleteMany({
+      where: {
+        semesterId,
+        code: cohort.code,
+      },
+    });
+    return { classGroups: 0, entries: 0 };
+  }
+
+  const restoredCohort = await tx.cohort.upsert({
+    where: {
+      semesterId_code: {
+        semesterId,
+        code: cohort.code,
+      },
+    },
+    update: {},
+    create: {
+      semesterId,
+      code: cohort.code,
+    },
+  });
+
+  const courseCodes = [
+    ...new Set(
+      cohort.classGroups.flatMap((group) => [
+        ...group.entries.map((entry) => entry.courseCode),
+        ...(group.exams ?? []).map((exam) => exam.courseCode),
+      ]),
+    ),
+  ];
+  for (const code of courseCodes) {
+    await tx.course.upsert({
+      where: {
+        code,
+      },
+      update: {},
+      create: {
+        code,
+      },
+    });
+  }
+
+  const courses = await tx.course.findMany({
+    where: {
+      code: {
+        in: courseCodes,
+      },
+    },
+    select: {
+      id: true,
+      code: true,
+    },
+  });
+
+  const restored = await reconcileCohortEntries(tx, {
+    semesterId,
+    cohortId: restoredCohort.id,
+    entriesByGroup: new Map(
+      cohort.classGroups.map((group) => [
+        group.name,
+        group.entries.map((entry) => ({
+          ...entry,
+          endTime: entry.endTime ?? null,
+          weekPattern: entry.weekPattern ?? null,
+          startDate: toDateOrNull(entry.startDate ?? null),
+          endDate: toDateOrNull(entry.endDate ?? null),
+        })),
+      ]),
+    ),
+    courseIdByCode: new Map(courses.map((course) => [course.code, course.id])),
+  });
+
+  // Snapshots taken before exams were tracked carry no `exams` key; leave stored exams alone for those.
+  if (cohort.classGroups.some((group) => group.exams)) {
+    await restoreCohortExams(tx, semesterId, restoredCohort.id, cohort, courses);
+  }
+
+  return { classGroups: restored.classGroups, entries: restored.entries };
+}
+
+// The run created the semester: drop only the cohorts it wrote, and the semester itself once nothing else is left in it.
+async function removeImportedCohorts(
+  tx: Prisma.TransactionClient,
+  semesterKey: string,
+  payload: SnapshotPayload,
+): Promise<boolean> {
+  const semester = await tx.semester.findUnique({
+    where: {
+      key: semesterKey,
+    },
+    select: {
+      id: true,
+    },
+  });
+  if (!semester) {
+    return false;
+  }
+
+  await tx.cohort.deleteMany({
+    where: {
+      semesterId: semester.id,
+      code: {
+        in: payload.cohorts.map((cohort) => cohort.code),
+      },
+    },
+  });
+
+  const remainingCohorts = await tx.cohort.count({
+    where: {
+      semesterId: semester.id,
+    },
+  });
+  if (remainingCohorts > 0) {
+    return false;
+  }
+
+  await tx.semester.delete({
+    where: {
+      id: semester.id,
+    },
+  });
+  return true;
+}
+
+async function restoreSemesterSnapshot(
+  tx: Prisma.TransactionClient,
+  semesterKey: string,
+  payload: SnapshotPayload,
+): Promise<{ semesterDeleted: boolean; classGroups: number; entries: number }> {
+  if (!payload.semester) {
+    const semesterDeleted = await removeImportedCohorts(tx, semesterKey, payload);
+    return { semesterDeleted, classGroups: 0, entries: 0 };
+  }
+
+  const semesterData = {
+    label: payload.semester.label,
+    startDate: toDateOrNull(payload.semester.startDate),
+    endDate: toDateOrNull(payload.semester.endDate),
+    sourceFile: payload.semester.sourceFile,
+  };
+
+  const semester = await tx.semester.upsert({
+    where: {
+      key: semesterKey,
+    },
+    update: semesterData,
+    create: {
+      key: semesterKey,
+      ...semesterData,
+    },
+  });
+
+  const result = { semesterDeleted: false, classGroups: 0, entries: 0 };
+  for (const cohort of payload.cohorts) {
+    const restored = await restoreCohort(tx, semester.id, cohort);
+    result.classGroups += restored.classGroups;
+    result.entries += restored.entries;
+  }
+
+  return result;
+}
+
+export async function rollbackImportRun(
+  prisma: PrismaClient,
+  importRunId: string,
+  actor: string,
+): Promise<RollbackSummary> {
+  const importRun = await prisma.importRun.findUnique({
+    where: {
+      id: importRunId,
+    },
+    include: {
+      snapshots: true,
+    },
+  });
+
+  if (!importRun) {
+    throw new Error("Import run not found.");
+  }
+  if (importRun.snapshots.length === 0) {
+    throw new Error("This import run has no snapshot to roll back to.");
+  }
+  if (importRun.rolledBackAt) {
+    throw new Error("This import run has already been rolled back.");
+  }
+
+  const snapshots = importRun.snapshots.map((snapshot) => ({
+    semesterKey: snapshot.semesterKey,
+    payload: parseSnapshotPayload(snapshot.payload),
+  }));
+
+  // Restoring this snapshot would silently discard what later imports wrote to the same semesters.
+  const newerRuns = await prisma.importRun.findMany({
+    where: {
+      id: {
+        not: importRunId,
+      },
+      startedAt: {
+        gt: importRun.startedAt,
+      },
+      status: {
+        in: ["QUEUED", "RUNNING", ...SUCCEEDED_IMPORT_STATUSES],
+      },
+      rolledBackAt: null,
+      snapshots: {
+        some: {
+          semesterKey: {
+            in: snapshots.map((snapshot) => snapshot.semesterKey),
+          },
+        },
+      },
+    },
+    orderBy: {
+      startedAt: "desc",
+    },
+    select: {
+      sourceFile: true,
+      startedAt: true,
+    },
+  });
+  if (newerRuns.length > 0) {
+    throw new Error(
+      `Roll back the ${newerRuns.length} newer import run(s) of the same semester first (latest: ${newerRuns[0].sourceFile}, ${newerRuns[0].startedAt.toISOString()}).`,
+    );
+  }
+
+  const summary = await prisma.$transaction(
+    async (tx) => {
+      const result: RollbackSummary = {
+        importRunId,
+        semesterKeys: snapshots.map((snapshot) => snapshot.semesterKey),
+        deletedSemesters: [],
+        cohorts: snapshots.flatMap((snapshot) => snapshot.payload.cohorts.map((cohort) => cohort.code)),
+        classGroups: 0,
+        entries: 0,
+      };
+
+      for (const snapshot of snapshots) {
+        const restored = await restoreSemesterSnapshot(tx, snapshot.semesterKey, snapshot.payload);
+        if (restored.semesterDeleted) {
+          result.deletedSemesters.push(snapshot.semesterKey);
+        }
+        result.classGroups += restored.classGroups;
+        result.entries += restored.entries;
+      }
+
+      return result;
+    },
+    {
+      timeout: ROLLBACK_TIMEOUT_MS,
+    },
+  );
+
+  const finishedAt = new Date();
+  const remainingKeys = summary.semesterKeys.filter((key) => !summary.deletedSemesters.includes(key));
+  const semester =
+    remainingKeys.length === 0
+      ? null
+      : await prisma.semester.findUnique({
+          where: {
+            key: remainingKeys[0],
+          },
+          select: {
+            id: true,
+          },
+        });
+
+  await prisma.importRun.update({
+    where: {
+      id: importRunId,
+    },
+    data: {
+      rolledBackAt: finishedAt,
+      rolledBackBy: actor,
+    },
+  });
+
+  await prisma.importRun.create({
+    data: {
+      semesterId: semester?.id ?? null,
+      sourceFile: importRun.sourceFile,
+      status: "ROLLBACK",
+      note: `Rolled back import run ${importRunId} (${summary.semesterKeys.join(", ")}) by ${actor}`,
+      cohortCodes: summary.cohorts.join(","),
+      classGroupCount: summary.classGroups,
+      entryCount: summary.entries,
+      finishedAt,
+    },
+  });
+
+  return summary;
+}
@@ -0,0 +1,271 @@
+import { PrismaClient, type ImportRun } from "@prisma/client";
+
+import { findDuplicateImport, hashImportFile } from "./importHistory";
+import { parseScheduleFile, type ScheduleImportOptions } from "./registry";
+import { type ImportSummary, writeImport } from "./scheduleWriter";
+
+export type ImportJob = {
+  id: string;
+  status: string;
+  sourceFile: string;
+  format: string | null;
+  note: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+  progress: {
+    sheets: number;
+    totalSheets: number | null;
+    rows: number;
+    totalRows: number | null;
+  };
+  summary: ImportSummary | null;
+};
+
+// Every status or progress write bumps `updatedAt`; a pending run silent for this long lost its worker.
+const STALE_JOB_MS = 10 * 60_000;
+const OTHER_IMPORT_POLL_MS = 5_000;
+
+type ImportJobInput = {
+  buffer: Buffer;
+  sourceName: string;
+  options: ScheduleImportOptions;
+  requestedBy: string | null;
+  skipRolledBack?: boolean;
+};
+
+type ImportJobState = {
+  active: Set<string>;
+  queue: Promise<void>;
+};
+
+declare global {
+  var importJobState: ImportJobState | undefined;
+}
+
+const jobState: ImportJobState = (globalThis.importJobState ??= {
+  active: new Set<string>(),
+  queue: Promise.resolve(),
+});
+
+function parseSummary(raw: string | null): ImportSummary | null {
+  if (!raw) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(raw) as ImportSummary;
+  } catch {
+    return null;
+  }
+}
+
+function toImportJob(run: ImportRun): ImportJob {
+  return {
+    id: run.id,
+    status: run.status,
+    sourceFile: run.sourceFile,
+    format: run.format,
+    note: run.note,
+    startedAt: run.startedAt.toISOString(),
+    finishedAt: run.finishedAt?.toISOString() ?? null,
+    progress: {
+      sheets: run.processedSheets,
+      totalSheets: run.totalSheets,
+      rows: run.processedRows,
+      totalRows: run.totalRows,
+    },
+    summary: parseSummary(run.summary),
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// The queue only serializes this process. Another instance or the import:watch script shares the database,
+// so a job also waits for any run queued before it that is still running elsewhere; the waiting run keeps
+// writing its note so it does not look abandoned in turn.
+async function waitForEarlierImports(prisma: PrismaClient, run: ImportRun): Promise<void> {
+  for (;;) {
+    const blocking = await prisma.importRun.findFirst({
+      where: {
+        id: {
+          not: run.id,
+        },
+        status: "RUNNING",
+        startedAt: {
+          lt: run.startedAt,
+        },
+        updatedAt: {
+          gt: new Date(Date.now() - STALE_JOB_MS),
+        },
+      },
+      select: {
+        id: true,
+        sourceFile: true,
+      },
+    });
+    if (!blocking) {
+      return;
+    }
+
+    await prisma.importRun.update({
+      where: {
+        id: run.id,
+      },
+      data: {
+        note: `Waiting for import ${blocking.id} (${blocking.sourceFile}) to finish`,
+      },
+    });
+    await sleep(OTHER_IMPORT_POLL_MS);
+  }
+}
+
+async function runImportJob(prisma: PrismaClient, queuedRun: ImportRun, input: ImportJobInput): Promise<void> {
+  const importRunId = queuedRun.id;
+  try {
+    const fileHash = hashImportFile(input.buffer);
+    const duplicate = input.options.force
+      ? null
+      : await findDuplicateImport(prisma, fileHash, { includeRolledBack: input.skipRolledBack });
+    if (duplicate) {
+      await prisma.importRun.update({
+        where: {
+          id: importRunId,
+        },
+        data: {
+          status: "SKIPPED",
+          fileHash,
+          note: duplicate.rolledBackAt
+            ? `Identical file was imported by run ${duplicate.id} (${duplicate.sourceFile}) and rolled back; upload it with force to import it again`
+            : `Identical file already imported by run ${duplicate.id} (${duplicate.sourceFile})`,
+          finishedAt: new Date(),
+        },
+      });
+      return;
+    }
+
+    await prisma.importRun.update({
+      where: {
+        id: importRunId,
+      },
+      data: {
+        status: "RUNNING",
+        fileHash,
+        note: "Parsing file",
+      },
+    });
+    await waitForEarlierImports(prisma, queuedRun);
+
+    const parsedImport = parseScheduleFile(input.buffer, input.sourceName, input.options.format);
+    await writeImport(prisma, parsedImport, { ...input.options, importRunId });
+  } catch (error) {
+    await prisma.importRun.update({
+      where: {
+        id: importRunId,
+      },
+      data: {
+        status: "FAILED",
+        note: error instanceof Error ? error.message : "Unknown import error",
+        finishedAt: new Date(),
+      },
+    });
+  } finally {
+    jobState.active.delete(importRunId);
+  }
+}
+
+async function scheduleImportJob(prisma: PrismaClient, input: ImportJobInput) {
+  const run = await prisma.importRun.create({
+    data: {
+      sourceFile: input.sourceName,
+      format: input.options.format ?? null,
+      status: "QUEUED",
+      note: "Waiting for the import worker",
+      requestedBy: input.requestedBy,
+    },
+  });
+
+  jobState.active.add(run.id);
+  jobState.queue = jobState.queue
+    .then(() => runImportJob(prisma, run, input))
+    .catch((error) => {
+      console.error("Import job failed to record its result:", error);
+    });
+
+  return { run, done: jobState.queue };
+}
+
+export async function enqueueImportJob(prisma: PrismaClient, input: ImportJobInput): Promise<ImportJob> {
+  const { run } = await scheduleImportJob(prisma, input);
+  return toImportJob(run);
+}
+
+// For callers without a poller (the import:watch script): queued like an upload, resolved once it finished.
+export async function runImportJobToCompletion(prisma: PrismaClient, input: ImportJobInput): Promise<ImportJob> {
+  const { run, done } = await scheduleImportJob(prisma, input);
+  await done;
+
+  const finished = await prisma.importRun.findUnique({
+    where: {
+      id: run.id,
+    },
+  });
+  return toImportJob(finished ?? run);
+}
+
+// The in-memory set only knows this process's jobs, so runs started elsewhere (another instance,
+// the import:watch script) are judged by their last write instead.
+async function isAbandoned(prisma: PrismaClient, run: ImportRun): Promise<boolean> {
+  if (jobState.active.has(run.id)) {
+    return false;
+  }
+
+  const cutoff = new Date(Date.now() - STALE_JOB_MS);
+  if (run.updatedAt > cutoff) {
+    return false;
+  }
+  if (run.status !== "QUEUED") {
+    return true;
+  }
+
+  // A queued run waits behind the ones ahead of it and stays alive while the worker keeps them moving.
+  const busyRuns = await prisma.importRun.count({
+    where: {
+      status: "RUNNING",
+      updatedAt: {
+        gt: cutoff,
+      },
+    },
+  });
+  return busyRuns === 0;
+}
+
+export async function getImportJob(prisma: PrismaClient, importRunId: string): Promise<ImportJob | null> {
+  const run = await prisma.importRun.findUnique({
+    where: {
+      id: importRunId,
+    },
+  });
+
+  if (!run) {
+    return null;
+  }
+
+  const isPending = run.status === "QUEUED" || run.status === "RUNNING";
+  if (isPending && (await isAbandoned(prisma, run))) {
+    const failed = await prisma.importRun.update({
+      where: {
+        id: run.id,
+      },
+      data: {
+        status: "FAILED",
+        note: "The import worker stopped before this job finished.",
+        finishedAt: new Date(),
+      },
+    });
+    return toImportJob(failed);
+  }
+
+  return toImportJob(run);
+}
@@ -0,0 +1,110 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import { PrismaClient } from "@prisma/client";
+
+import { runImportJobToCompletion } from "./importJobs";
+import { SCHEDULE_IMPORTERS } from "./registry";
+
+const WATCHER_ACTOR = "import-watcher";
+
+export type WatchedImportResult = {
+  filePath: string;
+  status: "SUCCEEDED" | "SKIPPED" | "FAILED";
+  importRunId: string | null;
+  message: string;
+};
+
+type ImportWatcherOptions = {
+  directory: string;
+  intervalMs: number;
+  onResult: (result: WatchedImportResult) => void;
+  onError: (error: unknown) => void;
+};
+
+type ObservedFile = {
+  size: number;
+  mtimeMs: number;
+  handled: boolean;
+};
+
+function listCandidateFiles(directory: string): string[] {
+  const extensions = new Set(SCHEDULE_IMPORTERS.flatMap((importer) => importer.extensions));
+
+  return fs
+    .readdirSync(directory, { withFileTypes: true })
+    .filter((entry) => entry.isFile() && !entry.name.startsWith(".") && !entry.name.startsWith("~$"))
+    .filter((entry) => extensions.has(path.extname(entry.name).toLowerCase()))
+    .map((entry) => path.join(directory, entry.name))
+    .sort((a, b) => a.localeCompare(b));
+}
+
+// Goes through the same job queue as admin uploads, so it never writes alongside another import. A file
+// whose import was rolled back is skipped as well: re-importing it would silently undo the rollback.
+export async function importWatchedFile(prisma: PrismaClient, filePath: string): Promise<WatchedImportResult> {
+  const job = await runImportJobToCompletion(prisma, {
+    buffer: fs.readFileSync(filePath),
+    sourceName: filePath,
+    options: {},
+    requestedBy: WATCHER_ACTOR,
+    skipRolledBack: true,
+  });
+
+  const status = job.status === "SUCCEEDED" || job.status === "SKIPPED" ? job.status : "FAILED";
+  return {
+    filePath,
+    status,
+    importRunId: job.id,
+    message: job.note ?? (status === "FAILED" ? "Unknown import error" : ""),
+  };
+}
+
+export function startImportWatcher(prisma: PrismaClient, options: ImportWatcherOptions) {
+  const observed = new Map<string, ObservedFile>();
+  let scanning = false;
+
+  async function scan() {
+    if (scanning) {
+      return;
+    }
+
+    scanning = true;
+    try {
+      // One file failing (deleted mid-scan, unreadable) must not hold up the rest of the directory.
+      for (const filePath of listCandidateFiles(options.directory)) {
+        try {
+          const stat = fs.statSync(filePath);
+          const previous = observed.get(filePath);
+
+          // Wait for one unchanged interval so files still being copied are not imported half-written.
+          if (!previous || previous.size !== stat.size || previous.mtimeMs !== stat.mtimeMs) {
+            observed.set(filePath, { size: stat.size, mtimeMs: stat.mtimeMs, handled: false });
+            continue;
+          }
+
+          if (previous.handled) {
+            continue;
+          }
+
+          previous.handled = true;
+          options.onResult(await importWatchedFile(prisma, filePath));
+        } catch (error) {
+          options.onError(error);
+        }
+      }
+    } catch (error) {
+      options.onError(error);
+    } finally {
+      scanning = false;
+    }
+  }
+
+  void scan();
+  const timer = setInterval(() => {
+    void scan();
+  }, options.intervalMs);
+
+  return {
+    stop: () => clearInterval(timer),
+  };
+}
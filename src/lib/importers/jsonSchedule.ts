@@ -0,0 +1,99 @@
+import path from "node:path";
+
+import { buildFlatScheduleSheets, type FlatScheduleField, type FlatScheduleRecord } from "./flatSchedule";
+import { cleanCell, normalizeCourseCode, parseDateValue } from "./normalize";
+import type { ImportCourseMeta, ImportDiagnostic, ScheduleImporter } from "./types";
+
+type JsonScheduleFile = {
+  semester?: {
+    label?: unknown;
+    key?: unknown;
+    startDate?: unknown;
+    endDate?: unknown;
+  };
+  courses?: Array<Record<string, unknown>>;
+  entries?: Array<Record<string, unknown>>;
+};
+
+const FLAT_FIELDS: FlatScheduleField[] = [
+  "cohort",
+  "classGroup",
+  "day",
+  "session",
+  "startTime",
+  "endTime",
+  "durationMinutes",
+  "rawTime",
+  "room",
+  "weekPattern",
+  "startDate",
+  "endDate",
+  "courseCode",
+];
+
+function readText(value: unknown): string {
+  return typeof value === "string" || typeof value === "number" ? cleanCell(value) : "";
+}
+
+function parseJsonSchedule(buffer: Buffer, sourceName: string) {
+  const sheetName = path.basename(sourceName);
+
+  let data: JsonScheduleFile;
+  try {
+    data = JSON.parse(buffer.toString("utf8").replace(/^\uFEFF/, "")) as JsonScheduleFile;
+  } catch (error) {
+    throw new Error(`${sheetName}: invalid JSON (${error instanceof Error ? error.message : "parse error"}).`);
+  }
+
+  if (!data || typeof data !== "object" || !Array.isArray(data.entries)) {
+    throw new Error(`${sheetName}: JSON schedule must contain an "entries" array.`);
+  }
+
+  const catalog = new Map<string, ImportCourseMeta>();
+  for (const course of Array.isArray(data.courses) ? data.courses : []) {
+    const code = normalizeCourseCode(readText(course.code));
+    if (!code) {
+      continue;
+    }
+
+    const credits = typeof course.credits === "number" ? course.credits : Number.parseInt(readText(course.credits), 10);
+    catalog.set(code, {
+      code,
+      nameEn: readText(course.nameEn) || null,
+      nameVi: readText(course.nameVi) || null,
+      credits: Number.isFinite(credits) ? credits : null,
+      prerequisite: readText(course.prerequisite) || null,
+    });
+  }
+
+  const records: FlatScheduleRecord[] = data.entries.map((entry, index) => {
+    const values: FlatScheduleRecord["values"] = {};
+    for (const field of FLAT_FIELDS) {
+      values[field] = readText(entry?.[field]);
+    }
+    return { row: index + 1, values };
+  });
+
+  const diagnostics: ImportDiagnostic[] = [];
+  return buildFlatScheduleSheets({
+    sheetName,
+    semester: {
+      label: readText(data.semester?.label),
+      key: readText(data.semester?.key) || null,
+      startDate: parseDateValue(readText(data.semester?.startDate)),
+      endDate: parseDateValue(readText(data.semester?.endDate)),
+    },
+    records,
+    catalog,
+    diagnostics,
+    columnOf: (field) => field,
+  });
+}
+
+export const jsonScheduleImporter: ScheduleImporter = {
+  format: "json",
+  label: "JSON (semester + courses + entries)",
+  extensions: [".json"],
+  sniff: (buffer) => /^\s*\{/.test(buffer.subarray(0, 64).toString("utf8").replace(/^\uFEFF/, "")),
+  parse: parseJsonSchedule,
+};
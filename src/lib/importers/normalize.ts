@@ -0,0 +1,177 @@
+import { DayOfWeek, SessionPeriod } from "@prisma/client";
+
+export function cleanCell(value: unknown): string {
+  return String(value ?? "")
+    .replace(/\u00a0/g, " ")
+    .trim();
+}
+
+export function foldText(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+export function normalizeCourseCode(raw: string): string | null {
+  const text = cleanCell(raw).toUpperCase().replace(/\s+/g, " ");
+  if (!text) {
+    return null;
+  }
+
+  const compact = text.replace(/\s+/g, "");
+  const matched = compact.match(/^([A-Z]{2,4})(\d{3,4})$/);
+  if (!matched) {
+    return null;
+  }
+
+  return `${matched[1]} ${matched[2]}`;
+}
+
+export function normalizeClassGroup(raw: string): string | null {
+  const matched = raw.toUpperCase().match(/IT\s*0?(\d{1,2})/);
+  if (!matched) {
+    return null;
+  }
+
+  const index = Number.parseInt(matched[1], 10);
+  if (!Number.isFinite(index)) {
+    return null;
+  }
+
+  return `IT ${String(index).padStart(2, "0")}`;
+}
+
+export function expandClassGroups(label: string): string[] {
+  const numbers = [...label.toUpperCase().matchAll(/IT\s*0?(\d{1,2})/g)]
+    .map((match) => Number.parseInt(match[1], 10))
+    .filter((value) => Number.isFinite(value));
+
+  if (numbers.length === 0) {
+    return [];
+  }
+
+  if (numbers.length >= 2 && label.includes("-")) {
+    const [start, end] = [numbers[0], numbers[1]];
+    if (start < end && end - start <= 20) {
+      const expanded: string[] = [];
+      for (let current = start; current <= end; current += 1) {
+        expanded.push(`IT ${String(current).padStart(2, "0")}`);
+      }
+      return expanded;
+    }
+  }
+
+  return [...new Set(numbers.map((value) => `IT ${String(value).padStart(2, "0")}`))];
+}
+
+export function getSessionPeriod(label: string): SessionPeriod {
+  const normalized = foldText(label);
+
+  if (normalized.includes("sang") || normalized.includes("morning")) {
+    return SessionPeriod.MORNING;
+  }
+
+  if (normalized.includes("chieu") || normalized.includes("afternoon")) {
+    return SessionPeriod.AFTERNOON;
+  }
+
+  if (normalized.includes("toi") || normalized.includes("evening")) {
+    return SessionPeriod.EVENING;
+  }
+
+  return SessionPeriod.UNKNOWN;
+}
+
+export function sessionFromStartTime(startTime: string | null): SessionPeriod {
+  const hour = startTime ? Number.parseInt(startTime.split(":")[0], 10) : Number.NaN;
+  if (!Number.isFinite(hour)) {
+    return SessionPeriod.UNKNOWN;
+  }
+
+  if (hour < 12) {
+    return SessionPeriod.MORNING;
+  }
+
+  return hour < 17 ? SessionPeriod.AFTERNOON : SessionPeriod.EVENING;
+}
+
+export function parseStartTime(raw: string): string | null {
+  const matched = cleanCell(raw).match(/\b([01]?\d|2[0-3]):[0-5]\d\b/);
+  return matched ? matched[0] : null;
+}
+
+export function parseEndTime(raw: string): string | null {
+  const matched = cleanCell(raw).match(/\b(?:[01]?\d|2[0-3]):[0-5]\d\s*[-–]\s*((?:[01]?\d|2[0-3]):[0-5]\d)\b/);
+  return matched ? matched[1] : null;
+}
+
+export function extractWeekText(raw: string): string | null {
+  const matched = cleanCell(raw).match(/(?:\bweeks?|\bW|tuần|tuan)\s*\.?\s*(!?\d{1,2}(?:\s*[-–,;!]\s*!?\d{1,2})*)/i);
+  return matched ? matched[1] : null;
+}
+
+export function parseDayMonthRange(raw: string, year: number): { startDate: Date; endDate: Date } | null {
+  const matched = cleanCell(raw).match(/\b(\d{1,2})\/(\d{1,2})\s*[-–]\s*(\d{1,2})\/(\d{1,2})\b/);
+  if (!matched) {
+    return null;
+  }
+
+  const [startDay, startMonth, endDay, endMonth] = matched.slice(1).map((part) => Number.parseInt(part, 10));
+  const startDate = new Date(year, startMonth - 1, startDay);
+  const endDate = new Date(endMonth < startMonth ? year + 1 : year, endMonth - 1, endDay);
+  if (startDate.getMonth() !== startMonth - 1 || endDate.getMonth() !== endMonth - 1) {
+    return null;
+  }
+
+  return { startDate, endDate };
+}
+
+const DAY_ALIASES: Record<string, DayOfWeek> = {
+  mon: DayOfWeek.MON,
+  tue: DayOfWeek.TUE,
+  wed: DayOfWeek.WED,
+  thu: DayOfWeek.THU,
+  fri: DayOfWeek.FRI,
+  sat: DayOfWeek.SAT,
+  sun: DayOfWeek.SUN,
+  "2": DayOfWeek.MON,
+  "3": DayOfWeek.TUE,
+  "4": DayOfWeek.WED,
+  "5": DayOfWeek.THU,
+  "6": DayOfWeek.FRI,
+  "7": DayOfWeek.SAT,
+  cn: DayOfWeek.SUN,
+  "chu nhat": DayOfWeek.SUN,
+};
+
+export function parseDayOfWeek(raw: string): DayOfWeek | null {
+  const normalized = foldText(cleanCell(raw)).replace(/\s+/g, " ");
+  if (!normalized) {
+    return null;
+  }
+
+  const vietnamese = normalized.replace(/^(thu|t)\s*(?=\d)/, "");
+  return DAY_ALIASES[vietnamese] ?? DAY_ALIASES[normalized.slice(0, 3)] ?? null;
+}
+
+export function parseDateValue(raw: string): Date | null {
+  const text = cleanCell(raw);
+  if (!text) {
+    return null;
+  }
+
+  const parsed = new Date(text);
+  if (Number.isNaN(parsed.getTime())) {
+    return null;
+  }
+
+  return parsed;
+}
+
+export function parseSemesterKey(label: string): string {
+  return label
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
@@ -0,0 +1,282 @@
+import { DayOfWeek, PrismaClient, SessionPeriod, type Prisma } from "@prisma/client";
+
+type ImportDb = PrismaClient | Prisma.TransactionClient;
+
+type KeyedEntry = {
+  dayOfWeek: DayOfWeek;
+  startTime: string | null;
+  courseCode: string;
+  sourceRow?: number;
+  startDate?: Date | string | null;
+  endDate?: Date | string | null;
+};
+
+export type ReconcileEntry = KeyedEntry & {
+  session: SessionPeriod;
+  endTime: string | null;
+  rawTime: string | null;
+  room: string | null;
+  weekPattern: string | null;
+  startDate: Date | null;
+  endDate: Date | null;
+  sourceSheet: string;
+  sourceRow: number;
+};
+
+export type ReconcileCounts = {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+};
+
+export type ReconcileCohortResult = ReconcileCounts & {
+  classGroups: number;
+  entries: number;
+};
+
+export function emptyReconcileCounts(): ReconcileCounts {
+  return { added: 0, updated: 0, removed: 0, unchanged: 0 };
+}
+
+function sameDate(left: Date | null, right: Date | null): boolean {
+  return (left?.getTime() ?? null) === (right?.getTime() ?? null);
+}
+
+export function entryMatchKey(entry: KeyedEntry): string {
+  return `${entry.dayOfWeek}|${entry.startTime ?? ""}|${entry.courseCode}`;
+}
+
+function dateRangeKey(entry: KeyedEntry): string {
+  const toKey = (value: Date | string | null | undefined) => (value instanceof Date ? value.toISOString() : value ?? "");
+  return `${toKey(entry.startDate)}|${toKey(entry.endDate)}`;
+}
+
+function compareKeyedEntries(left: KeyedEntry, right: KeyedEntry): number {
+  return dateRangeKey(left).localeCompare(dateRangeKey(right)) || (left.sourceRow ?? 0) - (right.sourceRow ?? 0);
+}
+
+// Strictest first: same source row, then same date range, then any remaining entry with the key.
+const MATCH_PASSES: Array<(before: KeyedEntry, after: KeyedEntry) => boolean> = [
+  (before, after) => before.sourceRow !== undefined && before.sourceRow === after.sourceRow,
+  (before, after) => dateRangeKey(before) === dateRangeKey(after),
+  () => true,
+];
+
+/**
+ * Pairs existing and incoming entries that share day, start time and course. One key can hold several
+ * blocks of a course (different date ranges); both sides are ordered by date range and source row so the
+ * pairing is deterministic and each block keeps its id and personal picks across re-imports.
+ */
+export function matchEntriesByKey<TExisting extends KeyedEntry, TIncoming extends KeyedEntry>(
+  existing: TExisting[],
+  incoming: TIncoming[],
+): {
+  matched: Array<{ before: TExisting; after: TIncoming }>;
+  added: TIncoming[];
+  removed: TExisting[];
+} {
+  const existingByKey = new Map<string, TExisting[]>();
+  for (const entry of [...existing].sort(compareKeyedEntries)) {
+    const key = entryMatchKey(entry);
+    const row = existingByKey.get(key);
+    if (row) {
+      row.push(entry);
+    } else {
+      existingByKey.set(key, [entry]);
+    }
+  }
+
+  const matched: Array<{ before: TExisting; after: TIncoming }> = [];
+  let unmatched = [...incoming].sort(compareKeyedEntries);
+
+  for (const accepts of MATCH_PASSES) {
+    unmatched = unmatched.filter((entry) => {
+      const candidates = existingByKey.get(entryMatchKey(entry)) ?? [];
+      const index = candidates.findIndex((candidate) => accepts(candidate, entry));
+      if (index < 0) {
+        return true;
+      }
+
+      matched.push({ before: candidates.splice(index, 1)[0], after: entry });
+      return false;
+    });
+  }
+
+  const added = new Set(unmatched);
+  return {
+    matched,
+    added: incoming.filter((entry) => added.has(entry)),
+    removed: [...existingByKey.values()].flat(),
+  };
+}
+
+export async function reconcileCohortEntries(
+  db: ImportDb,
+  input: {
+    semesterId: string;
+    cohortId: string;
+    entriesByGroup: Map<string, ReconcileEntry[]>;
+    courseIdByCode: Map<string, string>;
+  },
+): Promise<ReconcileCohortResult> {
+  const { semesterId, cohortId, entriesByGroup, courseIdByCode } = input;
+  const result: ReconcileCohortResult = { ...emptyReconcileCounts(), classGroups: 0, entries: 0 };
+
+  const existingGroups = await db.classGroup.findMany({
+    where: {
+      cohortId,
+    },
+    select: {
+      id: true,
+      name: true,
+      entries: {
+        where: {
+          semesterId,
+        },
+        select: {
+          id: true,
+          dayOfWeek: true,
+          session: true,
+          startTime: true,
+          endTime: true,
+          rawTime: true,
+          room: true,
+          weekPattern: true,
+          startDate: true,
+          endDate: true,
+          sourceSheet: true,
+          sourceRow: true,
+          course: {
+            select: {
+              code: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  const vanishedGroups = existingGroups.filter((group) => !entriesByGroup.has(group.name));
+  if (vanishedGroups.length > 0) {
+    result.removed += vanishedGroups.reduce((sum, group) => sum + group.entries.length, 0);
+    await db.classGroup.deleteMany({
+      where: {
+        id: {
+          in: vanishedGroups.map((group) => group.id),
+        },
+      },
+    });
+  }
+
+  const groupNames = [...entriesByGroup.keys()].sort((a, b) => a.localeCompare(b));
+  for (const name of groupNames) {
+    const existingGroup = existingGroups.find((group) => group.name === name);
+    const classGroupId =
+      existingGroup?.id ??
+      (
+        await db.classGroup.create({
+          data: {
+            cohortId,
+            name,
+          },
+        })
+      ).id;
+
+    const existingEntries = (existingGroup?.entries ?? []).map((entry) => ({
+      ...entry,
+      courseCode: entry.course.code,
+    }));
+    const incomingEntries = (entriesByGroup.get(name) ?? []).filter((entry) => courseIdByCode.has(entry.courseCode));
+
+    const { matched, added, removed } = matchEntriesByKey(existingEntries, incomingEntries);
+
+    if (removed.length > 0) {
+      await db.scheduleEntry.deleteMany({
+        where: {
+          id: {
+            in: removed.map((entry) => entry.id),
+          },
+        },
+      });
+    }
+
+    // Matched blocks can trade source rows when a sheet is reordered; park them on negative rows first so
+    // no intermediate update collides on the (…, courseId, sourceRow) unique key.
+    const movedRows = matched.filter(({ before, after }) => before.sourceRow !== after.sourceRow);
+    for (const [index, { before }] of movedRows.entries()) {
+      await db.scheduleEntry.update({
+        where: {
+          id: before.id,
+        },
+        data: {
+          sourceRow: -1 - index,
+        },
+      });
+    }
+
+    for (const { before, after } of matched) {
+      const changed =
+        before.session !== after.session ||
+        before.endTime !== after.endTime ||
+        before.rawTime !== after.rawTime ||
+        before.room !== after.room ||
+        before.weekPattern !== after.weekPattern ||
+        !sameDate(before.startDate, after.startDate) ||
+        !sameDate(before.endDate, after.endDate) ||
+        before.sourceSheet !== after.sourceSheet ||
+        before.sourceRow !== after.sourceRow;
+
+      if (!changed) {
+        result.unchanged += 1;
+        continue;
+      }
+
+      await db.scheduleEntry.update({
+        where: {
+          id: before.id,
+        },
+        data: {
+          session: after.session,
+          endTime: after.endTime,
+          rawTime: after.rawTime,
+          room: after.room,
+          weekPattern: after.weekPattern,
+          startDate: after.startDate,
+          endDate: after.endDate,
+          sourceSheet: after.sourceSheet,
+          sourceRow: after.sourceRow,
+        },
+      });
+      result.updated += 1;
+    }
+
+    if (added.length > 0) {
+      await db.scheduleEntry.createMany({
+        data: added.map((entry) => ({
+          semesterId,
+          classGroupId,
+          courseId: courseIdByCode.get(entry.courseCode) as string,
+          dayOfWeek: entry.dayOfWeek,
+          session: entry.session,
+          startTime: entry.startTime,
+          endTime: entry.endTime,
+          rawTime: entry.rawTime,
+          room: entry.room,
+          weekPattern: entry.weekPattern,
+          startDate: entry.startDate,
+          endDate: entry.endDate,
+          sourceSheet: entry.sourceSheet,
+          sourceRow: entry.sourceRow,
+        })),
+      });
+    }
+
+    result.added += added.length;
+    result.removed += removed.length;
+    result.classGroups += 1;
+    result.entries += matched.length + added.length;
+  }
+
+  return result;
+}
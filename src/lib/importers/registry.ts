@@ -0,0 +1,109 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import { PrismaClient } from "@prisma/client";
+
+import { csvScheduleImporter } from "./csvSchedule";
+import { hashImportFile } from "./importHistory";
+import { jsonScheduleImporter } from "./jsonSchedule";
+import {
+  buildImportPreview,
+  type ImportOptions,
+  type ImportPreview,
+  type ImportSummary,
+  writeImport,
+} from "./scheduleWriter";
+import { springScheduleImporter } from "./springSchedule";
+import type { ImportFormat, ParsedImport, ScheduleImporter } from "./types";
+
+export type ScheduleImportOptions = ImportOptions & {
+  format?: ImportFormat | null;
+  force?: boolean;
+};
+
+export const SCHEDULE_IMPORTERS: ScheduleImporter[] = [
+  springScheduleImporter,
+  jsonScheduleImporter,
+  csvScheduleImporter,
+];
+
+export function isImportFormat(value: string): value is ImportFormat {
+  return SCHEDULE_IMPORTERS.some((importer) => importer.format === value);
+}
+
+export function listImportFormats(): Array<{ format: ImportFormat; label: string; extensions: string[] }> {
+  return SCHEDULE_IMPORTERS.map(({ format, label, extensions }) => ({ format, label, extensions }));
+}
+
+export function detectImportFormat(buffer: Buffer, sourceName: string): ImportFormat {
+  const extension = path.extname(sourceName).toLowerCase();
+  const byExtension = SCHEDULE_IMPORTERS.find((importer) => importer.extensions.includes(extension));
+  if (byExtension) {
+    return byExtension.format;
+  }
+
+  const sniffed = SCHEDULE_IMPORTERS.find((importer) => importer.sniff(buffer));
+  if (!sniffed) {
+    throw new Error(`Could not detect the import format of ${sourceName}.`);
+  }
+
+  return sniffed.format;
+}
+
+export function parseScheduleFile(buffer: Buffer, sourceName: string, format?: ImportFormat | null): ParsedImport {
+  const resolvedFormat = format ?? detectImportFormat(buffer, sourceName);
+  const importer = SCHEDULE_IMPORTERS.find((item) => item.format === resolvedFormat);
+  if (!importer) {
+    throw new Error(`Unsupported import format: ${resolvedFormat}`);
+  }
+
+  const sheets = importer.parse(buffer, sourceName);
+  const examSheets = importer.parseExams?.(buffer, sourceName) ?? [];
+  if (sheets.length === 0 && examSheets.length === 0) {
+    throw new Error(`No schedule rows could be read from ${path.basename(sourceName)}.`);
+  }
+
+  return {
+    format: resolvedFormat,
+    sourceFile: sourceName,
+    fileHash: hashImportFile(buffer),
+    sheets,
+    examSheets,
+  };
+}
+
+export async function importScheduleFromBuffer(
+  prisma: PrismaClient,
+  buffer: Buffer,
+  sourceName: string,
+  options: ScheduleImportOptions = {},
+): Promise<ImportSummary> {
+  return writeImport(prisma, parseScheduleFile(buffer, sourceName, options.format), options);
+}
+
+export async function importScheduleFromPath(
+  prisma: PrismaClient,
+  filePath: string,
+  options: ScheduleImportOptions = {},
+): Promise<ImportSummary> {
+  const resolvedPath = path.resolve(filePath);
+  return importScheduleFromBuffer(prisma, fs.readFileSync(resolvedPath), resolvedPath, options);
+}
+
+export async function previewScheduleFromBuffer(
+  prisma: PrismaClient,
+  buffer: Buffer,
+  sourceName: string,
+  options: ScheduleImportOptions = {},
+): Promise<ImportPreview> {
+  return buildImportPreview(prisma, parseScheduleFile(buffer, sourceName, options.format), options);
+}
+
+export async function previewScheduleFromPath(
+  prisma: PrismaClient,
+  filePath: string,
+  options: ScheduleImportOptions = {},
+): Promise<ImportPreview> {
+  const resolvedPath = path.resolve(filePath);
+  return previewScheduleFromBuffer(prisma, fs.readFileSync(resolvedPath), resolvedPath, options);
+}
@@ -0,0 +1,973 @@
+import { DayOfWeek, ExamKind, PrismaClient, SessionPeriod, type Prisma } from "@prisma/client";
+
+import { findBookingConflicts, type BookingConflictReport } from "@/lib/booking-conflicts";
+
+import { captureImportSnapshot } from "./importHistory";
+import {
+  emptyReconcileCounts,
+  matchEntriesByKey,
+  reconcileCohortEntries,
+  type ReconcileCounts,
+  type ReconcileEntry,
+} from "./reconcile";
+import {
+  applySemesterMapping,
+  findMappingProblems,
+  groupSheetsBySemester,
+  type ImportSemesterGroup,
+} from "./semesterMapping";
+import type {
+  ImportDiagnostic,
+  ImportExamSheet,
+  ImportFormat,
+  ImportSheet,
+  ParsedImport,
+  SemesterMapping,
+} from "./types";
+
+export type ImportOptions = {
+  maxErrors?: number | null;
+  importRunId?: string | null;
+  requestedBy?: string | null;
+  semesterMapping?: SemesterMapping | null;
+};
+
+export type ImportSemesterSummary = {
+  semesterKey: string;
+  semesterLabel: string;
+  cohorts: string[];
+  classGroups: number;
+  entries: number;
+  changes: ReconcileCounts;
+};
+
+export type ImportSummary = {
+  importRunId: string;
+  format: ImportFormat;
+  sourceFile: string;
+  semesters: ImportSemesterSummary[];
+  cohorts: string[];
+  classGroups: number;
+  courses: number;
+  entries: number;
+  exams: number;
+  changes: ReconcileCounts;
+  diagnostics: ImportDiagnostic[];
+  bookingConflicts: BookingConflictReport[];
+};
+
+export type ImportDiffEntry = {
+  courseCode: string;
+  dayOfWeek: DayOfWeek;
+  session: SessionPeriod;
+  startTime: string | null;
+  endTime: string | null;
+  rawTime: string | null;
+  room: string | null;
+  weekPattern: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  sourceRow: number;
+};
+
+export type ImportEntryChange = {
+  before: ImportDiffEntry;
+  after: ImportDiffEntry;
+  fields: Array<"session" | "endTime" | "rawTime" | "room" | "weekPattern" | "dates">;
+};
+
+export type ImportClassGroupDiff = {
+  classGroupName: string;
+  status: "new" | "existing" | "removed";
+  added: ImportDiffEntry[];
+  removed: ImportDiffEntry[];
+  changed: ImportEntryChange[];
+  unchanged: number;
+};
+
+export type ImportCohortDiff = {
+  cohortCode: string;
+  isNew: boolean;
+  classGroups: ImportClassGroupDiff[];
+};
+
+export type ImportSheetAssignment = {
+  sheetName: string;
+  cohortCode: string;
+  rows: number;
+  detectedSemesterKey: string;
+  detectedSemesterLabel: string;
+  semesterKey: string;
+};
+
+export type ImportSemesterPreview = {
+  semesterKey: string;
+  semesterLabel: string;
+  startDate: string | null;
+  endDate: string | null;
+  exists: boolean;
+  cohorts: ImportCohortDiff[];
+};
+
+export type ImportExamSheetPreview = {
+  sheetName: string;
+  semesterKey: string;
+  cohortCode: string;
+  kinds: ExamKind[];
+  incoming: number;
+  replaced: number;
+};
+
+export type ImportPreview = {
+  format: ImportFormat;
+  sourceFile: string;
+  sheets: ImportSheetAssignment[];
+  semesters: ImportSemesterPreview[];
+  examSheets: ImportExamSheetPreview[];
+  mappingProblems: string[];
+  newCourses: string[];
+  newClassGroups: string[];
+  diagnostics: ImportDiagnostic[];
+  maxErrors: number | null;
+  totals: {
+    added: number;
+    removed: number;
+    changed: number;
+    unchanged: number;
+  };
+};
+
+function collectDiagnostics(parsedSheets: Array<{ diagnostics: ImportDiagnostic[] }>): ImportDiagnostic[] {
+  return parsedSheets.flatMap((sheet) => sheet.diagnostics);
+}
+
+function countErrors(diagnostics: ImportDiagnostic[]): number {
+  return diagnostics.filter((item) => item.severity === "error").length;
+}
+
+function resolveMaxErrors(options: ImportOptions): number | null {
+  if (typeof options.maxErrors === "number" && Number.isFinite(options.maxErrors)) {
+    return Math.max(0, Math.floor(options.maxErrors));
+  }
+
+  const fromEnv = Number.parseInt(process.env.IMPORT_MAX_ERRORS ?? "", 10);
+  return Number.isFinite(fromEnv) ? Math.max(0, fromEnv) : null;
+}
+
+function diffClassGroupEntries(
+  classGroupName: string,
+  status: ImportClassGroupDiff["status"],
+  existing: ImportDiffEntry[],
+  incoming: ImportDiffEntry[],
+): ImportClassGroupDiff {
+  const { matched, added, removed } = matchEntriesByKey(existing, incoming);
+  const changed: ImportEntryChange[] = [];
+  let unchanged = 0;
+
+  for (const { before, after } of matched) {
+    const fields: ImportEntryChange["fields"] = [];
+    if (before.session !== after.session) {
+      fields.push("session");
+    }
+    if (before.endTime !== after.endTime) {
+      fields.push("endTime");
+    }
+    if (before.rawTime !== after.rawTime) {
+      fields.push("rawTime");
+    }
+    if (before.room !== after.room) {
+      fields.push("room");
+    }
+    if (before.weekPattern !== after.weekPattern) {
+      fields.push("weekPattern");
+    }
+    if (before.startDate !== after.startDate || before.endDate !== after.endDate) {
+      fields.push("dates");
+    }
+
+    if (fields.length > 0) {
+      changed.push({ before, after, fields });
+    } else {
+      unchanged += 1;
+    }
+  }
+
+  return {
+    classGroupName,
+    status,
+    added,
+    removed,
+    changed,
+    unchanged,
+  };
+}
+
+function pickDate(values: Array<Date | null>, which: "earliest" | "latest"): Date | null {
+  const times = values.filter((value): value is Date => value !== null).map((value) => value.getTime());
+  if (times.length === 0) {
+    return null;
+  }
+
+  return new Date(which === "earliest" ? Math.min(...times) : Math.max(...times));
+}
+
+function toDateText(value: Date | null): string | null {
+  return value ? value.toISOString().slice(0, 10) : null;
+}
+
+function collectCourseCodes(parsedSheets: ImportSheet[]): Set<string> {
+  const codes = new Set<string>();
+  for (const parsedSheet of parsedSheets) {
+    for (const event of parsedSheet.events) {
+      codes.add(event.courseCode);
+    }
+    for (const code of parsedSheet.catalog.keys()) {
+      codes.add(code);
+    }
+  }
+
+  return codes;
+}
+
+async function diffSemesterGroup(
+  prisma: PrismaClient,
+  group: ImportSemesterGroup,
+  newClassGroups: string[],
+  totals: ImportPreview["totals"],
+): Promise<ImportSemesterPreview> {
+  const semester = await prisma.semester.findUnique({
+    where: {
+      key: group.semesterKey,
+    },
+    select: {
+      cohorts: {
+        where: {
+          code: {
+            in: group.sheets.map((sheet) => sheet.cohortCode),
+          },
+        },
+        select: {
+          code: true,
+          classGroups: {
+            select: {
+              name: true,
+              entries: {
+                select: {
+                  dayOfWeek: true,
+                  session: true,
+                  startTime: true,
+                  endTime: true,
+                  rawTime: true,
+                  room: true,
+                  weekPattern: true,
+                  startDate: true,
+                  endDate: true,
+                  sourceRow: true,
+                  course: {
+                    select: {
+                      code: true,
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  const cohorts: ImportCohortDiff[] = [];
+
+  for (const parsedSheet of group.sheets) {
+    const existingCohort = semester?.cohorts.find((cohort) => cohort.code === parsedSheet.cohortCode) ?? null;
+
+    const existingByGroup = new Map<string, ImportDiffEntry[]>();
+    for (const classGroup of existingCohort?.classGroups ?? []) {
+      existingByGroup.set(
+        classGroup.name,
+        classGroup.entries.map((entry) => ({
+          courseCode: entry.course.code,
+          dayOfWeek: entry.dayOfWeek,
+          session: entry.session,
+          startTime: entry.startTime,
+          endTime: entry.endTime,
+          rawTime: entry.rawTime,
+          room: entry.room,
+          weekPattern: entry.weekPattern,
+          startDate: toDateText(entry.startDate),
+          endDate: toDateText(entry.endDate),
+          sourceRow: entry.sourceRow,
+        })),
+      );
+    }
+
+    const incomingByGroup = new Map<string, ImportDiffEntry[]>();
+    for (const event of parsedSheet.events) {
+      const row = incomingByGroup.get(event.classGroupName) ?? [];
+      row.push({
+        courseCode: event.courseCode,
+        dayOfWeek: event.dayOfWeek,
+        session: event.session,
+        startTime: event.startTime,
+        endTime: event.endTime,
+        rawTime: event.rawTime,
+        room: event.room,
+        weekPattern: event.weekPattern,
+        startDate: toDateText(event.startDate),
+        endDate: toDateText(event.endDate),
+        sourceRow: event.sourceRow,
+      });
+      incomingByGroup.set(event.classGroupName, row);
+    }
+
+    const groupNames = [...new Set([...existingByGroup.keys(), ...incomingByGroup.keys()])].sort((a, b) =>
+      a.localeCompare(b),
+    );
+
+    const classGroups = groupNames.map((name) => {
+      const existing = existingByGroup.get(name);
+      const incoming = incomingByGroup.get(name);
+      const status: ImportClassGroupDiff["status"] = !existing ? "new" : !incoming ? "removed" : "existing";
+
+      if (status === "new") {
+        newClassGroups.push(`${group.semesterKey} · ${parsedSheet.cohortCode} · ${name}`);
+      }
+
+      const diff = diffClassGroupEntries(name, status, existing ?? [], incoming ?? []);
+      totals.added += diff.added.length;
+      totals.removed += diff.removed.length;
+      totals.changed += diff.changed.length;
+      totals.unchanged += diff.unchanged;
+      return diff;
+    });
+
+    cohorts.push({
+      cohortCode: parsedSheet.cohortCode,
+      isNew: !existingCohort,
+      classGroups,
+    });
+  }
+
+  return {
+    semesterKey: group.semesterKey,
+    semesterLabel: group.semesterLabel,
+    startDate: toDateText(group.startDate),
+    endDate: toDateText(group.endDate),
+    exists: Boolean(semester),
+    cohorts,
+  };
+}
+
+function examKindsOf(sheet: ImportExamSheet): ExamKind[] {
+  return [ExamKind.MIDTERM, ExamKind.FINAL].filter((kind) => sheet.exams.some((exam) => exam.kind === kind));
+}
+
+// Exam sheets never create courses: a code missing from both the catalog and the imported timetables would
+// only become an empty course in catalog and search lists, so its exams are reported and skipped.
+function findUnknownExamCourses(sheet: ImportExamSheet, knownCodes: Set<string>): ImportDiagnostic[] {
+  return sheet.exams
+    .filter((exam) => !knownCodes.has(exam.courseCode))
+    .map((exam) => ({
+      severity: "warning" as const,
+      sheet: sheet.sheetName,
+      row: exam.sourceRow,
+      column: null,
+      raw: `${exam.courseCode} ${exam.classGroupName}`,
+      reason: `Course ${exam.courseCode} is not in the catalog or any imported timetable, exam skipped`,
+    }));
+}
+
+async function findExamProblems(
+  prisma: PrismaClient,
+  examSheets: ImportExamSheet[],
+  groups: ImportSemesterGroup[],
+): Promise<string[]> {
+  const problems: string[] = [];
+  const importedCohorts = new Set(
+    groups.flatMap((group) => group.sheets.map((sheet) => `${group.semesterKey}|${sheet.cohortCode}`)),
+  );
+  const seen = new Map<string, string>();
+
+  for (const sheet of examSheets) {
+    if (!sheet.semesterKey) {
+      problems.push(`Could not detect the semester of ${sheet.sheetName}; assign one in the semester mapping.`);
+      continue;
+    }
+
+    for (const kind of examKindsOf(sheet)) {
+      const key = `${sheet.semesterKey}|${sheet.cohortCode}|${kind}`;
+      const previous = seen.get(key);
+      if (previous) {
+        problems.push(
+          `Sheets ${previous} and ${sheet.sheetName} both hold ${kind.toLowerCase()} exams of cohort ${sheet.cohortCode} for ${sheet.semesterKey}.`,
+        );
+      }
+      seen.set(key, sheet.sheetName);
+    }
+
+    if (importedCohorts.has(`${sheet.semesterKey}|${sheet.cohortCode}`)) {
+      continue;
+    }
+
+    const cohort = await prisma.cohort.findFirst({
+      where: {
+        code: sheet.cohortCode,
+        semester: {
+          key: sheet.semesterKey,
+        },
+      },
+      select: {
+        id: true,
+      },
+    });
+    if (!cohort) {
+      problems.push(
+        `${sheet.sheetName}: cohort ${sheet.cohortCode} has no timetable in ${sheet.semesterKey}; import its weekly schedule first.`,
+      );
+    }
+  }
+
+  return problems;
+}
+
+async function previewExamSheet(prisma: PrismaClient, sheet: ImportExamSheet): Promise<ImportExamSheetPreview> {
+  const kinds = examKindsOf(sheet);
+  const replaced =
+    kinds.length === 0
+      ? 0
+      : await prisma.examSlot.count({
+          where: {
+            kind: {
+              in: kinds,
+            },
+            semester: {
+              key: sheet.semesterKey,
+            },
+            classGroup: {
+              cohort: {
+                code: sheet.cohortCode,
+              },
+            },
+          },
+        });
+
+  return {
+    sheetName: sheet.sheetName,
+    semesterKey: sheet.semesterKey,
+    cohortCode: sheet.cohortCode,
+    kinds,
+    incoming: sheet.exams.length,
+    replaced,
+  };
+}
+
+export async function buildImportPreview(
+  prisma: PrismaClient,
+  parsedImport: ParsedImport,
+  options: ImportOptions = {},
+): Promise<ImportPreview> {
+  const mappedImport = applySemesterMapping(parsedImport, options.semesterMapping);
+  const { sheets: parsedSheets, examSheets, sourceFile } = mappedImport;
+  const groups = groupSheetsBySemester(parsedSheets);
+
+  const referencedCodes = collectCourseCodes(parsedSheets);
+  const examCodes = examSheets.flatMap((examSheet) => examSheet.exams.map((exam) => exam.courseCode));
+  const knownCourses = await prisma.course.findMany({
+    where: {
+      code: {
+        in: [...new Set([...referencedCodes, ...examCodes])],
+      },
+    },
+    select: {
+      code: true,
+    },
+  });
+  const knownCodes = new Set(knownCourses.map((course) => course.code));
+  const examCourseCodes = new Set([...knownCodes, ...referencedCodes]);
+
+  const semesters: ImportSemesterPreview[] = [];
+  const newClassGroups: string[] = [];
+  const totals = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+
+  for (const group of groups) {
+    semesters.push(await diffSemesterGroup(prisma, group, newClassGroups, totals));
+  }
+
+  const examPreviews: ImportExamSheetPreview[] = [];
+  for (const examSheet of examSheets) {
+    examPreviews.push(await previewExamSheet(prisma, examSheet));
+  }
+
+  return {
+    format: mappedImport.format,
+    sourceFile,
+    sheets: parsedSheets.map((sheet, index) => ({
+      sheetName: sheet.sheetName,
+      cohortCode: sheet.cohortCode,
+      rows: sheet.events.length,
+      detectedSemesterKey: parsedImport.sheets[index].semesterKey,
+      detectedSemesterLabel: parsedImport.sheets[index].semesterLabel,
+      semesterKey: sheet.semesterKey,
+    })),
+    semesters,
+    examSheets: examPreviews,
+    mappingProblems: [...findMappingProblems(groups), ...(await findExamProblems(prisma, examSheets, groups))],
+    newCourses: [...referencedCodes].filter((code) => !knownCodes.has(code)).sort((a, b) => a.localeCompare(b)),
+    newClassGroups,
+    diagnostics: [
+      ...collectDiagnostics([...parsedSheets, ...examSheets]),
+      ...examSheets.flatMap((examSheet) => findUnknownExamCourses(examSheet, examCourseCodes)),
+    ],
+    maxErrors: resolveMaxErrors(options),
+    totals,
+  };
+}
+
+async function writeCohortSheet(
+  prisma: PrismaClient,
+  semesterId: string,
+  parsedSheet: ImportSheet,
+  allCourseCodes: Set<string>,
+) {
+  const cohort = await prisma.cohort.upsert({
+    where: {
+      semesterId_code: {
+        semesterId,
+        code: parsedSheet.cohortCode,
+      },
+    },
+    update: {},
+    create: {
+      semesterId,
+      code: parsedSheet.cohortCode,
+    },
+  });
+
+  const cohortCourseCodes = collectCourseCodes([parsedSheet]);
+  const storedCourses = new Map(
+    (
+      await prisma.course.findMany({
+        where: {
+          code: {
+            in: [...cohortCourseCodes],
+          },
+        },
+        select: {
+          code: true,
+          nameEn: true,
+          nameVi: true,
+          credits: true,
+          prerequisite: true,
+        },
+      })
+    ).map((course) => [course.code, course]),
+  );
+
+  for (const code of cohortCourseCodes) {
+    const meta = parsedSheet.catalog.get(code);
+    const stored = storedCourses.get(code);
+    allCourseCodes.add(code);
+
+    // The catalog editor owns course metadata; the workbook only fills fields that are still empty.
+    const updateData: Prisma.CourseUpdateInput = {};
+
+    if (meta?.nameEn && !stored?.nameEn) {
+      updateData.nameEn = meta.nameEn;
+    }
+    if (meta?.nameVi && !stored?.nameVi) {
+      updateData.nameVi = meta.nameVi;
+    }
+    if (typeof meta?.credits === "number" && (stored?.credits ?? null) === null) {
+      updateData.credits = meta.credits;
+    }
+    if (meta?.prerequisite && !stored?.prerequisite) {
+      updateData.prerequisite = meta.prerequisite;
+    }
+
+    await prisma.course.upsert({
+      where: {
+        code,
+      },
+      update: updateData,
+      create: {
+        code,
+        nameEn: meta?.nameEn ?? null,
+        nameVi: meta?.nameVi ?? null,
+        credits: meta?.credits ?? null,
+        prerequisite: meta?.prerequisite ?? null,
+      },
+    });
+  }
+
+  const courseRecords = await prisma.course.findMany({
+    where: {
+      code: {
+        in: [...cohortCourseCodes],
+      },
+    },
+    select: {
+      id: true,
+      code: true,
+    },
+  });
+
+  const courseIdByCode = new Map(courseRecords.map((course) => [course.code, course.id]));
+
+  const entriesByGroup = new Map<string, ReconcileEntry[]>();
+  for (const event of parsedSheet.events) {
+    const row = entriesByGroup.get(event.classGroupName) ?? [];
+    row.push(event);
+    entriesByGroup.set(event.classGroupName, row);
+  }
+
+  return reconcileCohortEntries(prisma, {
+    semesterId,
+    cohortId: cohort.id,
+    entriesByGroup,
+    courseIdByCode,
+  });
+}
+
+// An exam sheet replaces the stored exams of its cohort for the exam kinds it contains, so a later
+// midterm-only sheet leaves the finals in place.
+async function writeExamSheet(
+  prisma: PrismaClient,
+  semesterId: string,
+  sheet: ImportExamSheet,
+  diagnostics: ImportDiagnostic[],
+  allCourseCodes: Set<string>,
+): Promise<number> {
+  const cohort = await prisma.cohort.findUnique({
+    where: {
+      semesterId_code: {
+        semesterId,
+        code: sheet.cohortCode,
+      },
+    },
+    select: {
+      classGroups: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  });
+  const kinds = examKindsOf(sheet);
+  if (!cohort || kinds.length === 0) {
+    return 0;
+  }
+
+  const courseCodes = [...new Set(sheet.exams.map((exam) => exam.courseCode))];
+  const courses = await prisma.course.findMany({
+    where: {
+      code: {
+        in: courseCodes,
+      },
+    },
+    select: {
+      id: true,
+      code: true,
+    },
+  });
+  const courseIdByCode = new Map(courses.map((course) => [course.code, course.id]));
+  const classGroupIdByName = new Map(cohort.classGroups.map((classGroup) => [classGroup.name, classGroup.id]));
+  diagnostics.push(...findUnknownExamCourses(sheet, new Set(courseIdByCode.keys())));
+
+  await prisma.examSlot.deleteMany({
+    where: {
+      semesterId,
+      kind: {
+        in: kinds,
+      },
+      classGroupId: {
+        in: cohort.classGroups.map((classGroup) => classGroup.id),
+      },
+    },
+  });
+
+  const data: Prisma.ExamSlotCreateManyInput[] = [];
+  for (const exam of sheet.exams) {
+    const courseId = courseIdByCode.get(exam.courseCode);
+    if (!courseId) {
+      continue;
+    }
+
+    const classGroupId = classGroupIdByName.get(exam.classGroupName);
+    if (!classGroupId) {
+      diagnostics.push({
+        severity: "warning",
+        sheet: sheet.sheetName,
+        row: exam.sourceRow,
+        column: null,
+        raw: `${exam.courseCode} ${exam.classGroupName}`,
+        reason: `Class group ${exam.classGroupName} is not in the ${sheet.cohortCode} timetable, exam skipped`,
+      });
+      continue;
+    }
+
+    data.push({
+      semesterId,
+      classGroupId,
+      courseId,
+      kind: exam.kind,
+      examDate: exam.examDate,
+      startTime: exam.startTime,
+      endTime: exam.endTime,
+      room: exam.room,
+      seats: exam.seats,
+      note: exam.note,
+      sourceSheet: exam.sourceSheet,
+      sourceRow: exam.sourceRow,
+    });
+    allCourseCodes.add(exam.courseCode);
+  }
+
+  if (data.length > 0) {
+    await prisma.examSlot.createMany({
+      data,
+    });
+  }
+
+  return data.length;
+}
+
+export async function writeImport(
+  prisma: PrismaClient,
+  parsedImport: ParsedImport,
+  options: ImportOptions = {},
+): Promise<ImportSummary> {
+  const { sheets: parsedSheets, examSheets: parsedExamSheets, sourceFile } = parsedImport;
+
+  const runData = {
+    sourceFile,
+    fileHash: parsedImport.fileHash,
+    format: parsedImport.format,
+    status: "RUNNING",
+    note: `Preparing import of ${parsedSheets.length + parsedExamSheets.length} sheets`,
+    totalSheets: parsedSheets.length + parsedExamSheets.length,
+    processedSheets: 0,
+    totalRows:
+      parsedSheets.reduce((sum, sheet) => sum + sheet.events.length, 0) +
+      parsedExamSheets.reduce((sum, sheet) => sum + sheet.exams.length, 0),
+    processedRows: 0,
+    ...(options.requestedBy ? { requestedBy: options.requestedBy } : {}),
+  };
+
+  const importRun = options.importRunId
+    ? await prisma.importRun.update({
+        where: {
+          id: options.importRunId,
+        },
+        data: runData,
+      })
+    : await prisma.importRun.create({
+        data: runData,
+      });
+
+  const diagnostics = collectDiagnostics([...parsedSheets, ...parsedExamSheets]);
+  const maxErrors = resolveMaxErrors(options);
+  const errorCount = countErrors(diagnostics);
+
+  try {
+    if (maxErrors !== null && errorCount > maxErrors) {
+      throw new Error(`Import aborted: ${errorCount} parse errors exceed the limit of ${maxErrors}.`);
+    }
+
+    const mappedImport = applySemesterMapping(parsedImport, options.semesterMapping);
+    const groups = groupSheetsBySemester(mappedImport.sheets);
+    const examSheets = mappedImport.examSheets;
+    const mappingProblems = [...findMappingProblems(groups), ...(await findExamProblems(prisma, examSheets, groups))];
+    if (mappingProblems.length > 0) {
+      throw new Error(`Import aborted: ${mappingProblems.join(" ")}`);
+    }
+
+    let totalEntries = 0;
+    let totalClassGroups = 0;
+    const allCourseCodes = new Set<string>();
+    const changes = emptyReconcileCounts();
+    const semesters: ImportSemesterSummary[] = [];
+    const semesterIds: string[] = [];
+
+    const examCohortsOf = (semesterKey: string) =>
+      examSheets.filter((sheet) => sheet.semesterKey === semesterKey).map((sheet) => sheet.cohortCode);
+
+    for (const group of groups) {
+      await captureImportSnapshot(prisma, importRun.id, group.semesterKey, [
+        ...group.sheets.map((sheet) => sheet.cohortCode),
+        ...examCohortsOf(group.semesterKey),
+      ]);
+
+      // A mapping can send only some cohorts or sheets to a semester, so an update only ever widens the
+      // stored date range and never clears it.
+      const storedSemester = await prisma.semester.findUnique({
+        where: {
+          key: group.semesterKey,
+        },
+        select: {
+          startDate: true,
+          endDate: true,
+        },
+      });
+      const semesterData = {
+        label: group.semesterLabel,
+        sourceFile,
+        startDate: pickDate([storedSemester?.startDate ?? null, group.startDate], "earliest"),
+        endDate: pickDate([storedSemester?.endDate ?? null, group.endDate], "latest"),
+      };
+
+      const semester = await prisma.semester.upsert({
+        where: {
+          key: group.semesterKey,
+        },
+        update: semesterData,
+        create: {
+          key: group.semesterKey,
+          ...semesterData,
+        },
+      });
+      semesterIds.push(semester.id);
+
+      const semesterSummary: ImportSemesterSummary = {
+        semesterKey: group.semesterKey,
+        semesterLabel: group.semesterLabel,
+        cohorts: group.sheets.map((sheet) => sheet.cohortCode),
+        classGroups: 0,
+        entries: 0,
+        changes: emptyReconcileCounts(),
+      };
+
+      for (const parsedSheet of group.sheets) {
+        const reconciled = await writeCohortSheet(prisma, semester.id, parsedSheet, allCourseCodes);
+
+        semesterSummary.classGroups += reconciled.classGroups;
+        semesterSummary.entries += reconciled.entries;
+        for (const counts of [semesterSummary.changes, changes]) {
+          counts.added += reconciled.added;
+          counts.updated += reconciled.updated;
+          counts.removed += reconciled.removed;
+          counts.unchanged += reconciled.unchanged;
+        }
+
+        await prisma.importRun.update({
+          where: {
+            id: importRun.id,
+          },
+          data: {
+            note: `Imported cohort ${parsedSheet.cohortCode} (${group.semesterLabel})`,
+            processedSheets: {
+              increment: 1,
+            },
+            processedRows: {
+              increment: parsedSheet.events.length,
+            },
+          },
+        });
+      }
+
+      totalClassGroups += semesterSummary.classGroups;
+      totalEntries += semesterSummary.entries;
+      semesters.push(semesterSummary);
+    }
+
+    let totalExams = 0;
+    const examSemesterKeys = [...new Set(examSheets.map((sheet) => sheet.semesterKey))];
+    for (const semesterKey of examSemesterKeys) {
+      const semester = await prisma.semester.findUnique({
+        where: {
+          key: semesterKey,
+        },
+        select: {
+          id: true,
+        },
+      });
+      if (!semester) {
+        continue;
+      }
+
+      if (!groups.some((group) => group.semesterKey === semesterKey)) {
+        await captureImportSnapshot(prisma, importRun.id, semesterKey, examCohortsOf(semesterKey));
+        semesterIds.push(semester.id);
+      }
+
+      for (const examSheet of examSheets.filter((sheet) => sheet.semesterKey === semesterKey)) {
+        totalExams += await writeExamSheet(prisma, semester.id, examSheet, diagnostics, allCourseCodes);
+
+        await prisma.importRun.update({
+          where: {
+            id: importRun.id,
+          },
+          data: {
+            note: `Imported exams of cohort ${examSheet.cohortCode} (${semesterKey})`,
+            processedSheets: {
+              increment: 1,
+            },
+            processedRows: {
+              increment: examSheet.exams.length,
+            },
+          },
+        });
+      }
+    }
+
+    const bookingConflicts: BookingConflictReport[] = [];
+    for (const group of groups) {
+      try {
+        const report = await findBookingConflicts(prisma, group.semesterKey);
+        if (report) {
+          bookingConflicts.push(report);
+        }
+      } catch (error) {
+        console.error("Booking conflict check failed:", error);
+      }
+    }
+
+    const summary: ImportSummary = {
+      importRunId: importRun.id,
+      format: parsedImport.format,
+      sourceFile,
+      semesters,
+      cohorts: semesters.flatMap((semester) => semester.cohorts),
+      classGroups: totalClassGroups,
+      courses: allCourseCodes.size,
+      entries: totalEntries,
+      exams: totalExams,
+      changes,
+      diagnostics,
+      bookingConflicts,
+    };
+
+    await prisma.importRun.update({
+      where: {
+        id: importRun.id,
+      },
+      data: {
+        semesterId: semesterIds[0] ?? null,
+        status: "SUCCEEDED",
+        note: `Imported ${totalEntries} schedule entries into ${semesters.map((semester) => semester.semesterLabel).join(", ")} (+${changes.added} ~${changes.updated} -${changes.removed}; ${errorCount} errors, ${diagnostics.length - errorCount} warnings)${totalExams > 0 ? `, ${totalExams} exam slots` : ""}`,
+        cohortCodes: summary.cohorts.join(","),
+        classGroupCount: totalClassGroups,
+        courseCount: allCourseCodes.size,
+        entryCount: totalEntries,
+        summary: JSON.stringify(summary),
+        finishedAt: new Date(),
+      },
+    });
+
+    return summary;
+  } catch (error) {
+    await prisma.importRun.update({
+      where: {
+        id: importRun.id,
+      },
+      data: {
+        status: "FAILED",
+        note: error instanceof Error ? error.message : "Unknown import error",
+        finishedAt: new Date(),
+      },
+    });
+
+    throw error;
+  }
+}
@@ -0,0 +1,179 @@
+import { cleanCell, parseDateValue, parseSemesterKey } from "./normalize";
+import type { ImportSheet, ParsedImport, SemesterMapping, SemesterOverride } from "./types";
+
+export type ImportSemesterGroup = {
+  semesterKey: string;
+  semesterLabel: string;
+  startDate: Date | null;
+  endDate: Date | null;
+  sheets: ImportSheet[];
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readText(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+export function parseSemesterMapping(raw: string): SemesterMapping | null {
+  if (!raw.trim()) {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("Semester mapping must be valid JSON.");
+  }
+
+  if (!isRecord(parsed)) {
+    throw new Error("Semester mapping must be a JSON object.");
+  }
+
+  const mapping: SemesterMapping = {};
+
+  if (isRecord(parsed.sheets)) {
+    mapping.sheets = {};
+    for (const [sheetName, semesterKey] of Object.entries(parsed.sheets)) {
+      const key = parseSemesterKey(readText(semesterKey) ?? "");
+      if (key) {
+        mapping.sheets[sheetName] = key;
+      }
+    }
+  }
+
+  if (isRecord(parsed.semesters)) {
+    mapping.semesters = {};
+    for (const [semesterKey, override] of Object.entries(parsed.semesters)) {
+      const key = parseSemesterKey(semesterKey);
+      if (!key || !isRecord(override)) {
+        continue;
+      }
+
+      mapping.semesters[key] = {
+        label: readText(override.label),
+        startDate: readText(override.startDate),
+        endDate: readText(override.endDate),
+      };
+    }
+  }
+
+  return mapping;
+}
+
+function resolveOverrideDate(raw: string | null | undefined, fallback: Date | null, field: string): Date | null {
+  if (!raw) {
+    return fallback;
+  }
+
+  const parsed = parseDateValue(raw);
+  if (!parsed) {
+    throw new Error(`Invalid ${field} in semester mapping: ${raw}`);
+  }
+
+  return parsed;
+}
+
+function fallbackLabel(semesterKey: string, sheets: ImportSheet[]): string {
+  const detected = sheets.find((sheet) => sheet.semesterKey === semesterKey);
+  return detected ? detected.semesterLabel : semesterKey.replace(/_/g, " ");
+}
+
+export function applySemesterMapping(parsedImport: ParsedImport, mapping?: SemesterMapping | null): ParsedImport {
+  if (!mapping) {
+    return parsedImport;
+  }
+
+  const sheetNames = new Set(
+    [...parsedImport.sheets, ...parsedImport.examSheets].map((sheet) => sheet.sheetName),
+  );
+  for (const sheetName of Object.keys(mapping.sheets ?? {})) {
+    if (!sheetNames.has(sheetName)) {
+      throw new Error(`Semester mapping refers to unknown sheet ${sheetName}.`);
+    }
+  }
+
+  const sheets = parsedImport.sheets.map((sheet) => {
+    const semesterKey = mapping.sheets?.[sheet.sheetName] ?? sheet.semesterKey;
+    const override: SemesterOverride = mapping.semesters?.[semesterKey] ?? {};
+    const keyChanged = semesterKey !== sheet.semesterKey;
+    const detectedLabel = keyChanged ? fallbackLabel(semesterKey, parsedImport.sheets) : sheet.semesterLabel;
+
+    return {
+      ...sheet,
+      semesterKey,
+      semesterLabel: cleanCell(override.label ?? "").toUpperCase() || detectedLabel,
+      startDate: resolveOverrideDate(override.startDate, keyChanged ? null : sheet.startDate, "start date"),
+      endDate: resolveOverrideDate(override.endDate, keyChanged ? null : sheet.endDate, "end date"),
+    };
+  });
+
+  const examSheets = parsedImport.examSheets.map((sheet) => ({
+    ...sheet,
+    semesterKey: mapping.sheets?.[sheet.sheetName] ?? sheet.semesterKey,
+  }));
+
+  return {
+    ...parsedImport,
+    sheets,
+    examSheets,
+  };
+}
+
+export function groupSheetsBySemester(sheets: ImportSheet[]): ImportSemesterGroup[] {
+  const groups = new Map<string, ImportSemesterGroup>();
+
+  for (const sheet of sheets) {
+    const group = groups.get(sheet.semesterKey) ?? {
+      semesterKey: sheet.semesterKey,
+      semesterLabel: sheet.semesterLabel,
+      startDate: null,
+      endDate: null,
+      sheets: [],
+    };
+
+    if (sheet.startDate && (!group.startDate || sheet.startDate < group.startDate)) {
+      group.startDate = sheet.startDate;
+    }
+    if (sheet.endDate && (!group.endDate || sheet.endDate > group.endDate)) {
+      group.endDate = sheet.endDate;
+    }
+
+    group.sheets.push(sheet);
+    groups.set(sheet.semesterKey, group);
+  }
+
+  return [...groups.values()];
+}
+
+export function findMappingProblems(groups: ImportSemesterGroup[]): string[] {
+  const problems: string[] = [];
+
+  for (const group of groups) {
+    if (!group.semesterKey) {
+      problems.push(
+        `Could not detect the semester of ${group.sheets.map((sheet) => sheet.sheetName).join(", ")}; assign one in the semester mapping.`,
+      );
+    }
+
+    const seen = new Map<string, string>();
+    for (const sheet of group.sheets) {
+      const previous = seen.get(sheet.cohortCode);
+      if (previous) {
+        problems.push(
+          `Sheets ${previous} and ${sheet.sheetName} both hold cohort ${sheet.cohortCode} for ${group.semesterKey}.`,
+        );
+      }
+      seen.set(sheet.cohortCode, sheet.sheetName);
+    }
+
+    if (group.startDate && group.endDate && group.startDate > group.endDate) {
+      problems.push(`${group.semesterLabel}: start date is after end date.`);
+    }
+  }
+
+  return problems;
+}
@@ -1,54 +1,26 @@
 import fs from "node:fs";
 import path from "node:path";
 
-import {
-  DayOfWeek,
-  PrismaClient,
-  SessionPeriod,
-  type Prisma,
-} from "@prisma/client";
+import { DayOfWeek, SessionPeriod } from "@prisma/client";
 import * as XLSX from "xlsx";
 
-type ParsedCourseMeta = {
-  code: string;
-  nameEn: string | null;
-  nameVi: string | null;
-  credits: number | null;
-  prerequisite: string | null;
-};
-
-type ParsedEvent = {
-  classGroupName: string;
-  dayOfWeek: DayOfWeek;
-  session: SessionPeriod;
-  startTime: string | null;
-  rawTime: string | null;
-  room: string | null;
-  courseCode: string;
-  sourceSheet: string;
-  sourceRow: number;
-};
+import { normalizeWeekPattern } from "@/lib/schedule-weeks";
 
-type ParsedSheetData = {
-  sheetName: string;
-  cohortCode: string;
-  semesterLabel: string;
-  semesterKey: string;
-  startDate: Date | null;
-  endDate: Date | null;
-  events: ParsedEvent[];
-  catalog: Map<string, ParsedCourseMeta>;
-};
-
-export type ImportSummary = {
-  sourceFile: string;
-  semesterKey: string;
-  semesterLabel: string;
-  cohorts: string[];
-  classGroups: number;
-  courses: number;
-  entries: number;
-};
+import { isExamSheetName, parseExamWorkbook } from "./examSchedule";
+import {
+  cleanCell,
+  expandClassGroups,
+  foldText,
+  getSessionPeriod,
+  normalizeClassGroup,
+  normalizeCourseCode,
+  extractWeekText,
+  parseDateValue,
+  parseDayMonthRange,
+  parseEndTime,
+  parseSemesterKey,
+} from "./normalize";
+import type { ImportCourseMeta, ImportDiagnostic, ImportEvent, ImportSheet, ScheduleImporter } from "./types";
 
 const DAY_COLUMN_MAP: Record<number, DayOfWeek> = {
   2: DayOfWeek.MON,
@@ -59,104 +31,7 @@ const DAY_COLUMN_MAP: Record<number, DayOfWeek> = {
   7: DayOfWeek.SAT,
 };
 
-const SHEET_FILTER = /^SPRING\s+2026\s+K\d+$/i;
-
-function cleanCell(value: unknown): string {
-  return String(value ?? "")
-    .replace(/\u00a0/g, " ")
-    .trim();
-}
-
-function foldText(value: string): string {
-  return value
-    .normalize("NFD")
-    .replace(/[\u0300-\u036f]/g, "")
-    .toLowerCase();
-}
-
-function normalizeCourseCode(raw: string): string | null {
-  const text = cleanCell(raw).toUpperCase().replace(/\s+/g, " ");
-  if (!text) {
-    return null;
-  }
-
-  const compact = text.replace(/\s+/g, "");
-  const matched = compact.match(/^([A-Z]{2,4})(\d{3,4})$/);
-  if (!matched) {
-    return null;
-  }
-
-  return `${matched[1]} ${matched[2]}`;
-}
-
-function normalizeClassGroup(raw: string): string | null {
-  const matched = raw.toUpperCase().match(/IT\s*0?(\d{1,2})/);
-  if (!matched) {
-    return null;
-  }
-
-  const index = Number.parseInt(matched[1], 10);
-  if (!Number.isFinite(index)) {
-    return null;
-  }
-
-  return `IT ${String(index).padStart(2, "0")}`;
-}
-
-function expandClassGroups(label: string): string[] {
-  const numbers = [...label.toUpperCase().matchAll(/IT\s*0?(\d{1,2})/g)]
-    .map((match) => Number.parseInt(match[1], 10))
-    .filter((value) => Number.isFinite(value));
-
-  if (numbers.length === 0) {
-    return [];
-  }
-
-  if (numbers.length >= 2 && label.includes("-")) {
-    const [start, end] = [numbers[0], numbers[1]];
-    if (start < end && end - start <= 20) {
-      const expanded: string[] = [];
-      for (let current = start; current <= end; current += 1) {
-        expanded.push(`IT ${String(current).padStart(2, "0")}`);
-      }
-      return expanded;
-    }
-  }
-
-  return [...new Set(numbers.map((value) => `IT ${String(value).padStart(2, "0")}`))];
-}
-
-function getSessionPeriod(label: string): SessionPeriod {
-  const normalized = foldText(label);
-
-  if (normalized.includes("sang") || normalized.includes("morning")) {
-    return SessionPeriod.MORNING;
-  }
-
-  if (normalized.includes("chieu") || normalized.includes("afternoon")) {
-    return SessionPeriod.AFTERNOON;
-  }
-
-  if (normalized.includes("toi") || normalized.includes("evening")) {
-    return SessionPeriod.EVENING;
-  }
-
-  return SessionPeriod.UNKNOWN;
-}
-
-function parseDateValue(raw: string): Date | null {
-  const text = cleanCell(raw);
-  if (!text) {
-    return null;
-  }
-
-  const parsed = new Date(text);
-  if (Number.isNaN(parsed.getTime())) {
-    return null;
-  }
-
-  return parsed;
-}
+const SHEET_FILTER = /^(SPRING|SUMMER|FALL|AUTUMN|WINTER)\s+\d{4}\s+K\d+$/i;
 
 function parseDuration(text: string): { startDate: Date | null; endDate: Date | null } {
   const matched = text.match(/DURATION\s*:\s*(.+?)\s*-\s*(.+)$/i);
@@ -173,31 +48,29 @@ function parseDuration(text: string): { startDate: Date | null; endDate: Date |
 function parseSemesterLabel(sheetName: string, rows: unknown[][]): string {
   const topText = cleanCell(rows[0]?.[1]);
   const matched = topText.match(/SCHEDULE\s+FOR\s+(.+?)\s*-\s*K\d+/i);
-  if (matched) {
+  if (matched && parseSemesterKey(matched[1])) {
     return matched[1].trim().toUpperCase();
   }
 
-  const fallback = sheetName.match(/(SPRING\s+\d{4})/i);
+  const fallback = sheetName.match(/((?:SPRING|SUMMER|FALL|AUTUMN|WINTER)\s+\d{4})/i);
   return fallback ? fallback[1].toUpperCase() : sheetName.toUpperCase();
 }
 
-function parseSemesterKey(label: string): string {
-  return label
-    .toUpperCase()
-    .replace(/[^A-Z0-9]+/g, "_")
-    .replace(/^_+|_+$/g, "");
-}
-
 function looksLikeClassGroupRow(value: string): boolean {
   return /IT\s*0?\d{1,2}/i.test(value) && !/room|time|sáng|chiều|morning|afternoon/i.test(value);
 }
 
-function parseScheduleCell(cellText: string): {
+function parseScheduleCell(cellText: string, year: number): {
   classHint: string | null;
   courseCode: string;
   room: string | null;
   rawTime: string | null;
   startTime: string | null;
+  endTime: string | null;
+  weekText: string | null;
+  weekPattern: string | null;
+  startDate: Date | null;
+  endDate: Date | null;
 } | null {
   const lines = cellText
     .split(/\r?\n/)
@@ -219,6 +92,9 @@ function parseScheduleCell(cellText: string): {
   const timeText = rawTime ?? cellText;
   const matchedTime = timeText.match(/\b([01]?\d|2[0-3]):[0-5]\d\b/);
   const matchedClass = timeText.match(/IT\s*0?\d{1,2}/i);
+  const noteText = lines.slice(2).join(" ");
+  const weekText = extractWeekText(noteText);
+  const dateRange = parseDayMonthRange(noteText, year);
 
   return {
     classHint: matchedClass ? normalizeClassGroup(matchedClass[0]) : null,
@@ -226,11 +102,16 @@ function parseScheduleCell(cellText: string): {
     room,
     rawTime,
     startTime: matchedTime ? matchedTime[0] : null,
+    endTime: parseEndTime(timeText),
+    weekText,
+    weekPattern: normalizeWeekPattern(weekText),
+    startDate: dateRange?.startDate ?? null,
+    endDate: dateRange?.endDate ?? null,
   };
 }
 
-function parseCatalog(rows: unknown[][]): Map<string, ParsedCourseMeta> {
-  const catalog = new Map<string, ParsedCourseMeta>();
+function parseCatalog(rows: unknown[][]): Map<string, ImportCourseMeta> {
+  const catalog = new Map<string, ImportCourseMeta>();
   const catalogHeaderIndex = rows.findIndex((row) => {
     const value = foldText(cleanCell(row[1]));
     return value.includes("ma hp");
@@ -273,7 +154,7 @@ function parseCatalog(rows: unknown[][]): Map<string, ParsedCourseMeta> {
   return catalog;
 }
 
-function parseSheet(sheetName: string, rows: unknown[][]): ParsedSheetData {
+function parseSheet(sheetName: string, rows: unknown[][]): ImportSheet {
   const cohortMatched = sheetName.match(/K\d+/i);
   if (!cohortMatched) {
     throw new Error(`Could not find cohort code in sheet ${sheetName}`);
@@ -285,6 +166,8 @@ function parseSheet(sheetName: string, rows: unknown[][]): ParsedSheetData {
 
   const durationRow = rows.find((row) => /DURATION\s*:/i.test(cleanCell(row[1])));
   const { startDate, endDate } = parseDuration(cleanCell(durationRow?.[1]));
+  const labelYear = semesterLabel.match(/\b(20\d{2})\b/);
+  const scheduleYear = startDate?.getFullYear() ?? (labelYear ? Number(labelYear[1]) : new Date().getFullYear());
 
   const headerIndex = rows.findIndex((row) => {
     const column1 = foldText(cleanCell(row[1]));
@@ -297,9 +180,27 @@ function parseSheet(sheetName: string, rows: unknown[][]): ParsedSheetData {
     throw new Error(`Could not find schedule header row in sheet ${sheetName}`);
   }
 
-  const events: ParsedEvent[] = [];
+  const events: ImportEvent[] = [];
+  const diagnostics: ImportDiagnostic[] = [];
   let currentGroups: string[] = [];
 
+  const report = (
+    severity: ImportDiagnostic["severity"],
+    rowIndex: number,
+    columnIndex: number | null,
+    raw: string,
+    reason: string,
+  ) => {
+    diagnostics.push({
+      severity,
+      sheet: sheetName,
+      row: rowIndex + 1,
+      column: columnIndex === null ? null : XLSX.utils.encode_col(columnIndex),
+      raw,
+      reason,
+    });
+  };
+
   for (let rowIndex = headerIndex + 1; rowIndex < rows.length; rowIndex += 1) {
     const row = rows[rowIndex] ?? [];
     const firstColumn = cleanCell(row[1]);
@@ -310,11 +211,20 @@ function parseSheet(sheetName: string, rows: unknown[][]): ParsedSheetData {
 
     if (looksLikeClassGroupRow(firstColumn)) {
       currentGroups = expandClassGroups(firstColumn);
+      if (currentGroups.length === 0) {
+        report("error", rowIndex, 1, firstColumn, "Could not split class group label");
+      }
       continue;
     }
 
     const session = getSessionPeriod(firstColumn);
     if (session === SessionPeriod.UNKNOWN) {
+      const skippedCells = Object.keys(DAY_COLUMN_MAP)
+        .map((columnIndexText) => cleanCell(row[Number.parseInt(columnIndexText, 10)]))
+        .filter(Boolean);
+      if (skippedCells.length > 0) {
+        report("warning", rowIndex, 1, firstColumn, `Row skipped: unknown session label (${skippedCells.length} cells)`);
+      }
       continue;
     }
 
@@ -325,18 +235,34 @@ function parseSheet(sheetName: string, rows: unknown[][]): ParsedSheetData {
         continue;
       }
 
-      const parsedCell = parseScheduleCell(cellValue);
+      const parsedCell = parseScheduleCell(cellValue, scheduleYear);
       if (!parsedCell) {
+        report("error", rowIndex, columnIndex, cellValue, "Unrecognized course code");
         continue;
       }
 
-      const targetGroups = parsedCell.classHint
-        ? currentGroups.includes(parsedCell.classHint)
-          ? [parsedCell.classHint]
-          : [parsedCell.classHint]
-        : currentGroups;
+      if (parsedCell.rawTime && !parsedCell.startTime) {
+        report("warning", rowIndex, columnIndex, cellValue, "Unrecognized time format, start time left empty");
+      }
+
+      if (parsedCell.weekText && !parsedCell.weekPattern) {
+        report("warning", rowIndex, columnIndex, cellValue, `Unrecognized week pattern "${parsedCell.weekText}", class kept for every week`);
+      }
+
+      if (parsedCell.classHint && currentGroups.length > 0 && !currentGroups.includes(parsedCell.classHint)) {
+        report(
+          "warning",
+          rowIndex,
+          columnIndex,
+          cellValue,
+          `Class hint ${parsedCell.classHint} is outside the current group row (${currentGroups.join(", ")})`,
+        );
+      }
+
+      const targetGroups = parsedCell.classHint ? [parsedCell.classHint] : currentGroups;
 
       if (targetGroups.length === 0) {
+        report("error", rowIndex, columnIndex, cellValue, "No class group row applies to this cell");
         continue;
       }
 
@@ -346,8 +272,12 @@ function parseSheet(sheetName: string, rows: unknown[][]): ParsedSheetData {
           dayOfWeek,
           session,
           startTime: parsedCell.startTime,
+          endTime: parsedCell.endTime,
           rawTime: parsedCell.rawTime,
           room: parsedCell.room,
+          weekPattern: parsedCell.weekPattern,
+          startDate: parsedCell.startDate,
+          endDate: parsedCell.endDate,
           courseCode: parsedCell.courseCode,
           sourceSheet: sheetName,
           sourceRow: rowIndex + 1,
@@ -365,14 +295,17 @@ function parseSheet(sheetName: string, rows: unknown[][]): ParsedSheetData {
     endDate,
     events,
     catalog: parseCatalog(rows),
+    diagnostics,
   };
 }
 
-function parseWorkbook(workbook: XLSX.WorkBook): ParsedSheetData[] {
+function parseWorkbook(workbook: XLSX.WorkBook): ImportSheet[] {
   const targetSheets = workbook.SheetNames.filter((sheetName) => SHEET_FILTER.test(sheetName));
 
-  if (targetSheets.length === 0) {
-    throw new Error("No target sheets matched pattern SPRING 2026 Kxx.");
+  if (targetSheets.length === 0 && !workbook.SheetNames.some(isExamSheetName)) {
+    throw new Error(
+      "No target sheets matched pattern <TERM> <YEAR> Kxx (e.g. SPRING 2026 K69) or EXAM <TERM> <YEAR> Kxx.",
+    );
   }
 
   return targetSheets.map((sheetName) => {
@@ -387,260 +320,14 @@ function parseWorkbook(workbook: XLSX.WorkBook): ParsedSheetData[] {
   });
 }
 
-async function writeImport(
-  prisma: PrismaClient,
-  parsedSheets: ParsedSheetData[],
-  sourceFile: string,
-): Promise<ImportSummary> {
-  const semesterLabel = parsedSheets[0].semesterLabel;
-  const semesterKey = parsedSheets[0].semesterKey;
-
-  const allStarts = parsedSheets.map((sheet) => sheet.startDate).filter((value): value is Date => Boolean(value));
-  const allEnds = parsedSheets.map((sheet) => sheet.endDate).filter((value): value is Date => Boolean(value));
-
-  const importRun = await prisma.importRun.create({
-    data: {
-      sourceFile,
-      status: "RUNNING",
-      note: `Preparing import for ${semesterLabel}`,
-    },
-  });
-
-  try {
-    const semester = await prisma.semester.upsert({
-      where: {
-        key: semesterKey,
-      },
-      update: {
-        label: semesterLabel,
-        sourceFile,
-        startDate: allStarts.length > 0 ? new Date(Math.min(...allStarts.map((value) => value.getTime()))) : null,
-        endDate: allEnds.length > 0 ? new Date(Math.max(...allEnds.map((value) => value.getTime()))) : null,
-      },
-      create: {
-        key: semesterKey,
-        label: semesterLabel,
-        sourceFile,
-        startDate: allStarts.length > 0 ? new Date(Math.min(...allStarts.map((value) => value.getTime()))) : null,
-        endDate: allEnds.length > 0 ? new Date(Math.max(...allEnds.map((value) => value.getTime()))) : null,
-      },
-    });
-
-    let totalEntries = 0;
-    let totalClassGroups = 0;
-    const allCourseCodes = new Set<string>();
-
-    for (const parsedSheet of parsedSheets) {
-      const cohort = await prisma.cohort.upsert({
-        where: {
-          semesterId_code: {
-            semesterId: semester.id,
-            code: parsedSheet.cohortCode,
-          },
-        },
-        update: {},
-        create: {
-          semesterId: semester.id,
-          code: parsedSheet.cohortCode,
-        },
-      });
-
-      const existingClassGroups = await prisma.classGroup.findMany({
-        where: {
-          cohortId: cohort.id,
-        },
-        select: {
-          id: true,
-        },
-      });
-
-      if (existingClassGroups.length > 0) {
-        const existingIds = existingClassGroups.map((item) => item.id);
-        await prisma.scheduleEntry.deleteMany({
-          where: {
-            classGroupId: {
-              in: existingIds,
-            },
-          },
-        });
-
-        await prisma.classGroup.deleteMany({
-          where: {
-            id: {
-              in: existingIds,
-            },
-          },
-        });
-      }
-
-      const groupNames = [...new Set(parsedSheet.events.map((event) => event.classGroupName))].sort((a, b) =>
-        a.localeCompare(b),
-      );
-
-      if (groupNames.length > 0) {
-        await prisma.classGroup.createMany({
-          data: groupNames.map((name) => ({
-            name,
-            cohortId: cohort.id,
-          })),
-        });
-      }
-
-      totalClassGroups += groupNames.length;
-
-      const cohortClassGroups = await prisma.classGroup.findMany({
-        where: {
-          cohortId: cohort.id,
-        },
-      });
-
-      const classGroupIdByName = new Map(cohortClassGroups.map((group) => [group.name, group.id]));
-
-      const cohortCourseCodes = new Set<string>();
-      for (const event of parsedSheet.events) {
-        cohortCourseCodes.add(event.courseCode);
-      }
-      for (const code of parsedSheet.catalog.keys()) {
-        cohortCourseCodes.add(code);
-      }
-
-      for (const code of cohortCourseCodes) {
-        const meta = parsedSheet.catalog.get(code);
-        allCourseCodes.add(code);
-
-        const updateData: Prisma.CourseUpdateInput = {};
-
-        if (meta?.nameEn) {
-          updateData.nameEn = meta.nameEn;
-        }
-        if (meta?.nameVi) {
-          updateData.nameVi = meta.nameVi;
-        }
-        if (typeof meta?.credits === "number") {
-          updateData.credits = meta.credits;
-        }
-        if (meta?.prerequisite) {
-          updateData.prerequisite = meta.prerequisite;
-        }
-
-        await prisma.course.upsert({
-          where: {
-            code,
-          },
-          update: updateData,
-          create: {
-            code,
-            nameEn: meta?.nameEn ?? null,
-            nameVi: meta?.nameVi ?? null,
-            credits: meta?.credits ?? null,
-            prerequisite: meta?.prerequisite ?? null,
-          },
-        });
-      }
-
-      const courseRecords = await prisma.course.findMany({
-        where: {
-          code: {
-            in: [...cohortCourseCodes],
-          },
-        },
-        select: {
-          id: true,
-          code: true,
-        },
-      });
-
-      const courseIdByCode = new Map(courseRecords.map((course) => [course.code, course.id]));
-
-      const entryData: Prisma.ScheduleEntryCreateManyInput[] = [];
-      for (const event of parsedSheet.events) {
-        const classGroupId = classGroupIdByName.get(event.classGroupName);
-        const courseId = courseIdByCode.get(event.courseCode);
-
-        if (!classGroupId || !courseId) {
-          continue;
-        }
-
-        entryData.push({
-          semesterId: semester.id,
-          classGroupId,
-          courseId,
-          dayOfWeek: event.dayOfWeek,
-          session: event.session,
-          startTime: event.startTime,
-          rawTime: event.rawTime,
-          room: event.room,
-          sourceSheet: event.sourceSheet,
-          sourceRow: event.sourceRow,
-        });
-      }
-
-      if (entryData.length > 0) {
-        await prisma.scheduleEntry.createMany({
-          data: entryData,
-        });
-      }
-
-      totalEntries += entryData.length;
-    }
-
-    await prisma.importRun.update({
-      where: {
-        id: importRun.id,
-      },
-      data: {
-        semesterId: semester.id,
-        status: "SUCCESS",
-        note: `Imported ${totalEntries} schedule entries`,
-        finishedAt: new Date(),
-      },
-    });
-
-    return {
-      sourceFile,
-      semesterKey,
-      semesterLabel,
-      cohorts: parsedSheets.map((sheet) => sheet.cohortCode),
-      classGroups: totalClassGroups,
-      courses: allCourseCodes.size,
-      entries: totalEntries,
-    };
-  } catch (error) {
-    await prisma.importRun.update({
-      where: {
-        id: importRun.id,
-      },
-      data: {
-        status: "FAILED",
-        note: error instanceof Error ? error.message : "Unknown import error",
-        finishedAt: new Date(),
-      },
-    });
-
-    throw error;
-  }
-}
-
-export async function importWorkbookFromPath(
-  prisma: PrismaClient,
-  workbookPath: string,
-): Promise<ImportSummary> {
-  const resolvedPath = path.resolve(workbookPath);
-  const workbookBuffer = fs.readFileSync(resolvedPath);
-  const workbook = XLSX.read(workbookBuffer, { type: "buffer" });
-  const parsedSheets = parseWorkbook(workbook);
-  return writeImport(prisma, parsedSheets, resolvedPath);
-}
-
-export async function importWorkbookFromBuffer(
-  prisma: PrismaClient,
-  buffer: Buffer,
-  sourceName: string,
-): Promise<ImportSummary> {
-  const workbook = XLSX.read(buffer, { type: "buffer" });
-  const parsedSheets = parseWorkbook(workbook);
-  return writeImport(prisma, parsedSheets, sourceName);
-}
+export const springScheduleImporter: ScheduleImporter = {
+  format: "xlsx",
+  label: "Excel workbook (TERM YEAR Kxx sheets)",
+  extensions: [".xlsx", ".xls"],
+  sniff: (buffer) => buffer.length >= 4 && (buffer.readUInt32BE(0) === 0x504b0304 || buffer.readUInt32BE(0) === 0xd0cf11e0),
+  parse: (buffer) => parseWorkbook(XLSX.read(buffer, { type: "buffer" })),
+  parseExams: (buffer) => parseExamWorkbook(XLSX.read(buffer, { type: "buffer" })),
+};
 
 export function resolveDefaultWorkbookPath(): string {
   const fallbackPath = path.resolve(process.cwd(), "data/raw/TKB Troy-IT SPRING 26.xlsx");
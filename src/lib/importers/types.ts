@@ -0,0 +1,99 @@
+import type { DayOfWeek, ExamKind, SessionPeriod } from "@prisma/client";
+
+export type ImportFormat = "xlsx" | "csv" | "json";
+
+export type ImportCourseMeta = {
+  code: string;
+  nameEn: string | null;
+  nameVi: string | null;
+  credits: number | null;
+  prerequisite: string | null;
+};
+
+export type ImportEvent = {
+  classGroupName: string;
+  dayOfWeek: DayOfWeek;
+  session: SessionPeriod;
+  startTime: string | null;
+  endTime: string | null;
+  rawTime: string | null;
+  room: string | null;
+  weekPattern: string | null;
+  startDate: Date | null;
+  endDate: Date | null;
+  courseCode: string;
+  sourceSheet: string;
+  sourceRow: number;
+};
+
+export type ImportExam = {
+  classGroupName: string;
+  courseCode: string;
+  kind: ExamKind;
+  examDate: Date;
+  startTime: string | null;
+  endTime: string | null;
+  room: string | null;
+  seats: string | null;
+  note: string | null;
+  sourceSheet: string;
+  sourceRow: number;
+};
+
+export type ImportDiagnostic = {
+  severity: "warning" | "error";
+  sheet: string;
+  row: number;
+  column: string | null;
+  raw: string;
+  reason: string;
+};
+
+export type ImportSheet = {
+  sheetName: string;
+  cohortCode: string;
+  semesterLabel: string;
+  semesterKey: string;
+  startDate: Date | null;
+  endDate: Date | null;
+  events: ImportEvent[];
+  catalog: Map<string, ImportCourseMeta>;
+  diagnostics: ImportDiagnostic[];
+};
+
+export type ImportExamSheet = {
+  sheetName: string;
+  cohortCode: string;
+  semesterLabel: string;
+  semesterKey: string;
+  exams: ImportExam[];
+  diagnostics: ImportDiagnostic[];
+};
+
+export type ParsedImport = {
+  format: ImportFormat;
+  sourceFile: string;
+  fileHash: string;
+  sheets: ImportSheet[];
+  examSheets: ImportExamSheet[];
+};
+
+export type ScheduleImporter = {
+  format: ImportFormat;
+  label: string;
+  extensions: string[];
+  sniff: (buffer: Buffer) => boolean;
+  parse: (buffer: Buffer, sourceName: string) => ImportSheet[];
+  parseExams?: (buffer: Buffer, sourceName: string) => ImportExamSheet[];
+};
+
+export type SemesterOverride = {
+  label?: string | null;
+  startDate?: string | null;
+  endDate?: string | null;
+};
+
+export type SemesterMapping = {
+  sheets?: Record<string, string>;
+  semesters?: Record<string, SemesterOverride>;
+};
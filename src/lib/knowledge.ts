@@ -1,9 +1,19 @@
 import fs from "node:fs";
 import path from "node:path";
 
-const DEFAULT_CATALOG_PATH = path.resolve(process.cwd(), "data/catalog/Catalog.csv");
+import { prisma } from "@/lib/prisma";
+import {
+  isWatchingResources,
+  listResourceIndex,
+  syncResourceIndex,
+  watchResourceIndex,
+  type IndexedResourceFolder,
+  type ResourceIndexSummary,
+} from "@/lib/resource-index";
+
 const DEFAULT_RESOURCES_DIR = path.resolve(process.cwd(), "data/resources");
-const CACHE_TTL_MS = 60_000;
+// Only used when the resources directory cannot be watched (missing directory, TROY_RESOURCES_WATCH=0).
+const RESCAN_INTERVAL_MS = 60_000;
 
 type Sentiment = "positive" | "neutral" | "negative";
 
@@ -31,6 +41,7 @@ type RawCourseData = {
   resources: ResourceFile[];
   guidePath: string | null;
   guideContent: string | null;
+  guideHash: string | null;
 };
 
 type LecturerSeed = {
@@ -40,6 +51,11 @@ type LecturerSeed = {
   courseCodes: Set<string>;
 };
 
+type ParsedGuide = {
+  lecturers: LecturerSeed[];
+  reviews: LecturerReview[];
+};
+
 export type LecturerReview = {
   id: string;
   courseCode: string;
@@ -77,7 +93,6 @@ export type CourseOverview = {
 
 export type KnowledgeBundle = {
   sourcePaths: {
-    catalogCsvPath: string;
     resourcesDir: string;
   };
   generatedAt: string;
@@ -91,7 +106,10 @@ export type KnowledgeBundle = {
   lecturers: LecturerOverview[];
 };
 
-let cache: { at: number; data: KnowledgeBundle } | null = null;
+let cache: { resourcesDir: string; catalogVersion: string; data: KnowledgeBundle } | null = null;
+let indexState: { resourcesDir: string; syncedAt: number } | null = null;
+let loading: Promise<KnowledgeBundle> | null = null;
+const parsedGuides = new Map<string, ParsedGuide>();
 
 function cleanCell(value: unknown): string {
   return String(value ?? "")
@@ -211,7 +229,7 @@ function sentimentFromScore(score: number | null): Sentiment {
   return "neutral";
 }
 
-function parseCsvText(content: string): string[][] {
+export function parseCsvText(content: string): string[][] {
   const rows: string[][] = [];
   const row: string[] = [];
   let field = "";
@@ -269,159 +287,68 @@ function parseCsvText(content: string): string[][] {
   return rows;
 }
 
-function decodeCatalogCsv(buffer: Buffer): string {
-  let text = buffer.toString("utf8");
-  if (text.charCodeAt(0) === 0xfeff) {
-    text = text.slice(1);
-  }
-
-  // Basic mojibake recovery for strings like "Khoa Há»c MÃ¡y TÃ­nh".
-  const mojibakeMarkers = ["Ã", "á»", "â€", "Ä", "�"];
-  const markerHits = mojibakeMarkers.reduce(
-    (sum, marker) => sum + (text.match(new RegExp(marker, "g"))?.length ?? 0),
-    0,
+// The catalog lives in the Course table; programs and sections come from the catalog editor or a CSV import.
+async function loadCatalog(): Promise<Map<string, CatalogCourse>> {
+  const courses = await prisma.course.findMany({
+    select: {
+      code: true,
+      nameEn: true,
+      nameVi: true,
+      credits: true,
+      prerequisite: true,
+      note: true,
+      catalogSection: {
+        select: {
+          name: true,
+          program: {
+            select: {
+              name: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  return new Map(
+    courses.map((course) => [
+      course.code,
+      {
+        code: course.code,
+        nameEn: course.nameEn,
+        nameVi: course.nameVi,
+        credits: course.credits,
+        prerequisite: course.prerequisite,
+        note: course.note,
+        program: course.catalogSection?.program.name ?? null,
+        section: course.catalogSection?.name ?? null,
+      },
+    ]),
   );
-  if (markerHits >= 8) {
-    const repaired = Buffer.from(text, "latin1").toString("utf8");
-    if (repaired.includes("Khoa Học") || repaired.includes("Tiếng Việt")) {
-      return repaired;
-    }
-  }
-
-  return text;
 }
 
-function parseCatalog(catalogCsvPath: string): Map<string, CatalogCourse> {
-  const catalog = new Map<string, CatalogCourse>();
-  if (!fs.existsSync(catalogCsvPath)) {
-    return catalog;
-  }
-
-  const raw = fs.readFileSync(catalogCsvPath);
-  const csvText = decodeCatalogCsv(raw);
-  const rows = parseCsvText(csvText);
-
-  let currentProgram: string | null = null;
-  let currentSection: string | null = null;
-
-  for (const row of rows) {
-    const cells = row.map((cell) => cleanCell(cell));
-    const nonEmpty = cells.filter(Boolean);
-
-    if (nonEmpty.length === 0) {
-      continue;
-    }
-
-    const code = normalizeCourseCode(cells[1] ?? "");
-    if (code) {
-      const creditsRaw = Number.parseInt(cleanCell(cells[4]), 10);
-      catalog.set(code, {
-        code,
-        nameEn: cleanCell(cells[2]) || null,
-        nameVi: cleanCell(cells[3]) || null,
-        credits: Number.isFinite(creditsRaw) ? creditsRaw : null,
-        prerequisite: cleanCell(cells[5]) || null,
-        note: cleanCell(cells[6]) || null,
-        program: currentProgram,
-        section: currentSection,
-      });
-      continue;
-    }
-
-    const first = cleanCell(cells[0]);
-    const second = cleanCell(cells[1]);
-    const normalized = normalizeText(`${first} ${second}`);
-
-    if (normalized.includes("program")) {
-      currentProgram = first || second || null;
-      currentSection = null;
-      continue;
-    }
-
-    if (normalized.includes("required courses") || normalized.includes("major electives") || normalized.includes("free electives") || normalized.includes("hust political theory")) {
-      currentSection = first || second || null;
-      continue;
-    }
-
-    if (normalizeText(first) === "no." || normalizeText(second) === "ma hp") {
-      continue;
-    }
-
-    if (!first && second && nonEmpty.length <= 2) {
-      currentSection = second;
-    }
-  }
-
-  return catalog;
-}
-
-function scanCourseResources(resourcesDir: string): Map<string, RawCourseData> {
+function toCourseResources(resourcesDir: string, folders: IndexedResourceFolder[]): Map<string, RawCourseData> {
   const result = new Map<string, RawCourseData>();
-  if (!fs.existsSync(resourcesDir)) {
-    return result;
-  }
 
-  const topLevel = fs.readdirSync(resourcesDir, { withFileTypes: true });
-
-  for (const entry of topLevel) {
-    if (!entry.isDirectory()) {
-      continue;
-    }
-
-    const courseCode = normalizeCourseCode(entry.name);
+  for (const folder of folders) {
+    const courseCode = normalizeCourseCode(folder.folderName);
     if (!courseCode) {
       continue;
     }
 
-    const courseDir = path.join(resourcesDir, entry.name);
-    const resources: ResourceFile[] = [];
-    let guidePath: string | null = null;
-    let guideContent: string | null = null;
-
-    const stack = [courseDir];
-    while (stack.length > 0) {
-      const currentDir = stack.pop();
-      if (!currentDir) {
-        continue;
-      }
-
-      for (const node of fs.readdirSync(currentDir, { withFileTypes: true })) {
-        if (node.name.startsWith(".")) {
-          continue;
-        }
-
-        const absPath = path.join(currentDir, node.name);
-        if (node.isDirectory()) {
-          stack.push(absPath);
-          continue;
-        }
-
-        const relativePath = path.relative(courseDir, absPath);
-        const extension = path.extname(node.name).replace(/^\./, "").toLowerCase() || "unknown";
-
-        if (node.name.toLowerCase() === "guide.md") {
-          guidePath = absPath;
-          guideContent = fs.readFileSync(absPath, "utf-8");
-        }
-
-        const stat = fs.statSync(absPath);
-        resources.push({
-          name: node.name,
-          relativePath,
-          absolutePath: absPath,
-          extension,
-          sizeBytes: stat.size,
-        });
-      }
-    }
-
-    resources.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
-
+    const courseDir = path.join(resourcesDir, folder.folderName);
     result.set(courseCode, {
       code: courseCode,
-      resources,
-      guidePath,
-      guideContent,
+      resources: folder.files.map((file) => ({
+        name: file.name,
+        relativePath: file.relativePath,
+        absolutePath: path.join(courseDir, file.relativePath),
+        extension: file.extension,
+        sizeBytes: file.sizeBytes,
+      })),
+      guidePath: folder.guidePath ? path.join(courseDir, folder.guidePath) : null,
+      guideContent: folder.guideContent,
+      guideHash: folder.guideHash,
     });
   }
 
@@ -436,13 +363,9 @@ function cleanLecturerName(raw: string): string {
     .trim();
 }
 
-function parseGuide(
-  courseCode: string,
-  guidePath: string,
-  guideContent: string,
-  lecturersById: Map<string, LecturerSeed>,
-  reviews: LecturerReview[],
-): void {
+function parseGuide(courseCode: string, guidePath: string, guideContent: string): ParsedGuide {
+  const lecturersById = new Map<string, LecturerSeed>();
+  const reviews: LecturerReview[] = [];
   const referenceLinks = new Map<string, string>();
   const referencePattern = /^\[([^\]]+)\]:\s*(https?:\/\/\S+)/gim;
   let referenceMatch = referencePattern.exec(guideContent);
@@ -577,6 +500,25 @@ function parseGuide(
 
     reviewIndex += 1;
   }
+
+  return { lecturers: [...lecturersById.values()], reviews };
+}
+
+// Guides are parsed once per content hash, so a rebuild only re-parses the folders whose guide changed.
+function parseGuideCached(courseData: RawCourseData): ParsedGuide | null {
+  if (!courseData.guidePath || !courseData.guideContent) {
+    return null;
+  }
+
+  const key = `${courseData.guidePath}:${courseData.guideHash ?? ""}`;
+  const cached = parsedGuides.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const parsed = parseGuide(courseData.code, courseData.guidePath, courseData.guideContent);
+  parsedGuides.set(key, parsed);
+  return parsed;
 }
 
 function averageRating(reviews: Array<{ rating: number | null }>): number | null {
@@ -592,16 +534,45 @@ function averageRating(reviews: Array<{ rating: number | null }>): number | null
   return Number(avg.toFixed(2));
 }
 
-function buildKnowledge(catalogCsvPath: string, resourcesDir: string): KnowledgeBundle {
-  const catalog = parseCatalog(catalogCsvPath);
-  const courseResources = scanCourseResources(resourcesDir);
+function buildKnowledge(
+  catalog: Map<string, CatalogCourse>,
+  resourcesDir: string,
+  folders: IndexedResourceFolder[],
+): KnowledgeBundle {
+  const courseResources = toCourseResources(resourcesDir, folders);
 
   const lecturersById = new Map<string, LecturerSeed>();
   const reviews: LecturerReview[] = [];
+  const usedGuides = new Set<string>();
 
-  for (const [courseCode, courseData] of courseResources.entries()) {
-    if (courseData.guidePath && courseData.guideContent) {
-      parseGuide(courseCode, courseData.guidePath, courseData.guideContent, lecturersById, reviews);
+  for (const courseData of courseResources.values()) {
+    const parsed = parseGuideCached(courseData);
+    if (!parsed) {
+      continue;
+    }
+    usedGuides.add(`${courseData.guidePath}:${courseData.guideHash ?? ""}`);
+
+    for (const seed of parsed.lecturers) {
+      const existing = lecturersById.get(seed.id);
+      if (existing) {
+        existing.profileUrl = existing.profileUrl ?? seed.profileUrl;
+        seed.courseCodes.forEach((code) => existing.courseCodes.add(code));
+      } else {
+        lecturersById.set(seed.id, { ...seed, courseCodes: new Set(seed.courseCodes) });
+      }
+    }
+
+    for (const review of parsed.reviews) {
+      reviews.push({
+        ...review,
+        lecturerName: review.lecturerId ? lecturersById.get(review.lecturerId)?.name ?? null : null,
+      });
+    }
+  }
+
+  for (const key of parsedGuides.keys()) {
+    if (!usedGuides.has(key)) {
+      parsedGuides.delete(key);
     }
   }
 
@@ -678,7 +649,6 @@ function buildKnowledge(catalogCsvPath: string, resourcesDir: string): Knowledge
 
   return {
     sourcePaths: {
-      catalogCsvPath,
       resourcesDir,
     },
     generatedAt: new Date().toISOString(),
@@ -693,40 +663,128 @@ function buildKnowledge(catalogCsvPath: string, resourcesDir: string): Knowledge
   };
 }
 
-export function loadKnowledge(force = false): KnowledgeBundle {
-  if (!force && cache && Date.now() - cache.at < CACHE_TTL_MS) {
-    return cache.data;
+// Syncs the persisted resource index on first use and starts the watcher; afterwards the watcher keeps it current.
+// Returns true when the indexed folders changed since the bundle was last built.
+async function refreshResourceIndex(resourcesDir: string): Promise<boolean> {
+  const watching = isWatchingResources(resourcesDir);
+  if (
+    indexState?.resourcesDir === resourcesDir &&
+    (watching || Date.now() - indexState.syncedAt < RESCAN_INTERVAL_MS)
+  ) {
+    return false;
   }
 
-  const catalogCsvPath = process.env.CATALOG_CSV_PATH ?? DEFAULT_CATALOG_PATH;
-  const resourcesDir = process.env.TROY_RESOURCES_DIR ?? DEFAULT_RESOURCES_DIR;
-  const data = buildKnowledge(catalogCsvPath, resourcesDir);
+  const firstSync = indexState?.resourcesDir !== resourcesDir;
+  const summary = await syncResourceIndex({ resourcesDir });
+  indexState = { resourcesDir, syncedAt: Date.now() };
 
-  cache = {
-    at: Date.now(),
-    data,
-  };
+  if (!watching && process.env.TROY_RESOURCES_WATCH !== "0") {
+    watchResourceIndex({
+      resourcesDir,
+      onChange: () => invalidateKnowledge(),
+      onError: (error) => console.error("Resource index watcher failed:", error),
+    });
+  }
+
+  return firstSync || summary.changed.length > 0 || summary.removed.length > 0;
+}
+
+// Course rows are also written by schedule/exam imports and rollbacks, possibly in another process
+// (import:watch), so the bundle is keyed on the course count and latest update, not only on invalidation.
+async function readCatalogVersion(): Promise<string> {
+  const { _count, _max } = await prisma.course.aggregate({
+    _count: {
+      _all: true,
+    },
+    _max: {
+      updatedAt: true,
+    },
+  });
 
+  return `${_count._all}:${_max.updatedAt?.getTime() ?? 0}`;
+}
+
+async function rebuildKnowledge(resourcesDir: string): Promise<KnowledgeBundle> {
+  const [indexChanged, catalogVersion] = await Promise.all([refreshResourceIndex(resourcesDir), readCatalogVersion()]);
+  if (!indexChanged && cache?.resourcesDir === resourcesDir && cache.catalogVersion === catalogVersion) {
+    return cache.data;
+  }
+
+  const [catalog, folders] = await Promise.all([loadCatalog(), listResourceIndex()]);
+  const data = buildKnowledge(catalog, resourcesDir, folders);
+  cache = { resourcesDir, catalogVersion, data };
   return data;
 }
 
-export function getCourseByCode(code: string): CourseOverview | null {
+export async function loadKnowledge(force = false): Promise<KnowledgeBundle> {
+  const resourcesDir = getResourcesDirectory();
+  if (force) {
+    cache = null;
+  }
+
+  if (
+    cache?.resourcesDir === resourcesDir &&
+    isWatchingResources(resourcesDir) &&
+    cache.catalogVersion === (await readCatalogVersion())
+  ) {
+    return cache.data;
+  }
+
+  loading ??= rebuildKnowledge(resourcesDir).finally(() => {
+    loading = null;
+  });
+  return loading;
+}
+
+export function invalidateKnowledge(): void {
+  cache = null;
+}
+
+/**
+ * Admin "reindex" action: re-checks every resource folder (or only the folders of `courseCode`),
+ * re-hashing all files when `force` is set, then rebuilds the bundle on the next read.
+ */
+export async function reindexKnowledge(
+  options: { courseCode?: string | null; force?: boolean } = {},
+): Promise<ResourceIndexSummary> {
+  const resourcesDir = getResourcesDirectory();
+  const courseCode = options.courseCode ? normalizeCourseCode(options.courseCode) : null;
+  if (options.courseCode && !courseCode) {
+    throw new Error("Mã học phần không hợp lệ (ví dụ: CS 2255).");
+  }
+
+  const folders = courseCode
+    ? (fs.existsSync(resourcesDir) ? fs.readdirSync(resourcesDir) : []).filter(
+        (name) => normalizeCourseCode(name) === courseCode,
+      )
+    : undefined;
+  if (folders && folders.length === 0) {
+    throw new Error(`Không có thư mục học liệu cho ${courseCode}.`);
+  }
+
+  const summary = await syncResourceIndex({ resourcesDir, folders, force: options.force });
+  indexState = { resourcesDir, syncedAt: Date.now() };
+  invalidateKnowledge();
+  return summary;
+}
+
+export async function getCourseByCode(code: string): Promise<CourseOverview | null> {
   const normalized = normalizeCourseCode(code);
   if (!normalized) {
     return null;
   }
 
-  const data = loadKnowledge();
+  const data = await loadKnowledge();
   return data.courses.find((course) => course.code === normalized) ?? null;
 }
 
-export function getLecturerById(id: string): LecturerOverview | null {
-  const data = loadKnowledge();
+export async function getLecturerById(id: string): Promise<LecturerOverview | null> {
+  const data = await loadKnowledge();
   return data.lecturers.find((lecturer) => lecturer.id === id) ?? null;
 }
 
-export function getReviewsByLecturer(id: string): LecturerReview[] {
-  const data = loadKnowledge();
+export async function getReviewsByLecturer(id: string): Promise<LecturerReview[]> {
+  const data = await loadKnowledge();
   return data.courses
     .flatMap((course) => course.reviews)
     .filter((review) => review.lecturerId === id);
@@ -1,7 +1,16 @@
 import { DayOfWeek, type ScheduleEntry } from "@prisma/client";
 
-import { loadKnowledge } from "@/lib/knowledge";
+import { getClassGroupExamSchedule, getPersonalExamSchedule, type ExamConflict, type PortalExam } from "@/lib/exams";
+import { loadKnowledge, normalizeSearchText } from "@/lib/knowledge";
 import { prisma } from "@/lib/prisma";
+import {
+  entriesShareWeek,
+  findWeekForDate,
+  isEntryActiveInWeek,
+  listSemesterWeeks,
+  scheduleDateOf,
+  type SemesterWeek,
+} from "@/lib/schedule-weeks";
 
 const DAY_ORDER: DayOfWeek[] = [
   DayOfWeek.MON,
@@ -28,9 +37,10 @@ type QueryInput = {
   cohortCode?: string;
   classGroupName?: string;
   day?: DayOfWeek | "ALL";
+  week?: number | "ALL";
 };
 
-type LecturerLite = {
+export type LecturerLite = {
   id: string;
   name: string;
 };
@@ -46,7 +56,7 @@ function normalizeInstructionCode(raw: string | null | undefined): string {
     .replace(/[^A-Z0-9]+/g, "");
 }
 
-function normalizeClassGroupName(raw: string | null | undefined): string {
+export function normalizeClassGroupName(raw: string | null | undefined): string {
   if (!raw) {
     return "";
   }
@@ -57,7 +67,7 @@ function normalizeClassGroupName(raw: string | null | undefined): string {
     .replace(/\s+/g, " ");
 }
 
-function normalizeSemesterKey(raw: string | null | undefined): string {
+export function normalizeSemesterKey(raw: string | null | undefined): string {
   if (!raw) {
     return "";
   }
@@ -68,7 +78,7 @@ function normalizeSemesterKey(raw: string | null | undefined): string {
     .replace(/[^A-Z0-9_-]+/g, "_");
 }
 
-function extractInstructionCode(value: string | null | undefined): string {
+export function extractInstructionCode(value: string | null | undefined): string {
   const text = (value ?? "").toUpperCase();
   const matched = text.match(/\bIHA[A-Z0-9]{1,4}\b/);
   if (!matched) {
@@ -78,7 +88,7 @@ function extractInstructionCode(value: string | null | undefined): string {
   return normalizeInstructionCode(matched[0]);
 }
 
-function resolveLecturersForEntry(input: {
+export function resolveLecturersForEntry(input: {
   courseCode: string;
   classGroupName: string;
   instructionCode: string;
@@ -136,6 +146,8 @@ export type PortalMeta = {
   semesters: Array<{
     key: string;
     label: string;
+    startDate: string | null;
+    endDate: string | null;
     cohorts: Array<{
       code: string;
       classGroups: string[];
@@ -143,6 +155,43 @@ export type PortalMeta = {
   }>;
 };
 
+export type PortalEntryRow = Pick<
+  ScheduleEntry,
+  "id" | "dayOfWeek" | "session" | "startTime" | "endTime" | "rawTime" | "room" | "weekPattern" | "startDate" | "endDate"
+> & {
+  course: {
+    code: string;
+    nameEn: string | null;
+    nameVi: string | null;
+  };
+  classGroup: {
+    name: string;
+    cohort: {
+      code: string;
+    };
+  };
+};
+
+const PORTAL_ENTRY_INCLUDE = {
+  course: {
+    select: {
+      code: true,
+      nameEn: true,
+      nameVi: true,
+    },
+  },
+  classGroup: {
+    select: {
+      name: true,
+      cohort: {
+        select: {
+          code: true,
+        },
+      },
+    },
+  },
+} as const;
+
 export type PortalData = {
   meta: PortalMeta;
   selected: {
@@ -150,15 +199,23 @@ export type PortalData = {
     cohortCode: string | null;
     classGroupName: string | null;
     day: DayOfWeek | "ALL";
+    week: number | "ALL";
   };
+  weeks: SemesterWeek[];
   entries: Array<{
     id: string;
+    cohortCode: string;
+    classGroupName: string;
     dayOfWeek: DayOfWeek;
     dayLabel: string;
     session: string;
     startTime: string | null;
+    endTime: string | null;
     room: string | null;
     rawTime: string | null;
+    weekPattern: string | null;
+    startDate: string | null;
+    endDate: string | null;
     course: {
       code: string;
       nameEn: string | null;
@@ -172,6 +229,8 @@ export type PortalData = {
     startTime: string;
     courses: string[];
   }>;
+  exams: PortalExam[];
+  examConflicts: ExamConflict[];
 };
 
 function sortEntries(a: ScheduleEntry, b: ScheduleEntry): number {
@@ -185,32 +244,87 @@ function sortEntries(a: ScheduleEntry, b: ScheduleEntry): number {
   return timeA.localeCompare(timeB);
 }
 
-function computeConflicts(entries: PortalData["entries"]): PortalData["conflicts"] {
-  const grouped = new Map<string, PortalData["conflicts"][number]>();
+function toMinutes(time: string): number {
+  const [hour, minute] = time.split(":").map((part) => Number.parseInt(part, 10));
+  return hour * 60 + minute;
+}
+
+function slotsOverlap(left: PortalData["entries"][number], right: PortalData["entries"][number]): boolean {
+  if (!left.startTime || !right.startTime) {
+    return false;
+  }
+  if (left.startTime === right.startTime) {
+    return true;
+  }
+
+  const leftStart = toMinutes(left.startTime);
+  const rightStart = toMinutes(right.startTime);
+  const leftEnd = left.endTime ? toMinutes(left.endTime) : null;
+  const rightEnd = right.endTime ? toMinutes(right.endTime) : null;
+  return (
+    (leftEnd !== null && rightStart >= leftStart && rightStart < leftEnd) ||
+    (rightEnd !== null && leftStart >= rightStart && leftStart < rightEnd)
+  );
+}
+
+// Overlapping rows of one course inside one class group are a single class split across rows; the same
+// course picked from two class groups at once (a retake mix-up) is a real clash. A lecturer teaching one
+// course to several class groups at once is a combined class, so their view passes `combinedClasses`.
+function computeConflicts(
+  entries: PortalData["entries"],
+  weeks: SemesterWeek[],
+  { combinedClasses = false }: { combinedClasses?: boolean } = {},
+): PortalData["conflicts"] {
+  const conflicts = new Map<string, PortalData["conflicts"][number]>();
+
+  const sameClass = (left: PortalData["entries"][number], right: PortalData["entries"][number]) =>
+    left.course.code === right.course.code &&
+    (combinedClasses || (left.cohortCode === right.cohortCode && left.classGroupName === right.classGroupName));
 
   for (const entry of entries) {
-    if (!entry.startTime) {
+    const clashing = entries.filter(
+      (other) =>
+        other !== entry &&
+        other.dayOfWeek === entry.dayOfWeek &&
+        !sameClass(entry, other) &&
+        slotsOverlap(entry, other) &&
+        entriesShareWeek(entry, other, weeks),
+    );
+    if (clashing.length === 0) {
       continue;
     }
 
-    const key = `${entry.dayOfWeek}:${entry.startTime}`;
-    const existing = grouped.get(key);
-
-    if (!existing) {
-      grouped.set(key, {
+    const courses = [...new Set([entry, ...clashing].map((item) => item.course.code))].sort();
+    const startTime = [entry, ...clashing].map((item) => item.startTime as string).sort()[0];
+    const key = `${entry.dayOfWeek}:${startTime}:${courses.join("|")}`;
+    if (!conflicts.has(key)) {
+      conflicts.set(key, {
         dayOfWeek: entry.dayOfWeek,
-        startTime: entry.startTime,
-        courses: [entry.course.code],
+        startTime,
+        courses,
       });
-      continue;
     }
+  }
 
-    if (!existing.courses.includes(entry.course.code)) {
-      existing.courses.push(entry.course.code);
-    }
+  return [...conflicts.values()].sort(
+    (a, b) => DAY_ORDER.indexOf(a.dayOfWeek) - DAY_ORDER.indexOf(b.dayOfWeek) || a.startTime.localeCompare(b.startTime),
+  );
+}
+
+function resolveSelectedWeek(weeks: SemesterWeek[], requested: QueryInput["week"]): SemesterWeek | null {
+  if (requested === "ALL") {
+    return null;
+  }
+
+  if (typeof requested === "number") {
+    return weeks.find((week) => week.week === requested) ?? null;
   }
 
-  return [...grouped.values()].filter((conflict) => conflict.courses.length > 1);
+  return findWeekForDate(weeks, scheduleDateOf(new Date()));
+}
+
+function toDateText(value: Date | null): string | null {
+  return value ? value.toISOString().slice(0, 10) : null;
 }
 
 export async function getPortalMeta(): Promise<PortalMeta> {
@@ -232,6 +346,8 @@ export async function getPortalMeta(): Promise<PortalMeta> {
     semesters: semesters.map((semester) => ({
       key: semester.key,
       label: semester.label,
+      startDate: toDateText(semester.startDate),
+      endDate: toDateText(semester.endDate),
       cohorts: semester.cohorts.map((cohort) => ({
         code: cohort.code,
         classGroups: cohort.classGroups.map((classGroup) => classGroup.name).sort((a, b) =>
@@ -242,9 +358,8 @@ export async function getPortalMeta(): Promise<PortalMeta> {
   };
 }
 
-export async function getPortalData(query: QueryInput = {}): Promise<PortalData> {
-  const meta = await getPortalMeta();
-  const catalog = loadKnowledge();
+export async function toPortalEntries(semesterKey: string, rows: PortalEntryRow[]): Promise<PortalData["entries"]> {
+  const catalog = await loadKnowledge();
   const catalogMap = new Map(
     catalog.courses.map((course) => [
       course.code,
@@ -254,98 +369,9 @@ export async function getPortalData(query: QueryInput = {}): Promise<PortalData>
       },
     ]),
   );
-  const selectedSemester =
-    meta.semesters.find((semester) => semester.key === query.semesterKey) ?? meta.semesters[0] ?? null;
-
-  const selectedCohort =
-    selectedSemester?.cohorts.find((cohort) => cohort.code === query.cohortCode) ??
-    selectedSemester?.cohorts[0] ??
-    null;
-
-  const selectedClassGroup =
-    selectedCohort?.classGroups.find((className) => className === query.classGroupName) ??
-    selectedCohort?.classGroups[0] ??
-    null;
-
-  const selectedDay = query.day ?? "ALL";
-
-  if (!selectedSemester || !selectedCohort || !selectedClassGroup) {
-    return {
-      meta,
-      selected: {
-        semesterKey: selectedSemester?.key ?? null,
-        cohortCode: selectedCohort?.code ?? null,
-        classGroupName: selectedClassGroup,
-        day: selectedDay,
-      },
-      entries: [],
-      conflicts: [],
-    };
-  }
-
-  const semester = await prisma.semester.findUnique({
-    where: {
-      key: selectedSemester.key,
-    },
-    select: {
-      id: true,
-      cohorts: {
-        where: {
-          code: selectedCohort.code,
-        },
-        select: {
-          id: true,
-          classGroups: {
-            where: {
-              name: selectedClassGroup,
-            },
-            select: {
-              id: true,
-            },
-          },
-        },
-      },
-    },
-  });
-
-  const classGroupId = semester?.cohorts[0]?.classGroups[0]?.id;
-
-  if (!semester?.id || !classGroupId) {
-    return {
-      meta,
-      selected: {
-        semesterKey: selectedSemester.key,
-        cohortCode: selectedCohort.code,
-        classGroupName: selectedClassGroup,
-        day: selectedDay,
-      },
-      entries: [],
-      conflicts: [],
-    };
-  }
-
-  const scheduleEntries = await prisma.scheduleEntry.findMany({
-    where: {
-      semesterId: semester.id,
-      classGroupId,
-      ...(selectedDay === "ALL" ? {} : { dayOfWeek: selectedDay }),
-    },
-    include: {
-      course: {
-        select: {
-          code: true,
-          nameEn: true,
-          nameVi: true,
-        },
-      },
-    },
-  });
-
-  scheduleEntries.sort(sortEntries);
-
-  const selectedSemesterKey = normalizeSemesterKey(selectedSemester.key);
-  const selectedClassGroupUpper = normalizeClassGroupName(selectedClassGroup);
-  const selectedCourseCodes = [...new Set(scheduleEntries.map((entry) => entry.course.code))];
+  const selectedSemesterKey = normalizeSemesterKey(semesterKey);
+  const classGroupNames = [...new Set(rows.map((row) => normalizeClassGroupName(row.classGroup.name)))];
+  const selectedCourseCodes = [...new Set(rows.map((entry) => entry.course.code))];
   const catalogLecturerNameMap = new Map(catalog.lecturers.map((lecturer) => [lecturer.id, lecturer.name]));
   const catalogLecturerIdsByCourse = new Map<string, Set<string>>();
   for (const course of catalog.courses) {
@@ -394,7 +420,7 @@ export async function getPortalData(query: QueryInput = {}): Promise<PortalData>
               courseCode: {
                 in: selectedCourseCodes,
               },
-              OR: [{ classGroupName: "" }, { classGroupName: selectedClassGroupUpper }],
+              OR: [{ classGroupName: "" }, { classGroupName: { in: classGroupNames } }],
             },
             select: {
               courseCode: true,
@@ -410,7 +436,7 @@ export async function getPortalData(query: QueryInput = {}): Promise<PortalData>
                 courseCode: {
                   in: selectedCourseCodes,
                 },
-                OR: [{ classGroupName: "" }, { classGroupName: selectedClassGroupUpper }],
+                OR: [{ classGroupName: "" }, { classGroupName: { in: classGroupNames } }],
               },
               select: {
                 courseCode: true,
@@ -505,12 +531,12 @@ export async function getPortalData(query: QueryInput = {}): Promise<PortalData>
     name: lecturerNameMap.get(lecturerId) ?? lecturerId,
   });
 
-  const normalizedEntries: PortalData["entries"] = scheduleEntries.map((entry) => {
+  return rows.map((entry) => {
     const fallback = catalogMap.get(entry.course.code);
     const instructionCode = extractInstructionCode(entry.room ?? entry.rawTime);
     const lecturers = resolveLecturersForEntry({
       courseCode: entry.course.code,
-      classGroupName: selectedClassGroupUpper,
+      classGroupName: normalizeClassGroupName(entry.classGroup.name),
       instructionCode,
       assignments: teachingAssignments,
       lecturerNameMap,
@@ -524,12 +550,18 @@ export async function getPortalData(query: QueryInput = {}): Promise<PortalData>
 
     return {
       id: entry.id,
+      cohortCode: entry.classGroup.cohort.code,
+      classGroupName: entry.classGroup.name,
       dayOfWeek: entry.dayOfWeek,
       dayLabel: DAY_LABEL[entry.dayOfWeek],
       session: entry.session,
       startTime: entry.startTime,
+      endTime: entry.endTime,
       rawTime: entry.rawTime,
       room: entry.room,
+      weekPattern: entry.weekPattern,
+      startDate: toDateText(entry.startDate),
+      endDate: toDateText(entry.endDate),
       course: {
         code: entry.course.code,
         nameEn: entry.course.nameEn ?? fallback?.nameEn ?? null,
@@ -539,6 +571,106 @@ export async function getPortalData(query: QueryInput = {}): Promise<PortalData>
       lecturers: fallbackLecturers,
     };
   });
+}
+
+export async function getPortalData(query: QueryInput = {}): Promise<PortalData> {
+  const meta = await getPortalMeta();
+  const selectedSemester =
+    meta.semesters.find((semester) => semester.key === query.semesterKey) ?? meta.semesters[0] ?? null;
+
+  const selectedCohort =
+    selectedSemester?.cohorts.find((cohort) => cohort.code === query.cohortCode) ??
+    selectedSemester?.cohorts[0] ??
+    null;
+
+  const selectedClassGroup =
+    selectedCohort?.classGroups.find((className) => className === query.classGroupName) ??
+    selectedCohort?.classGroups[0] ??
+    null;
+
+  const selectedDay = query.day ?? "ALL";
+  const weeks = listSemesterWeeks(selectedSemester?.startDate ?? null, selectedSemester?.endDate ?? null);
+  const selectedWeek = resolveSelectedWeek(weeks, query.week);
+
+  if (!selectedSemester || !selectedCohort || !selectedClassGroup) {
+    return {
+      meta,
+      selected: {
+        semesterKey: selectedSemester?.key ?? null,
+        cohortCode: selectedCohort?.code ?? null,
+        classGroupName: selectedClassGroup,
+        day: selectedDay,
+        week: selectedWeek?.week ?? "ALL",
+      },
+      weeks,
+      entries: [],
+      conflicts: [],
+      exams: [],
+      examConflicts: [],
+    };
+  }
+
+  const semester = await prisma.semester.findUnique({
+    where: {
+      key: selectedSemester.key,
+    },
+    select: {
+      id: true,
+      cohorts: {
+        where: {
+          code: selectedCohort.code,
+        },
+        select: {
+          id: true,
+          classGroups: {
+            where: {
+              name: selectedClassGroup,
+            },
+            select: {
+              id: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  const classGroupId = semester?.cohorts[0]?.classGroups[0]?.id;
+
+  if (!semester?.id || !classGroupId) {
+    return {
+      meta,
+      selected: {
+        semesterKey: selectedSemester.key,
+        cohortCode: selectedCohort.code,
+        classGroupName: selectedClassGroup,
+        day: selectedDay,
+        week: selectedWeek?.week ?? "ALL",
+      },
+      weeks,
+      entries: [],
+      conflicts: [],
+      exams: [],
+      examConflicts: [],
+    };
+  }
+
+  const scheduleEntries = await prisma.scheduleEntry.findMany({
+    where: {
+      semesterId: semester.id,
+      classGroupId,
+      ...(selectedDay === "ALL" ? {} : { dayOfWeek: selectedDay }),
+    },
+    include: PORTAL_ENTRY_INCLUDE,
+  });
+
+  scheduleEntries.sort(sortEntries);
+  const activeEntries = selectedWeek
+    ? scheduleEntries.filter((entry) => isEntryActiveInWeek(entry, selectedWeek))
+    : scheduleEntries;
+
+  const normalizedEntries = await toPortalEntries(selectedSemester.key, activeEntries);
+  const examSchedule = await getClassGroupExamSchedule(semester.id, classGroupId, weeks);
 
   return {
     meta,
@@ -547,12 +679,232 @@ export async function getPortalData(query: QueryInput = {}): Promise<PortalData>
       cohortCode: selectedCohort.code,
       classGroupName: selectedClassGroup,
       day: selectedDay,
+      week: selectedWeek?.week ?? "ALL",
+    },
+    weeks,
+    entries: normalizedEntries,
+    conflicts: computeConflicts(normalizedEntries, selectedWeek ? [selectedWeek] : weeks),
+    exams: examSchedule.exams,
+    examConflicts: examSchedule.conflicts,
+  };
+}
+
+export async function getPersonalPortalData(
+  username: string,
+  query: Pick<QueryInput, "semesterKey" | "day" | "week"> = {},
+): Promise<PortalData> {
+  const meta = await getPortalMeta();
+  const selectedSemester =
+    meta.semesters.find((semester) => semester.key === query.semesterKey) ?? meta.semesters[0] ?? null;
+  const selectedDay = query.day ?? "ALL";
+  const weeks = listSemesterWeeks(selectedSemester?.startDate ?? null, selectedSemester?.endDate ?? null);
+  const selectedWeek = resolveSelectedWeek(weeks, query.week);
+
+  const picks = selectedSemester
+    ? await prisma.personalTimetableEntry.findMany({
+        where: {
+          username,
+          scheduleEntry: {
+            semester: {
+              key: selectedSemester.key,
+            },
+            ...(selectedDay === "ALL" ? {} : { dayOfWeek: selectedDay }),
+          },
+        },
+        select: {
+          scheduleEntry: {
+            include: PORTAL_ENTRY_INCLUDE,
+          },
+        },
+      })
+    : [];
+
+  const scheduleEntries = picks.map((pick) => pick.scheduleEntry).sort(sortEntries);
+  const activeEntries = selectedWeek
+    ? scheduleEntries.filter((entry) => isEntryActiveInWeek(entry, selectedWeek))
+    : scheduleEntries;
+  const normalizedEntries = selectedSemester ? await toPortalEntries(selectedSemester.key, activeEntries) : [];
+  const examPicks =
+    selectedSemester && selectedDay !== "ALL"
+      ? (
+          await prisma.personalTimetableEntry.findMany({
+            where: {
+              username,
+              scheduleEntry: {
+                semester: {
+                  key: selectedSemester.key,
+                },
+              },
+            },
+            select: {
+              scheduleEntry: {
+                select: {
+                  id: true,
+                  classGroupId: true,
+                  courseId: true,
+                },
+              },
+            },
+          })
+        ).map((pick) => pick.scheduleEntry)
+      : scheduleEntries;
+  const examSchedule = await getPersonalExamSchedule(examPicks, weeks);
+
+  return {
+    meta,
+    selected: {
+      semesterKey: selectedSemester?.key ?? null,
+      cohortCode: null,
+      classGroupName: null,
+      day: selectedDay,
+      week: selectedWeek?.week ?? "ALL",
+    },
+    weeks,
+    entries: normalizedEntries,
+    conflicts: computeConflicts(normalizedEntries, selectedWeek ? [selectedWeek] : weeks),
+    exams: examSchedule.exams,
+    examConflicts: examSchedule.conflicts,
+  };
+}
+
+async function getLecturerCourseCodes(lecturerId: string, semesterKey: string): Promise<string[]> {
+  const normalizedSemesterKey = normalizeSemesterKey(semesterKey);
+  const [assignments, overrides] = await Promise.all([
+    prisma.courseTeachingAssignment.findMany({
+      where: {
+        enabled: true,
+        semesterKey: normalizedSemesterKey,
+        lecturerId,
+      },
+      select: {
+        courseCode: true,
+      },
+    }),
+    prisma.courseLecturerOverride.findMany({
+      where: {
+        enabled: true,
+        semesterKey: normalizedSemesterKey,
+        lecturerId,
+      },
+      select: {
+        courseCode: true,
+      },
+    }),
+  ]);
+  const catalogCourseCodes = (await loadKnowledge()).lecturers.find((lecturer) => lecturer.id === lecturerId)?.courses ?? [];
+
+  return [
+    ...new Set([
+      ...catalogCourseCodes,
+      ...assignments.map((assignment) => assignment.courseCode),
+      ...overrides.map((override) => override.courseCode),
+    ]),
+  ];
+}
+
+// Entries are attributed exactly as in the class-group views (assignments by class/instruction code first,
+// then the course-level lecturer list), so both sides of the timetable always agree.
+export async function getLecturerPortalData(
+  lecturerId: string,
+  query: Pick<QueryInput, "semesterKey" | "day" | "week"> = {},
+): Promise<PortalData> {
+  const meta = await getPortalMeta();
+  const selectedSemester =
+    meta.semesters.find((semester) => semester.key === query.semesterKey) ?? meta.semesters[0] ?? null;
+  const selectedDay = query.day ?? "ALL";
+  const weeks = listSemesterWeeks(selectedSemester?.startDate ?? null, selectedSemester?.endDate ?? null);
+  const selectedWeek = resolveSelectedWeek(weeks, query.week);
+
+  const courseCodes = selectedSemester ? await getLecturerCourseCodes(lecturerId, selectedSemester.key) : [];
+  const scheduleEntries =
+    selectedSemester && courseCodes.length > 0
+      ? await prisma.scheduleEntry.findMany({
+          where: {
+            semester: {
+              key: selectedSemester.key,
+            },
+            course: {
+              code: {
+                in: courseCodes,
+              },
+            },
+            ...(selectedDay === "ALL" ? {} : { dayOfWeek: selectedDay }),
+          },
+          include: PORTAL_ENTRY_INCLUDE,
+        })
+      : [];
+
+  scheduleEntries.sort(sortEntries);
+  const activeEntries = selectedWeek
+    ? scheduleEntries.filter((entry) => isEntryActiveInWeek(entry, selectedWeek))
+    : scheduleEntries;
+  const normalizedEntries = selectedSemester
+    ? (await toPortalEntries(selectedSemester.key, activeEntries)).filter((entry) =>
+        entry.lecturers.some((lecturer) => lecturer.id === lecturerId),
+      )
+    : [];
+
+  return {
+    meta,
+    selected: {
+      semesterKey: selectedSemester?.key ?? null,
+      cohortCode: null,
+      classGroupName: null,
+      day: selectedDay,
+      week: selectedWeek?.week ?? "ALL",
     },
+    weeks,
     entries: normalizedEntries,
-    conflicts: computeConflicts(normalizedEntries),
+    conflicts: computeConflicts(normalizedEntries, selectedWeek ? [selectedWeek] : weeks, { combinedClasses: true }),
+    exams: [],
+    examConflicts: [],
   };
 }
 
+// Accounts are linked explicitly from the profile page; older accounts fall back to the lecturer profile email
+// or an unambiguous name match against the catalog.
+// Only the lecturer record the account linked on the Profile page (checked known and unclaimed when saved)
+// counts; names and emails are user-editable, so they never resolve an account on their own.
+export async function findLecturerIdForAccount(account: { lecturerId?: string | null }): Promise<string | null> {
+  if (!account.lecturerId) {
+    return null;
+  }
+
+  const lecturers = (await loadKnowledge()).lecturers;
+  return lecturers.some((lecturer) => lecturer.id === account.lecturerId) ? account.lecturerId : null;
+}
+
+// Pre-selects a likely record on the Profile page of an unlinked account; the link only exists once saved.
+export async function suggestLecturerIdForAccount(
+  account: { email?: string | null; displayName?: string | null },
+  claimedLecturerIds: Set<string | null>,
+): Promise<string | null> {
+  const lecturers = (await loadKnowledge()).lecturers.filter((lecturer) => !claimedLecturerIds.has(lecturer.id));
+
+  if (account.email) {
+    const profile = await prisma.lecturerProfile.findFirst({
+      where: {
+        email: account.email.trim().toLowerCase(),
+      },
+      select: {
+        lecturerId: true,
+      },
+    });
+    if (profile && lecturers.some((lecturer) => lecturer.id === profile.lecturerId)) {
+      return profile.lecturerId;
+    }
+  }
+
+  const normalizeName = (value: string) => normalizeSearchText(value).trim().replace(/\s+/g, " ");
+  const name = normalizeName(account.displayName ?? "");
+  if (!name) {
+    return null;
+  }
+
+  const matches = lecturers.filter((lecturer) => normalizeName(lecturer.name) === name);
+  return matches.length === 1 ? matches[0].id : null;
+}
+
 export const DAY_OPTIONS: Array<{ value: DayOfWeek | "ALL"; label: string }> = [
   { value: "ALL", label: "All days" },
   { value: DayOfWeek.MON, label: "Monday" },
@@ -0,0 +1,416 @@
+import { normalizeGradeLetter } from "@/lib/gpa";
+import { loadKnowledge, normalizeCourseCode, normalizeSearchText } from "@/lib/knowledge";
+import { prisma } from "@/lib/prisma";
+
+export type PrerequisiteExpr =
+  | { type: "course"; code: string }
+  | { type: "and"; items: PrerequisiteExpr[] }
+  | { type: "or"; items: PrerequisiteExpr[] }
+  | { type: "permission" }
+  | { type: "text"; text: string };
+
+export type ParsedPrerequisite = {
+  raw: string | null;
+  expr: PrerequisiteExpr | null;
+  courseCodes: string[];
+  minimumGrade: string | null;
+};
+
+export type PrerequisiteStatus = "met" | "permission" | "unknown" | "missing";
+
+export type PrerequisiteCheck = {
+  status: PrerequisiteStatus;
+  missing: string[];
+};
+
+export type PrerequisiteGraph = Map<
+  string,
+  {
+    code: string;
+    nameEn: string | null;
+    nameVi: string | null;
+    credits: number | null;
+    prerequisite: ParsedPrerequisite;
+  }
+>;
+
+export type CourseEligibility = {
+  code: string;
+  nameEn: string | null;
+  nameVi: string | null;
+  credits: number | null;
+  prerequisite: ParsedPrerequisite;
+  check: PrerequisiteCheck;
+};
+
+export type EligibilityReport = {
+  passed: Map<string, string>;
+  eligible: CourseEligibility[];
+  permission: CourseEligibility[];
+  unknown: CourseEligibility[];
+  blocked: CourseEligibility[];
+};
+
+type Token =
+  | { kind: "course"; code: string }
+  | { kind: "and" | "or" | "comma" | "open" | "close" | "permission" }
+  | { kind: "word"; text: string };
+
+const GRADE_ORDER = ["A", "B", "C", "D"];
+
+const NO_PREREQUISITE = /^(?:none|khong|khong co|n\/?a|-+|—)$/;
+
+// Words that carry no meaning for the graph ("one of the following courses", "permission of the instructor").
+const FILLER_WORDS = new Set([
+  "a",
+  "an",
+  "the",
+  "of",
+  "in",
+  "either",
+  "both",
+  "one",
+  "following",
+  "course",
+  "courses",
+  "mon",
+  "instructor",
+  "department",
+  "chair",
+  "advisor",
+  "dean",
+  "giang",
+  "vien",
+  "khoa",
+]);
+
+const MINIMUM_GRADE_PATTERN =
+  /\b(?:with\s+)?(?:a\s+)?(?:minimum\s+)?(?:grade\s+of\s+)?["'“]?\b([a-d])\b["'”]?\s+or\s+(?:better|higher|above)(?:\s+in)?/i;
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\b(?!(?:and|or|va|hoac)\b)([a-z]{2,6})\s*-?\s*(\d{3,4}[a-z]?)\b|\b\d{3,4}[a-z]?\b|[(),;/&+]|[a-z]+/gi;
+  let subject: string | null = null;
+
+  for (const match of text.matchAll(pattern)) {
+    const value = match[0];
+
+    if (match[1] && match[2]) {
+      const code = normalizeCourseCode(`${match[1]} ${match[2]}`);
+      if (code) {
+        subject = code.split(" ")[0];
+        tokens.push({ kind: "course", code });
+        continue;
+      }
+    }
+
+    if (/^\d/.test(value)) {
+      // "CS 2255 or 2260" reuses the subject of the previous course code.
+      const code = subject ? normalizeCourseCode(`${subject} ${value}`) : null;
+      tokens.push(code ? { kind: "course", code } : { kind: "word", text: value });
+      continue;
+    }
+
+    const word = value.toLowerCase();
+    if (word === "(") {
+      tokens.push({ kind: "open" });
+    } else if (word === ")") {
+      tokens.push({ kind: "close" });
+    } else if (word === "," || word === ";") {
+      tokens.push({ kind: "comma" });
+    } else if (word === "and" || word === "va" || word === "&" || word === "+") {
+      tokens.push({ kind: "and" });
+    } else if (word === "or" || word === "hoac" || word === "/") {
+      tokens.push({ kind: "or" });
+    } else if (word === "permission" || word === "consent" || word === "approval") {
+      tokens.push({ kind: "permission" });
+    } else if (!FILLER_WORDS.has(word)) {
+      const previous = tokens[tokens.length - 1];
+      if (previous?.kind === "word") {
+        previous.text = `${previous.text} ${word}`;
+      } else {
+        tokens.push({ kind: "word", text: word });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+function combine(type: "and" | "or", items: PrerequisiteExpr[]): PrerequisiteExpr | null {
+  const flat = items.flatMap((item) => (item.type === type ? item.items : [item]));
+  if (flat.length === 0) {
+    return null;
+  }
+
+  return flat.length === 1 ? flat[0] : { type, items: flat };
+}
+
+function parseExpression(tokens: Token[]): PrerequisiteExpr | null {
+  let index = 0;
+
+  const parseOperand = (token: Token): PrerequisiteExpr | null => {
+    if (token.kind === "course") {
+      return { type: "course", code: token.code };
+    }
+    if (token.kind === "permission") {
+      return { type: "permission" };
+    }
+    if (token.kind === "word") {
+      return { type: "text", text: token.text };
+    }
+    if (token.kind === "open") {
+      const inner = parseGroup();
+      if (tokens[index]?.kind === "close") {
+        index += 1;
+      }
+      return inner;
+    }
+
+    return null;
+  };
+
+  // Operands of one parenthesis level. "A, B, or C" is a list of alternatives, so commas take the
+  // meaning of the explicit conjunction used in the same list; otherwise AND binds tighter than OR.
+  const parseGroup = (): PrerequisiteExpr | null => {
+    const operands: PrerequisiteExpr[][] = [[]];
+    const separators: Array<"and" | "or" | "comma"> = [];
+
+    while (index < tokens.length) {
+      const token = tokens[index];
+      if (token.kind === "close") {
+        break;
+      }
+      index += 1;
+
+      if (token.kind === "and" || token.kind === "or" || token.kind === "comma") {
+        if (operands[operands.length - 1].length > 0) {
+          separators.push(token.kind);
+          operands.push([]);
+        } else if (separators.length > 0 && token.kind !== "comma") {
+          // ", or" / ", and": the word decides what the comma before it means.
+          separators[separators.length - 1] = token.kind;
+        }
+        continue;
+      }
+
+      const operand = parseOperand(token);
+      if (operand) {
+        operands[operands.length - 1].push(operand);
+      }
+    }
+
+    const commaMeaning = separators.includes("or") && !separators.includes("and") ? "or" : "and";
+    const alternatives: PrerequisiteExpr[][] = [[]];
+    operands.forEach((group, groupIndex) => {
+      const expr = combine("and", group);
+      if (expr) {
+        alternatives[alternatives.length - 1].push(expr);
+      }
+
+      const separator = separators[groupIndex];
+      if (separator === "or" || (separator === "comma" && commaMeaning === "or")) {
+        alternatives.push([]);
+      }
+    });
+
+    return combine(
+      "or",
+      alternatives.map((items) => combine("and", items)).filter((item): item is PrerequisiteExpr => item !== null),
+    );
+  };
+
+  const items: PrerequisiteExpr[] = [];
+  while (index < tokens.length) {
+    const expr = parseGroup();
+    if (expr) {
+      items.push(expr);
+    }
+    // A stray closing parenthesis ends a group early; skip it and keep going.
+    index += 1;
+  }
+
+  return combine("and", items);
+}
+
+function collectCourseCodes(expr: PrerequisiteExpr | null, codes = new Set<string>()): Set<string> {
+  if (expr?.type === "course") {
+    codes.add(expr.code);
+  } else if (expr?.type === "and" || expr?.type === "or") {
+    expr.items.forEach((item) => collectCourseCodes(item, codes));
+  }
+
+  return codes;
+}
+
+export function parsePrerequisite(raw: string | null | undefined): ParsedPrerequisite {
+  const text = normalizeSearchText(raw ?? "").replace(/\s+/g, " ").trim();
+  if (!text || NO_PREREQUISITE.test(text)) {
+    return { raw: raw?.trim() || null, expr: null, courseCodes: [], minimumGrade: null };
+  }
+
+  const minimumGrade = text.match(MINIMUM_GRADE_PATTERN)?.[1]?.toUpperCase() ?? null;
+  const expr = parseExpression(tokenize(text.replace(MINIMUM_GRADE_PATTERN, " ")));
+
+  return {
+    raw: raw?.trim() ?? null,
+    expr,
+    courseCodes: [...collectCourseCodes(expr)].sort((a, b) => a.localeCompare(b)),
+    minimumGrade,
+  };
+}
+
+export function formatPrerequisite(expr: PrerequisiteExpr | null, nested = false): string {
+  if (!expr) {
+    return "Không có";
+  }
+  if (expr.type === "course") {
+    return expr.code;
+  }
+  if (expr.type === "permission") {
+    return "GV đồng ý";
+  }
+  if (expr.type === "text") {
+    return `"${expr.text}"`;
+  }
+
+  const joined = expr.items.map((item) => formatPrerequisite(item, true)).join(expr.type === "and" ? " và " : " hoặc ");
+  return nested ? `(${joined})` : joined;
+}
+
+function meetsGrade(letter: string | undefined, minimumGrade: string | null): boolean {
+  if (!letter) {
+    return false;
+  }
+
+  const rank = GRADE_ORDER.indexOf(letter);
+  return rank >= 0 && rank <= GRADE_ORDER.indexOf(minimumGrade ?? "D");
+}
+
+const STATUS_RANK: Record<PrerequisiteStatus, number> = {
+  met: 0,
+  unknown: 1,
+  permission: 2,
+  missing: 3,
+};
+
+// `passed` maps course codes to the best grade letter the student holds for them.
+export function checkPrerequisite(
+  expr: PrerequisiteExpr | null,
+  passed: Map<string, string>,
+  minimumGrade: string | null = null,
+): PrerequisiteCheck {
+  if (!expr) {
+    return { status: "met", missing: [] };
+  }
+
+  if (expr.type === "course") {
+    return meetsGrade(passed.get(expr.code), minimumGrade)
+      ? { status: "met", missing: [] }
+      : { status: "missing", missing: [expr.code] };
+  }
+  if (expr.type === "permission") {
+    return { status: "permission", missing: [] };
+  }
+  if (expr.type === "text") {
+    return { status: "unknown", missing: [] };
+  }
+
+  const checks = expr.items.map((item) => checkPrerequisite(item, passed, minimumGrade));
+  if (expr.type === "and") {
+    const worst = checks.reduce<PrerequisiteStatus>(
+      (current, check) => (STATUS_RANK[check.status] > STATUS_RANK[current] ? check.status : current),
+      "met",
+    );
+    return {
+      status: worst,
+      missing: [...new Set(checks.flatMap((check) => check.missing))],
+    };
+  }
+
+  // For alternatives, report the branch that is closest to being satisfied.
+  const best = checks.reduce((current, check) =>
+    STATUS_RANK[check.status] < STATUS_RANK[current.status] ||
+    (check.status === current.status && check.missing.length < current.missing.length)
+      ? check
+      : current,
+  );
+  return best.status === "missing" ? best : { status: best.status, missing: [] };
+}
+
+export async function getPrerequisiteGraph(): Promise<PrerequisiteGraph> {
+  const knowledge = await loadKnowledge();
+  return new Map(
+    knowledge.courses.map((course) => [
+      course.code,
+      {
+        code: course.code,
+        nameEn: course.nameEn,
+        nameVi: course.nameVi,
+        credits: course.credits,
+        prerequisite: parsePrerequisite(course.prerequisite),
+      },
+    ]),
+  );
+}
+
+// Courses whose prerequisite expression mentions `code`.
+export function findDependents(graph: PrerequisiteGraph, code: string): string[] {
+  return [...graph.values()]
+    .filter((course) => course.prerequisite.courseCodes.includes(code))
+    .map((course) => course.code)
+    .sort((a, b) => a.localeCompare(b));
+}
+
+export async function getPassedCourses(username: string): Promise<Map<string, string>> {
+  const entries = await prisma.studentGradeEntry.findMany({
+    where: {
+      username,
+    },
+    select: {
+      courseCode: true,
+      gradeLetter: true,
+    },
+  });
+
+  const passed = new Map<string, string>();
+  for (const entry of entries) {
+    const code = normalizeCourseCode(entry.courseCode);
+    const letter = normalizeGradeLetter(entry.gradeLetter);
+    if (!code || !letter || !GRADE_ORDER.includes(letter)) {
+      continue;
+    }
+
+    const previous = passed.get(code);
+    if (!previous || GRADE_ORDER.indexOf(letter) < GRADE_ORDER.indexOf(previous)) {
+      passed.set(code, letter);
+    }
+  }
+
+  return passed;
+}
+
+export async function getEligibilityReport(username: string): Promise<EligibilityReport> {
+  const [graph, passed] = await Promise.all([getPrerequisiteGraph(), getPassedCourses(username)]);
+  const report: EligibilityReport = { passed, eligible: [], permission: [], unknown: [], blocked: [] };
+
+  for (const course of graph.values()) {
+    if (passed.has(course.code)) {
+      continue;
+    }
+
+    const check = checkPrerequisite(course.prerequisite.expr, passed, course.prerequisite.minimumGrade);
+    const item: CourseEligibility = { ...course, check };
+    if (check.status === "met") {
+      report.eligible.push(item);
+    } else if (check.status === "permission") {
+      report.permission.push(item);
+    } else if (check.status === "unknown") {
+      report.unknown.push(item);
+    } else {
+      report.blocked.push(item);
+    }
+  }
+
+  return report;
+}
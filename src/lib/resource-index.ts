@@ -0,0 +1,339 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+
+import { prisma } from "@/lib/prisma";
+
+const WATCH_DEBOUNCE_MS = 1_500;
+
+export type IndexedResourceFile = {
+  name: string;
+  relativePath: string;
+  extension: string;
+  sizeBytes: number;
+  mtimeMs: number;
+  hash: string;
+};
+
+export type IndexedResourceFolder = {
+  folderName: string;
+  files: IndexedResourceFile[];
+  guidePath: string | null;
+  guideContent: string | null;
+  guideHash: string | null;
+  indexedAt: Date;
+};
+
+export type ResourceIndexSummary = {
+  scanned: number;
+  hashedFiles: number;
+  changed: string[];
+  removed: string[];
+  durationMs: number;
+};
+
+export type ResourceIndexStatus = {
+  folders: number;
+  files: number;
+  lastIndexedAt: Date | null;
+  watching: boolean;
+};
+
+type StoredFolder = {
+  fingerprint: string;
+  files: IndexedResourceFile[];
+};
+
+type ResourceWatcherOptions = {
+  resourcesDir: string;
+  onChange: (summary: ResourceIndexSummary) => void;
+  onError: (error: unknown) => void;
+};
+
+let activeWatcher: { resourcesDir: string; watcher: fs.FSWatcher } | null = null;
+
+function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash("sha256");
+    fs.createReadStream(filePath)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("error", reject)
+      .on("end", () => resolve(hash.digest("hex")));
+  });
+}
+
+function listFolderFiles(folderDir: string): Array<{ absolutePath: string; relativePath: string; stat: fs.Stats }> {
+  const files: Array<{ absolutePath: string; relativePath: string; stat: fs.Stats }> = [];
+  const stack = [folderDir];
+
+  while (stack.length > 0) {
+    const currentDir = stack.pop();
+    if (!currentDir) {
+      continue;
+    }
+
+    for (const node of fs.readdirSync(currentDir, { withFileTypes: true })) {
+      if (node.name.startsWith(".")) {
+        continue;
+      }
+
+      const absolutePath = path.join(currentDir, node.name);
+      if (node.isDirectory()) {
+        stack.push(absolutePath);
+        continue;
+      }
+
+      files.push({ absolutePath, relativePath: path.relative(folderDir, absolutePath), stat: fs.statSync(absolutePath) });
+    }
+  }
+
+  return files.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+}
+
+function listResourceFolders(resourcesDir: string): string[] {
+  if (!fs.existsSync(resourcesDir)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(resourcesDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && !entry.name.startsWith("."))
+    .map((entry) => entry.name);
+}
+
+function parseStoredFiles(raw: string): IndexedResourceFile[] {
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? (parsed as IndexedResourceFile[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Unchanged size + mtime reuses the stored hash, so a rescan only reads files that were touched.
+async function indexFolder(folderDir: string, stored: StoredFolder | undefined, force: boolean) {
+  const previous = new Map((stored?.files ?? []).map((file) => [file.relativePath, file]));
+  const files: IndexedResourceFile[] = [];
+  let hashedFiles = 0;
+  let guide: IndexedResourceFile | null = null;
+
+  for (const { absolutePath, relativePath, stat } of listFolderFiles(folderDir)) {
+    const known = previous.get(relativePath);
+    const reuseHash = !force && known && known.sizeBytes === stat.size && known.mtimeMs === stat.mtimeMs;
+    if (!reuseHash) {
+      hashedFiles += 1;
+    }
+
+    const name = path.basename(relativePath);
+    const file: IndexedResourceFile = {
+      name,
+      relativePath,
+      extension: path.extname(name).replace(/^\./, "").toLowerCase() || "unknown",
+      sizeBytes: stat.size,
+      mtimeMs: stat.mtimeMs,
+      hash: reuseHash ? known.hash : await hashFile(absolutePath),
+    };
+    files.push(file);
+
+    if (name.toLowerCase() === "guide.md") {
+      guide = file;
+    }
+  }
+
+  const fingerprint = createHash("sha256")
+    .update(files.map((file) => `${file.relativePath}\u0000${file.hash}`).join("\n"))
+    .digest("hex");
+
+  return {
+    files,
+    fingerprint,
+    hashedFiles,
+    guide,
+    contentChanged: !stored || stored.fingerprint !== fingerprint,
+    statsChanged: files.some((file) => previous.get(file.relativePath)?.mtimeMs !== file.mtimeMs),
+  };
+}
+
+/**
+ * Brings the persisted index in line with `resourcesDir`. Without `folders` every top-level folder is checked
+ * and rows for deleted folders are dropped; with `folders` only those folders are re-indexed.
+ */
+export async function syncResourceIndex(options: {
+  resourcesDir: string;
+  folders?: string[];
+  force?: boolean;
+}): Promise<ResourceIndexSummary> {
+  const startedAt = Date.now();
+  const onDisk = new Set(listResourceFolders(options.resourcesDir));
+  const targets = options.folders ? [...new Set(options.folders)] : [...onDisk];
+  const storedRows = await prisma.resourceFolderIndex.findMany({
+    where: options.folders ? { folderName: { in: targets } } : undefined,
+    select: {
+      folderName: true,
+      fingerprint: true,
+      files: true,
+    },
+  });
+  const stored = new Map<string, StoredFolder>(
+    storedRows.map((row) => [row.folderName, { fingerprint: row.fingerprint, files: parseStoredFiles(row.files) }]),
+  );
+
+  const summary: ResourceIndexSummary = { scanned: 0, hashedFiles: 0, changed: [], removed: [], durationMs: 0 };
+
+  for (const folderName of targets) {
+    if (!onDisk.has(folderName)) {
+      continue;
+    }
+
+    const folderDir = path.join(options.resourcesDir, folderName);
+    const result = await indexFolder(folderDir, stored.get(folderName), Boolean(options.force));
+    summary.scanned += 1;
+    summary.hashedFiles += result.hashedFiles;
+
+    if (!result.contentChanged && !result.statsChanged) {
+      continue;
+    }
+
+    const data = {
+      fingerprint: result.fingerprint,
+      files: JSON.stringify(result.files),
+      ...(result.contentChanged
+        ? {
+            indexedAt: new Date(),
+            guidePath: result.guide?.relativePath ?? null,
+            guideHash: result.guide?.hash ?? null,
+            guideContent: result.guide ? fs.readFileSync(path.join(folderDir, result.guide.relativePath), "utf-8") : null,
+          }
+        : {}),
+    };
+
+    await prisma.resourceFolderIndex.upsert({
+      where: { folderName },
+      update: data,
+      create: { folderName, ...data },
+    });
+
+    if (result.contentChanged) {
+      summary.changed.push(folderName);
+    }
+  }
+
+  const missing = options.folders
+    ? targets.filter((folderName) => !onDisk.has(folderName) && stored.has(folderName))
+    : (await prisma.resourceFolderIndex.findMany({ select: { folderName: true } }))
+        .map((row) => row.folderName)
+        .filter((folderName) => !onDisk.has(folderName));
+  if (missing.length > 0) {
+    await prisma.resourceFolderIndex.deleteMany({ where: { folderName: { in: missing } } });
+    summary.removed = missing;
+  }
+
+  summary.durationMs = Date.now() - startedAt;
+  return summary;
+}
+
+export async function listResourceIndex(): Promise<IndexedResourceFolder[]> {
+  const rows = await prisma.resourceFolderIndex.findMany({
+    orderBy: { folderName: "asc" },
+  });
+
+  return rows.map((row) => ({
+    folderName: row.folderName,
+    files: parseStoredFiles(row.files),
+    guidePath: row.guidePath,
+    guideContent: row.guideContent,
+    guideHash: row.guideHash,
+    indexedAt: row.indexedAt,
+  }));
+}
+
+export async function getResourceIndexStatus(): Promise<ResourceIndexStatus> {
+  const rows = await listResourceIndex();
+
+  return {
+    folders: rows.length,
+    files: rows.reduce((sum, row) => sum + row.files.length, 0),
+    lastIndexedAt: rows.reduce<Date | null>(
+      (latest, row) => (!latest || row.indexedAt > latest ? row.indexedAt : latest),
+      null,
+    ),
+    watching: activeWatcher !== null,
+  };
+}
+
+export function isWatchingResources(resourcesDir: string): boolean {
+  return activeWatcher?.resourcesDir === resourcesDir;
+}
+
+/**
+ * Watches `resourcesDir` recursively and re-indexes only the top-level folders that saw events,
+ * after a short quiet period so copies in progress are indexed once. Returns false when the
+ * platform or directory does not support watching; callers then fall back to periodic rescans.
+ */
+export function watchResourceIndex(options: ResourceWatcherOptions): boolean {
+  if (isWatchingResources(options.resourcesDir)) {
+    return true;
+  }
+
+  activeWatcher?.watcher.close();
+  activeWatcher = null;
+
+  const pending = new Set<string>();
+  let fullRescan = false;
+  let timer: NodeJS.Timeout | null = null;
+  let syncing = false;
+
+  async function flush() {
+    timer = null;
+    if (syncing) {
+      timer = setTimeout(() => void flush(), WATCH_DEBOUNCE_MS);
+      return;
+    }
+
+    const folders = fullRescan ? undefined : [...pending];
+    pending.clear();
+    fullRescan = false;
+    syncing = true;
+    try {
+      const summary = await syncResourceIndex({ resourcesDir: options.resourcesDir, folders });
+      if (summary.changed.length > 0 || summary.removed.length > 0) {
+        options.onChange(summary);
+      }
+    } catch (error) {
+      options.onError(error);
+    } finally {
+      syncing = false;
+    }
+  }
+
+  try {
+    const watcher = fs.watch(options.resourcesDir, { recursive: true }, (_event, filename) => {
+      const folderName = filename ? filename.toString().split(/[\\/]/)[0] : "";
+      if (!folderName) {
+        fullRescan = true;
+      } else if (!folderName.startsWith(".")) {
+        pending.add(folderName);
+      } else {
+        return;
+      }
+
+      if (timer) {
+        clearTimeout(timer);
+      }
+      timer = setTimeout(() => void flush(), WATCH_DEBOUNCE_MS);
+    });
+
+    watcher.on("error", (error) => {
+      options.onError(error);
+      watcher.close();
+      if (activeWatcher?.watcher === watcher) {
+        activeWatcher = null;
+      }
+    });
+    watcher.unref();
+    activeWatcher = { resourcesDir: options.resourcesDir, watcher };
+    return true;
+  } catch {
+    return false;
+  }
+}
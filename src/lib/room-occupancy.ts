@@ -0,0 +1,226 @@
+import { DayOfWeek, PrismaClient } from "@prisma/client";
+
+import { normalizeRoom } from "@/lib/booking-conflicts";
+import { ORDERED_DAYS } from "@/lib/portal";
+import {
+  computeEndTime,
+  DEFAULT_CLASS_MINUTES,
+  findWeekForDate,
+  formatWeekNote,
+  isEntryActiveInWeek,
+  listSemesterWeeks,
+  scheduleDateOf,
+  type SemesterWeek,
+} from "@/lib/schedule-weeks";
+
+export type RoomBooking = {
+  entryIds: string[];
+  dayOfWeek: DayOfWeek;
+  startTime: string;
+  endTime: string;
+  endTimeEstimated: boolean;
+  courseCode: string;
+  classGroups: string[];
+  weekNote: string | null;
+};
+
+export type RoomOccupancy = {
+  room: string;
+  bookings: RoomBooking[];
+  busyMinutes: number;
+};
+
+export type RoomOccupancyReport = {
+  semesterKey: string;
+  semesterLabel: string;
+  weeks: SemesterWeek[];
+  selectedWeek: number | "ALL";
+  days: DayOfWeek[];
+  rooms: RoomOccupancy[];
+};
+
+export type FreeRoomQuery = {
+  dayOfWeek: DayOfWeek;
+  startTime: string;
+  endTime: string;
+};
+
+export type FreeRoomResult = {
+  free: string[];
+  busy: Array<{ room: string; bookings: RoomBooking[] }>;
+};
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+function toMinutes(value: string): number {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+export function normalizeTimeInput(raw: string | null | undefined): string | null {
+  const matched = raw?.trim().match(TIME_PATTERN);
+  return matched ? `${matched[1].padStart(2, "0")}:${matched[2]}` : null;
+}
+
+export function resolveSlotEnd(startTime: string, endTime: string | null | undefined): string {
+  return endTime ?? computeEndTime(startTime, DEFAULT_CLASS_MINUTES) ?? "23:59";
+}
+
+export async function getRoomOccupancy(
+  prisma: PrismaClient,
+  semesterKey: string,
+  options: { week?: number | "ALL" } = {},
+): Promise<RoomOccupancyReport | null> {
+  const semester = await prisma.semester.findUnique({
+    where: {
+      key: semesterKey,
+    },
+    select: {
+      id: true,
+      key: true,
+      label: true,
+      startDate: true,
+      endDate: true,
+    },
+  });
+
+  if (!semester) {
+    return null;
+  }
+
+  const entries = await prisma.scheduleEntry.findMany({
+    where: {
+      semesterId: semester.id,
+      room: {
+        not: null,
+      },
+    },
+    select: {
+      id: true,
+      dayOfWeek: true,
+      startTime: true,
+      endTime: true,
+      room: true,
+      weekPattern: true,
+      startDate: true,
+      endDate: true,
+      course: {
+        select: {
+          code: true,
+        },
+      },
+      classGroup: {
+        select: {
+          name: true,
+          cohort: {
+            select: {
+              code: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  const weeks = listSemesterWeeks(semester.startDate, semester.endDate);
+  // Same default as the dashboard: the current teaching week, or the whole semester outside of it.
+  const week =
+    options.week === "ALL"
+      ? null
+      : options.week !== undefined
+        ? (weeks.find((item) => item.week === options.week) ?? null)
+        : findWeekForDate(weeks, scheduleDateOf(new Date()));
+
+  const rooms = new Map<string, Map<string, RoomBooking>>();
+  for (const entry of entries) {
+    const room = normalizeRoom(entry.room);
+    if (!room) {
+      continue;
+    }
+
+    // Every room seen in the semester is listed, even when nothing is booked in the selected week.
+    const bookings = rooms.get(room) ?? new Map<string, RoomBooking>();
+    rooms.set(room, bookings);
+    if (!entry.startTime || (week && !isEntryActiveInWeek(entry, week))) {
+      continue;
+    }
+
+    // Class groups sharing one course in one room at one time are a single combined lecture.
+    const weekNote = formatWeekNote(entry);
+    const key = `${entry.dayOfWeek}|${entry.startTime}|${entry.course.code}|${weekNote ?? ""}`;
+    const booking = bookings.get(key) ?? {
+      entryIds: [],
+      dayOfWeek: entry.dayOfWeek,
+      startTime: entry.startTime,
+      endTime: resolveSlotEnd(entry.startTime, entry.endTime),
+      endTimeEstimated: !entry.endTime,
+      courseCode: entry.course.code,
+      classGroups: [],
+      weekNote,
+    };
+    booking.entryIds.push(entry.id);
+    booking.classGroups.push(`${entry.classGroup.cohort.code} · ${entry.classGroup.name}`);
+    if (entry.endTime && (booking.endTimeEstimated || entry.endTime > booking.endTime)) {
+      booking.endTime = entry.endTime;
+      booking.endTimeEstimated = false;
+    }
+    bookings.set(key, booking);
+  }
+
+  const occupancy = [...rooms.entries()]
+    .map(([room, bookings]) => {
+      const sorted = [...bookings.values()].sort(
+        (a, b) =>
+          ORDERED_DAYS.indexOf(a.dayOfWeek) - ORDERED_DAYS.indexOf(b.dayOfWeek) ||
+          a.startTime.localeCompare(b.startTime) ||
+          a.courseCode.localeCompare(b.courseCode),
+      );
+      for (const booking of sorted) {
+        booking.classGroups.sort();
+      }
+
+      return {
+        room,
+        bookings: sorted,
+        busyMinutes: sorted.reduce(
+          (total, booking) => total + Math.max(0, toMinutes(booking.endTime) - toMinutes(booking.startTime)),
+          0,
+        ),
+      };
+    })
+    .sort((a, b) => a.room.localeCompare(b.room, undefined, { numeric: true }));
+
+  const usedDays = new Set(occupancy.flatMap((room) => room.bookings.map((booking) => booking.dayOfWeek)));
+
+  return {
+    semesterKey: semester.key,
+    semesterLabel: semester.label,
+    weeks,
+    selectedWeek: week?.week ?? "ALL",
+    days: ORDERED_DAYS.filter((day) => day !== DayOfWeek.SUN || usedDays.has(day)),
+    rooms: occupancy,
+  };
+}
+
+// Without a selected week a booking in any week keeps the room busy, so the result is safe for the whole semester.
+export function findFreeRooms(report: RoomOccupancyReport, query: FreeRoomQuery): FreeRoomResult {
+  const from = toMinutes(query.startTime);
+  const to = toMinutes(query.endTime);
+  const result: FreeRoomResult = { free: [], busy: [] };
+
+  for (const room of report.rooms) {
+    const clashing = room.bookings.filter(
+      (booking) =>
+        booking.dayOfWeek === query.dayOfWeek &&
+        toMinutes(booking.startTime) < to &&
+        from < toMinutes(booking.endTime),
+    );
+    if (clashing.length === 0) {
+      result.free.push(room.room);
+    } else {
+      result.busy.push({ room: room.room, bookings: clashing });
+    }
+  }
+
+  return result;
+}
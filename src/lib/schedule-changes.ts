@@ -0,0 +1,324 @@
+import { parseSnapshotPayload, SUCCEEDED_IMPORT_STATUSES, type SnapshotEntry } from "@/lib/importers/importHistory";
+import { getPortalData, getPortalMeta, ORDERED_DAYS, toPortalEntries, type PortalData } from "@/lib/portal";
+import { prisma } from "@/lib/prisma";
+
+type ChangeEntry = PortalData["entries"][number];
+
+export type ScheduleChangeKind = "MOVED" | "ADDED" | "REMOVED" | "LECTURER";
+
+export type ScheduleChangeField = "day" | "time" | "room" | "weeks" | "lecturers";
+
+export type ScheduleChange = {
+  kind: ScheduleChangeKind;
+  courseCode: string;
+  before: ChangeEntry | null;
+  after: ChangeEntry | null;
+  fields: ScheduleChangeField[];
+};
+
+export type ScheduleChangeBase = {
+  id: string;
+  kind: "import" | "semester";
+  label: string;
+  capturedAt: string | null;
+};
+
+export type ScheduleChangeReport = {
+  semesterKey: string;
+  cohortCode: string;
+  classGroupName: string;
+  bases: ScheduleChangeBase[];
+  base: ScheduleChangeBase | null;
+  changes: ScheduleChange[];
+  unchanged: number;
+};
+
+export type RecentScheduleChanges = {
+  days: number;
+  base: ScheduleChangeBase;
+  changes: ScheduleChange[];
+};
+
+type ClassGroupScope = {
+  semesterKey: string;
+  cohortCode: string;
+  classGroupName: string;
+};
+
+const DEFAULT_HIGHLIGHT_DAYS = 7;
+const MAX_IMPORT_BASES = 20;
+
+export function resolveChangeHighlightDays(): number {
+  const fromEnv = Number.parseInt(process.env.SCHEDULE_CHANGE_HIGHLIGHT_DAYS ?? "", 10);
+  return Number.isFinite(fromEnv) ? Math.max(0, fromEnv) : DEFAULT_HIGHLIGHT_DAYS;
+}
+
+function slotOrder(entry: ChangeEntry): string {
+  return `${ORDERED_DAYS.indexOf(entry.dayOfWeek)}|${entry.startTime ?? "99:99"}`;
+}
+
+function lecturerKey(entry: ChangeEntry): string {
+  return entry.lecturers
+    .map((lecturer) => lecturer.id)
+    .sort()
+    .join(",");
+}
+
+function compareEntries(before: ChangeEntry, after: ChangeEntry): ScheduleChangeField[] {
+  const fields: ScheduleChangeField[] = [];
+  if (before.dayOfWeek !== after.dayOfWeek) {
+    fields.push("day");
+  }
+  if (before.startTime !== after.startTime || before.endTime !== after.endTime || before.rawTime !== after.rawTime) {
+    fields.push("time");
+  }
+  if ((before.room ?? "") !== (after.room ?? "")) {
+    fields.push("room");
+  }
+  if (
+    before.weekPattern !== after.weekPattern ||
+    before.startDate !== after.startDate ||
+    before.endDate !== after.endDate
+  ) {
+    fields.push("weeks");
+  }
+  if (lecturerKey(before) !== lecturerKey(after)) {
+    fields.push("lecturers");
+  }
+
+  return fields;
+}
+
+function toChange(before: ChangeEntry, after: ChangeEntry, fields: ScheduleChangeField[]): ScheduleChange {
+  return {
+    kind: fields.every((field) => field === "lecturers") ? "LECTURER" : "MOVED",
+    courseCode: after.course.code,
+    before,
+    after,
+    fields,
+  };
+}
+
+// Sessions are first paired on day + start + course like the importer does; leftovers of the same course
+// are then paired in slot order, so a session moved to another day or time shows up as MOVED, not REMOVED + ADDED.
+export function diffScheduleEntries(
+  before: ChangeEntry[],
+  after: ChangeEntry[],
+): { changes: ScheduleChange[]; unchanged: number } {
+  const slotKey = (entry: ChangeEntry) => `${entry.dayOfWeek}|${entry.startTime ?? ""}|${entry.course.code}`;
+  const beforeByKey = new Map<string, ChangeEntry[]>();
+  for (const entry of before) {
+    const key = slotKey(entry);
+    beforeByKey.set(key, [...(beforeByKey.get(key) ?? []), entry]);
+  }
+
+  const changes: ScheduleChange[] = [];
+  const unmatchedAfter: ChangeEntry[] = [];
+  let unchanged = 0;
+
+  for (const entry of after) {
+    const previous = beforeByKey.get(slotKey(entry))?.shift();
+    if (!previous) {
+      unmatchedAfter.push(entry);
+      continue;
+    }
+
+    const fields = compareEntries(previous, entry);
+    if (fields.length > 0) {
+      changes.push(toChange(previous, entry, fields));
+    } else {
+      unchanged += 1;
+    }
+  }
+
+  const unmatchedBefore = [...beforeByKey.values()].flat();
+  const byOrder = (a: ChangeEntry, b: ChangeEntry) => slotOrder(a).localeCompare(slotOrder(b));
+  unmatchedBefore.sort(byOrder);
+  unmatchedAfter.sort(byOrder);
+
+  for (const entry of unmatchedAfter) {
+    const index = unmatchedBefore.findIndex((candidate) => candidate.course.code === entry.course.code);
+    if (index < 0) {
+      changes.push({ kind: "ADDED", courseCode: entry.course.code, before: null, after: entry, fields: [] });
+      continue;
+    }
+
+    const [previous] = unmatchedBefore.splice(index, 1);
+    changes.push(toChange(previous, entry, compareEntries(previous, entry)));
+  }
+
+  for (const entry of unmatchedBefore) {
+    changes.push({ kind: "REMOVED", courseCode: entry.course.code, before: entry, after: null, fields: [] });
+  }
+
+  changes.sort(
+    (a, b) =>
+      slotOrder((a.after ?? a.before) as ChangeEntry).localeCompare(slotOrder((b.after ?? b.before) as ChangeEntry)) ||
+      a.courseCode.localeCompare(b.courseCode),
+  );
+
+  return { changes, unchanged };
+}
+
+async function listImportBases(scope: ClassGroupScope, since?: Date) {
+  const runs = await prisma.importRun.findMany({
+    where: {
+      status: {
+        in: SUCCEEDED_IMPORT_STATUSES,
+      },
+      rolledBackAt: null,
+      ...(since ? { startedAt: { gte: since } } : {}),
+      snapshots: {
+        some: {
+          semesterKey: scope.semesterKey,
+        },
+      },
+    },
+    orderBy: {
+      startedAt: "desc",
+    },
+    take: MAX_IMPORT_BASES,
+    select: {
+      id: true,
+      sourceFile: true,
+      startedAt: true,
+      snapshots: {
+        where: {
+          semesterKey: scope.semesterKey,
+        },
+        select: {
+          payload: true,
+        },
+      },
+    },
+  });
+
+  return runs.flatMap((run) => {
+    const payload = run.snapshots[0] ? parseSnapshotPayload(run.snapshots[0].payload) : null;
+    const cohort = payload?.cohorts.find((item) => item.code === scope.cohortCode);
+    if (!cohort) {
+      return [];
+    }
+
+    return [
+      {
+        base: {
+          id: `import:${run.id}`,
+          kind: "import" as const,
+          label: `${run.sourceFile.split(/[\\/]/).pop() ?? run.sourceFile} · ${run.startedAt.toISOString().slice(0, 16).replace("T", " ")}`,
+          capturedAt: run.startedAt.toISOString(),
+        },
+        existed: cohort.existed,
+        entries: cohort.classGroups.find((group) => group.name === scope.classGroupName)?.entries ?? [],
+      },
+    ];
+  });
+}
+
+async function snapshotToPortalEntries(
+  scope: ClassGroupScope,
+  entries: SnapshotEntry[],
+): Promise<ChangeEntry[]> {
+  const courses = await prisma.course.findMany({
+    where: {
+      code: {
+        in: [...new Set(entries.map((entry) => entry.courseCode))],
+      },
+    },
+    select: {
+      code: true,
+      nameEn: true,
+      nameVi: true,
+    },
+  });
+  const courseByCode = new Map(courses.map((course) => [course.code, course]));
+
+  return toPortalEntries(
+    scope.semesterKey,
+    entries.map((entry, index) => ({
+      id: `snapshot-${index}`,
+      dayOfWeek: entry.dayOfWeek,
+      session: entry.session,
+      startTime: entry.startTime,
+      endTime: entry.endTime ?? null,
+      rawTime: entry.rawTime,
+      room: entry.room,
+      weekPattern: entry.weekPattern ?? null,
+      startDate: entry.startDate ? new Date(entry.startDate) : null,
+      endDate: entry.endDate ? new Date(entry.endDate) : null,
+      course: courseByCode.get(entry.courseCode) ?? { code: entry.courseCode, nameEn: null, nameVi: null },
+      classGroup: {
+        name: scope.classGroupName,
+        cohort: {
+          code: scope.cohortCode,
+        },
+      },
+    })),
+  );
+}
+
+async function getClassGroupEntries(scope: ClassGroupScope): Promise<ChangeEntry[]> {
+  const data = await getPortalData({ ...scope, day: "ALL", week: "ALL" });
+  const found =
+    data.selected.semesterKey === scope.semesterKey &&
+    data.selected.cohortCode === scope.cohortCode &&
+    data.selected.classGroupName === scope.classGroupName;
+
+  return found ? data.entries : [];
+}
+
+export async function getScheduleChanges(scope: ClassGroupScope, baseId?: string): Promise<ScheduleChangeReport> {
+  const [imports, meta, current] = await Promise.all([
+    listImportBases(scope),
+    getPortalMeta(),
+    getClassGroupEntries(scope),
+  ]);
+  const semesterBases: ScheduleChangeBase[] = meta.semesters
+    .filter(
+      (semester) =>
+        semester.key !== scope.semesterKey &&
+        semester.cohorts.some(
+          (cohort) => cohort.code === scope.cohortCode && cohort.classGroups.includes(scope.classGroupName),
+        ),
+    )
+    .map((semester) => ({ id: `semester:${semester.key}`, kind: "semester", label: semester.label, capturedAt: null }));
+  const bases = [...imports.map((item) => item.base), ...semesterBases];
+  const base = bases.find((item) => item.id === baseId) ?? bases[0] ?? null;
+
+  if (!base) {
+    return { ...scope, bases, base, changes: [], unchanged: current.length };
+  }
+
+  const previous =
+    base.kind === "import"
+      ? await snapshotToPortalEntries(scope, imports.find((item) => item.base.id === base.id)?.entries ?? [])
+      : await getClassGroupEntries({ ...scope, semesterKey: base.id.slice("semester:".length) });
+
+  return { ...scope, bases, base, ...diffScheduleEntries(previous, current) };
+}
+
+// Changes made by every import within the last `days`, measured against the snapshot taken before the oldest of them.
+export async function getRecentScheduleChanges(
+  scope: ClassGroupScope,
+  days = resolveChangeHighlightDays(),
+): Promise<RecentScheduleChanges | null> {
+  if (days <= 0) {
+    return null;
+  }
+
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const imports = await listImportBases(scope, since);
+  const oldest = imports[imports.length - 1];
+  // A cohort's first import is not a revision; everything would light up as added.
+  if (!oldest?.existed) {
+    return null;
+  }
+
+  const [previous, current] = await Promise.all([
+    snapshotToPortalEntries(scope, oldest.entries),
+    getClassGroupEntries(scope),
+  ]);
+  const { changes } = diffScheduleEntries(previous, current);
+
+  return changes.length > 0 ? { days, base: oldest.base, changes } : null;
+}
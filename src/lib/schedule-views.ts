@@ -0,0 +1,93 @@
+import type { UserRole } from "@/lib/auth/session";
+import { prisma } from "@/lib/prisma";
+
+export type ScheduleView = "matrix" | "agenda" | "cards";
+
+export type RoleViewSettings = Record<UserRole, ScheduleView[]>;
+
+export const SCHEDULE_VIEWS: ScheduleView[] = ["matrix", "agenda", "cards"];
+
+export const SCHEDULE_ROLES: UserRole[] = ["ADMIN", "LECTURER", "STUDENT"];
+
+export const DEFAULT_ROLE_VIEWS: RoleViewSettings = {
+  ADMIN: ["matrix", "agenda", "cards"],
+  LECTURER: ["matrix", "agenda"],
+  STUDENT: ["agenda"],
+};
+
+const ROLE_FALLBACK_VIEW: Record<UserRole, ScheduleView> = {
+  ADMIN: "cards",
+  LECTURER: "matrix",
+  STUDENT: "agenda",
+};
+
+const ROLE_VIEWS_SETTING_KEY = "schedule.roleViews";
+
+export function isScheduleView(value: unknown): value is ScheduleView {
+  return value === "matrix" || value === "agenda" || value === "cards";
+}
+
+// Unknown views are dropped and a role left with nothing falls back to its built-in list, so no role is ever locked out.
+export function normalizeRoleViews(value: unknown): RoleViewSettings {
+  const raw = value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+
+  return Object.fromEntries(
+    SCHEDULE_ROLES.map((role) => {
+      const requested = Array.isArray(raw[role]) ? (raw[role] as unknown[]) : [];
+      const views = SCHEDULE_VIEWS.filter((view) => requested.includes(view));
+      return [role, views.length > 0 ? views : DEFAULT_ROLE_VIEWS[role]];
+    }),
+  ) as RoleViewSettings;
+}
+
+export async function getRoleViewSettings(): Promise<RoleViewSettings> {
+  const setting = await prisma.portalSetting.findUnique({
+    where: {
+      key: ROLE_VIEWS_SETTING_KEY,
+    },
+  });
+  if (!setting) {
+    return DEFAULT_ROLE_VIEWS;
+  }
+
+  try {
+    return normalizeRoleViews(JSON.parse(setting.value));
+  } catch {
+    return DEFAULT_ROLE_VIEWS;
+  }
+}
+
+export async function saveRoleViewSettings(value: unknown, actor: string): Promise<RoleViewSettings> {
+  const settings = normalizeRoleViews(value);
+  await prisma.portalSetting.upsert({
+    where: {
+      key: ROLE_VIEWS_SETTING_KEY,
+    },
+    update: {
+      value: JSON.stringify(settings),
+      updatedBy: actor,
+    },
+    create: {
+      key: ROLE_VIEWS_SETTING_KEY,
+      value: JSON.stringify(settings),
+      updatedBy: actor,
+    },
+  });
+
+  return settings;
+}
+
+export function resolveScheduleView(input: {
+  role: UserRole;
+  allowedViews: ScheduleView[];
+  requested?: string | null;
+  preferred?: string | null;
+}): ScheduleView {
+  for (const candidate of [input.requested, input.preferred, ROLE_FALLBACK_VIEW[input.role]]) {
+    if (isScheduleView(candidate) && input.allowedViews.includes(candidate)) {
+      return candidate;
+    }
+  }
+
+  return input.allowedViews[0] ?? ROLE_FALLBACK_VIEW[input.role];
+}
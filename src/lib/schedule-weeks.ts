@@ -0,0 +1,275 @@
+import type { DayOfWeek } from "@prisma/client";
+
+export type SemesterWeek = {
+  week: number;
+  startDate: string;
+  endDate: string;
+};
+
+export type ScheduleTiming = {
+  dayOfWeek: DayOfWeek;
+  startDate: Date | string | null;
+  endDate: Date | string | null;
+  weekPattern: string | null;
+};
+
+type WeekPattern = {
+  include: Set<number> | null;
+  exclude: Set<number>;
+};
+
+const MS_PER_DAY = 86_400_000;
+const DEFAULT_SEMESTER_WEEKS = 16;
+const MAX_SEMESTER_WEEKS = 60;
+// Fallback length for slots imported without an end time.
+export const DEFAULT_CLASS_MINUTES = 180;
+// Class times are wall-clock times at the school (Asia/Ho_Chi_Minh, no DST).
+const SCHEDULE_UTC_OFFSET_MINUTES = 7 * 60;
+
+const DAY_OFFSET: Record<DayOfWeek, number> = {
+  MON: 0,
+  TUE: 1,
+  WED: 2,
+  THU: 3,
+  FRI: 4,
+  SAT: 5,
+  SUN: 6,
+};
+
+function toDayNumber(value: Date | string): number {
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return Math.floor(Date.parse(value) / MS_PER_DAY);
+  }
+
+  const date = typeof value === "string" ? new Date(value) : value;
+  return Math.floor((date.getTime() - date.getTimezoneOffset() * 60_000) / MS_PER_DAY);
+}
+
+function formatDayNumber(day: number): string {
+  return new Date(day * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+function startOfWeek(day: number): number {
+  // Day 0 (1970-01-01) was a Thursday.
+  return day - ((day + 3) % 7);
+}
+
+function expandToken(token: string): number[] | null {
+  const matched = token.match(/^(\d{1,2})(?:-(\d{1,2}))?$/);
+  if (!matched) {
+    return null;
+  }
+
+  const start = Number.parseInt(matched[1], 10);
+  const end = matched[2] ? Number.parseInt(matched[2], 10) : start;
+  if (start < 1 || end < start || end > MAX_SEMESTER_WEEKS) {
+    return null;
+  }
+
+  return Array.from({ length: end - start + 1 }, (_, index) => start + index);
+}
+
+function splitPattern(raw: string): string[] {
+  return raw
+    .toUpperCase()
+    .replace(/[–—]/g, "-")
+    .replace(/\b(WEEKS?|TUẦN|TUAN|W)\b\.?/g, "")
+    .replace(/\s+/g, "")
+    .split(/[,;]+/)
+    .filter(Boolean);
+}
+
+export function normalizeWeekPattern(raw: string | null | undefined): string | null {
+  const tokens = splitPattern(raw ?? "");
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  for (const token of tokens) {
+    if (!expandToken(token.replace(/^!/, ""))) {
+      return null;
+    }
+  }
+
+  return tokens.join(",");
+}
+
+function parseWeekPattern(pattern: string | null): WeekPattern | null {
+  const normalized = normalizeWeekPattern(pattern);
+  if (!normalized) {
+    return null;
+  }
+
+  const include = new Set<number>();
+  const exclude = new Set<number>();
+  for (const token of normalized.split(",")) {
+    const target = token.startsWith("!") ? exclude : include;
+    for (const week of expandToken(token.replace(/^!/, "")) ?? []) {
+      target.add(week);
+    }
+  }
+
+  return { include: include.size > 0 ? include : null, exclude };
+}
+
+export function listSemesterWeeks(startDate: Date | string | null, endDate: Date | string | null): SemesterWeek[] {
+  if (!startDate) {
+    return [];
+  }
+
+  const firstDay = startOfWeek(toDayNumber(startDate));
+  const lastDay = endDate ? toDayNumber(endDate) : firstDay + DEFAULT_SEMESTER_WEEKS * 7 - 1;
+  const count = Math.min(MAX_SEMESTER_WEEKS, Math.max(1, Math.floor((lastDay - firstDay) / 7) + 1));
+
+  return Array.from({ length: count }, (_, index) => ({
+    week: index + 1,
+    startDate: formatDayNumber(firstDay + index * 7),
+    endDate: formatDayNumber(firstDay + index * 7 + 6),
+  }));
+}
+
+export function findWeekForDate(weeks: SemesterWeek[], date: Date | string): SemesterWeek | null {
+  const day = toDayNumber(date);
+  return (
+    weeks.find((week) => {
+      const start = Math.floor(Date.parse(week.startDate) / MS_PER_DAY);
+      return day >= start && day <= start + 6;
+    }) ?? null
+  );
+}
+
+function isActiveInWeekNumber(entry: ScheduleTiming, week: number, weekStartDay: number | null): boolean {
+  const pattern = parseWeekPattern(entry.weekPattern);
+  if (pattern && (pattern.exclude.has(week) || (pattern.include && !pattern.include.has(week)))) {
+    return false;
+  }
+
+  if (weekStartDay === null) {
+    return true;
+  }
+
+  const classDay = weekStartDay + DAY_OFFSET[entry.dayOfWeek];
+  if (entry.startDate && classDay < toDayNumber(entry.startDate)) {
+    return false;
+  }
+  if (entry.endDate && classDay > toDayNumber(entry.endDate)) {
+    return false;
+  }
+
+  return true;
+}
+
+export function classDateInWeek(week: SemesterWeek, dayOfWeek: DayOfWeek): string {
+  return formatDayNumber(Math.floor(Date.parse(week.startDate) / MS_PER_DAY) + DAY_OFFSET[dayOfWeek]);
+}
+
+export function isEntryActiveInWeek(entry: ScheduleTiming, week: SemesterWeek): boolean {
+  return isActiveInWeekNumber(entry, week.week, Math.floor(Date.parse(week.startDate) / MS_PER_DAY));
+}
+
+export function entriesShareWeek(left: ScheduleTiming, right: ScheduleTiming, weeks: SemesterWeek[]): boolean {
+  if (weeks.length > 0) {
+    return weeks.some((week) => isEntryActiveInWeek(left, week) && isEntryActiveInWeek(right, week));
+  }
+
+  if (!left.weekPattern && !right.weekPattern) {
+    return true;
+  }
+
+  for (let week = 1; week <= MAX_SEMESTER_WEEKS; week += 1) {
+    if (isActiveInWeekNumber(left, week, null) && isActiveInWeekNumber(right, week, null)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+export function scheduleDateOf(instant: Date): string {
+  return new Date(instant.getTime() + SCHEDULE_UTC_OFFSET_MINUTES * 60_000).toISOString().slice(0, 10);
+}
+
+export function toScheduleInstant(date: string, time: string): Date {
+  return new Date(Date.parse(`${date}T${time.padStart(5, "0")}:00Z`) - SCHEDULE_UTC_OFFSET_MINUTES * 60_000);
+}
+
+export type NextClass<T> = {
+  entry: T;
+  date: string;
+  startsAt: Date;
+  endsAt: Date;
+};
+
+// A class that has started but not ended yet still counts as the next one.
+export function findNextClass<T extends ScheduleTiming & { startTime: string | null; endTime: string | null }>(
+  entries: T[],
+  weeks: SemesterWeek[],
+  now: Date,
+): NextClass<T> | null {
+  const today = scheduleDateOf(now);
+
+  for (const week of weeks) {
+    if (week.endDate < today) {
+      continue;
+    }
+
+    let next: NextClass<T> | null = null;
+    for (const entry of entries) {
+      if (!entry.startTime || !isEntryActiveInWeek(entry, week)) {
+        continue;
+      }
+
+      const date = classDateInWeek(week, entry.dayOfWeek);
+      const endTime = entry.endTime ?? computeEndTime(entry.startTime, DEFAULT_CLASS_MINUTES) ?? "23:59";
+      const endsAt = toScheduleInstant(date, endTime);
+      if (endsAt <= now) {
+        continue;
+      }
+
+      const startsAt = toScheduleInstant(date, entry.startTime);
+      if (!next || startsAt < next.startsAt) {
+        next = { entry, date, startsAt, endsAt };
+      }
+    }
+
+    if (next) {
+      return next;
+    }
+  }
+
+  return null;
+}
+
+export function computeEndTime(startTime: string | null, durationMinutes: number | null): string | null {
+  const matched = startTime?.match(/^(\d{1,2}):(\d{2})$/);
+  if (!matched || durationMinutes === null || !Number.isFinite(durationMinutes) || durationMinutes <= 0) {
+    return null;
+  }
+
+  const total = Number(matched[1]) * 60 + Number(matched[2]) + Math.round(durationMinutes);
+  if (total >= 24 * 60) {
+    return null;
+  }
+
+  return `${String(Math.floor(total / 60)).padStart(2, "0")}:${String(total % 60).padStart(2, "0")}`;
+}
+
+function formatShortDate(value: Date | string): string {
+  const [, month, day] = formatDayNumber(toDayNumber(value)).split("-");
+  return `${day}/${month}`;
+}
+
+export function formatWeekNote(entry: Omit<ScheduleTiming, "dayOfWeek">): string | null {
+  const parts: string[] = [];
+  const pattern = normalizeWeekPattern(entry.weekPattern);
+  if (pattern) {
+    parts.push(`Tuần ${pattern.replace(/,/g, ", ").replace(/!/g, "trừ ")}`);
+  }
+  if (entry.startDate || entry.endDate) {
+    parts.push(
+      `${entry.startDate ? formatShortDate(entry.startDate) : "…"}–${entry.endDate ? formatShortDate(entry.endDate) : "…"}`,
+    );
+  }
+
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
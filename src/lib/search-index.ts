@@ -0,0 +1,531 @@
+import { createHash } from "node:crypto";
+import path from "node:path";
+
+import type { SearchKind } from "@prisma/client";
+
+import { getAcademicBundle, type AcademicBundle } from "@/lib/academic-data";
+import { getResourcesDirectory, loadKnowledge, normalizeCourseCode, normalizeSearchText } from "@/lib/knowledge";
+import { prisma } from "@/lib/prisma";
+import { listResourceIndex, type IndexedResourceFolder } from "@/lib/resource-index";
+import { EXTRACTABLE_EXTENSIONS, extractFileText } from "@/lib/text-extract";
+
+const STALE_AFTER_MS = 5 * 60_000;
+const MAX_QUERY_TERMS = 8;
+const MAX_TERM_LENGTH = 40;
+const MIN_PREFIX_LENGTH = 3;
+const MAX_BODY_LENGTH = 60_000;
+const SNIPPET_RADIUS = 14;
+const TITLE_BOOST = 2;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const QUERY_CHUNK_SIZE = 500;
+
+export const SEARCH_KINDS: SearchKind[] = ["COURSE", "LECTURER", "REVIEW", "GUIDE", "RESOURCE"];
+
+export type SearchSnippetPart = {
+  text: string;
+  match: boolean;
+};
+
+export type SearchHit = {
+  id: string;
+  kind: SearchKind;
+  courseCode: string | null;
+  title: string;
+  subtitle: string | null;
+  href: string;
+  score: number;
+  snippet: SearchSnippetPart[];
+};
+
+export type SearchResults = {
+  query: string;
+  terms: string[];
+  total: number;
+  groups: Array<{ kind: SearchKind; total: number; hits: SearchHit[] }>;
+};
+
+export type SearchIndexSummary = {
+  documents: number;
+  written: number;
+  removed: number;
+  extractedFiles: number;
+  durationMs: number;
+};
+
+type SourceDocument = {
+  sourceKey: string;
+  kind: SearchKind;
+  courseCode: string | null;
+  title: string;
+  subtitle: string | null;
+  href: string;
+  body: string;
+};
+
+type ResourceSource = Omit<SourceDocument, "body"> & {
+  absolutePath: string;
+  extension: string;
+  hash: string;
+};
+
+export type SearchIndexState = {
+  building: boolean;
+  lastSyncedAt: Date | null;
+};
+
+let syncedFor: { generatedAt: string; syncedAt: number } | null = null;
+let syncing: Promise<void> | null = null;
+
+/**
+ * Folds text the same way for documents and queries: `normalizeSearchText` strips the Vietnamese tone and
+ * vowel marks, and "đ" (which has no decomposition) becomes "d", so "Đại số" matches "dai so".
+ */
+export function foldSearchText(value: string): string {
+  return normalizeSearchText(value).replace(/đ/g, "d");
+}
+
+function tokenize(value: string): string[] {
+  return (foldSearchText(value).match(/[\p{L}\p{N}]+/gu) ?? []).filter((token) => token.length <= MAX_TERM_LENGTH);
+}
+
+function hashText(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+function joinLines(values: Array<string | null | undefined>): string {
+  return values.filter((value): value is string => Boolean(value?.trim())).join("\n");
+}
+
+function viewerHref(courseCode: string, relativePath: string): string {
+  return `/resources/view?course=${encodeURIComponent(courseCode)}&path=${encodeURIComponent(relativePath)}`;
+}
+
+function collectTextDocuments(bundle: AcademicBundle, folders: IndexedResourceFolder[]): SourceDocument[] {
+  const documents: SourceDocument[] = [];
+
+  for (const course of bundle.courses) {
+    documents.push({
+      sourceKey: `course:${course.code}`,
+      kind: "COURSE",
+      courseCode: course.code,
+      title: [course.code, course.nameEn ?? course.nameVi].filter(Boolean).join(" · "),
+      subtitle: course.nameEn && course.nameVi ? course.nameVi : null,
+      href: `/courses/${encodeURIComponent(course.code)}`,
+      body: joinLines([
+        course.nameEn,
+        course.nameVi,
+        course.program,
+        course.section,
+        course.prerequisite ? `Prerequisite: ${course.prerequisite}` : null,
+        course.note,
+        course.lecturers.map((lecturer) => lecturer.name).join(", "),
+      ]),
+    });
+
+    for (const review of course.reviews) {
+      documents.push({
+        sourceKey: `review:${review.sourceType}:${review.id}`,
+        kind: "REVIEW",
+        courseCode: course.code,
+        title: [course.code, review.lecturerName].filter(Boolean).join(" · "),
+        subtitle: review.authorName ?? null,
+        href: review.lecturerId
+          ? `/lecturers/${encodeURIComponent(review.lecturerId)}`
+          : `/courses/${encodeURIComponent(course.code)}`,
+        body: review.content,
+      });
+    }
+  }
+
+  for (const lecturer of bundle.lecturers) {
+    documents.push({
+      sourceKey: `lecturer:${lecturer.id}`,
+      kind: "LECTURER",
+      courseCode: null,
+      title: lecturer.name,
+      subtitle: [lecturer.title, lecturer.department].filter(Boolean).join(" · ") || null,
+      href: `/lecturers/${encodeURIComponent(lecturer.id)}`,
+      body: joinLines([
+        lecturer.title,
+        lecturer.department,
+        lecturer.office,
+        lecturer.email,
+        lecturer.bio,
+        lecturer.courses.join(", "),
+      ]),
+    });
+  }
+
+  for (const folder of folders) {
+    const courseCode = normalizeCourseCode(folder.folderName);
+    if (!courseCode || !folder.guidePath || !folder.guideContent) {
+      continue;
+    }
+
+    documents.push({
+      sourceKey: `guide:${folder.folderName}`,
+      kind: "GUIDE",
+      courseCode,
+      title: `Guide ${courseCode}`,
+      subtitle: folder.guidePath,
+      href: viewerHref(courseCode, folder.guidePath),
+      body: folder.guideContent,
+    });
+  }
+
+  return documents;
+}
+
+// The guide is indexed as its own document above, so it is skipped here.
+function collectResourceSources(resourcesDir: string, folders: IndexedResourceFolder[]): ResourceSource[] {
+  return folders.flatMap((folder) => {
+    const courseCode = normalizeCourseCode(folder.folderName);
+    if (!courseCode) {
+      return [];
+    }
+
+    return folder.files
+      .filter((file) => file.relativePath !== folder.guidePath)
+      .map((file) => ({
+        sourceKey: `resource:${folder.folderName}/${file.relativePath}`,
+        kind: "RESOURCE" as const,
+        courseCode,
+        title: file.name,
+        subtitle: `${courseCode} · ${file.relativePath}`,
+        href: viewerHref(courseCode, file.relativePath),
+        absolutePath: path.join(resourcesDir, folder.folderName, file.relativePath),
+        extension: file.extension,
+        hash: file.hash,
+      }));
+  });
+}
+
+function countTerms(title: string, body: string) {
+  const counts = new Map<string, { count: number; inTitle: boolean }>();
+  const titleTokens = tokenize(title);
+  const bodyTokens = tokenize(body);
+
+  for (const token of [...titleTokens, ...bodyTokens]) {
+    const entry = counts.get(token) ?? { count: 0, inTitle: false };
+    entry.count += 1;
+    counts.set(token, entry);
+  }
+  for (const token of titleTokens) {
+    counts.get(token)!.inTitle = true;
+  }
+
+  return { counts, length: titleTokens.length + bodyTokens.length };
+}
+
+async function writeDocument(document: SourceDocument, contentHash: string) {
+  const { counts, length } = countTerms(document.title, document.body);
+  const data = {
+    kind: document.kind,
+    courseCode: document.courseCode,
+    title: document.title,
+    subtitle: document.subtitle,
+    href: document.href,
+    body: document.body.slice(0, MAX_BODY_LENGTH),
+    length,
+    contentHash,
+  };
+
+  await prisma.$transaction(async (tx) => {
+    const saved = await tx.searchDocument.upsert({
+      where: { sourceKey: document.sourceKey },
+      update: data,
+      create: { sourceKey: document.sourceKey, ...data },
+      select: { id: true },
+    });
+
+    await tx.searchTerm.deleteMany({ where: { documentId: saved.id } });
+    if (counts.size > 0) {
+      await tx.searchTerm.createMany({
+        data: [...counts.entries()].map(([term, entry]) => ({
+          documentId: saved.id,
+          term,
+          count: entry.count,
+          inTitle: entry.inTitle,
+        })),
+      });
+    }
+  });
+}
+
+/**
+ * Brings the search tables in line with the academic bundle and the resource index. Documents whose
+ * content hash is unchanged are skipped; resource files are only re-extracted when their file hash changes.
+ */
+export async function syncSearchIndex(): Promise<SearchIndexSummary> {
+  const startedAt = Date.now();
+  const bundle = await getAcademicBundle();
+  const folders = await listResourceIndex();
+  const stored = new Map(
+    (await prisma.searchDocument.findMany({ select: { sourceKey: true, contentHash: true } })).map((row) => [
+      row.sourceKey,
+      row.contentHash,
+    ]),
+  );
+
+  const summary: SearchIndexSummary = { documents: 0, written: 0, removed: 0, extractedFiles: 0, durationMs: 0 };
+  const seen = new Set<string>();
+
+  for (const document of collectTextDocuments(bundle, folders)) {
+    seen.add(document.sourceKey);
+    const contentHash = hashText(
+      [document.title, document.subtitle ?? "", document.href, document.body].join("\u0000"),
+    );
+    if (stored.get(document.sourceKey) !== contentHash) {
+      await writeDocument(document, contentHash);
+      summary.written += 1;
+    }
+  }
+
+  for (const { absolutePath, extension, hash, ...document } of collectResourceSources(
+    getResourcesDirectory(),
+    folders,
+  )) {
+    seen.add(document.sourceKey);
+    if (stored.get(document.sourceKey) === hash) {
+      continue;
+    }
+
+    // Files that cannot be read are still indexed by name.
+    let body = "";
+    if (EXTRACTABLE_EXTENSIONS.has(extension)) {
+      try {
+        body = (await extractFileText(absolutePath, extension)) ?? "";
+        summary.extractedFiles += 1;
+      } catch (error) {
+        console.error("Resource text extraction failed:", error);
+      }
+    }
+
+    await writeDocument({ ...document, body }, hash);
+    summary.written += 1;
+  }
+
+  const removed = [...stored.keys()].filter((sourceKey) => !seen.has(sourceKey));
+  for (let index = 0; index < removed.length; index += QUERY_CHUNK_SIZE) {
+    await prisma.searchDocument.deleteMany({
+      where: { sourceKey: { in: removed.slice(index, index + QUERY_CHUNK_SIZE) } },
+    });
+  }
+
+  summary.documents = seen.size;
+  summary.removed = removed.length;
+  summary.durationMs = Date.now() - startedAt;
+  return summary;
+}
+
+/**
+ * Starts a background sync unless one is already running. Extracting every PDF/DOCX/PPTX can take
+ * minutes, so callers never wait for it; a failed sync is retried once the index counts as stale.
+ */
+export function startSearchIndexSync(): void {
+  syncing ??= (async () => {
+    const { generatedAt } = await loadKnowledge();
+    try {
+      await syncSearchIndex();
+    } catch (error) {
+      console.error("Search index sync failed:", error);
+    }
+    syncedFor = { generatedAt, syncedAt: Date.now() };
+  })()
+    .catch((error) => console.error("Search index sync failed:", error))
+    .finally(() => {
+      syncing = null;
+    });
+}
+
+/**
+ * Called by the search page, which serves whatever is already indexed: starts a background sync when this
+ * process has not synced yet, the resource knowledge was rebuilt, or the last sync is older than 5 minutes
+ * (student reviews and lecturer profile edits are picked up by the latter).
+ */
+export async function ensureSearchIndex(): Promise<SearchIndexState> {
+  const { generatedAt } = await loadKnowledge();
+  if (!syncedFor || syncedFor.generatedAt !== generatedAt || Date.now() - syncedFor.syncedAt >= STALE_AFTER_MS) {
+    startSearchIndexSync();
+  }
+
+  return {
+    building: syncing !== null,
+    lastSyncedAt: syncedFor ? new Date(syncedFor.syncedAt) : null,
+  };
+}
+
+function matchesTerm(token: string, term: string): boolean {
+  return term.length >= MIN_PREFIX_LENGTH ? token.startsWith(term) : token === term;
+}
+
+// Words of at least 3 characters also match longer words ("struct" finds "structures"); the `lt` bound keeps it an index range scan.
+function termFilter(term: string) {
+  return term.length >= MIN_PREFIX_LENGTH ? { gte: term, lt: `${term}\uffff` } : { equals: term };
+}
+
+function buildSnippet(body: string, terms: string[]): SearchSnippetPart[] {
+  const words = [...body.matchAll(/[\p{L}\p{N}]+/gu)];
+  if (words.length === 0) {
+    return [];
+  }
+
+  const isMatch = (word: string) => {
+    const folded = foldSearchText(word);
+    return terms.some((term) => matchesTerm(folded, term));
+  };
+  const firstMatch = Math.max(
+    0,
+    words.findIndex((word) => isMatch(word[0])),
+  );
+  const startWord = Math.max(0, firstMatch - SNIPPET_RADIUS);
+  const endWord = Math.min(words.length - 1, firstMatch + SNIPPET_RADIUS * 2);
+  const start = words[startWord].index;
+  const end = words[endWord].index + words[endWord][0].length;
+
+  const parts: SearchSnippetPart[] = [];
+  const push = (text: string, match: boolean) => {
+    const clean = text.replace(/\s+/g, " ");
+    const last = parts.at(-1);
+    if (last && last.match === match) {
+      last.text += clean;
+    } else if (clean) {
+      parts.push({ text: clean, match });
+    }
+  };
+
+  push(start > 0 ? "… " : "", false);
+  let cursor = start;
+  for (const word of words.slice(startWord, endWord + 1)) {
+    push(body.slice(cursor, word.index), false);
+    push(word[0], isMatch(word[0]));
+    cursor = word.index + word[0].length;
+  }
+  push(end < body.length ? " …" : "", false);
+
+  return parts;
+}
+
+async function findInChunks<T>(ids: string[], load: (chunk: string[]) => Promise<T[]>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let index = 0; index < ids.length; index += QUERY_CHUNK_SIZE) {
+    rows.push(...(await load(ids.slice(index, index + QUERY_CHUNK_SIZE))));
+  }
+
+  return rows;
+}
+
+/**
+ * Ranks documents containing every query word with BM25 plus a boost for title matches,
+ * grouped by kind. `kind` limits the results to one group, e.g. for a "more results" view.
+ */
+export async function searchIndex(
+  query: string,
+  options: { kind?: SearchKind; limit?: number } = {},
+): Promise<SearchResults> {
+  const terms = [...new Set(tokenize(query))].slice(0, MAX_QUERY_TERMS);
+  const empty: SearchResults = { query, terms, total: 0, groups: [] };
+  if (terms.length === 0) {
+    return empty;
+  }
+
+  const postingsByTerm = await Promise.all(
+    terms.map((term) =>
+      prisma.searchTerm.findMany({
+        where: {
+          term: termFilter(term),
+          ...(options.kind ? { document: { kind: options.kind } } : {}),
+        },
+        select: { documentId: true, count: true, inTitle: true },
+      }),
+    ),
+  );
+
+  // Prefix matches can return several words per document; they are summed into one frequency.
+  const perTerm = postingsByTerm.map((postings) => {
+    const byDocument = new Map<string, { count: number; inTitle: boolean }>();
+    for (const posting of postings) {
+      const entry = byDocument.get(posting.documentId) ?? { count: 0, inTitle: false };
+      entry.count += posting.count;
+      entry.inTitle ||= posting.inTitle;
+      byDocument.set(posting.documentId, entry);
+    }
+    return byDocument;
+  });
+
+  const [first, ...rest] = [...perTerm].sort((a, b) => a.size - b.size);
+  const candidateIds = [...first.keys()].filter((id) => rest.every((postings) => postings.has(id)));
+  if (candidateIds.length === 0) {
+    return empty;
+  }
+
+  const [totals, candidates] = await Promise.all([
+    prisma.searchDocument.aggregate({ _count: { _all: true }, _avg: { length: true } }),
+    findInChunks(candidateIds, (ids) =>
+      prisma.searchDocument.findMany({
+        where: { id: { in: ids } },
+        select: { id: true, kind: true, length: true },
+      }),
+    ),
+  ]);
+  const documentCount = totals._count._all;
+  const averageLength = totals._avg.length || 1;
+
+  const scored = candidates.map((candidate) => {
+    const score = perTerm.reduce((sum, postings) => {
+      const entry = postings.get(candidate.id)!;
+      const idf = Math.log(1 + (documentCount - postings.size + 0.5) / (postings.size + 0.5));
+      const tf =
+        (entry.count * (BM25_K1 + 1)) /
+        (entry.count + BM25_K1 * (1 - BM25_B + (BM25_B * candidate.length) / averageLength));
+      return sum + idf * (tf + (entry.inTitle ? TITLE_BOOST : 0));
+    }, 0);
+    return { ...candidate, score };
+  });
+
+  const limit = options.limit ?? 8;
+  const groups = SEARCH_KINDS.map((kind) => {
+    const ofKind = scored.filter((item) => item.kind === kind).sort((a, b) => b.score - a.score);
+    return { kind, total: ofKind.length, top: ofKind.slice(0, limit) };
+  }).filter((group) => group.total > 0);
+
+  const topIds = groups.flatMap((group) => group.top.map((item) => item.id));
+  const documents = new Map(
+    (
+      await prisma.searchDocument.findMany({
+        where: { id: { in: topIds } },
+        select: { id: true, courseCode: true, title: true, subtitle: true, href: true, body: true },
+      })
+    ).map((document) => [document.id, document]),
+  );
+
+  return {
+    query,
+    terms,
+    total: candidateIds.length,
+    groups: groups.map((group) => ({
+      kind: group.kind,
+      total: group.total,
+      hits: group.top.flatMap((item) => {
+        const document = documents.get(item.id);
+        if (!document) {
+          return [];
+        }
+
+        return [
+          {
+            id: item.id,
+            kind: item.kind,
+            courseCode: document.courseCode,
+            title: document.title,
+            subtitle: document.subtitle,
+            href: document.href,
+            score: item.score,
+            snippet: buildSnippet(document.body, terms),
+          },
+        ];
+      }),
+    })),
+  };
+}
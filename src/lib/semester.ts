@@ -84,3 +84,17 @@ export function labelFromSemesterKey(key: string): string {
   const term = parsed.term.slice(0, 1) + parsed.term.slice(1).toLowerCase();
   return `${term} ${parsed.year}`;
 }
+
+export function isSummerSemesterKey(key: string): boolean {
+  return parseSemester(key)?.term === "SUMMER";
+}
+
+// Next Spring/Fall term after `key`; summer and winter terms are skipped when projecting study plans.
+export function nextRegularSemesterKey(key: string): string | null {
+  const parsed = parseSemester(key);
+  if (!parsed) {
+    return null;
+  }
+
+  return parsed.order < TERM_ORDER.FALL ? `FALL_${parsed.year}` : `SPRING_${parsed.year + 1}`;
+}
@@ -0,0 +1,357 @@
+import { randomBytes } from "node:crypto";
+
+import type { UserRole } from "@/lib/auth/session";
+import { getPortalMeta } from "@/lib/portal";
+import { prisma } from "@/lib/prisma";
+
+export type ShareLinkViewer = {
+  username: string;
+  role: UserRole;
+};
+
+export type ShareLinkInfo = {
+  id: string;
+  path: string;
+  semesterKey: string;
+  cohortCode: string;
+  classGroupName: string;
+  createdBy: string;
+  createdAt: string;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  lastUsedAt: string | null;
+  viewCount: number;
+  active: boolean;
+};
+
+export type ShareLinkScope = {
+  semesterKey: string;
+  cohortCode: string;
+  classGroupName: string;
+};
+
+export type ShareScopeOption = ShareLinkScope & {
+  semesterLabel: string;
+};
+
+export type ClassMonitorInfo = {
+  username: string;
+  displayName: string | null;
+  cohortCode: string | null;
+  classGroupName: string | null;
+};
+
+const MAX_EXPIRY_DAYS = 365;
+
+type ShareLinkRecord = {
+  id: string;
+  token: string;
+  semesterKey: string;
+  cohortCode: string;
+  classGroupName: string;
+  createdBy: string;
+  createdAt: Date;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  lastUsedAt: Date | null;
+  viewCount: number;
+};
+
+function isActive(record: ShareLinkRecord, now = new Date()): boolean {
+  return !record.revokedAt && (!record.expiresAt || record.expiresAt > now);
+}
+
+function toShareLinkInfo(record: ShareLinkRecord): ShareLinkInfo {
+  return {
+    id: record.id,
+    path: `/share/${record.token}`,
+    semesterKey: record.semesterKey,
+    cohortCode: record.cohortCode,
+    classGroupName: record.classGroupName,
+    createdBy: record.createdBy,
+    createdAt: record.createdAt.toISOString(),
+    expiresAt: record.expiresAt?.toISOString() ?? null,
+    revokedAt: record.revokedAt?.toISOString() ?? null,
+    lastUsedAt: record.lastUsedAt?.toISOString() ?? null,
+    viewCount: record.viewCount,
+    active: isActive(record),
+  };
+}
+
+// Admins may share any class group; a class monitor only the class group stored on their grant, which
+// (unlike the profile class) the student cannot change.
+export async function getShareableClassGroup(
+  viewer: ShareLinkViewer,
+): Promise<"ANY" | { cohortCode: string; classGroupName: string } | null> {
+  if (viewer.role === "ADMIN") {
+    return "ANY";
+  }
+  if (viewer.role !== "STUDENT") {
+    return null;
+  }
+
+  const setting = await prisma.userSetting.findUnique({
+    where: {
+      username: viewer.username,
+    },
+    select: {
+      classMonitor: true,
+      monitorCohortCode: true,
+      monitorClassGroupName: true,
+    },
+  });
+  return setting?.classMonitor && setting.monitorCohortCode && setting.monitorClassGroupName
+    ? { cohortCode: setting.monitorCohortCode, classGroupName: setting.monitorClassGroupName }
+    : null;
+}
+
+export async function listShareScopes(viewer: ShareLinkViewer): Promise<ShareScopeOption[]> {
+  const allowed = await getShareableClassGroup(viewer);
+  if (!allowed) {
+    return [];
+  }
+
+  const meta = await getPortalMeta();
+  return meta.semesters.flatMap((semester) =>
+    semester.cohorts.flatMap((cohort) =>
+      cohort.classGroups
+        .filter(
+          (classGroupName) =>
+            allowed === "ANY" || (cohort.code === allowed.cohortCode && classGroupName === allowed.classGroupName),
+        )
+        .map((classGroupName) => ({
+          semesterKey: semester.key,
+          semesterLabel: semester.label,
+          cohortCode: cohort.code,
+          classGroupName,
+        })),
+    ),
+  );
+}
+
+export async function listShareLinks(viewer: ShareLinkViewer): Promise<ShareLinkInfo[]> {
+  const records = await prisma.timetableShareLink.findMany({
+    where: viewer.role === "ADMIN" ? {} : { createdBy: viewer.username },
+    orderBy: {
+      createdAt: "desc",
+    },
+    take: 200,
+  });
+
+  return records.map(toShareLinkInfo);
+}
+
+export async function createShareLink(
+  viewer: ShareLinkViewer,
+  input: Partial<ShareLinkScope> & { expiresInDays?: number | null },
+): Promise<ShareLinkInfo> {
+  const allowed = await getShareableClassGroup(viewer);
+  if (!allowed) {
+    throw new Error("Chỉ admin hoặc lớp trưởng mới tạo được link chia sẻ.");
+  }
+
+  const cohortCode = allowed === "ANY" ? input.cohortCode?.trim() : allowed.cohortCode;
+  const classGroupName = allowed === "ANY" ? input.classGroupName?.trim() : allowed.classGroupName;
+  const semesterKey = input.semesterKey?.trim();
+  if (!semesterKey || !cohortCode || !classGroupName) {
+    throw new Error("Thiếu học kỳ, khóa hoặc lớp.");
+  }
+
+  const classGroup = await prisma.classGroup.findFirst({
+    where: {
+      name: classGroupName,
+      cohort: {
+        code: cohortCode,
+        semester: {
+          key: semesterKey,
+        },
+      },
+    },
+    select: {
+      id: true,
+    },
+  });
+  if (!classGroup) {
+    throw new Error(`Không tìm thấy lớp ${cohortCode} ${classGroupName} trong học kỳ ${semesterKey}.`);
+  }
+
+  const days = input.expiresInDays ? Math.min(MAX_EXPIRY_DAYS, Math.max(1, Math.floor(input.expiresInDays))) : null;
+  const record = await prisma.timetableShareLink.create({
+    data: {
+      token: randomBytes(18).toString("base64url"),
+      semesterKey,
+      cohortCode,
+      classGroupName,
+      createdBy: viewer.username,
+      expiresAt: days ? new Date(Date.now() + days * 24 * 60 * 60 * 1000) : null,
+    },
+  });
+
+  return toShareLinkInfo(record);
+}
+
+export async function revokeShareLink(viewer: ShareLinkViewer, id: string): Promise<boolean> {
+  const revoked = await prisma.timetableShareLink.updateMany({
+    where: {
+      id,
+      revokedAt: null,
+      ...(viewer.role === "ADMIN" ? {} : { createdBy: viewer.username }),
+    },
+    data: {
+      revokedAt: new Date(),
+    },
+  });
+
+  return revoked.count > 0;
+}
+
+export async function resolveShareToken(token: string): Promise<(ShareLinkScope & { expiresAt: string | null }) | null> {
+  if (!/^[A-Za-z0-9_-]{16,64}$/.test(token)) {
+    return null;
+  }
+
+  const record = await prisma.timetableShareLink.findUnique({
+    where: {
+      token,
+    },
+  });
+  if (!record || !isActive(record)) {
+    return null;
+  }
+
+  await prisma.timetableShareLink.update({
+    where: {
+      id: record.id,
+    },
+    data: {
+      lastUsedAt: new Date(),
+      viewCount: {
+        increment: 1,
+      },
+    },
+  });
+
+  return {
+    semesterKey: record.semesterKey,
+    cohortCode: record.cohortCode,
+    classGroupName: record.classGroupName,
+    expiresAt: record.expiresAt?.toISOString() ?? null,
+  };
+}
+
+const MONITOR_SELECT = {
+  username: true,
+  displayName: true,
+  monitorCohortCode: true,
+  monitorClassGroupName: true,
+} as const;
+
+function toClassMonitorInfo(setting: {
+  username: string;
+  displayName: string | null;
+  monitorCohortCode: string | null;
+  monitorClassGroupName: string | null;
+}): ClassMonitorInfo {
+  return {
+    username: setting.username,
+    displayName: setting.displayName,
+    cohortCode: setting.monitorCohortCode,
+    classGroupName: setting.monitorClassGroupName,
+  };
+}
+
+export async function listClassMonitors(): Promise<ClassMonitorInfo[]> {
+  const settings = await prisma.userSetting.findMany({
+    where: {
+      classMonitor: true,
+    },
+    orderBy: [{ monitorCohortCode: "asc" }, { monitorClassGroupName: "asc" }, { username: "asc" }],
+    select: MONITOR_SELECT,
+  });
+
+  return settings.map(toClassMonitorInfo);
+}
+
+/**
+ * Grants or removes the class monitor role. The monitored class is fixed at grant time: the given
+ * cohort/class, or otherwise the class on the student's profile at that moment.
+ */
+export async function setClassMonitor(
+  usernameRaw: string,
+  input: { enabled: boolean; cohortCode?: string | null; classGroupName?: string | null },
+): Promise<ClassMonitorInfo> {
+  const username = usernameRaw.trim().toLowerCase();
+  const account = await prisma.accountUser.findUnique({
+    where: {
+      username,
+    },
+    select: {
+      role: true,
+      name: true,
+      email: true,
+      cohortCode: true,
+      classGroupName: true,
+      studentCode: true,
+    },
+  });
+  if (!account || account.role !== "STUDENT") {
+    throw new Error(`Không tìm thấy tài khoản sinh viên ${username}.`);
+  }
+
+  const existing = await prisma.userSetting.findUnique({
+    where: {
+      username,
+    },
+    select: {
+      cohortCode: true,
+      classGroupName: true,
+    },
+  });
+  const monitorCohortCode = input.enabled
+    ? input.cohortCode?.trim() || existing?.cohortCode || account.cohortCode || null
+    : null;
+  const monitorClassGroupName = input.enabled
+    ? input.classGroupName?.trim() || existing?.classGroupName || account.classGroupName || null
+    : null;
+  if (input.enabled && (!monitorCohortCode || !monitorClassGroupName)) {
+    throw new Error(`Tài khoản ${username} chưa khai báo lớp; hãy nhập khóa và lớp cần giao.`);
+  }
+
+  const grant = {
+    classMonitor: input.enabled,
+    monitorCohortCode,
+    monitorClassGroupName,
+  };
+  const setting = await prisma.userSetting.upsert({
+    where: {
+      username,
+    },
+    update: grant,
+    create: {
+      username,
+      displayName: account.name,
+      email: account.email,
+      cohortCode: account.cohortCode,
+      classGroupName: account.classGroupName,
+      studentCode: account.studentCode,
+      ...grant,
+    },
+    select: MONITOR_SELECT,
+  });
+
+  // Removing the role, or moving it to another class, revokes links made for any other class.
+  await prisma.timetableShareLink.updateMany({
+    where: {
+      createdBy: username,
+      revokedAt: null,
+      ...(input.enabled
+        ? { NOT: { cohortCode: monitorCohortCode ?? "", classGroupName: monitorClassGroupName ?? "" } }
+        : {}),
+    },
+    data: {
+      revokedAt: new Date(),
+    },
+  });
+
+  return toClassMonitorInfo(setting);
+}
@@ -0,0 +1,101 @@
+import fs from "node:fs";
+
+import JSZip from "jszip";
+import { extractText, getDocumentProxy } from "unpdf";
+
+const MAX_EXTRACT_BYTES = 40 * 1024 * 1024;
+const MAX_TEXT_LENGTH = 200_000;
+
+export const EXTRACTABLE_EXTENSIONS = new Set(["pdf", "docx", "pptx", "md", "txt"]);
+
+function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, body: string) => {
+    const lower = body.toLowerCase();
+    if (lower.startsWith("#x")) {
+      return String.fromCodePoint(Number.parseInt(lower.slice(2), 16));
+    }
+    if (lower.startsWith("#")) {
+      return String.fromCodePoint(Number.parseInt(lower.slice(1), 10));
+    }
+
+    return { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" }[lower] ?? entity;
+  });
+}
+
+// Collects the text runs (`<w:t>` / `<a:t>`) of an Office XML part, one line per paragraph.
+function textFromOfficeXml(xml: string, paragraphTag: string, runTag: string): string {
+  const paragraphPattern = new RegExp(`<${paragraphTag}[\\s>][\\s\\S]*?</${paragraphTag}>`, "g");
+  const runPattern = new RegExp(`<${runTag}(?:\\s[^>]*)?>([\\s\\S]*?)</${runTag}>`, "g");
+
+  return (xml.match(paragraphPattern) ?? [])
+    .map((paragraph) => [...paragraph.matchAll(runPattern)].map((run) => decodeXmlEntities(run[1])).join(""))
+    .filter((line) => line.trim())
+    .join("\n");
+}
+
+async function extractDocx(buffer: Buffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  const parts = Object.keys(zip.files)
+    .filter((name) => /^word\/(document|header\d*|footer\d*|footnotes)\.xml$/.test(name))
+    .sort((a, b) => (a === "word/document.xml" ? -1 : b === "word/document.xml" ? 1 : a.localeCompare(b)));
+
+  const texts = await Promise.all(
+    parts.map(async (name) => textFromOfficeXml(await zip.file(name)!.async("string"), "w:p", "w:t")),
+  );
+  return texts.filter(Boolean).join("\n");
+}
+
+async function extractPptx(buffer: Buffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  const slideNumber = (name: string) => Number.parseInt(name.match(/(\d+)\.xml$/)?.[1] ?? "0", 10);
+  const slides = Object.keys(zip.files)
+    .filter((name) => /^ppt\/(slides\/slide|notesSlides\/notesSlide)\d+\.xml$/.test(name))
+    .sort((a, b) => slideNumber(a) - slideNumber(b) || a.localeCompare(b));
+
+  const texts = await Promise.all(
+    slides.map(async (name) => textFromOfficeXml(await zip.file(name)!.async("string"), "a:p", "a:t")),
+  );
+  return texts.filter(Boolean).join("\n");
+}
+
+async function extractPdf(buffer: Buffer): Promise<string> {
+  const pdf = await getDocumentProxy(new Uint8Array(buffer));
+  try {
+    const { text } = await extractText(pdf, { mergePages: true });
+    return text;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Plain text of a PDF, DOCX, PPTX, Markdown or text file for the search index, capped at 200k characters.
+ * Returns null for other formats, files over 40 MB, or files the parsers cannot read (scanned PDFs yield "").
+ */
+export async function extractFileText(filePath: string, extension: string): Promise<string | null> {
+  if (!EXTRACTABLE_EXTENSIONS.has(extension) || fs.statSync(filePath).size > MAX_EXTRACT_BYTES) {
+    return null;
+  }
+
+  const buffer = fs.readFileSync(filePath);
+  let text: string;
+  try {
+    if (extension === "pdf") {
+      text = await extractPdf(buffer);
+    } else if (extension === "docx") {
+      text = await extractDocx(buffer);
+    } else if (extension === "pptx") {
+      text = await extractPptx(buffer);
+    } else {
+      text = buffer.toString("utf8");
+    }
+  } catch {
+    return null;
+  }
+
+  return text
+    .replace(/[ \t\u00a0]+/g, " ")
+    .replace(/\s*\n\s*/g, "\n")
+    .trim()
+    .slice(0, MAX_TEXT_LENGTH);
+}
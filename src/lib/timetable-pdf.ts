@@ -0,0 +1,278 @@
+import path from "node:path";
+
+import PDFDocument from "pdfkit";
+
+import { localeByLanguage, t } from "@/lib/i18n";
+import type { TimetableSheet, TimetableSheetCell } from "@/lib/timetable-sheet";
+
+type FontWeight = "regular" | "bold";
+type FontSubset = "latin" | "latin-ext" | "vietnamese" | "cjk";
+
+type TextStyle = {
+  size: number;
+  weight: FontWeight;
+  color: string;
+};
+
+const PAGE_MARGIN = 28;
+const TIME_COLUMN_WIDTH = 54;
+const HEADER_ROW_HEIGHT = 26;
+const CELL_PADDING = 4;
+const ENTRY_GAP = 5;
+const LINE_GAP = 1.5;
+
+const FONT_DIR = path.join(process.cwd(), "node_modules", "@fontsource", "be-vietnam-pro", "files");
+// Be Vietnam Pro ships as Google Fonts unicode-range subsets; text is split into runs per subset file.
+const VIETNAMESE_RANGES: Array<[number, number]> = [
+  [0x0102, 0x0103],
+  [0x0110, 0x0111],
+  [0x0128, 0x0129],
+  [0x0168, 0x0169],
+  [0x01a0, 0x01a1],
+  [0x01af, 0x01b0],
+  [0x0300, 0x0301],
+  [0x0303, 0x0303],
+  [0x0309, 0x0309],
+  [0x0323, 0x0323],
+  [0x1ea0, 0x1ef9],
+  [0x20ab, 0x20ab],
+];
+const LATIN_EXT_RANGES: Array<[number, number]> = [
+  [0x0100, 0x02af],
+  [0x1e00, 0x1eff],
+  [0x2020, 0x20cf],
+  [0x2c60, 0x2c7f],
+  [0xa720, 0xa7ff],
+];
+
+const BODY: TextStyle = { size: 7, weight: "regular", color: "#33475b" };
+const COURSE_CODE: TextStyle = { size: 8.5, weight: "bold", color: "#08213b" };
+const COURSE_NAME: TextStyle = { size: 7.5, weight: "regular", color: "#08213b" };
+
+function inRanges(codePoint: number, ranges: Array<[number, number]>): boolean {
+  return ranges.some(([start, end]) => codePoint >= start && codePoint <= end);
+}
+
+function subsetFor(codePoint: number, hasCjkFont: boolean): FontSubset {
+  if (inRanges(codePoint, VIETNAMESE_RANGES)) {
+    return "vietnamese";
+  }
+  if (codePoint <= 0xff || (codePoint >= 0x2000 && codePoint <= 0x206f)) {
+    return "latin";
+  }
+  if (inRanges(codePoint, LATIN_EXT_RANGES)) {
+    return "latin-ext";
+  }
+
+  return hasCjkFont ? "cjk" : "latin";
+}
+
+// Optional CJK font for Japanese labels (e.g. a Noto Sans JP .otf); without it Japanese falls back to English.
+export function hasPdfCjkFont(): boolean {
+  return Boolean(process.env.PDF_CJK_FONT_PATH?.trim());
+}
+
+class PdfTextWriter {
+  constructor(
+    private readonly doc: PDFKit.PDFDocument,
+    private readonly hasCjkFont: boolean,
+  ) {}
+
+  private runs(text: string): Array<{ font: string; text: string }> {
+    const runs: Array<{ font: string; text: string }> = [];
+    for (const char of text.normalize("NFC")) {
+      const font = subsetFor(char.codePointAt(0) ?? 0, this.hasCjkFont);
+      const last = runs[runs.length - 1];
+      if (last && last.font === font) {
+        last.text += char;
+      } else {
+        runs.push({ font, text: char });
+      }
+    }
+
+    return runs;
+  }
+
+  private fontName(subset: string, style: TextStyle): string {
+    return subset === "cjk" ? "cjk" : `${subset}-${style.weight}`;
+  }
+
+  width(text: string, style: TextStyle): number {
+    return this.runs(text).reduce(
+      (total, run) =>
+        total + this.doc.font(this.fontName(run.font, style)).fontSize(style.size).widthOfString(run.text),
+      0,
+    );
+  }
+
+  wrap(text: string, style: TextStyle, maxWidth: number): string[] {
+    const tokens = text
+      .split(/(\s+)/)
+      .flatMap((token) => (this.width(token, style) > maxWidth ? [...token] : [token]))
+      .filter((token) => token.length > 0);
+    const lines: string[] = [];
+    let current = "";
+
+    for (const token of tokens) {
+      const candidate = current + token;
+      if (current && this.width(candidate.trimEnd(), style) > maxWidth) {
+        lines.push(current.trimEnd());
+        current = token.trimStart();
+      } else {
+        current = candidate;
+      }
+    }
+    if (current.trim()) {
+      lines.push(current.trimEnd());
+    }
+
+    return lines;
+  }
+
+  lineHeight(style: TextStyle): number {
+    return style.size * 1.2 + LINE_GAP;
+  }
+
+  blockHeight(text: string, style: TextStyle, maxWidth: number): number {
+    return this.wrap(text, style, maxWidth).length * this.lineHeight(style);
+  }
+
+  draw(text: string, style: TextStyle, x: number, y: number, maxWidth: number): number {
+    let top = y;
+    for (const line of this.wrap(text, style, maxWidth)) {
+      let left = x;
+      for (const run of this.runs(line)) {
+        this.doc
+          .font(this.fontName(run.font, style))
+          .fontSize(style.size)
+          .fillColor(style.color)
+          .text(run.text, left, top, { lineBreak: false });
+        left += this.doc.widthOfString(run.text);
+      }
+      top += this.lineHeight(style);
+    }
+
+    return top;
+  }
+}
+
+function cellLines(cell: TimetableSheetCell): Array<{ text: string; style: TextStyle }> {
+  return [
+    { text: `${cell.courseCode} · ${cell.time}`, style: COURSE_CODE },
+    ...(cell.courseName ? [{ text: cell.courseName, style: COURSE_NAME }] : []),
+    { text: cell.room, style: BODY },
+    ...(cell.lecturers ? [{ text: cell.lecturers, style: BODY }] : []),
+    ...(cell.note ? [{ text: cell.note, style: BODY }] : []),
+  ];
+}
+
+export async function renderTimetablePdf(sheet: TimetableSheet): Promise<Buffer> {
+  const cjkFontPath = process.env.PDF_CJK_FONT_PATH?.trim() || null;
+  const doc = new PDFDocument({
+    size: "A4",
+    layout: "landscape",
+    margin: PAGE_MARGIN,
+    font: path.join(FONT_DIR, "be-vietnam-pro-latin-400-normal.woff"),
+    info: {
+      Title: sheet.title,
+      Subject: sheet.subtitle,
+      Producer: "TKB Troy IT Portal",
+    },
+  });
+
+  for (const subset of ["latin", "latin-ext", "vietnamese"] as const) {
+    doc.registerFont(`${subset}-regular`, path.join(FONT_DIR, `be-vietnam-pro-${subset}-400-normal.woff`));
+    doc.registerFont(`${subset}-bold`, path.join(FONT_DIR, `be-vietnam-pro-${subset}-700-normal.woff`));
+  }
+  if (cjkFontPath) {
+    doc.registerFont("cjk", cjkFontPath);
+  }
+
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const writer = new PdfTextWriter(doc, Boolean(cjkFontPath));
+  const left = PAGE_MARGIN;
+  const tableWidth = doc.page.width - PAGE_MARGIN * 2;
+  const bottom = doc.page.height - PAGE_MARGIN;
+  const dayWidth = (tableWidth - TIME_COLUMN_WIDTH) / Math.max(1, sheet.days.length);
+  const cellWidth = dayWidth - CELL_PADDING * 2;
+  const generatedAt = `${t(sheet.language, "timetableGeneratedAt")}: ${new Intl.DateTimeFormat(
+    localeByLanguage(sheet.language),
+    { dateStyle: "short", timeStyle: "short", timeZone: "Asia/Ho_Chi_Minh" },
+  ).format(new Date())}`;
+
+  const drawPageHeader = (): number => {
+    const titleStyle: TextStyle = { size: 15, weight: "bold", color: "#08213b" };
+    let y = writer.draw(sheet.title, titleStyle, left, PAGE_MARGIN, tableWidth * 0.7);
+    y = writer.draw(sheet.subtitle, { size: 9.5, weight: "regular", color: "#33475b" }, left, y + 2, tableWidth * 0.7);
+    const generatedWidth = writer.width(generatedAt, BODY);
+    writer.draw(generatedAt, BODY, left + tableWidth - generatedWidth, PAGE_MARGIN + 4, generatedWidth + 1);
+    return y + 8;
+  };
+
+  const drawHeaderRow = (top: number): number => {
+    doc.rect(left, top, tableWidth, HEADER_ROW_HEIGHT).fill("#f2f6fc");
+    doc.rect(left, top, tableWidth, HEADER_ROW_HEIGHT).lineWidth(0.6).stroke("#c9d6e8");
+    writer.draw(t(sheet.language, "timetableTime"), COURSE_CODE, left + CELL_PADDING, top + 8, TIME_COLUMN_WIDTH);
+    sheet.days.forEach((day, index) => {
+      const x = left + TIME_COLUMN_WIDTH + index * dayWidth;
+      doc.moveTo(x, top).lineTo(x, top + HEADER_ROW_HEIGHT).stroke("#c9d6e8");
+      writer.draw(day.label, COURSE_CODE, x + CELL_PADDING, top + 4, cellWidth);
+      if (day.date) {
+        writer.draw(day.date, BODY, x + CELL_PADDING, top + 14, cellWidth);
+      }
+    });
+
+    return top + HEADER_ROW_HEIGHT;
+  };
+
+  let y = drawHeaderRow(drawPageHeader());
+
+  if (sheet.rows.length === 0) {
+    writer.draw(t(sheet.language, "timetableEmpty"), COURSE_NAME, left + CELL_PADDING, y + 8, tableWidth);
+  }
+
+  for (const row of sheet.rows) {
+    const cellHeights = sheet.days.map(({ day }) =>
+      (row.cells[day] ?? []).reduce(
+        (total, cell, index) =>
+          total +
+          (index > 0 ? ENTRY_GAP : 0) +
+          cellLines(cell).reduce((sum, line) => sum + writer.blockHeight(line.text, line.style, cellWidth), 0),
+        0,
+      ),
+    );
+    const rowHeight = Math.min(bottom - PAGE_MARGIN * 3, Math.max(30, ...cellHeights) + CELL_PADDING * 2);
+
+    if (y + rowHeight > bottom) {
+      doc.addPage();
+      y = drawHeaderRow(PAGE_MARGIN);
+    }
+
+    doc.rect(left, y, tableWidth, rowHeight).lineWidth(0.6).stroke("#c9d6e8");
+    writer.draw(row.slot, COURSE_CODE, left + CELL_PADDING, y + CELL_PADDING, TIME_COLUMN_WIDTH);
+
+    sheet.days.forEach(({ day }, index) => {
+      const x = left + TIME_COLUMN_WIDTH + index * dayWidth;
+      doc.moveTo(x, y).lineTo(x, y + rowHeight).stroke("#c9d6e8");
+
+      let top = y + CELL_PADDING;
+      for (const cell of row.cells[day] ?? []) {
+        for (const line of cellLines(cell)) {
+          top = writer.draw(line.text, line.style, x + CELL_PADDING, top, cellWidth);
+        }
+        top += ENTRY_GAP;
+      }
+    });
+
+    y += rowHeight;
+  }
+
+  doc.end();
+  return finished;
+}
@@ -0,0 +1,95 @@
+import type { DayOfWeek } from "@prisma/client";
+
+import { t, type UiKey, type UiLanguage } from "@/lib/i18n";
+import { ORDERED_DAYS, type PortalData } from "@/lib/portal";
+import { classDateInWeek, formatWeekNote } from "@/lib/schedule-weeks";
+
+export type TimetableSheetCell = {
+  id: string;
+  courseCode: string;
+  courseName: string | null;
+  time: string;
+  room: string;
+  lecturers: string;
+  note: string | null;
+};
+
+export type TimetableSheet = {
+  language: UiLanguage;
+  title: string;
+  subtitle: string;
+  filename: string;
+  days: Array<{ day: DayOfWeek; label: string; date: string | null }>;
+  rows: Array<{ slot: string; cells: Record<string, TimetableSheetCell[]> }>;
+};
+
+function formatShortDate(value: string): string {
+  return `${value.slice(8, 10)}/${value.slice(5, 7)}`;
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function courseNameFor(course: PortalData["entries"][number]["course"], language: UiLanguage): string | null {
+  return language === "VI" ? (course.nameVi ?? course.nameEn) : (course.nameEn ?? course.nameVi);
+}
+
+// Shared by the print page and the PDF export so both render the same grid for one class group and week.
+export function buildTimetableSheet(data: PortalData, language: UiLanguage): TimetableSheet | null {
+  const semester = data.meta.semesters.find((item) => item.key === data.selected.semesterKey);
+  if (!semester || !data.selected.classGroupName) {
+    return null;
+  }
+
+  const week = data.selected.week === "ALL" ? null : (data.weeks[data.selected.week - 1] ?? null);
+  const days = ORDERED_DAYS.filter(
+    (day) => day !== "SUN" || data.entries.some((entry) => entry.dayOfWeek === day),
+  ).map((day) => ({
+    day,
+    label: t(language, `day${day}` as UiKey),
+    date: week ? formatShortDate(classDateInWeek(week, day)) : null,
+  }));
+
+  const slots = [...new Set(data.entries.map((entry) => entry.startTime ?? "TBA"))].sort((a, b) =>
+    a === "TBA" ? 1 : b === "TBA" ? -1 : a.localeCompare(b),
+  );
+  const rows = slots.map((slot) => {
+    const cells: Record<string, TimetableSheetCell[]> = {};
+    for (const { day } of days) {
+      cells[day] = data.entries
+        .filter((entry) => entry.dayOfWeek === day && (entry.startTime ?? "TBA") === slot)
+        .map((entry) => ({
+          id: entry.id,
+          courseCode: entry.course.code,
+          courseName: courseNameFor(entry.course, language),
+          time: entry.startTime ? `${entry.startTime}${entry.endTime ? `–${entry.endTime}` : ""}` : (entry.rawTime ?? "TBA"),
+          room: `${t(language, "timetableRoom")}: ${entry.room ?? "TBA"}`,
+          lecturers:
+            entry.lecturers.length > 0
+              ? `${t(language, "timetableLecturer")}: ${entry.lecturers.map((lecturer) => lecturer.name).join(", ")}`
+              : "",
+          note: week ? null : formatWeekNote(entry),
+        }));
+    }
+
+    return { slot, cells };
+  });
+
+  const classLabel = `${data.selected.cohortCode ?? ""} ${data.selected.classGroupName}`.trim();
+  const weekLabel = week
+    ? `${t(language, "timetableWeek")} ${week.week} · ${formatShortDate(week.startDate)}–${formatShortDate(week.endDate)}`
+    : t(language, "timetableWholeSemester");
+
+  return {
+    language,
+    title: `${t(language, "timetableTitle")} · ${classLabel}`,
+    subtitle: `${semester.label} · ${weekLabel}`,
+    filename: `tkb-${slugify(semester.key)}-${slugify(classLabel)}${week ? `-w${week.week}` : ""}.pdf`,
+    days,
+    rows,
+  };
+}